@@ -9,6 +9,7 @@ import { ProtectedRoute } from "@/components/auth/ProtectedRoute";
 import Index from "./pages/Index";
 import Recipes from "./pages/Recipes";
 import FoodDatabase from "./pages/FoodDatabase";
+import FoodDiary from "./pages/FoodDiary";
 import ReadyMeals from "./pages/ReadyMeals";
 import ShoppingPlanning from "./pages/ShoppingPlanning";
 import Community from "./pages/Community";
@@ -36,6 +37,7 @@ const App = () => (
             <Routes>
               <Route path="/" element={<ProtectedRoute><Index /></ProtectedRoute>} />
               <Route path="/recipes" element={<ProtectedRoute><Recipes /></ProtectedRoute>} />
+              <Route path="/diary" element={<ProtectedRoute><FoodDiary /></ProtectedRoute>} />
               <Route path="/food-database" element={<ProtectedRoute><FoodDatabase /></ProtectedRoute>} />
               <Route path="/ready-meals" element={<ProtectedRoute><ReadyMeals /></ProtectedRoute>} />
               <Route path="/planning" element={<ProtectedRoute><ShoppingPlanning /></ProtectedRoute>} />
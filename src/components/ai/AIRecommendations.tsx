@@ -5,23 +5,20 @@ import { Badge } from "@/components/ui/badge";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { Sparkles, Clock, Users, Calendar, RefreshCw } from "lucide-react";
-import { Rating } from "@/components/ui/rating";
-
-interface MealRecommendation {
-  name: string;
-  type: "breakfast" | "lunch" | "dinner";
-  description: string;
-  prepTime: number;
-  cookTime: number;
-  servings: number;
-  calories: number;
-  protein: number;
-  carbs: number;
-  fat: number;
-  ingredients: string[];
-  tags: string[];
-  reason: string;
-}
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { MealRecommendation, MealRecommendationService } from "@/services/mealRecommendations";
+import { format } from "date-fns";
+
+const MEAL_TYPES = [
+  { value: 'breakfast', label: 'Breakfast' },
+  { value: 'lunch', label: 'Lunch' },
+  { value: 'dinner', label: 'Dinner' },
+  { value: 'snack', label: 'Snack' },
+];
 
 interface AIRecommendationsProps {
   className?: string;
@@ -30,81 +27,28 @@ interface AIRecommendationsProps {
 export function AIRecommendations({ className }: AIRecommendationsProps) {
   const [recommendations, setRecommendations] = useState<MealRecommendation[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [selectedMeal, setSelectedMeal] = useState<MealRecommendation | null>(null);
+  const [planForm, setPlanForm] = useState({
+    date: format(new Date(), 'yyyy-MM-dd'),
+    mealType: 'dinner',
+    saveAsRecipe: true,
+  });
+  const [isAdding, setIsAdding] = useState(false);
   const { toast } = useToast();
 
   const generateRecommendations = async () => {
     setIsLoading(true);
     
     try {
-      // OpenAI connection disabled - using fallback recommendations
-      const fallbackRecommendations: MealRecommendation[] = [
-        {
-          name: "Mediterranean Quinoa Bowl",
-          type: "lunch",
-          description: "Protein-rich quinoa with fresh vegetables, feta, and olive oil dressing",
-          prepTime: 15,
-          cookTime: 20,
-          servings: 2,
-          calories: 420,
-          protein: 18,
-          carbs: 55,
-          fat: 14,
-          ingredients: ["quinoa", "cucumber", "tomatoes", "feta cheese", "olive oil", "lemon"],
-          tags: ["vegetarian", "mediterranean", "high-protein"],
-          reason: "Perfect balance of protein and complex carbs for sustained energy"
-        },
-        {
-          name: "British Fish & Chips (Baked)",
-          type: "dinner", 
-          description: "Healthier baked version of the classic with crispy potatoes",
-          prepTime: 10,
-          cookTime: 35,
-          servings: 4,
-          calories: 485,
-          protein: 32,
-          carbs: 58,
-          fat: 12,
-          ingredients: ["white fish fillets", "potatoes", "flour", "breadcrumbs", "peas"],
-          tags: ["british", "comfort-food", "baked"],
-          reason: "Healthier take on British classic with great protein content"
-        },
-        {
-          name: "British Fish & Chips (Baked)",
-          type: "dinner", 
-          description: "Healthier baked version of the classic with crispy potatoes",
-          prepTime: 10,
-          cookTime: 35,
-          servings: 4,
-          calories: 485,
-          protein: 32,
-          carbs: 58,
-          fat: 12,
-          ingredients: ["white fish fillets", "potatoes", "flour", "breadcrumbs", "peas"],
-          tags: ["british", "comfort-food", "baked"],
-          reason: "Healthier take on British classic with great protein content"
-        },
-        {
-          name: "Veggie Breakfast Wrap",
-          type: "breakfast",
-          description: "Scrambled eggs with vegetables in a whole wheat wrap",
-          prepTime: 5,
-          cookTime: 10,
-          servings: 1,
-          calories: 320,
-          protein: 18,
-          carbs: 28,
-          fat: 16,
-          ingredients: ["eggs", "spinach", "tomatoes", "cheese", "whole wheat wrap"],
-          tags: ["vegetarian", "quick", "protein-rich"],
-          reason: "High protein breakfast to start your day right"
-        }
-      ];
-      
-      setRecommendations(fallbackRecommendations);
-      
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const results = await MealRecommendationService.getRecommendations(user.id);
+      setRecommendations(results);
+
       toast({
         title: "Meal Recommendations Ready",
-        description: `Found ${fallbackRecommendations.length} personalized meal suggestions`,
+        description: `Found ${results.length} personalized meal suggestions`,
       });
 
     } catch (error) {
@@ -132,14 +76,49 @@ export function AIRecommendations({ className }: AIRecommendationsProps) {
     }
   };
 
-  const addToMealPlan = (meal: MealRecommendation) => {
-    // In a real app, this would add to the user's meal plan
-    toast({
-      title: "Added to Meal Plan",
-      description: `${meal.name} has been added to your meal plan`,
+  const openAddToPlan = (meal: MealRecommendation) => {
+    setSelectedMeal(meal);
+    setPlanForm({
+      date: format(new Date(), 'yyyy-MM-dd'),
+      mealType: meal.type,
+      saveAsRecipe: true,
     });
   };
 
+  const addToMealPlan = async () => {
+    if (!selectedMeal) return;
+
+    setIsAdding(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        toast({
+          title: "Error",
+          description: "You must be logged in to plan meals",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      await MealRecommendationService.addToMealPlan(user.id, selectedMeal, planForm);
+
+      toast({
+        title: "Added to Meal Plan",
+        description: `${selectedMeal.name} has been added to your meal plan`,
+      });
+      setSelectedMeal(null);
+    } catch (error) {
+      console.error('Error adding recommendation to meal plan:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add meal to your plan",
+        variant: "destructive",
+      });
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
   return (
     <Card className={className}>
       <CardHeader>
@@ -170,8 +149,8 @@ export function AIRecommendations({ className }: AIRecommendationsProps) {
           </div>
         ) : (
           <div className="space-y-4">
-            {recommendations.map((meal, index) => (
-              <div key={index} className="border rounded-lg p-4 hover:bg-muted/30 transition-colors">
+            {recommendations.map((meal) => (
+              <div key={meal.name} className="border rounded-lg p-4 hover:bg-muted/30 transition-colors">
                 <div className="flex items-start justify-between mb-3">
                   <div className="flex-1">
                     <div className="flex items-center gap-2 mb-2">
@@ -211,7 +190,7 @@ export function AIRecommendations({ className }: AIRecommendationsProps) {
                     variant="outline" 
                     size="sm" 
                     className="flex-1"
-                    onClick={() => addToMealPlan(meal)}
+                    onClick={() => openAddToPlan(meal)}
                   >
                     <Calendar className="h-3 w-3 mr-1" />
                     Add to Plan
@@ -225,6 +204,63 @@ export function AIRecommendations({ className }: AIRecommendationsProps) {
           </div>
         )}
       </CardContent>
+
+      <Dialog open={!!selectedMeal} onOpenChange={(open) => !open && setSelectedMeal(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Add {selectedMeal?.name} to Meal Plan</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="plan-date">Date</Label>
+              <Input
+                id="plan-date"
+                type="date"
+                value={planForm.date}
+                onChange={(e) => setPlanForm(prev => ({ ...prev, date: e.target.value }))}
+              />
+            </div>
+
+            <div>
+              <Label>Meal Type</Label>
+              <Select
+                value={planForm.mealType}
+                onValueChange={(value) => setPlanForm(prev => ({ ...prev, mealType: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MEAL_TYPES.map(type => (
+                    <SelectItem key={type.value} value={type.value}>
+                      {type.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="save-as-recipe"
+                checked={planForm.saveAsRecipe}
+                onCheckedChange={(checked) => setPlanForm(prev => ({ ...prev, saveAsRecipe: checked === true }))}
+              />
+              <Label htmlFor="save-as-recipe">Also save as a recipe</Label>
+            </div>
+
+            <div className="flex gap-2 justify-end">
+              <Button variant="outline" onClick={() => setSelectedMeal(null)}>
+                Cancel
+              </Button>
+              <Button onClick={addToMealPlan} disabled={isAdding || !planForm.date}>
+                {isAdding ? 'Adding...' : 'Add to Plan'}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
     </Card>
   );
 }
\ No newline at end of file
@@ -0,0 +1,195 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { Edit2, Plus, ShieldAlert, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { ALLERGENS, ALLERGEN_LABELS, Allergen, isAllergen } from "@/lib/allergens";
+import { AllergenProfile, AllergenProfileInput, AllergenService } from "@/services/allergens";
+
+const EMPTY_FORM: AllergenProfileInput = { name: '', allergens: [], notes: '' };
+
+export function AllergenProfiles() {
+  const [profiles, setProfiles] = useState<AllergenProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState<AllergenProfileInput | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  const loadProfiles = async () => {
+    if (!user) return;
+
+    setLoading(true);
+    try {
+      setProfiles(await AllergenService.getProfiles(user.id));
+    } catch (error) {
+      console.error('Error loading allergen profiles:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadProfiles();
+  }, [user]);
+
+  const toggleAllergen = (allergen: Allergen, checked: boolean) => {
+    setForm(prev => prev && ({
+      ...prev,
+      allergens: checked
+        ? [...prev.allergens, allergen]
+        : prev.allergens.filter(existing => existing !== allergen),
+    }));
+  };
+
+  const saveProfile = async () => {
+    if (!user || !form) return;
+
+    if (!form.name.trim()) {
+      toast({
+        title: "Error",
+        description: "Give this profile a name",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await AllergenService.saveProfile(user.id, form);
+      toast({
+        title: "Saved",
+        description: `Allergens saved for ${form.name.trim()}`,
+      });
+      setForm(null);
+      await loadProfiles();
+    } catch (error) {
+      console.error('Error saving allergen profile:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save allergen profile. Profile names must be unique.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deleteProfile = async (profile: AllergenProfile) => {
+    try {
+      await AllergenService.deleteProfile(profile.id);
+      setProfiles(prev => prev.filter(existing => existing.id !== profile.id));
+    } catch (error) {
+      console.error('Error deleting allergen profile:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete allergen profile",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldAlert className="h-5 w-5" />
+          Allergens &amp; Intolerances
+        </CardTitle>
+        <CardDescription>
+          Add yourself and anyone you cook for. You'll be warned when a food, recipe or shopping list contains something they avoid.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : profiles.length === 0 && !form ? (
+          <p className="text-sm text-muted-foreground">No allergen profiles yet.</p>
+        ) : (
+          profiles.map(profile => (
+            <div key={profile.id} className="flex items-start justify-between gap-2 border rounded-lg p-3">
+              <div className="space-y-1">
+                <p className="font-medium">{profile.name}</p>
+                <div className="flex flex-wrap gap-1">
+                  {profile.allergens.length === 0 && (
+                    <span className="text-xs text-muted-foreground">Nothing flagged</span>
+                  )}
+                  {profile.allergens.filter(isAllergen).map(allergen => (
+                    <Badge key={allergen} variant="secondary" className="text-xs">{ALLERGEN_LABELS[allergen]}</Badge>
+                  ))}
+                </div>
+                {profile.notes && <p className="text-xs text-muted-foreground">{profile.notes}</p>}
+              </div>
+              <div className="flex gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setForm({ id: profile.id, name: profile.name, allergens: profile.allergens, notes: profile.notes })}
+                >
+                  <Edit2 className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => deleteProfile(profile)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+
+        {form ? (
+          <div className="space-y-4 border rounded-lg p-4">
+            <div>
+              <Label htmlFor="allergen-profile-name">Name</Label>
+              <Input
+                id="allergen-profile-name"
+                placeholder="e.g. Me"
+                value={form.name}
+                onChange={(e) => setForm(prev => prev && ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {ALLERGENS.map(allergen => (
+                <div key={allergen} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`allergen-${allergen}`}
+                    checked={form.allergens.includes(allergen)}
+                    onCheckedChange={(checked) => toggleAllergen(allergen, !!checked)}
+                  />
+                  <Label htmlFor={`allergen-${allergen}`} className="text-sm font-normal">
+                    {ALLERGEN_LABELS[allergen]}
+                  </Label>
+                </div>
+              ))}
+            </div>
+            <div>
+              <Label htmlFor="allergen-profile-notes">Notes</Label>
+              <Textarea
+                id="allergen-profile-notes"
+                placeholder="e.g. Intolerant rather than allergic, small amounts are fine"
+                value={form.notes || ''}
+                onChange={(e) => setForm(prev => prev && ({ ...prev, notes: e.target.value }))}
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setForm(null)}>Cancel</Button>
+              <Button onClick={saveProfile} disabled={isSaving}>
+                {isSaving ? 'Saving...' : 'Save Profile'}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button variant="outline" onClick={() => setForm({ ...EMPTY_FORM })}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Person
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
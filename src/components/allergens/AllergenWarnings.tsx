@@ -0,0 +1,40 @@
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertTriangle } from "lucide-react";
+import { AllergenWarning, describeAllergenWarning } from "@/lib/allergens";
+
+interface AllergenWarningsProps {
+  warnings: AllergenWarning[];
+  // The check itself failed. No warnings must not read as "safe" then.
+  failed?: boolean;
+  className?: string;
+}
+
+export function AllergenWarnings({ warnings, failed, className }: AllergenWarningsProps) {
+  if (failed) {
+    return (
+      <Alert variant="destructive" className={className}>
+        <AlertTriangle className="h-4 w-4" />
+        <AlertTitle>Couldn't check allergens</AlertTitle>
+        <AlertDescription>
+          We couldn't check this against your allergen profiles. Check the ingredients yourself before going ahead.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (warnings.length === 0) return null;
+
+  return (
+    <Alert variant="destructive" className={className}>
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>Contains allergens you've flagged</AlertTitle>
+      <AlertDescription>
+        <ul className="list-disc pl-4 space-y-1">
+          {warnings.map(warning => (
+            <li key={warning.allergen}>{describeAllergenWarning(warning)}</li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+}
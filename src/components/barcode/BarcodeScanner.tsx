@@ -1,8 +1,9 @@
 import { useState, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import { Camera, X, Flashlight } from "lucide-react";
+import { Camera, X, Flashlight, FlashlightOff, SwitchCamera } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { BarcodeConfirmation, createRetailBarcodeReader, decodeBarcode } from "@/lib/barcode";
 
 interface BarcodeScannerProps {
   isOpen: boolean;
@@ -10,44 +11,91 @@ interface BarcodeScannerProps {
   onBarcodeScanned: (barcode: string) => void;
 }
 
+// Decoding every animation frame is wasteful on phones
+const SCAN_INTERVAL_MS = 120;
+const CONFIRMATION_FRAMES = 3;
+
+type TorchConstraint = MediaTrackConstraintSet & { torch?: boolean };
+
 export function BarcodeScanner({ isOpen, onClose, onBarcodeScanned }: BarcodeScannerProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const frameRef = useRef<number | null>(null);
+  const lastScanRef = useRef(0);
+  const readerRef = useRef(createRetailBarcodeReader());
+  const confirmationRef = useRef(new BarcodeConfirmation(CONFIRMATION_FRAMES));
+  // Bumped whenever the camera stops, so a start still waiting on
+  // getUserMedia knows it has been cancelled
+  const sessionRef = useRef(0);
+  // The scan loop outlives renders, so it reads the latest callbacks from here
+  const onBarcodeScannedRef = useRef(onBarcodeScanned);
+  const onCloseRef = useRef(onClose);
   const [isScanning, setIsScanning] = useState(false);
   const [hasPermission, setHasPermission] = useState<boolean | null>(null);
-  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+  const [cameraIndex, setCameraIndex] = useState<number | null>(null);
+  const [torchSupported, setTorchSupported] = useState(false);
+  const [torchOn, setTorchOn] = useState(false);
   const { toast } = useToast();
 
+  onBarcodeScannedRef.current = onBarcodeScanned;
+  onCloseRef.current = onClose;
+
   useEffect(() => {
     if (isOpen) {
-      startCamera();
+      startCamera(cameraIndex);
     } else {
       stopCamera();
     }
 
     return () => stopCamera();
-  }, [isOpen]);
+  }, [isOpen, cameraIndex]);
+
+  const startCamera = async (index: number | null) => {
+    stopCamera();
+    const session = sessionRef.current;
+    const cancelled = () => session !== sessionRef.current;
 
-  const startCamera = async () => {
     try {
+      const deviceId = index !== null ? cameras[index]?.deviceId : undefined;
       const mediaStream = await navigator.mediaDevices.getUserMedia({
-        video: { 
-          facingMode: { ideal: "environment" }, // Use back camera
+        video: {
+          ...(deviceId ? { deviceId: { exact: deviceId } } : { facingMode: { ideal: "environment" } }), // Use back camera
           width: { ideal: 1280 },
           height: { ideal: 720 }
         }
       });
-      
-      setStream(mediaStream);
+
+      // The dialog closed (or another start began) while we waited
+      if (cancelled()) {
+        mediaStream.getTracks().forEach(track => track.stop());
+        return;
+      }
+
+      streamRef.current = mediaStream;
       setHasPermission(true);
-      
+
+      // Device labels are only available once permission has been granted
+      const devices = await navigator.mediaDevices.enumerateDevices();
+      setCameras(devices.filter(device => device.kind === 'videoinput'));
+
+      const [track] = mediaStream.getVideoTracks();
+      const capabilities = track?.getCapabilities?.() as MediaTrackCapabilities & { torch?: boolean } | undefined;
+      setTorchSupported(!!capabilities?.torch);
+      setTorchOn(false);
+
       if (videoRef.current) {
         videoRef.current.srcObject = mediaStream;
-        videoRef.current.play();
+        await videoRef.current.play();
       }
-      
+      if (cancelled()) return;
+
+      confirmationRef.current.reset();
       setIsScanning(true);
-      startBarcodeDetection();
+      frameRef.current = requestAnimationFrame(scanFrame);
     } catch (error) {
+      if (cancelled()) return;
       console.error("Camera access denied:", error);
       setHasPermission(false);
       toast({
@@ -59,59 +107,77 @@ export function BarcodeScanner({ isOpen, onClose, onBarcodeScanned }: BarcodeSca
   };
 
   const stopCamera = () => {
-    if (stream) {
-      stream.getTracks().forEach(track => track.stop());
-      setStream(null);
+    sessionRef.current++;
+    if (frameRef.current !== null) {
+      cancelAnimationFrame(frameRef.current);
+      frameRef.current = null;
+    }
+    if (streamRef.current) {
+      streamRef.current.getTracks().forEach(track => track.stop());
+      streamRef.current = null;
     }
     setIsScanning(false);
-    setHasPermission(null);
   };
 
-  const startBarcodeDetection = () => {
-    // Simple barcode detection using canvas
-    const detectBarcode = () => {
-      if (!videoRef.current || !isScanning) return;
-
-      const video = videoRef.current;
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      
-      if (!ctx) return;
-
-      canvas.width = video.videoWidth;
-      canvas.height = video.videoHeight;
-      ctx.drawImage(video, 0, 0);
-
-      // Simulate barcode detection for demo
-      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-      
-      // Simulate finding real barcodes occasionally
-      if (Math.random() > 0.97) { // 3% chance per frame
-        const realBarcodes = [
-          "3017620422003", // Nutella
-          "5000169005743", // Cadbury Dairy Milk
-          "8712566441174", // Heinz Baked Beans
-          "5449000000996", // Coca Cola
-          "3228857000906", // Evian Water
-        ];
-        const mockBarcode = realBarcodes[Math.floor(Math.random() * realBarcodes.length)];
-        onBarcodeScanned(mockBarcode);
-        onClose();
-        toast({
-          title: "Barcode Scanned",
-          description: `Found barcode: ${mockBarcode}`,
-        });
-        return;
+  const scanFrame = (timestamp: number) => {
+    const video = videoRef.current;
+    if (!video || !streamRef.current) return;
+
+    if (timestamp - lastScanRef.current >= SCAN_INTERVAL_MS && video.readyState >= video.HAVE_CURRENT_DATA) {
+      lastScanRef.current = timestamp;
+
+      if (!canvasRef.current) {
+        canvasRef.current = document.createElement('canvas');
       }
+      const canvas = canvasRef.current;
+      const ctx = canvas.getContext('2d', { willReadFrequently: true });
+
+      if (ctx && video.videoWidth > 0) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        ctx.drawImage(video, 0, 0);
+
+        const decoded = decodeBarcode(ctx.getImageData(0, 0, canvas.width, canvas.height), readerRef.current);
+        const confirmed = confirmationRef.current.push(decoded?.text ?? null);
 
-      // Continue scanning
-      if (isScanning) {
-        requestAnimationFrame(detectBarcode);
+        if (confirmed) {
+          stopCamera();
+          onBarcodeScannedRef.current(confirmed);
+          onCloseRef.current();
+          toast({
+            title: "Barcode Scanned",
+            description: `Found barcode: ${confirmed}`,
+          });
+          return;
+        }
       }
-    };
+    }
 
-    // Start detection after a small delay
-    setTimeout(detectBarcode, 1000);
+    frameRef.current = requestAnimationFrame(scanFrame);
+  };
+
+  const toggleTorch = async () => {
+    const track = streamRef.current?.getVideoTracks()[0];
+    if (!track) return;
+
+    try {
+      await track.applyConstraints({ advanced: [{ torch: !torchOn } as TorchConstraint] });
+      setTorchOn(!torchOn);
+    } catch (error) {
+      console.error("Error toggling torch:", error);
+      toast({
+        title: "Error",
+        description: "Could not switch the torch on this device",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const switchCamera = () => {
+    if (cameras.length < 2) return;
+    const currentId = streamRef.current?.getVideoTracks()[0]?.getSettings().deviceId;
+    const currentIndex = cameras.findIndex(camera => camera.deviceId === currentId);
+    setCameraIndex((currentIndex + 1) % cameras.length);
   };
 
   const handleManualEntry = () => {
@@ -139,7 +205,7 @@ export function BarcodeScanner({ isOpen, onClose, onBarcodeScanned }: BarcodeSca
               <p className="text-sm text-muted-foreground mb-4">
                 Camera access is required to scan barcodes. Please enable camera permissions and try again.
               </p>
-              <Button onClick={startCamera}>
+              <Button onClick={() => startCamera(cameraIndex)}>
                 Enable Camera
               </Button>
             </div>
@@ -152,7 +218,7 @@ export function BarcodeScanner({ isOpen, onClose, onBarcodeScanned }: BarcodeSca
                 muted
                 playsInline
               />
-              
+
               {isScanning && (
                 <div className="absolute inset-0 flex items-center justify-center">
                   <div className="border-2 border-primary rounded-lg w-48 h-32">
@@ -173,9 +239,14 @@ export function BarcodeScanner({ isOpen, onClose, onBarcodeScanned }: BarcodeSca
             <Button variant="outline" onClick={handleManualEntry}>
               Enter Manually
             </Button>
-            {hasPermission && (
-              <Button variant="outline" size="icon">
-                <Flashlight className="h-4 w-4" />
+            {hasPermission && torchSupported && (
+              <Button variant="outline" size="icon" onClick={toggleTorch}>
+                {torchOn ? <FlashlightOff className="h-4 w-4" /> : <Flashlight className="h-4 w-4" />}
+              </Button>
+            )}
+            {hasPermission && cameras.length > 1 && (
+              <Button variant="outline" size="icon" onClick={switchCamera}>
+                <SwitchCamera className="h-4 w-4" />
               </Button>
             )}
           </div>
@@ -187,4 +258,4 @@ export function BarcodeScanner({ isOpen, onClose, onBarcodeScanned }: BarcodeSca
       </DialogContent>
     </Dialog>
   );
-}
\ No newline at end of file
+}
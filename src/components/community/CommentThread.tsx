@@ -0,0 +1,152 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Edit2, EyeOff, Eye, Flag, Reply, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { CommentNode, MAX_THREAD_DEPTH } from "@/lib/commentThreads";
+import { RecipeComment } from "@/services/recipeComments";
+
+type CommentWithReplies = CommentNode<RecipeComment>;
+
+interface CommentThreadProps {
+  comments: CommentWithReplies[];
+  currentUserId: string | null;
+  // The recipe owner and moderators can hide comments and still read them
+  canModerate: boolean;
+  getAuthorName: (userId: string) => string;
+  onReply: (parentId: string, text: string) => Promise<boolean>;
+  onEdit: (commentId: string, text: string) => Promise<boolean>;
+  onDelete: (comment: RecipeComment) => void;
+  onReport: (comment: RecipeComment) => void;
+  onToggleHidden: (comment: RecipeComment) => void;
+  depth?: number;
+}
+
+export function CommentThread(props: CommentThreadProps) {
+  const { comments, depth = 0 } = props;
+
+  return (
+    <div className="space-y-3">
+      {comments.map(comment => (
+        <CommentItem key={comment.id} {...props} comment={comment} depth={depth} />
+      ))}
+    </div>
+  );
+}
+
+function CommentItem({
+  comment,
+  depth,
+  ...props
+}: CommentThreadProps & { comment: CommentWithReplies; depth: number }) {
+  const { currentUserId, canModerate, getAuthorName, onReply, onEdit, onDelete, onReport, onToggleHidden } = props;
+  const [mode, setMode] = useState<'view' | 'reply' | 'edit'>('view');
+  const [text, setText] = useState('');
+
+  const isOwn = comment.user_id === currentUserId;
+  const isDeleted = !!comment.deleted_at;
+  const isHidden = !!comment.hidden_at;
+  // Hidden comments stay readable to whoever can unhide them
+  const showBody = !isDeleted && (!isHidden || canModerate);
+
+  const submit = async () => {
+    if (!text.trim()) return;
+    const saved = mode === 'edit'
+      ? await onEdit(comment.id, text.trim())
+      : await onReply(comment.id, text.trim());
+    if (saved) {
+      setMode('view');
+      setText('');
+    }
+  };
+
+  // Past the maximum depth, replies line up under their parent instead of
+  // indenting further
+  const replies = comment.replies.length > 0 && (
+    <CommentThread {...props} comments={comment.replies} depth={depth + 1} />
+  );
+  const nestReplies = depth < MAX_THREAD_DEPTH;
+
+  return (
+    <>
+      <div className="border-l-2 border-muted pl-4">
+        <div className="flex items-center justify-between mb-1">
+          <span className="font-medium text-sm">
+            {isDeleted ? 'Deleted comment' : getAuthorName(comment.user_id)}
+          </span>
+          <span className="text-xs text-muted-foreground">
+            {new Date(comment.created_at).toLocaleDateString()}
+            {comment.edited_at && !isDeleted && ' · edited'}
+          </span>
+        </div>
+
+        {isHidden && !isDeleted && (
+          <Badge variant="outline" className="text-xs mb-1">Hidden</Badge>
+        )}
+
+        {mode === 'edit' ? null : showBody ? (
+          <p className={cn("text-sm whitespace-pre-wrap", isHidden && "text-muted-foreground")}>{comment.comment}</p>
+        ) : (
+          <p className="text-sm italic text-muted-foreground">
+            {isDeleted ? 'This comment was deleted.' : 'This comment was hidden.'}
+          </p>
+        )}
+
+        {mode !== 'view' ? (
+          <div className="flex gap-2 mt-2">
+            <Textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder={mode === 'reply' ? 'Write a reply...' : undefined}
+              className="flex-1"
+              rows={2}
+              autoFocus
+            />
+            <div className="flex flex-col gap-1">
+              <Button size="sm" onClick={submit} disabled={!text.trim()}>
+                {mode === 'reply' ? 'Reply' : 'Save'}
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => setMode('view')}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : !isDeleted && currentUserId && (
+          <div className="flex gap-1 mt-1">
+            <Button size="sm" variant="ghost" className="h-7 px-2 text-xs" onClick={() => { setText(''); setMode('reply'); }}>
+              <Reply className="h-3 w-3 mr-1" />
+              Reply
+            </Button>
+            {isOwn ? (
+              <>
+                <Button size="sm" variant="ghost" className="h-7 px-2 text-xs" onClick={() => { setText(comment.comment); setMode('edit'); }}>
+                  <Edit2 className="h-3 w-3 mr-1" />
+                  Edit
+                </Button>
+                <Button size="sm" variant="ghost" className="h-7 px-2 text-xs text-destructive" onClick={() => onDelete(comment)}>
+                  <Trash2 className="h-3 w-3 mr-1" />
+                  Delete
+                </Button>
+              </>
+            ) : (
+              <Button size="sm" variant="ghost" className="h-7 px-2 text-xs" onClick={() => onReport(comment)}>
+                <Flag className="h-3 w-3 mr-1" />
+                Report
+              </Button>
+            )}
+            {canModerate && (
+              <Button size="sm" variant="ghost" className="h-7 px-2 text-xs" onClick={() => onToggleHidden(comment)}>
+                {isHidden ? <Eye className="h-3 w-3 mr-1" /> : <EyeOff className="h-3 w-3 mr-1" />}
+                {isHidden ? 'Unhide' : 'Hide'}
+              </Button>
+            )}
+          </div>
+        )}
+
+        {nestReplies && replies && <div className="mt-3">{replies}</div>}
+      </div>
+      {!nestReplies && replies}
+    </>
+  );
+}
@@ -0,0 +1,129 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { CheckCircle, EyeOff, ShieldCheck, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { REPORT_REASONS } from "@/lib/commentThreads";
+import { CommentReportGroup, ModerationAction, RecipeCommentService } from "@/services/recipeComments";
+
+const ACTION_MESSAGES: Record<ModerationAction, string> = {
+  dismiss: 'Reports dismissed',
+  hide: 'Comment hidden',
+  delete: 'Comment deleted',
+};
+
+export function ModerationQueue() {
+  const [groups, setGroups] = useState<CommentReportGroup[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const loadReports = async () => {
+    setLoading(true);
+    try {
+      setGroups(await RecipeCommentService.getOpenReports());
+    } catch (error) {
+      console.error('Error loading reports:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load reported comments",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const resolve = async (group: CommentReportGroup, action: ModerationAction) => {
+    setBusyId(group.comment.id);
+    try {
+      await RecipeCommentService.resolveReports(group.comment.id, action);
+      setGroups(prev => prev.filter(g => g.comment.id !== group.comment.id));
+      toast({
+        title: ACTION_MESSAGES[action],
+        description: `${group.reports.length} report${group.reports.length === 1 ? '' : 's'} closed`,
+      });
+    } catch (error) {
+      console.error('Error resolving reports:', error);
+      toast({
+        title: "Error",
+        description: "Failed to resolve reports",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  useEffect(() => {
+    loadReports();
+  }, []);
+
+  if (loading) {
+    return <p className="text-center text-muted-foreground py-8">Loading reports...</p>;
+  }
+
+  if (groups.length === 0) {
+    return (
+      <Card>
+        <CardContent className="p-6 text-center">
+          <ShieldCheck className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+          <h3 className="text-lg font-semibold mb-2">No open reports</h3>
+          <p className="text-muted-foreground">Reported comments will appear here.</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {groups.map(group => (
+        <Card key={group.comment.id}>
+          <CardHeader className="pb-2">
+            <div className="flex items-center justify-between gap-2">
+              <CardTitle className="text-base">
+                {group.recipeName ? `Comment on ${group.recipeName}` : 'Comment'}
+              </CardTitle>
+              <Badge variant="destructive">
+                {group.reports.length} report{group.reports.length === 1 ? '' : 's'}
+              </Badge>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <p className="text-sm whitespace-pre-wrap border-l-2 border-muted pl-4">
+              {group.comment.deleted_at ? <em className="text-muted-foreground">Deleted by its author</em> : group.comment.comment}
+            </p>
+            {group.comment.hidden_at && <Badge variant="outline">Already hidden</Badge>}
+
+            <ul className="space-y-1 text-sm text-muted-foreground">
+              {group.reports.map(report => (
+                <li key={report.id}>
+                  <span className="font-medium text-foreground">
+                    {REPORT_REASONS.find(r => r.value === report.reason)?.label || report.reason}
+                  </span>
+                  {report.details && ` — ${report.details}`}
+                </li>
+              ))}
+            </ul>
+
+            <div className="flex gap-2">
+              <Button size="sm" variant="outline" disabled={busyId === group.comment.id} onClick={() => resolve(group, 'dismiss')}>
+                <CheckCircle className="h-4 w-4 mr-2" />
+                Dismiss
+              </Button>
+              <Button size="sm" variant="outline" disabled={busyId === group.comment.id} onClick={() => resolve(group, 'hide')}>
+                <EyeOff className="h-4 w-4 mr-2" />
+                Hide
+              </Button>
+              <Button size="sm" variant="destructive" disabled={busyId === group.comment.id} onClick={() => resolve(group, 'delete')}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -8,9 +8,25 @@ import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Rating } from "@/components/ui/rating";
-import { Share2, Heart, MessageCircle, Star, Clock, Users, ChefHat, TrendingUp } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Share2, Heart, MessageCircle, Star, Clock, Users, ChefHat, TrendingUp, ShieldAlert } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import { CommentThread } from "@/components/community/CommentThread";
+import { ModerationQueue } from "@/components/community/ModerationQueue";
+import { RecipeComment, RecipeCommentService } from "@/services/recipeComments";
+import { RatingSummary, RecipeRatingService } from "@/services/recipeRatings";
+import { buildCommentThreads, REPORT_REASONS, ReportReason } from "@/lib/commentThreads";
 
 interface SharedRecipe {
   id: string;
@@ -20,6 +36,7 @@ interface SharedRecipe {
   featured: boolean;
   total_ratings: number;
   average_rating: number;
+  bayesian_score: number;
   created_at: string;
   recipe: {
     id: string;
@@ -33,13 +50,6 @@ interface SharedRecipe {
   };
 }
 
-interface RecipeComment {
-  id: string;
-  comment: string;
-  created_at: string;
-  user_id: string;
-}
-
 export function RecipeSharingCommunity() {
   const [sharedRecipes, setSharedRecipes] = useState<SharedRecipe[]>([]);
   const [mySharedRecipes, setMySharedRecipes] = useState<SharedRecipe[]>([]);
@@ -48,10 +58,17 @@ export function RecipeSharingCommunity() {
   const [comments, setComments] = useState<RecipeComment[]>([]);
   const [newComment, setNewComment] = useState("");
   const [newRating, setNewRating] = useState(0);
+  const [myRating, setMyRating] = useState<number | null>(null);
   const [isShareDialogOpen, setIsShareDialogOpen] = useState(false);
   const [isViewDialogOpen, setIsViewDialogOpen] = useState(false);
   const [recipes, setRecipes] = useState<any[]>([]);
   const [selectedRecipeToShare, setSelectedRecipeToShare] = useState("");
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [isModerator, setIsModerator] = useState(false);
+  const [reportingComment, setReportingComment] = useState<RecipeComment | null>(null);
+  const [reportReason, setReportReason] = useState<ReportReason>('spam');
+  const [reportDetails, setReportDetails] = useState("");
+  const [deletingComment, setDeletingComment] = useState<RecipeComment | null>(null);
   
   const { toast } = useToast();
 
@@ -112,7 +129,7 @@ export function RecipeSharingCommunity() {
       `)
       .eq('featured', true)
       .eq('is_public', true)
-      .order('average_rating', { ascending: false })
+      .order('bayesian_score', { ascending: false })
       .limit(6);
 
     if (error) {
@@ -142,25 +159,28 @@ export function RecipeSharingCommunity() {
   };
 
   const loadRecipeComments = async (sharedRecipeId: string) => {
-    const { data, error } = await supabase
-      .from('recipe_comments')
-      .select(`
-        *
-      `)
-      .eq('shared_recipe_id', sharedRecipeId)
-      .is('parent_comment_id', null)
-      .order('created_at', { ascending: false });
-
-    if (error) {
+    try {
+      setComments(await RecipeCommentService.getComments(sharedRecipeId));
+    } catch (error) {
+      console.error('Error loading comments:', error);
       toast({
         title: "Error",
         description: "Failed to load comments",
         variant: "destructive",
       });
-      return;
     }
+  };
+
+  const loadCurrentUser = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
 
-    setComments(data || []);
+    setCurrentUserId(user.id);
+    try {
+      setIsModerator(await RecipeCommentService.isModerator(user.id));
+    } catch (error) {
+      console.error('Error checking moderator role:', error);
+    }
   };
 
   const shareRecipe = async () => {
@@ -211,9 +231,24 @@ export function RecipeSharingCommunity() {
     loadMySharedRecipes();
   };
 
+  // Applies a new rating summary everywhere the recipe is shown
+  const applyRatingSummary = (sharedRecipeId: string, summary: RatingSummary) => {
+    const update = (recipe: SharedRecipe) => recipe.id === sharedRecipeId
+      ? {
+        ...recipe,
+        average_rating: summary.average_rating || 0,
+        total_ratings: summary.total_ratings || 0,
+        bayesian_score: summary.bayesian_score,
+      }
+      : recipe;
+
+    setSharedRecipes(prev => prev.map(update));
+    setFeaturedRecipes(prev => prev.map(update));
+    setSelectedRecipe(prev => prev && update(prev));
+  };
+
   const rateRecipe = async (sharedRecipeId: string, rating: number) => {
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) {
+    if (!currentUserId) {
       toast({
         title: "Error",
         description: "You must be logged in to rate recipes",
@@ -222,15 +257,10 @@ export function RecipeSharingCommunity() {
       return;
     }
 
-    const { error } = await supabase
-      .from('recipe_ratings')
-      .upsert({
-        shared_recipe_id: sharedRecipeId,
-        user_id: user.id,
-        rating
-      });
-
-    if (error) {
+    try {
+      applyRatingSummary(sharedRecipeId, await RecipeRatingService.rate(sharedRecipeId, rating));
+    } catch (error) {
+      console.error('Error rating recipe:', error);
       toast({
         title: "Error",
         description: "Failed to rate recipe",
@@ -241,12 +271,30 @@ export function RecipeSharingCommunity() {
 
     toast({
       title: "Success",
-      description: "Recipe rated successfully!",
+      description: myRating ? "Your rating has been updated" : "Recipe rated successfully!",
     });
+    setMyRating(rating);
+  };
 
-    // Reload recipes to reflect updated ratings
-    loadCommunityRecipes();
-    loadFeaturedRecipes();
+  const removeRating = async (sharedRecipeId: string) => {
+    if (!currentUserId) return;
+
+    try {
+      applyRatingSummary(sharedRecipeId, await RecipeRatingService.removeRating(currentUserId, sharedRecipeId));
+      setMyRating(null);
+      setNewRating(0);
+      toast({
+        title: "Rating removed",
+        description: "Your rating no longer counts towards this recipe",
+      });
+    } catch (error) {
+      console.error('Error removing rating:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove rating",
+        variant: "destructive",
+      });
+    }
   };
 
   const addComment = async () => {
@@ -262,15 +310,10 @@ export function RecipeSharingCommunity() {
       return;
     }
 
-    const { error } = await supabase
-      .from('recipe_comments')
-      .insert({
-        shared_recipe_id: selectedRecipe.id,
-        user_id: user.id,
-        comment: newComment.trim()
-      });
-
-    if (error) {
+    try {
+      await RecipeCommentService.addComment(user.id, selectedRecipe.id, newComment.trim());
+    } catch (error) {
+      console.error('Error adding comment:', error);
       toast({
         title: "Error",
         description: "Failed to add comment",
@@ -283,10 +326,111 @@ export function RecipeSharingCommunity() {
     loadRecipeComments(selectedRecipe.id);
   };
 
-  const openRecipeView = (recipe: SharedRecipe) => {
+  // Thread actions report whether they succeeded so the thread can close its editor
+  const replyToComment = async (parentId: string, text: string) => {
+    if (!selectedRecipe || !currentUserId) return false;
+
+    try {
+      await RecipeCommentService.addComment(currentUserId, selectedRecipe.id, text, parentId);
+      loadRecipeComments(selectedRecipe.id);
+      return true;
+    } catch (error) {
+      console.error('Error replying to comment:', error);
+      toast({
+        title: "Error",
+        description: "Failed to post reply",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  const editComment = async (commentId: string, text: string) => {
+    try {
+      await RecipeCommentService.editComment(commentId, text);
+      if (selectedRecipe) loadRecipeComments(selectedRecipe.id);
+      return true;
+    } catch (error) {
+      console.error('Error editing comment:', error);
+      toast({
+        title: "Error",
+        description: "Failed to edit comment",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  const deleteComment = async (comment: RecipeComment) => {
+    setDeletingComment(null);
+    try {
+      await RecipeCommentService.deleteComment(comment.id);
+      if (selectedRecipe) loadRecipeComments(selectedRecipe.id);
+    } catch (error) {
+      console.error('Error deleting comment:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete comment",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const toggleCommentHidden = async (comment: RecipeComment) => {
+    try {
+      await RecipeCommentService.setHidden(comment.id, !comment.hidden_at);
+      if (selectedRecipe) loadRecipeComments(selectedRecipe.id);
+    } catch (error) {
+      console.error('Error hiding comment:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update comment",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const openReportDialog = (comment: RecipeComment) => {
+    setReportingComment(comment);
+    setReportReason('spam');
+    setReportDetails("");
+  };
+
+  const submitReport = async () => {
+    if (!reportingComment || !currentUserId) return;
+
+    try {
+      await RecipeCommentService.reportComment(currentUserId, reportingComment.id, reportReason, reportDetails.trim());
+      toast({
+        title: "Report sent",
+        description: "Thanks, a moderator will take a look.",
+      });
+      setReportingComment(null);
+    } catch (error) {
+      console.error('Error reporting comment:', error);
+      toast({
+        title: "Error",
+        description: "Failed to report comment",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const openRecipeView = async (recipe: SharedRecipe) => {
     setSelectedRecipe(recipe);
     setIsViewDialogOpen(true);
+    setMyRating(null);
+    setNewRating(0);
     loadRecipeComments(recipe.id);
+
+    if (!currentUserId || recipe.user_id === currentUserId) return;
+    try {
+      const rating = await RecipeRatingService.getMyRating(currentUserId, recipe.id);
+      setMyRating(rating);
+      setNewRating(rating || 0);
+    } catch (error) {
+      console.error('Error loading your rating:', error);
+    }
   };
 
   const getTotalTime = (recipe: any) => {
@@ -299,11 +443,18 @@ export function RecipeSharingCommunity() {
     return "Anonymous Chef"; // Simplified for now since we don't have profiles linked
   };
 
+  const getAuthorName = (userId: string) => userId === currentUserId ? "You" : getProfileName(null);
+
+  const commentThreads = buildCommentThreads(comments);
+  const visibleCommentCount = comments.filter(comment => !comment.deleted_at).length;
+  const canModerateComments = isModerator || (!!selectedRecipe && selectedRecipe.user_id === currentUserId);
+
   useEffect(() => {
     loadCommunityRecipes();
     loadMySharedRecipes();
     loadFeaturedRecipes();
     loadMyRecipes();
+    loadCurrentUser();
   }, []);
 
   return (
@@ -354,6 +505,12 @@ export function RecipeSharingCommunity() {
           <TabsTrigger value="discover">Discover</TabsTrigger>
           <TabsTrigger value="featured">Featured</TabsTrigger>
           <TabsTrigger value="my-shared">My Shared</TabsTrigger>
+          {isModerator && (
+            <TabsTrigger value="moderation" className="flex items-center gap-1">
+              <ShieldAlert className="h-4 w-4" />
+              Moderation
+            </TabsTrigger>
+          )}
         </TabsList>
 
         <TabsContent value="discover" className="space-y-4">
@@ -571,6 +728,13 @@ export function RecipeSharingCommunity() {
             </div>
           )}
         </TabsContent>
+
+        {isModerator && (
+          <TabsContent value="moderation" className="space-y-4">
+            <h3 className="text-lg font-semibold">Reported Comments</h3>
+            <ModerationQueue />
+          </TabsContent>
+        )}
       </Tabs>
 
       {/* Recipe View Dialog */}
@@ -596,20 +760,35 @@ export function RecipeSharingCommunity() {
                     by {getProfileName(null)}
                   </p>
                   
-                  <div className="flex items-center gap-2">
-                    <Rating 
-                      value={newRating}
-                      onValueChange={setNewRating}
-                      size="sm"
-                    />
-                    <Button 
-                      size="sm"
-                      onClick={() => rateRecipe(selectedRecipe.id, newRating)}
-                      disabled={newRating === 0}
-                    >
-                      Rate
-                    </Button>
-                  </div>
+                  {selectedRecipe.user_id === currentUserId ? (
+                    <span className="text-sm text-muted-foreground">
+                      Your recipe · {(selectedRecipe.average_rating || 0).toFixed(1)} ({selectedRecipe.total_ratings || 0} ratings)
+                    </span>
+                  ) : (
+                    <div className="flex items-center gap-2">
+                      <Rating 
+                        value={newRating}
+                        onValueChange={setNewRating}
+                        size="sm"
+                      />
+                      <Button 
+                        size="sm"
+                        onClick={() => rateRecipe(selectedRecipe.id, newRating)}
+                        disabled={newRating === 0 || newRating === myRating}
+                      >
+                        {myRating ? 'Update' : 'Rate'}
+                      </Button>
+                      {myRating && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => removeRating(selectedRecipe.id)}
+                        >
+                          Remove
+                        </Button>
+                      )}
+                    </div>
+                  )}
                 </div>
                 
                 {selectedRecipe.recipe.description && (
@@ -619,7 +798,7 @@ export function RecipeSharingCommunity() {
                 <div className="border-t pt-4">
                   <h4 className="font-semibold mb-2 flex items-center gap-2">
                     <MessageCircle className="h-4 w-4" />
-                    Comments ({comments.length})
+                    Comments ({visibleCommentCount})
                   </h4>
                   
                   <div className="space-y-4">
@@ -636,19 +815,17 @@ export function RecipeSharingCommunity() {
                       </Button>
                     </div>
                     
-                    {comments.map((comment) => (
-                      <div key={comment.id} className="border-l-2 border-muted pl-4">
-                        <div className="flex items-center justify-between mb-1">
-                          <span className="font-medium text-sm">
-                            {getProfileName(null)}
-                          </span>
-                          <span className="text-xs text-muted-foreground">
-                            {new Date(comment.created_at).toLocaleDateString()}
-                          </span>
-                        </div>
-                        <p className="text-sm">{comment.comment}</p>
-                      </div>
-                    ))}
+                    <CommentThread
+                      comments={commentThreads}
+                      currentUserId={currentUserId}
+                      canModerate={canModerateComments}
+                      getAuthorName={getAuthorName}
+                      onReply={replyToComment}
+                      onEdit={editComment}
+                      onDelete={setDeletingComment}
+                      onReport={openReportDialog}
+                      onToggleHidden={toggleCommentHidden}
+                    />
                   </div>
                 </div>
               </div>
@@ -656,6 +833,60 @@ export function RecipeSharingCommunity() {
           )}
         </DialogContent>
       </Dialog>
+
+      <Dialog open={!!reportingComment} onOpenChange={(open) => !open && setReportingComment(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Report Comment</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="report_reason">Reason</Label>
+              <Select value={reportReason} onValueChange={(value) => setReportReason(value as ReportReason)}>
+                <SelectTrigger id="report_reason">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {REPORT_REASONS.map(reason => (
+                    <SelectItem key={reason.value} value={reason.value}>
+                      {reason.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="report_details">Details (optional)</Label>
+              <Textarea
+                id="report_details"
+                value={reportDetails}
+                onChange={(e) => setReportDetails(e.target.value)}
+                rows={3}
+              />
+            </div>
+            <Button onClick={submitReport} className="w-full">
+              Send Report
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deletingComment} onOpenChange={(open) => !open && setDeletingComment(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete comment?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Your comment will be removed. Any replies to it stay in the thread.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => deletingComment && deleteComment(deletingComment)}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
\ No newline at end of file
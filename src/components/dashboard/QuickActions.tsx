@@ -2,8 +2,13 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Plus, Scan, Calendar, ShoppingCart } from "lucide-react";
 import { useNavigate } from "react-router-dom";
+import { DashboardStats } from "@/services/dashboard";
 
-export function QuickActions() {
+interface QuickActionsProps {
+  stats?: DashboardStats | null;
+}
+
+export function QuickActions({ stats }: QuickActionsProps) {
   const navigate = useNavigate();
 
   return (
@@ -14,18 +19,22 @@ export function QuickActions() {
       </CardHeader>
       <CardContent className="grid gap-3">
         <Button 
-          onClick={() => navigate('/planning')}
+          onClick={() => navigate('/diary')}
           className="justify-start h-auto p-4 bg-gradient-primary hover:opacity-90 transition-opacity"
         >
           <Plus className="mr-3 h-5 w-5" />
           <div className="text-left">
             <div className="font-semibold">Add New Meal</div>
-            <div className="text-xs opacity-90">Plan today's lunch or dinner</div>
+            <div className="text-xs opacity-90">
+              {stats && stats.mealsToday > 0
+                ? `Log today's meals (${stats.mealsToday} planned)`
+                : "Log today's lunch or dinner"}
+            </div>
           </div>
         </Button>
 
         <Button 
-          onClick={() => navigate('/food-database')}
+          onClick={() => navigate('/food-database?scan=1')}
           variant="outline" 
           className="justify-start h-auto p-4 border-2 hover:bg-muted/50 transition-colors"
         >
@@ -37,7 +46,7 @@ export function QuickActions() {
         </Button>
 
         <Button 
-          onClick={() => navigate('/planning')}
+          onClick={() => navigate('/planning?tab=calendar')}
           variant="outline" 
           className="justify-start h-auto p-4 border-2 hover:bg-muted/50 transition-colors"
         >
@@ -49,14 +58,18 @@ export function QuickActions() {
         </Button>
 
         <Button 
-          onClick={() => navigate('/planning')}
+          onClick={() => navigate('/planning?tab=shopping')}
           variant="outline" 
           className="justify-start h-auto p-4 border-2 hover:bg-muted/50 transition-colors"
         >
           <ShoppingCart className="mr-3 h-5 w-5 text-accent" />
           <div className="text-left">
             <div className="font-semibold">Shopping List</div>
-            <div className="text-xs text-muted-foreground">View or create list</div>
+            <div className="text-xs text-muted-foreground">
+              {stats && stats.shoppingItemsNeeded > 0
+                ? `${stats.shoppingItemsNeeded} item${stats.shoppingItemsNeeded === 1 ? '' : 's'} still to buy`
+                : 'View or create list'}
+            </div>
           </div>
         </Button>
       </CardContent>
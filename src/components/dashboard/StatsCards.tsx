@@ -1,13 +1,17 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Calendar, ChefHat, ShoppingCart, TrendingUp } from "lucide-react";
+import { DashboardStats } from "@/services/dashboard";
 
 interface StatsCardsProps {
-  stats: {
-    totalMeals: number;
-    weeklyPlans: number;
-    activeRecipes: number;
-    shoppingItems: number;
-  };
+  stats: DashboardStats | null;
+}
+
+function weekOnWeek(current: number, previous: number): string {
+  if (previous === 0) {
+    return current === 0 ? 'Nothing planned last week either' : 'Nothing planned last week';
+  }
+  const change = Math.round(((current - previous) / previous) * 100);
+  return `${change >= 0 ? '+' : ''}${change}% from last week`;
 }
 
 export function StatsCards({ stats }: StatsCardsProps) {
@@ -19,9 +23,9 @@ export function StatsCards({ stats }: StatsCardsProps) {
           <Calendar className="h-4 w-4 text-muted-foreground" />
         </CardHeader>
         <CardContent>
-          <div className="text-2xl font-bold">{stats.totalMeals}</div>
+          <div className="text-2xl font-bold">{stats ? stats.mealsThisWeek : '–'}</div>
           <p className="text-xs text-muted-foreground">
-            +12% from last week
+            {stats ? weekOnWeek(stats.mealsThisWeek, stats.mealsLastWeek) : 'Loading...'}
           </p>
         </CardContent>
       </Card>
@@ -32,9 +36,9 @@ export function StatsCards({ stats }: StatsCardsProps) {
           <TrendingUp className="h-4 w-4 text-muted-foreground" />
         </CardHeader>
         <CardContent>
-          <div className="text-2xl font-bold">{stats.weeklyPlans}</div>
+          <div className="text-2xl font-bold">{stats ? stats.activePlans : '–'}</div>
           <p className="text-xs text-muted-foreground">
-            2 plans this month
+            {stats ? `${stats.plansThisMonth} plan${stats.plansThisMonth === 1 ? '' : 's'} this month` : 'Loading...'}
           </p>
         </CardContent>
       </Card>
@@ -45,9 +49,9 @@ export function StatsCards({ stats }: StatsCardsProps) {
           <ChefHat className="h-4 w-4 text-muted-foreground" />
         </CardHeader>
         <CardContent>
-          <div className="text-2xl font-bold">{stats.activeRecipes}</div>
+          <div className="text-2xl font-bold">{stats ? stats.recipes : '–'}</div>
           <p className="text-xs text-muted-foreground">
-            +5 new this week
+            {stats ? `+${stats.recipesThisWeek} new this week` : 'Loading...'}
           </p>
         </CardContent>
       </Card>
@@ -58,12 +62,12 @@ export function StatsCards({ stats }: StatsCardsProps) {
           <ShoppingCart className="h-4 w-4 text-muted-foreground" />
         </CardHeader>
         <CardContent>
-          <div className="text-2xl font-bold">{stats.shoppingItems}</div>
+          <div className="text-2xl font-bold">{stats ? stats.shoppingItems : '–'}</div>
           <p className="text-xs text-muted-foreground">
-            3 items needed
+            {stats ? `${stats.shoppingItemsNeeded} item${stats.shoppingItemsNeeded === 1 ? '' : 's'} needed` : 'Loading...'}
           </p>
         </CardContent>
       </Card>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -1,56 +1,14 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Clock, Users, Star } from "lucide-react";
+import { Clock, Users, Star, ChevronLeft, ChevronRight } from "lucide-react";
 import { Rating } from "@/components/ui/rating";
 import { MealRatingDialog } from "@/components/meals/MealRatingDialog";
-import { useState } from "react";
-
-interface Meal {
-  id: string;
-  name: string;
-  type: 'breakfast' | 'lunch' | 'dinner' | 'snack';
-  time: string;
-  servings: number;
-  prepTime: number;
-  rating?: number;
-  notes?: string;
-}
-
-interface DayPlan {
-  date: string;
-  day: string;
-  meals: Meal[];
-}
-
-const weekPlan: DayPlan[] = [
-  {
-    date: "Mon 16",
-    day: "Monday",
-    meals: [
-      { id: "1", name: "Overnight Oats", type: "breakfast", time: "8:00", servings: 2, prepTime: 5 },
-      { id: "2", name: "Chicken Caesar Salad", type: "lunch", time: "12:30", servings: 1, prepTime: 15, rating: 5 },
-      { id: "3", name: "Beef Stir Fry", type: "dinner", time: "19:00", servings: 4, prepTime: 25, rating: 4 },
-    ],
-  },
-  {
-    date: "Tue 17",
-    day: "Tuesday", 
-    meals: [
-      { id: "4", name: "Greek Yogurt Bowl", type: "breakfast", time: "8:15", servings: 1, prepTime: 3 },
-      { id: "5", name: "Tuna Sandwich", type: "lunch", time: "13:00", servings: 1, prepTime: 10 },
-      { id: "6", name: "Salmon & Vegetables", type: "dinner", time: "18:30", servings: 2, prepTime: 30, rating: 5 },
-    ],
-  },
-  {
-    date: "Wed 18",
-    day: "Wednesday",
-    meals: [
-      { id: "7", name: "Smoothie Bowl", type: "breakfast", time: "8:00", servings: 1, prepTime: 8 },
-      { id: "8", name: "Soup & Bread", type: "lunch", time: "12:45", servings: 2, prepTime: 5 },
-    ],
-  },
-];
+import { useState, useEffect } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { DashboardService, WeekDay, WeekMeal } from "@/services/dashboard";
+import { addDays, format, isSameWeek, parseISO, startOfWeek } from "date-fns";
 
 const getMealTypeColor = (type: string) => {
   switch (type) {
@@ -62,37 +20,87 @@ const getMealTypeColor = (type: string) => {
   }
 };
 
-export function WeeklyOverview() {
-  const [meals, setMeals] = useState(weekPlan);
+interface WeeklyOverviewProps {
+  // Called after a rating is saved, e.g. to refresh dashboard stats
+  onChange?: () => void;
+}
+
+export function WeeklyOverview({ onChange }: WeeklyOverviewProps) {
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date(), { weekStartsOn: 1 }));
+  const [days, setDays] = useState<WeekDay[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!user) return;
+
+    setIsLoading(true);
+    DashboardService.getWeek(user.id, weekStart)
+      .then(setDays)
+      .catch(error => {
+        console.error('Error loading week:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load this week's meals",
+          variant: "destructive",
+        });
+      })
+      .finally(() => setIsLoading(false));
+  }, [user, weekStart]);
+
+  const handleRatingSubmit = async (meal: WeekMeal, rating: number, notes?: string) => {
+    if (!user) return;
 
-  const handleRatingSubmit = (dayIndex: number, mealIndex: number, rating: number, notes?: string) => {
-    const updatedMeals = [...meals];
-    updatedMeals[dayIndex].meals[mealIndex] = {
-      ...updatedMeals[dayIndex].meals[mealIndex],
-      rating,
-      notes
-    };
-    setMeals(updatedMeals);
+    const updated = await DashboardService.rateMeal(user.id, meal, rating, notes);
+    setDays(prev => prev.map(day => ({
+      ...day,
+      meals: day.meals.map(m => m === meal ? updated : m),
+    })));
+    onChange?.();
   };
 
+  const isCurrentWeek = isSameWeek(weekStart, new Date(), { weekStartsOn: 1 });
+
   return (
     <Card>
       <CardHeader>
-        <CardTitle>This Week's Meal Plan</CardTitle>
-        <CardDescription>Your scheduled meals and preparation times</CardDescription>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>{isCurrentWeek ? "This Week's Meal Plan" : `Week of ${format(weekStart, 'd MMM')}`}</CardTitle>
+            <CardDescription>Your scheduled meals and preparation times</CardDescription>
+          </div>
+          <div className="flex items-center gap-1">
+            <Button variant="ghost" size="icon" onClick={() => setWeekStart(addDays(weekStart, -7))}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            {!isCurrentWeek && (
+              <Button variant="ghost" size="sm" onClick={() => setWeekStart(startOfWeek(new Date(), { weekStartsOn: 1 }))}>
+                Today
+              </Button>
+            )}
+            <Button variant="ghost" size="icon" onClick={() => setWeekStart(addDays(weekStart, 7))}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
       </CardHeader>
       <CardContent>
         <div className="space-y-4">
-          {meals.map((day, dayIndex) => (
+          {isLoading && (
+            <p className="text-sm text-muted-foreground">Loading meals...</p>
+          )}
+
+          {!isLoading && days.map(day => (
             <div key={day.date} className="border rounded-lg p-4 hover:bg-muted/30 transition-colors">
               <div className="flex items-center justify-between mb-3">
-                <h4 className="font-semibold text-base">{day.date}</h4>
+                <h4 className="font-semibold text-base">{format(parseISO(day.date), 'EEE d')}</h4>
                 <span className="text-sm text-muted-foreground">{day.meals.length} meals</span>
               </div>
               
               <div className="space-y-2">
-                {day.meals.map((meal, mealIndex) => (
-                  <div key={meal.id} className="flex items-center justify-between p-2 rounded-md hover:bg-background transition-colors group">
+                {day.meals.map(meal => (
+                  <div key={meal.eventId || meal.mealId} className="flex items-center justify-between p-2 rounded-md hover:bg-background transition-colors group">
                     <div className="flex items-center space-x-3 flex-1">
                       <Badge className={`${getMealTypeColor(meal.type)} text-xs px-2 py-1`}>
                         {meal.type}
@@ -100,15 +108,19 @@ export function WeeklyOverview() {
                       <div className="flex-1">
                         <p className="font-medium text-sm">{meal.name}</p>
                         <div className="flex items-center space-x-3 text-xs text-muted-foreground">
-                          <span>{meal.time}</span>
-                          <div className="flex items-center">
-                            <Clock className="w-3 h-3 mr-1" />
-                            {meal.prepTime}min
-                          </div>
-                          <div className="flex items-center">
-                            <Users className="w-3 h-3 mr-1" />
-                            {meal.servings}
-                          </div>
+                          {meal.time && <span>{meal.time}</span>}
+                          {meal.prepTime && (
+                            <div className="flex items-center">
+                              <Clock className="w-3 h-3 mr-1" />
+                              {meal.prepTime}min
+                            </div>
+                          )}
+                          {meal.servings && (
+                            <div className="flex items-center">
+                              <Users className="w-3 h-3 mr-1" />
+                              {Number(meal.servings)}
+                            </div>
+                          )}
                           {meal.rating && (
                             <div className="flex items-center">
                               <Rating value={meal.rating} readonly size="sm" />
@@ -121,9 +133,8 @@ export function WeeklyOverview() {
                       <MealRatingDialog
                         mealName={meal.name}
                         currentRating={meal.rating || 0}
-                        onRatingSubmit={(rating, notes) => 
-                          handleRatingSubmit(dayIndex, mealIndex, rating, notes)
-                        }
+                        currentNotes={meal.notes || ''}
+                        onRatingSubmit={(rating, notes) => handleRatingSubmit(meal, rating, notes)}
                       >
                         <Button
                           variant="ghost"
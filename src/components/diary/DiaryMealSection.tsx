@@ -0,0 +1,69 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Plus, Trash2 } from "lucide-react";
+import { DiaryEntry, totalNutrition } from "@/services/foodDiary";
+
+interface DiaryMealSectionProps {
+  label: string;
+  entries: DiaryEntry[];
+  onAdd: () => void;
+  onDelete: (entry: DiaryEntry) => void;
+}
+
+export function DiaryMealSection({ label, entries, onAdd, onDelete }: DiaryMealSectionProps) {
+  const totals = totalNutrition(entries);
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg">{label}</CardTitle>
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground">
+              {Math.round(totals.calories)} kcal
+            </span>
+            <Button variant="outline" size="sm" onClick={onAdd}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nothing logged yet</p>
+        ) : (
+          <div className="space-y-2">
+            {entries.map(entry => (
+              <div key={entry.id} className="flex items-center justify-between p-2 rounded bg-muted/30">
+                <div>
+                  <p className="text-sm font-medium">{entry.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {entry.quantity != null && `${entry.quantity} ${entry.unit || ''}`}
+                    {entry.nutrition && ` · P ${Math.round(entry.nutrition.protein)}g · C ${Math.round(entry.nutrition.carbs)}g · F ${Math.round(entry.nutrition.fat)}g`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {entry.nutrition ? (
+                    <span className="text-sm">{Math.round(entry.nutrition.calories)} kcal</span>
+                  ) : (
+                    <Badge variant="outline" className="text-xs">No nutrition</Badge>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-destructive"
+                    onClick={() => onDelete(entry)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
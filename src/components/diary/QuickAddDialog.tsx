@@ -0,0 +1,448 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Search, Scan, ArrowLeft, Loader2 } from "lucide-react";
+import { BarcodeScanner } from "@/components/barcode/BarcodeScanner";
+import { AllergenWarnings } from "@/components/allergens/AllergenWarnings";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { FoodDataService } from "@/services/foodData";
+import { FoodItemService } from "@/services/foodItems";
+import { FoodLookupResult, FoodProduct, lookupFailureMessage } from "@/lib/foodData";
+import { MealLoggingService, SERVING_UNIT } from "@/services/mealLogging";
+import { FoodDiaryService, RecentDiaryItem } from "@/services/foodDiary";
+import { UNITS, getUnit, validateQuantity } from "@/lib/units";
+import { AllergenWarning } from "@/lib/allergens";
+import { AllergenService } from "@/services/allergens";
+
+type SourceType = RecentDiaryItem['source'];
+
+interface QuickAddOption {
+  key: string;
+  name: string;
+  detail?: string | null;
+  source: SourceType;
+  id: string;
+  defaultQuantity: number;
+  defaultUnit: string;
+}
+
+interface QuickAddDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  date: string;
+  mealType: string;
+  onAdded: () => void;
+}
+
+const SEARCH_LIMIT = 20;
+
+const SOURCE_LABELS: Record<SourceType, string> = {
+  food: 'Food',
+  recipe: 'Recipe',
+  ready_meal: 'Ready meal',
+};
+
+export function QuickAddDialog({ isOpen, onClose, date, mealType, onAdded }: QuickAddDialogProps) {
+  const [tab, setTab] = useState('foods');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [options, setOptions] = useState<QuickAddOption[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [selected, setSelected] = useState<QuickAddOption | null>(null);
+  const [quantity, setQuantity] = useState('');
+  const [unit, setUnit] = useState('g');
+  const [isSaving, setIsSaving] = useState(false);
+  const [isScannerOpen, setIsScannerOpen] = useState(false);
+  const [allergenWarnings, setAllergenWarnings] = useState<AllergenWarning[]>([]);
+  const [allergenCheckFailed, setAllergenCheckFailed] = useState(false);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!isOpen) {
+      setSelected(null);
+      setSearchTerm('');
+      setTab('foods');
+    }
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen || tab === 'barcode') return;
+
+    const timeout = setTimeout(() => loadOptions(), 250);
+    return () => clearTimeout(timeout);
+  }, [isOpen, tab, searchTerm]);
+
+  useEffect(() => {
+    setAllergenWarnings([]);
+    setAllergenCheckFailed(false);
+    if (!selected || !user) return;
+
+    let cancelled = false;
+    AllergenService.checkTarget(user.id, {
+      food_item_id: selected.source === 'food' ? selected.id : null,
+      recipe_id: selected.source === 'recipe' ? selected.id : null,
+      ready_meal_id: selected.source === 'ready_meal' ? selected.id : null,
+    })
+      .then(warnings => !cancelled && setAllergenWarnings(warnings))
+      .catch(error => {
+        console.error('Error checking allergens:', error);
+        if (!cancelled) setAllergenCheckFailed(true);
+      });
+
+    return () => { cancelled = true; };
+  }, [selected, user]);
+
+  const loadOptions = async () => {
+    setIsSearching(true);
+    try {
+      setOptions(await fetchOptions());
+    } catch (error) {
+      console.error('Error loading diary options:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load items",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const fetchOptions = async (): Promise<QuickAddOption[]> => {
+    const term = `%${searchTerm.trim()}%`;
+
+    if (tab === 'foods') {
+      const { data, error } = await supabase
+        .from('food_items')
+        .select('id, name, brand, serving_size, serving_unit')
+        .ilike('name', term)
+        .order('name')
+        .limit(SEARCH_LIMIT);
+      if (error) throw error;
+      return (data || []).map(food => ({
+        key: food.id,
+        name: food.name,
+        detail: food.brand,
+        source: 'food',
+        id: food.id,
+        ...foodDefaults(food.serving_size, food.serving_unit),
+      }));
+    }
+
+    if (tab === 'recipes') {
+      const { data, error } = await supabase
+        .from('recipes')
+        .select('id, name, servings')
+        .ilike('name', term)
+        .order('name')
+        .limit(SEARCH_LIMIT);
+      if (error) throw error;
+      return (data || []).map(recipe => ({
+        key: recipe.id,
+        name: recipe.name,
+        detail: recipe.servings ? `Serves ${recipe.servings}` : null,
+        source: 'recipe',
+        id: recipe.id,
+        defaultQuantity: 1,
+        defaultUnit: SERVING_UNIT,
+      }));
+    }
+
+    if (tab === 'ready-meals') {
+      const { data, error } = await supabase
+        .from('ready_meals')
+        .select('id, name, brand')
+        .ilike('name', term)
+        .order('name')
+        .limit(SEARCH_LIMIT);
+      if (error) throw error;
+      return (data || []).map(meal => ({
+        key: meal.id,
+        name: meal.name,
+        detail: meal.brand,
+        source: 'ready_meal',
+        id: meal.id,
+        defaultQuantity: 1,
+        defaultUnit: SERVING_UNIT,
+      }));
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return [];
+    const recent = await FoodDiaryService.getRecentItems(user.id);
+    return recent
+      .filter(item => item.name.toLowerCase().includes(searchTerm.trim().toLowerCase()))
+      .map(item => ({
+        key: item.key,
+        name: item.name,
+        detail: item.quantity ? `Last: ${item.quantity} ${item.unit || ''}` : null,
+        source: item.source,
+        id: item.food_item_id || item.recipe_id || item.ready_meal_id,
+        defaultQuantity: item.quantity || 1,
+        defaultUnit: item.unit || (item.source === 'food' ? 'g' : SERVING_UNIT),
+      }));
+  };
+
+  const foodDefaults = (servingSize?: number | null, servingUnit?: string | null) => {
+    const servingDefinition = getUnit(servingUnit);
+    return servingSize && servingDefinition
+      ? { defaultQuantity: servingSize, defaultUnit: servingDefinition.value }
+      : { defaultQuantity: 100, defaultUnit: 'g' };
+  };
+
+  const selectOption = (option: QuickAddOption) => {
+    setSelected(option);
+    setQuantity(String(option.defaultQuantity));
+    setUnit(option.defaultUnit);
+  };
+
+  const handleBarcodeScanned = async (barcode: string) => {
+    setIsSearching(true);
+    try {
+      let food = await FoodItemService.findByBarcode(barcode);
+
+      let lookup: FoodLookupResult<FoodProduct> | null = null;
+      if (!food) {
+        lookup = await FoodDataService.lookupBarcode(barcode);
+        if (lookup.status === 'found' && await FoodDataService.addToDatabase(lookup.data)) {
+          food = await FoodItemService.findByBarcode(barcode);
+        }
+      }
+
+      if (!food) {
+        toast({
+          ...(lookup
+            ? lookupFailureMessage(lookup, `No food found for barcode ${barcode}`)
+            : { title: "Product Not Found", description: `No food found for barcode ${barcode}` }),
+          variant: "destructive",
+        });
+        return;
+      }
+
+      selectOption({
+        key: food.id,
+        name: food.name,
+        detail: food.brand,
+        source: 'food',
+        id: food.id,
+        ...foodDefaults(food.serving_size, food.serving_unit),
+      });
+    } catch (error) {
+      console.error('Error looking up barcode:', error);
+      toast({
+        title: "Error",
+        description: "Failed to look up barcode",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!selected) return;
+
+    const amount = parseFloat(quantity);
+    const message = unit === SERVING_UNIT
+      ? (amount > 0 ? null : 'Quantity must be greater than zero')
+      : validateQuantity(amount, unit);
+    if (message) {
+      toast({
+        title: "Error",
+        description: message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        toast({
+          title: "Error",
+          description: "You must be logged in to log meals",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      await MealLoggingService.logMeal({
+        user_id: user.id,
+        date,
+        meal_type: mealType,
+        food_item_id: selected.source === 'food' ? selected.id : null,
+        recipe_id: selected.source === 'recipe' ? selected.id : null,
+        ready_meal_id: selected.source === 'ready_meal' ? selected.id : null,
+        quantity: amount,
+        unit,
+      });
+
+      toast({
+        title: "Logged",
+        description: `${selected.name} added to ${mealType}`,
+      });
+      onAdded();
+      onClose();
+    } catch (error) {
+      console.error('Error logging meal:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add to diary",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const unitOptions = selected?.source === 'food'
+    ? UNITS.map(u => ({ value: u.value, label: u.label }))
+    : [
+        { value: SERVING_UNIT, label: 'serving' },
+        ...UNITS.filter(u => u.dimension === 'mass').map(u => ({ value: u.value, label: u.label })),
+      ];
+
+  const renderOptions = () => (
+    <div className="space-y-1 max-h-72 overflow-y-auto">
+      {isSearching && (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      )}
+      {!isSearching && options.length === 0 && (
+        <p className="text-sm text-muted-foreground text-center py-6">No matches found</p>
+      )}
+      {!isSearching && options.map(option => (
+        <button
+          key={option.key}
+          type="button"
+          className="w-full flex items-center justify-between rounded-md px-3 py-2 text-left text-sm hover:bg-muted"
+          onClick={() => selectOption(option)}
+        >
+          <div>
+            <p className="font-medium">{option.name}</p>
+            {option.detail && <p className="text-xs text-muted-foreground">{option.detail}</p>}
+          </div>
+          {tab === 'recent' && (
+            <Badge variant="outline" className="text-xs">{SOURCE_LABELS[option.source]}</Badge>
+          )}
+        </button>
+      ))}
+    </div>
+  );
+
+  return (
+    <>
+      <Dialog open={isOpen && !isScannerOpen} onOpenChange={(open) => !open && onClose()}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="capitalize">Add to {mealType}</DialogTitle>
+          </DialogHeader>
+
+          {selected ? (
+            <div className="space-y-4">
+              <Button variant="ghost" size="sm" onClick={() => setSelected(null)}>
+                <ArrowLeft className="h-4 w-4 mr-1" />
+                Back
+              </Button>
+              <div>
+                <p className="font-medium">{selected.name}</p>
+                {selected.detail && <p className="text-sm text-muted-foreground">{selected.detail}</p>}
+              </div>
+              <AllergenWarnings warnings={allergenWarnings} failed={allergenCheckFailed} />
+              <div className="flex gap-2">
+                <div className="flex-1">
+                  <Label htmlFor="quick-add-quantity">Quantity</Label>
+                  <Input
+                    id="quick-add-quantity"
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={quantity}
+                    onChange={(e) => setQuantity(e.target.value)}
+                  />
+                </div>
+                <div className="w-32">
+                  <Label>Unit</Label>
+                  <Select value={unit} onValueChange={setUnit}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {unitOptions.map(option => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="flex gap-2 justify-end">
+                <Button variant="outline" onClick={onClose}>
+                  Cancel
+                </Button>
+                <Button onClick={handleAdd} disabled={isSaving}>
+                  {isSaving ? 'Adding...' : 'Add to Diary'}
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <Tabs value={tab} onValueChange={setTab}>
+              <TabsList className="grid w-full grid-cols-5">
+                <TabsTrigger value="foods">Foods</TabsTrigger>
+                <TabsTrigger value="recipes">Recipes</TabsTrigger>
+                <TabsTrigger value="ready-meals">Ready</TabsTrigger>
+                <TabsTrigger value="recent">Recent</TabsTrigger>
+                <TabsTrigger value="barcode">Scan</TabsTrigger>
+              </TabsList>
+
+              {tab !== 'barcode' && (
+                <div className="relative mt-4">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    placeholder="Search..."
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    className="pl-9"
+                  />
+                </div>
+              )}
+
+              <TabsContent value="foods">{renderOptions()}</TabsContent>
+              <TabsContent value="recipes">{renderOptions()}</TabsContent>
+              <TabsContent value="ready-meals">{renderOptions()}</TabsContent>
+              <TabsContent value="recent">{renderOptions()}</TabsContent>
+              <TabsContent value="barcode">
+                <div className="text-center py-8 space-y-4">
+                  <Scan className="h-10 w-10 mx-auto text-muted-foreground" />
+                  <p className="text-sm text-muted-foreground">
+                    Scan a product barcode to find it in the food database
+                  </p>
+                  <Button onClick={() => setIsScannerOpen(true)} disabled={isSearching}>
+                    {isSearching ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Scan className="h-4 w-4 mr-2" />}
+                    Scan Barcode
+                  </Button>
+                </div>
+              </TabsContent>
+            </Tabs>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <BarcodeScanner
+        isOpen={isScannerOpen}
+        onClose={() => setIsScannerOpen(false)}
+        onBarcodeScanned={handleBarcodeScanned}
+      />
+    </>
+  );
+}
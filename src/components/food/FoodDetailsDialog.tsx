@@ -0,0 +1,109 @@
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import {
+  isNovaGroup,
+  isNutriScoreGrade,
+  NOVA_GROUP_LABELS,
+  NutritionFoodItem,
+  OPTIONAL_NUTRIENT_INFO,
+  OPTIONAL_NUTRIENTS,
+} from "@/lib/nutrition";
+
+export interface FoodDetails extends NutritionFoodItem {
+  name: string;
+  brand?: string | null;
+  barcode?: string | null;
+  image_url?: string | null;
+  nutriscore_grade?: string | null;
+  nova_group?: number | null;
+}
+
+interface FoodDetailsDialogProps {
+  food: FoodDetails | null;
+  onClose: () => void;
+}
+
+const NUTRI_SCORE_COLORS: Record<string, string> = {
+  a: 'bg-green-700 text-white',
+  b: 'bg-green-500 text-white',
+  c: 'bg-yellow-400 text-black',
+  d: 'bg-orange-500 text-white',
+  e: 'bg-red-600 text-white',
+};
+
+const formatValue = (value: number | null | undefined, unit: string) =>
+  value == null ? '—' : `${Math.round(Number(value) * 10) / 10}${unit}`;
+
+export function FoodDetailsDialog({ food, onClose }: FoodDetailsDialogProps) {
+  const rows: { label: string; value: number | null | undefined; unit: string }[] = food ? [
+    { label: 'Energy', value: food.calories_per_100g, unit: ' kcal' },
+    { label: 'Fat', value: food.fat_per_100g, unit: 'g' },
+    { label: 'of which saturates', value: food.saturated_fat_per_100g, unit: 'g' },
+    { label: 'Carbohydrate', value: food.carbs_per_100g, unit: 'g' },
+    { label: 'of which sugars', value: food.sugar_per_100g, unit: 'g' },
+    { label: 'Fibre', value: food.fiber_per_100g, unit: 'g' },
+    { label: 'Protein', value: food.protein_per_100g, unit: 'g' },
+    { label: 'Salt', value: food.salt_per_100g, unit: 'g' },
+    { label: 'Sodium', value: food.sodium_per_100g, unit: 'mg' },
+    ...OPTIONAL_NUTRIENTS
+      .filter(key => key !== 'saturated_fat' && key !== 'salt')
+      .map(key => ({
+        label: OPTIONAL_NUTRIENT_INFO[key].label,
+        value: food[`${key}_per_100g`],
+        unit: OPTIONAL_NUTRIENT_INFO[key].unit,
+      })),
+  ] : [];
+
+  const grade = food?.nutriscore_grade?.toLowerCase();
+  const nova = food?.nova_group;
+
+  return (
+    <Dialog open={!!food} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{food?.name}</DialogTitle>
+        </DialogHeader>
+
+        {food && (
+          <div className="space-y-4">
+            <div className="flex items-start gap-4">
+              {food.image_url && (
+                <img src={food.image_url} alt={food.name} className="h-20 w-20 object-cover rounded" />
+              )}
+              <div className="space-y-1 text-sm">
+                {food.brand && <p className="text-muted-foreground">{food.brand}</p>}
+                {food.barcode && <p className="text-muted-foreground">Barcode: {food.barcode}</p>}
+                <div className="flex flex-wrap gap-2 pt-1">
+                  {grade && isNutriScoreGrade(grade) && (
+                    <Badge className={NUTRI_SCORE_COLORS[grade]}>Nutri-Score {grade.toUpperCase()}</Badge>
+                  )}
+                  {isNovaGroup(nova) && (
+                    <Badge variant="outline" title={NOVA_GROUP_LABELS[nova]}>NOVA {nova}</Badge>
+                  )}
+                </div>
+                {isNovaGroup(nova) && (
+                  <p className="text-xs text-muted-foreground">{NOVA_GROUP_LABELS[nova]}</p>
+                )}
+              </div>
+            </div>
+
+            <div>
+              <h4 className="font-medium mb-2">Per 100g</h4>
+              <div className="divide-y text-sm">
+                {rows.map(row => (
+                  <div key={row.label} className="flex justify-between py-1">
+                    <span className={row.label.startsWith('of which') ? 'pl-4 text-muted-foreground' : ''}>
+                      {row.label}
+                    </span>
+                    <span className="font-medium">{formatValue(row.value, row.unit)}</span>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground mt-2">— means the value isn't known for this product.</p>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,114 @@
+import { useState, useEffect } from "react";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Link2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { supabase } from "@/integrations/supabase/client";
+
+export interface FoodItemOption {
+  id: string;
+  name: string;
+  brand?: string | null;
+  serving_size?: number | null;
+  serving_unit?: string | null;
+}
+
+interface FoodItemAutocompleteProps {
+  value: string;
+  linkedFoodItemId?: string | null;
+  onValueChange: (value: string) => void;
+  onSelect: (item: FoodItemOption) => void;
+  placeholder?: string;
+  className?: string;
+  invalid?: boolean;
+}
+
+export function FoodItemAutocomplete({
+  value,
+  linkedFoodItemId,
+  onValueChange,
+  onSelect,
+  placeholder = "Search food database...",
+  className,
+  invalid = false,
+}: FoodItemAutocompleteProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [options, setOptions] = useState<FoodItemOption[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen || value.trim().length < 2) {
+      setOptions([]);
+      return;
+    }
+
+    // Debounce lookups while the user is still typing
+    const timeout = setTimeout(async () => {
+      setIsSearching(true);
+      const { data, error } = await supabase
+        .from('food_items')
+        .select('id, name, brand, serving_size, serving_unit')
+        .ilike('name', `%${value.trim()}%`)
+        .order('name')
+        .limit(8);
+
+      setIsSearching(false);
+      if (error) {
+        console.error('Error searching food items:', error);
+        return;
+      }
+      setOptions(data || []);
+    }, 250);
+
+    return () => clearTimeout(timeout);
+  }, [value, isOpen]);
+
+  return (
+    <div className={cn("relative", className)}>
+      <Input
+        value={value}
+        placeholder={placeholder}
+        onChange={(e) => {
+          onValueChange(e.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        // Delay so a click on an option registers before the list closes
+        onBlur={() => setTimeout(() => setIsOpen(false), 150)}
+        className={cn(linkedFoodItemId && "pr-16", invalid && "border-destructive")}
+      />
+
+      {linkedFoodItemId && (
+        <Badge variant="secondary" className="absolute right-2 top-1/2 -translate-y-1/2 text-xs">
+          <Link2 className="h-3 w-3 mr-1" />
+          Linked
+        </Badge>
+      )}
+
+      {isOpen && (options.length > 0 || isSearching) && (
+        <div className="absolute z-50 mt-1 w-full rounded-md border bg-popover shadow-md max-h-60 overflow-y-auto">
+          {isSearching && options.length === 0 && (
+            <p className="p-2 text-sm text-muted-foreground">Searching...</p>
+          )}
+          {options.map((option) => (
+            <button
+              key={option.id}
+              type="button"
+              className="w-full text-left px-3 py-2 text-sm hover:bg-muted"
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => {
+                onSelect(option);
+                setIsOpen(false);
+              }}
+            >
+              <span className="font-medium">{option.name}</span>
+              {option.brand && (
+                <span className="text-muted-foreground ml-2">{option.brand}</span>
+              )}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
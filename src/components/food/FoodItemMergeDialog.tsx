@@ -0,0 +1,141 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Label } from "@/components/ui/label";
+import { CheckCircle, Merge } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { DuplicateFoodGroup, FoodItemService } from "@/services/foodItems";
+
+interface FoodItemMergeDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onMerged: () => void;
+}
+
+const groupKey = (group: DuplicateFoodGroup) => group.items.map(item => item.id).join(',');
+
+export function FoodItemMergeDialog({ isOpen, onClose, onMerged }: FoodItemMergeDialogProps) {
+  const [groups, setGroups] = useState<DuplicateFoodGroup[]>([]);
+  // Chosen survivor per group, defaulting to the most complete item
+  const [survivors, setSurvivors] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [mergingKey, setMergingKey] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const loadDuplicates = async () => {
+    setLoading(true);
+    try {
+      const duplicates = await FoodItemService.getDuplicates();
+      setGroups(duplicates);
+      setSurvivors(Object.fromEntries(duplicates.map(group => [groupKey(group), group.items[0].id])));
+    } catch (error) {
+      console.error('Error loading duplicate food items:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load duplicate food items",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) loadDuplicates();
+  }, [isOpen]);
+
+  const merge = async (group: DuplicateFoodGroup) => {
+    const key = groupKey(group);
+    const survivorId = survivors[key];
+
+    setMergingKey(key);
+    try {
+      const removed = await FoodItemService.merge(
+        survivorId,
+        group.items.map(item => item.id).filter(id => id !== survivorId),
+      );
+      setGroups(prev => prev.filter(g => groupKey(g) !== key));
+      toast({
+        title: "Food Items Merged",
+        description: `${removed} duplicate${removed === 1 ? '' : 's'} of ${group.name} removed`,
+      });
+      onMerged();
+    } catch (error) {
+      console.error('Error merging food items:', error);
+      toast({
+        title: "Error",
+        description: "Failed to merge food items",
+        variant: "destructive",
+      });
+    } finally {
+      setMergingKey(null);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Merge Duplicate Food Items</DialogTitle>
+        </DialogHeader>
+
+        <p className="text-sm text-muted-foreground">
+          Meals, recipe ingredients, shopping list and pantry items that use a duplicate are moved to the item you keep.
+        </p>
+
+        {loading ? (
+          <p className="text-center text-muted-foreground py-8">Looking for duplicates...</p>
+        ) : groups.length === 0 ? (
+          <div className="text-center py-8">
+            <CheckCircle className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">No duplicate public food items found.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {groups.map(group => {
+              const key = groupKey(group);
+              return (
+                <div key={key} className="border rounded-lg p-4 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <h4 className="font-medium">
+                      {group.name}
+                      {group.brand && <span className="text-muted-foreground font-normal"> · {group.brand}</span>}
+                    </h4>
+                    <Badge variant="outline">{group.items.length} copies</Badge>
+                  </div>
+
+                  <RadioGroup
+                    value={survivors[key]}
+                    onValueChange={(value) => setSurvivors(prev => ({ ...prev, [key]: value }))}
+                  >
+                    {group.items.map(item => (
+                      <div key={item.id} className="flex items-center space-x-2">
+                        <RadioGroupItem value={item.id} id={`survivor-${item.id}`} />
+                        <Label htmlFor={`survivor-${item.id}`} className="text-sm font-normal">
+                          {item.barcode ? `Barcode ${item.barcode}` : 'No barcode'}
+                          {' · '}
+                          {item.calories_per_100g ?? '?'} kcal/100g
+                          {' · '}
+                          {item.completeness} fields filled
+                          {' · added '}
+                          {new Date(item.created_at).toLocaleDateString()}
+                        </Label>
+                      </div>
+                    ))}
+                  </RadioGroup>
+
+                  <Button size="sm" onClick={() => merge(group)} disabled={mergingKey === key}>
+                    <Merge className="h-4 w-4 mr-2" />
+                    Keep Selected and Merge
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
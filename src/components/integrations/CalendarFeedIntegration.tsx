@@ -0,0 +1,139 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { CalendarFeedService } from '@/services/calendarFeed';
+import { CalendarDays, Copy, RefreshCw, Info } from 'lucide-react';
+
+export function CalendarFeedIntegration() {
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  const loadFeed = async () => {
+    if (!user) return;
+
+    setLoading(true);
+    try {
+      setFeedUrl(await CalendarFeedService.getFeedUrl(user.id));
+    } catch (error) {
+      console.error('Error loading calendar feed:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const regenerateFeed = async () => {
+    const replacing = !!feedUrl;
+    setIsUpdating(true);
+    try {
+      setFeedUrl(await CalendarFeedService.regenerateFeed());
+      toast({
+        title: replacing ? "Feed URL replaced" : "Feed created",
+        description: replacing
+          ? "The old URL no longer works. Update any calendars subscribed to it."
+          : "Copy the URL into your calendar app to subscribe.",
+      });
+    } catch (error) {
+      console.error('Error regenerating calendar feed:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create calendar feed.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const revokeFeed = async () => {
+    if (!user) return;
+
+    setIsUpdating(true);
+    try {
+      await CalendarFeedService.revokeFeed(user.id);
+      setFeedUrl(null);
+      toast({
+        title: "Feed turned off",
+        description: "Subscribed calendars will stop receiving your meals.",
+      });
+    } catch (error) {
+      console.error('Error revoking calendar feed:', error);
+      toast({
+        title: "Error",
+        description: "Failed to turn off calendar feed.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const copyFeedUrl = async () => {
+    if (!feedUrl) return;
+
+    await navigator.clipboard.writeText(feedUrl);
+    toast({
+      title: "Copied",
+      description: "Feed URL copied to clipboard.",
+    });
+  };
+
+  useEffect(() => {
+    loadFeed();
+  }, [user]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarDays className="h-5 w-5 text-primary" />
+          Calendar Subscription
+        </CardTitle>
+        <CardDescription>
+          Show your planned meals, with cooking reminders, in Google Calendar, Outlook or Apple Calendar.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading calendar feed...</p>
+        ) : feedUrl ? (
+          <>
+            <div className="flex gap-2">
+              <Input readOnly value={feedUrl} onFocus={(e) => e.target.select()} />
+              <Button variant="outline" size="icon" onClick={copyFeedUrl} title="Copy URL">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <Alert>
+              <Info className="h-4 w-4" />
+              <AlertDescription>
+                Anyone with this URL can see your meal plan. If it has been shared more widely than you
+                intended, regenerate it to stop the old URL working.
+              </AlertDescription>
+            </Alert>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={regenerateFeed} disabled={isUpdating}>
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Regenerate URL
+              </Button>
+              <Button variant="ghost" onClick={revokeFeed} disabled={isUpdating}>
+                Turn Off
+              </Button>
+            </div>
+          </>
+        ) : (
+          <Button onClick={regenerateFeed} disabled={isUpdating || !user}>
+            <CalendarDays className="h-4 w-4 mr-2" />
+            Create Feed URL
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -52,6 +52,9 @@ export function Header() {
           <Link to="/" className="transition-colors hover:text-primary">
             Dashboard
           </Link>
+          <Link to="/diary" className="transition-colors hover:text-primary">
+            Diary
+          </Link>
           <Link to="/planning" className="transition-colors hover:text-primary">
             Meal Plans
           </Link>
@@ -127,6 +130,9 @@ export function Header() {
             <Link to="/" className="text-sm font-medium transition-colors hover:text-primary">
               Dashboard
             </Link>
+            <Link to="/diary" className="text-sm font-medium transition-colors hover:text-primary">
+              Diary
+            </Link>
             <Link to="/planning" className="text-sm font-medium transition-colors hover:text-primary">
               Meal Plans
             </Link>
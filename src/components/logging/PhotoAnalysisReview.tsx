@@ -0,0 +1,261 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, RefreshCw, X, Check } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { MealLoggingService } from "@/services/mealLogging";
+import { MealPhotoAnalysis, AnalysisConfidence } from "@/services/photoAnalysis";
+import { CoreNutrition, withUnknownExtras } from "@/lib/nutrition";
+import { format } from "date-fns";
+
+interface PhotoAnalysisReviewProps {
+  isOpen: boolean;
+  onClose: () => void;
+  photo: { id: string; image_url: string; created_at: string } | null;
+  analysis: MealPhotoAnalysis | null;
+  isAnalysing: boolean;
+  onReanalyse: () => void;
+  onAccepted: () => void;
+}
+
+const MEAL_TYPES = [
+  { value: 'breakfast', label: 'Breakfast' },
+  { value: 'lunch', label: 'Lunch' },
+  { value: 'dinner', label: 'Dinner' },
+  { value: 'snack', label: 'Snack' },
+];
+
+const NUTRIENTS: { key: keyof CoreNutrition; label: string; unit: string }[] = [
+  { key: 'calories', label: 'Calories', unit: 'kcal' },
+  { key: 'protein', label: 'Protein', unit: 'g' },
+  { key: 'carbs', label: 'Carbs', unit: 'g' },
+  { key: 'fat', label: 'Fat', unit: 'g' },
+  { key: 'fiber', label: 'Fibre', unit: 'g' },
+  { key: 'sugar', label: 'Sugar', unit: 'g' },
+  { key: 'sodium', label: 'Sodium', unit: 'mg' },
+];
+
+const CONFIDENCE_VARIANTS: Record<AnalysisConfidence, "default" | "secondary" | "destructive"> = {
+  high: 'default',
+  medium: 'secondary',
+  low: 'destructive',
+};
+
+// Picks a sensible meal slot from the time the photo was taken
+function mealTypeFor(date: Date): string {
+  const hour = date.getHours();
+  if (hour < 11) return 'breakfast';
+  if (hour < 15) return 'lunch';
+  if (hour < 21) return 'dinner';
+  return 'snack';
+}
+
+export function PhotoAnalysisReview({
+  isOpen,
+  onClose,
+  photo,
+  analysis,
+  isAnalysing,
+  onReanalyse,
+  onAccepted,
+}: PhotoAnalysisReviewProps) {
+  const [foods, setFoods] = useState<string[]>([]);
+  const [newFood, setNewFood] = useState('');
+  const [portionSize, setPortionSize] = useState('');
+  const [nutrition, setNutrition] = useState<Record<keyof CoreNutrition, string>>({
+    calories: '', protein: '', carbs: '', fat: '', fiber: '', sugar: '', sodium: '',
+  });
+  const [date, setDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [mealType, setMealType] = useState('lunch');
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!analysis) return;
+
+    setFoods(analysis.identifiedFoods);
+    setPortionSize(analysis.portionSize);
+    setNutrition(NUTRIENTS.reduce((values, item) => ({
+      ...values,
+      [item.key]: String(Math.round(analysis.estimatedNutrition[item.key])),
+    }), {} as Record<keyof CoreNutrition, string>));
+  }, [analysis]);
+
+  useEffect(() => {
+    if (!photo) return;
+    const takenAt = new Date(photo.created_at);
+    setDate(format(takenAt, 'yyyy-MM-dd'));
+    setMealType(mealTypeFor(takenAt));
+  }, [photo]);
+
+  const addFood = () => {
+    if (newFood.trim()) {
+      setFoods(prev => [...prev, newFood.trim()]);
+      setNewFood('');
+    }
+  };
+
+  const handleAccept = async () => {
+    if (!photo) return;
+
+    setIsSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        toast({
+          title: "Error",
+          description: "You must be logged in to log meals",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const totals = withUnknownExtras(NUTRIENTS.reduce((values, item) => ({
+        ...values,
+        [item.key]: parseFloat(nutrition[item.key]) || 0,
+      }), {} as CoreNutrition));
+
+      await MealLoggingService.logPhotoMeal(photo.id, {
+        user_id: user.id,
+        date,
+        meal_type: mealType,
+        meal_name: foods.length > 0 ? foods.join(', ') : 'Photo meal',
+        notes: portionSize ? `Portion: ${portionSize}` : null,
+      }, totals);
+
+      toast({
+        title: "Meal Logged",
+        description: "The photo has been added to your food diary",
+      });
+      onAccepted();
+      onClose();
+    } catch (error) {
+      console.error('Error logging photo meal:', error);
+      toast({
+        title: "Error",
+        description: "Failed to log this meal",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            Review Meal Analysis
+            {analysis && !isAnalysing && (
+              <Badge variant={CONFIDENCE_VARIANTS[analysis.confidence]} className="capitalize">
+                {analysis.confidence} confidence
+              </Badge>
+            )}
+          </DialogTitle>
+        </DialogHeader>
+
+        {photo && (
+          <img src={photo.image_url} alt="Meal" className="w-full h-40 object-cover rounded-lg" />
+        )}
+
+        {isAnalysing || !analysis ? (
+          <div className="flex flex-col items-center py-8 gap-2">
+            <RefreshCw className="h-6 w-6 animate-spin text-primary" />
+            <p className="text-sm text-muted-foreground">Analysing your meal...</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {analysis.notes && (
+              <p className="text-xs text-muted-foreground italic">{analysis.notes}</p>
+            )}
+
+            <div>
+              <Label>Identified Foods</Label>
+              <div className="flex flex-wrap gap-2 mt-2 mb-2">
+                {foods.map((food, index) => (
+                  <Badge key={`${food}-${index}`} variant="outline" className="flex items-center gap-1">
+                    {food}
+                    <X
+                      className="h-3 w-3 cursor-pointer"
+                      onClick={() => setFoods(prev => prev.filter((_, i) => i !== index))}
+                    />
+                  </Badge>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <Input
+                  value={newFood}
+                  onChange={(e) => setNewFood(e.target.value)}
+                  placeholder="Add a food"
+                  onKeyPress={(e) => e.key === 'Enter' && (e.preventDefault(), addFood())}
+                />
+                <Button type="button" onClick={addFood} size="sm">
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="portion">Portion</Label>
+              <Input id="portion" value={portionSize} onChange={(e) => setPortionSize(e.target.value)} />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              {NUTRIENTS.map(item => (
+                <div key={item.key}>
+                  <Label htmlFor={`analysis-${item.key}`}>{item.label} ({item.unit})</Label>
+                  <Input
+                    id={`analysis-${item.key}`}
+                    type="number"
+                    min="0"
+                    value={nutrition[item.key]}
+                    onChange={(e) => setNutrition(prev => ({ ...prev, [item.key]: e.target.value }))}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="analysis-date">Date</Label>
+                <Input id="analysis-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+              </div>
+              <div>
+                <Label>Meal</Label>
+                <Select value={mealType} onValueChange={setMealType}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MEAL_TYPES.map(type => (
+                      <SelectItem key={type.value} value={type.value}>
+                        {type.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="flex gap-2 justify-end">
+          <Button variant="outline" onClick={onReanalyse} disabled={isAnalysing}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Re-analyse
+          </Button>
+          <Button onClick={handleAccept} disabled={isAnalysing || !analysis || isSaving}>
+            <Check className="h-4 w-4 mr-2" />
+            {isSaving ? 'Logging...' : 'Accept & Log'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
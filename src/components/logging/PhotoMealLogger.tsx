@@ -7,15 +7,19 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
-import { Camera, Upload, Image as ImageIcon, X, Edit3, Trash2 } from "lucide-react";
+import { Camera, Upload, Image as ImageIcon, X, Edit3, Trash2, Sparkles } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { PhotoAnalysisReview } from "./PhotoAnalysisReview";
+import { PhotoAnalysisService, MealPhotoAnalysis } from "@/services/photoAnalysis";
 
 interface MealPhoto {
   id: string;
   image_url: string;
   description?: string;
-  ai_analyzed_nutrition?: any;
+  ai_analyzed_nutrition?: Json;
+  meal_id?: string | null;
   created_at: string;
   meal?: {
     meal_name: string;
@@ -30,6 +34,9 @@ export function PhotoMealLogger() {
   const [selectedPhoto, setSelectedPhoto] = useState<MealPhoto | null>(null);
   const [photoDescription, setPhotoDescription] = useState("");
   const [uploadProgress, setUploadProgress] = useState(0);
+  const [reviewPhoto, setReviewPhoto] = useState<MealPhoto | null>(null);
+  const [reviewAnalysis, setReviewAnalysis] = useState<MealPhotoAnalysis | null>(null);
+  const [isAnalysing, setIsAnalysing] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
 
@@ -54,6 +61,64 @@ export function PhotoMealLogger() {
     setPhotos(data || []);
   };
 
+  const runAnalysis = async (photo: MealPhoto, description?: string | null) => {
+    setReviewPhoto(photo);
+    setReviewAnalysis(null);
+    setIsAnalysing(true);
+
+    try {
+      setReviewAnalysis(await PhotoAnalysisService.analysePhoto(photo.id, photo.image_url, description));
+      loadPhotos();
+    } catch (error) {
+      console.error('Error analysing meal photo:', error);
+      toast({
+        title: "Analysis Failed",
+        description: "We couldn't analyse this photo. You can try again later.",
+        variant: "destructive",
+      });
+      setReviewPhoto(null);
+    } finally {
+      setIsAnalysing(false);
+    }
+  };
+
+  const openReview = (photo: MealPhoto) => {
+    const stored = PhotoAnalysisService.normalise(photo.ai_analyzed_nutrition);
+    if (stored) {
+      setReviewPhoto(photo);
+      setReviewAnalysis(stored);
+    } else {
+      runAnalysis(photo, photo.description);
+    }
+  };
+
+  // Saving a new description re-runs the analysis with the extra context
+  const saveDescription = async () => {
+    if (!selectedPhoto) return;
+
+    const description = photoDescription.trim() || null;
+    const { error } = await supabase
+      .from('meal_photos')
+      .update({ description })
+      .eq('id', selectedPhoto.id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update description",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsDialogOpen(false);
+    if (description !== (selectedPhoto.description || null)) {
+      runAnalysis({ ...selectedPhoto, description }, description);
+    } else {
+      loadPhotos();
+    }
+  };
+
   const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -143,10 +208,14 @@ export function PhotoMealLogger() {
         description: "Meal photo uploaded successfully!",
       });
 
+      const description = photoDescription || null;
       setPhotoDescription("");
       setIsDialogOpen(false);
       loadPhotos();
 
+      // Analyse straight away so the user can review and log the meal
+      runAnalysis(photoData, description);
+
     } catch (error: any) {
       toast({
         title: "Error",
@@ -224,7 +293,7 @@ export function PhotoMealLogger() {
           </DialogTrigger>
           <DialogContent>
             <DialogHeader>
-              <DialogTitle>Upload Meal Photo</DialogTitle>
+              <DialogTitle>{selectedPhoto ? 'Edit Meal Photo' : 'Upload Meal Photo'}</DialogTitle>
             </DialogHeader>
             
             <div className="space-y-4">
@@ -239,50 +308,61 @@ export function PhotoMealLogger() {
                 />
               </div>
 
-              <div className="space-y-2">
-                <Label>Upload Photo</Label>
-                <div className="border-2 border-dashed border-muted-foreground/25 rounded-lg p-6 text-center">
-                  <input
-                    ref={fileInputRef}
-                    type="file"
-                    accept="image/*"
-                    onChange={handleFileSelect}
-                    className="hidden"
-                  />
-                  
-                  {!isUploading ? (
-                    <div className="space-y-2">
-                      <div className="flex justify-center">
-                        <ImageIcon className="h-10 w-10 text-muted-foreground" />
+              {selectedPhoto ? (
+                <div className="flex gap-2 justify-end">
+                  <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button onClick={saveDescription}>
+                    Save
+                  </Button>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <Label>Upload Photo</Label>
+                  <div className="border-2 border-dashed border-muted-foreground/25 rounded-lg p-6 text-center">
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      accept="image/*"
+                      onChange={handleFileSelect}
+                      className="hidden"
+                    />
+                    
+                    {!isUploading ? (
+                      <div className="space-y-2">
+                        <div className="flex justify-center">
+                          <ImageIcon className="h-10 w-10 text-muted-foreground" />
+                        </div>
+                        <p className="text-sm text-muted-foreground">
+                          Click to upload or drag and drop
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          PNG, JPG, WEBP up to 5MB
+                        </p>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          onClick={() => fileInputRef.current?.click()}
+                        >
+                          <Upload className="mr-2 h-4 w-4" />
+                          Choose File
+                        </Button>
                       </div>
-                      <p className="text-sm text-muted-foreground">
-                        Click to upload or drag and drop
-                      </p>
-                      <p className="text-xs text-muted-foreground">
-                        PNG, JPG, WEBP up to 5MB
-                      </p>
-                      <Button
-                        type="button"
-                        variant="outline"
-                        onClick={() => fileInputRef.current?.click()}
-                      >
-                        <Upload className="mr-2 h-4 w-4" />
-                        Choose File
-                      </Button>
-                    </div>
-                  ) : (
-                    <div className="space-y-2">
-                      <div className="flex justify-center">
-                        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+                    ) : (
+                      <div className="space-y-2">
+                        <div className="flex justify-center">
+                          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+                        </div>
+                        <p className="text-sm text-muted-foreground">
+                          Uploading photo...
+                        </p>
+                        <Progress value={uploadProgress} className="w-full" />
                       </div>
-                      <p className="text-sm text-muted-foreground">
-                        Uploading photo...
-                      </p>
-                      <Progress value={uploadProgress} className="w-full" />
-                    </div>
-                  )}
+                    )}
+                  </div>
                 </div>
-              </div>
+              )}
             </div>
           </DialogContent>
         </Dialog>
@@ -358,16 +438,34 @@ export function PhotoMealLogger() {
                   })}
                 </div>
                 
-                {photo.ai_analyzed_nutrition && (
-                  <Badge variant="secondary" className="mt-2">
-                    AI Analyzed
-                  </Badge>
-                )}
+                <div className="flex items-center justify-between mt-2">
+                  {photo.ai_analyzed_nutrition ? (
+                    <Badge variant="secondary" className="capitalize">
+                      AI Analyzed · {PhotoAnalysisService.normalise(photo.ai_analyzed_nutrition)?.confidence} confidence
+                    </Badge>
+                  ) : <span />}
+                  {!photo.meal_id && (
+                    <Button size="sm" variant="outline" onClick={() => openReview(photo)}>
+                      <Sparkles className="h-3 w-3 mr-1" />
+                      {photo.ai_analyzed_nutrition ? 'Review & Log' : 'Analyse'}
+                    </Button>
+                  )}
+                </div>
               </CardContent>
             </Card>
           ))}
         </div>
       )}
+
+      <PhotoAnalysisReview
+        isOpen={reviewPhoto !== null}
+        onClose={() => setReviewPhoto(null)}
+        photo={reviewPhoto}
+        analysis={reviewAnalysis}
+        isAnalysing={isAnalysing}
+        onReanalyse={() => reviewPhoto && runAnalysis(reviewPhoto, reviewPhoto.description)}
+        onAccepted={loadPhotos}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -10,22 +10,33 @@ import { useToast } from "@/hooks/use-toast";
 interface MealRatingDialogProps {
   mealName: string;
   currentRating?: number;
-  onRatingSubmit: (rating: number, notes?: string) => void;
+  currentNotes?: string;
+  onRatingSubmit: (rating: number, notes?: string) => void | Promise<void>;
   children: React.ReactNode;
 }
 
 export function MealRatingDialog({ 
   mealName, 
   currentRating = 0, 
+  currentNotes = "",
   onRatingSubmit,
   children 
 }: MealRatingDialogProps) {
   const [rating, setRating] = useState(currentRating);
-  const [notes, setNotes] = useState("");
+  const [notes, setNotes] = useState(currentNotes);
   const [open, setOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
   const { toast } = useToast();
 
-  const handleSubmit = () => {
+  const handleOpenChange = (isOpen: boolean) => {
+    if (isOpen) {
+      setRating(currentRating);
+      setNotes(currentNotes);
+    }
+    setOpen(isOpen);
+  };
+
+  const handleSubmit = async () => {
     if (rating === 0) {
       toast({
         title: "Rating Required",
@@ -35,16 +46,28 @@ export function MealRatingDialog({
       return;
     }
 
-    onRatingSubmit(rating, notes);
-    setOpen(false);
-    toast({
-      title: "Rating Saved",
-      description: `You rated "${mealName}" ${rating} star${rating !== 1 ? 's' : ''}.`,
-    });
+    setIsSaving(true);
+    try {
+      await onRatingSubmit(rating, notes);
+      setOpen(false);
+      toast({
+        title: "Rating Saved",
+        description: `You rated "${mealName}" ${rating} star${rating !== 1 ? 's' : ''}.`,
+      });
+    } catch (error) {
+      console.error('Error saving rating:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save your rating",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
   };
 
   return (
-    <Dialog open={open} onOpenChange={setOpen}>
+    <Dialog open={open} onOpenChange={handleOpenChange}>
       <DialogTrigger asChild>
         {children}
       </DialogTrigger>
@@ -82,8 +105,8 @@ export function MealRatingDialog({
             <Button variant="outline" onClick={() => setOpen(false)}>
               Cancel
             </Button>
-            <Button onClick={handleSubmit} className="bg-gradient-primary">
-              Save Rating
+            <Button onClick={handleSubmit} className="bg-gradient-primary" disabled={isSaving}>
+              {isSaving ? 'Saving...' : 'Save Rating'}
             </Button>
           </div>
         </div>
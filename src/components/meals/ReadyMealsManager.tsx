@@ -8,6 +8,8 @@ import { Badge } from "@/components/ui/badge";
 import { Package, Plus, Edit2, Trash2, Scan } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import { TrafficLightLabel } from "@/components/nutrition/TrafficLightLabel";
+import { readyMealTrafficLights } from "@/lib/trafficLights";
 
 interface ReadyMeal {
   id: string;
@@ -20,6 +22,9 @@ interface ReadyMeal {
   protein_per_serving?: number;
   carbs_per_serving?: number;
   fat_per_serving?: number;
+  saturated_fat_per_serving?: number | null;
+  sugar_per_serving?: number | null;
+  salt_per_serving?: number | null;
   stock_quantity?: number;
   minimum_stock?: number;
   image_url?: string;
@@ -265,6 +270,8 @@ export function ReadyMealsManager({ onAddToMeal }: ReadyMealsManagerProps) {
                   <p className="text-xs text-muted-foreground">Fat</p>
                 </div>
               </div>
+
+              <TrafficLightLabel label={readyMealTrafficLights(meal)} />
               
               {meal.stock_quantity !== undefined && (
                 <div className="text-sm">
@@ -388,6 +395,39 @@ export function ReadyMealsManager({ onAddToMeal }: ReadyMealsManagerProps) {
                   onChange={(e) => setFormData(prev => ({ ...prev, fat_per_serving: parseFloat(e.target.value) || 0 }))}
                 />
               </div>
+              <div>
+                <Label htmlFor="saturates">Saturates (g)</Label>
+                <Input
+                  id="saturates"
+                  type="number"
+                  step="0.1"
+                  placeholder="Unknown"
+                  value={formData.saturated_fat_per_serving ?? ''}
+                  onChange={(e) => setFormData(prev => ({ ...prev, saturated_fat_per_serving: e.target.value === '' ? null : parseFloat(e.target.value) }))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="sugar">Sugar (g)</Label>
+                <Input
+                  id="sugar"
+                  type="number"
+                  step="0.1"
+                  placeholder="Unknown"
+                  value={formData.sugar_per_serving ?? ''}
+                  onChange={(e) => setFormData(prev => ({ ...prev, sugar_per_serving: e.target.value === '' ? null : parseFloat(e.target.value) }))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="salt">Salt (g)</Label>
+                <Input
+                  id="salt"
+                  type="number"
+                  step="0.1"
+                  placeholder="Unknown"
+                  value={formData.salt_per_serving ?? ''}
+                  onChange={(e) => setFormData(prev => ({ ...prev, salt_per_serving: e.target.value === '' ? null : parseFloat(e.target.value) }))}
+                />
+              </div>
               
               <div>
                 <Label htmlFor="stock">Stock Quantity</Label>
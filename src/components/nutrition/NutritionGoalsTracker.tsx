@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Progress } from "@/components/ui/progress";
@@ -10,18 +10,30 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Target, TrendingUp, Calendar, Settings } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { format, startOfDay, endOfDay } from "date-fns";
+import {
+  NutritionGoalsService,
+  NutritionGoalRecord,
+  NutritionGoalValues,
+  Weekday,
+  WeekdayOverrides,
+  WEEKDAYS,
+  GOAL_KEYS,
+} from "@/services/nutritionGoals";
 
-interface NutritionGoals {
-  id: string;
-  calories: number;
-  protein: number;
-  carbs: number;
-  fat: number;
-  fiber: number;
-  sodium: number;
-  sugar: number;
-}
+type NutritionGoals = NutritionGoalValues;
+type GoalForm = Record<keyof NutritionGoalValues, string>;
+
+const EMPTY_GOAL_FORM: GoalForm = {
+  calories: '',
+  protein: '',
+  carbs: '',
+  fat: '',
+  fiber: '',
+  sodium: '',
+  sugar: '',
+};
 
 interface DailyNutrition {
   calories: number;
@@ -34,27 +46,34 @@ interface DailyNutrition {
 }
 
 export function NutritionGoalsTracker() {
-  const [goals, setGoals] = useState<NutritionGoals | null>(null);
+  const [goalHistory, setGoalHistory] = useState<NutritionGoalRecord[]>([]);
   const [dailyNutrition, setDailyNutrition] = useState<DailyNutrition | null>(null);
   const [selectedDate, setSelectedDate] = useState(new Date());
   const [isGoalsDialogOpen, setIsGoalsDialogOpen] = useState(false);
-  const [goalForm, setGoalForm] = useState({
-    calories: '',
-    protein: '',
-    carbs: '',
-    fat: '',
-    fiber: '',
-    sodium: '',
-    sugar: '',
-  });
+  const [goalForm, setGoalForm] = useState<GoalForm>(EMPTY_GOAL_FORM);
+  const [overrideForm, setOverrideForm] = useState<Partial<Record<Weekday, GoalForm>>>({});
+  const [overrideDay, setOverrideDay] = useState<Weekday>('monday');
+  const [effectiveFrom, setEffectiveFrom] = useState(format(new Date(), 'yyyy-MM-dd'));
 
   const { toast } = useToast();
 
+  // Goals in force on the selected date, so past days keep the goals they had at the time
+  const goals = NutritionGoalsService.resolveForDate(goalHistory, selectedDate);
+
   const loadNutritionGoals = async () => {
-    // For now, we'll store goals in localStorage since we don't have a goals table
-    const storedGoals = localStorage.getItem('nutrition_goals');
-    if (storedGoals) {
-      setGoals(JSON.parse(storedGoals));
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      await NutritionGoalsService.importLocalGoals(user.id);
+      setGoalHistory(await NutritionGoalsService.getHistory(user.id));
+    } catch (error) {
+      console.error('Error loading nutrition goals:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load nutrition goals",
+        variant: "destructive",
+      });
     }
   };
 
@@ -109,26 +128,71 @@ export function NutritionGoalsTracker() {
     }
   };
 
-  const saveNutritionGoals = () => {
-    const goalsData = {
-      id: 'user_goals', // Simple ID for now
-      calories: parseFloat(goalForm.calories) || 0,
-      protein: parseFloat(goalForm.protein) || 0,
-      carbs: parseFloat(goalForm.carbs) || 0,
-      fat: parseFloat(goalForm.fat) || 0,
-      fiber: parseFloat(goalForm.fiber) || 0,
-      sodium: parseFloat(goalForm.sodium) || 0,
-      sugar: parseFloat(goalForm.sugar) || 0,
-    };
+  const openGoalsDialog = () => {
+    // Edit the goal version in force on the selected date
+    const dateStr = format(selectedDate, 'yyyy-MM-dd');
+    const active = [...goalHistory].reverse().find(goal => goal.effective_from <= dateStr);
 
-    localStorage.setItem('nutrition_goals', JSON.stringify(goalsData));
-    setGoals(goalsData);
-    setIsGoalsDialogOpen(false);
+    setGoalForm(active
+      ? GOAL_KEYS.reduce((form, key) => ({ ...form, [key]: active[key].toString() }), EMPTY_GOAL_FORM)
+      : EMPTY_GOAL_FORM);
+    setOverrideForm(active
+      ? Object.fromEntries(Object.entries(active.weekday_overrides).map(([day, values]) => [
+          day,
+          GOAL_KEYS.reduce((form, key) => ({ ...form, [key]: values?.[key]?.toString() ?? '' }), EMPTY_GOAL_FORM),
+        ]))
+      : {});
+    setEffectiveFrom(format(new Date(), 'yyyy-MM-dd'));
+    setIsGoalsDialogOpen(true);
+  };
 
-    toast({
-      title: "Success",
-      description: "Nutrition goals updated successfully!",
+  const saveNutritionGoals = async () => {
+    const goalsData = GOAL_KEYS.reduce((values, key) => ({
+      ...values,
+      [key]: parseFloat(goalForm[key]) || 0,
+    }), {} as NutritionGoalValues);
+
+    // Blank override fields fall back to the daily goal, so only store filled ones
+    const weekdayOverrides: WeekdayOverrides = {};
+    Object.entries(overrideForm).forEach(([day, form]) => {
+      const values: Partial<NutritionGoalValues> = {};
+      GOAL_KEYS.forEach(key => {
+        if (form[key] !== '' && !isNaN(parseFloat(form[key]))) {
+          values[key] = parseFloat(form[key]);
+        }
+      });
+      if (Object.keys(values).length > 0) {
+        weekdayOverrides[day as Weekday] = values;
+      }
     });
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        toast({
+          title: "Error",
+          description: "You must be logged in to save goals",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      await NutritionGoalsService.saveGoals(user.id, goalsData, weekdayOverrides, effectiveFrom);
+      setGoalHistory(await NutritionGoalsService.getHistory(user.id));
+      setIsGoalsDialogOpen(false);
+
+      toast({
+        title: "Success",
+        description: "Nutrition goals updated successfully!",
+      });
+    } catch (error) {
+      console.error('Error saving nutrition goals:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save nutrition goals",
+        variant: "destructive",
+      });
+    }
   };
 
   const getProgressPercentage = (current: number, goal: number) => {
@@ -154,22 +218,11 @@ export function NutritionGoalsTracker() {
 
   useEffect(() => {
     loadNutritionGoals();
-    loadDailyNutrition();
-  }, [selectedDate]);
+  }, []);
 
   useEffect(() => {
-    if (goals) {
-      setGoalForm({
-        calories: goals.calories.toString(),
-        protein: goals.protein.toString(),
-        carbs: goals.carbs.toString(),
-        fat: goals.fat.toString(),
-        fiber: goals.fiber.toString(),
-        sodium: goals.sodium.toString(),
-        sugar: goals.sugar.toString(),
-      });
-    }
-  }, [goals]);
+    loadDailyNutrition();
+  }, [selectedDate]);
 
   return (
     <div className="space-y-6">
@@ -184,35 +237,93 @@ export function NutritionGoalsTracker() {
           />
           
           <Dialog open={isGoalsDialogOpen} onOpenChange={setIsGoalsDialogOpen}>
-            <DialogTrigger asChild>
-              <Button variant="outline">
-                <Settings className="mr-2 h-4 w-4" />
-                Set Goals
-              </Button>
-            </DialogTrigger>
-            <DialogContent>
+            <Button variant="outline" onClick={openGoalsDialog}>
+              <Settings className="mr-2 h-4 w-4" />
+              Set Goals
+            </Button>
+            <DialogContent className="max-h-[90vh] overflow-y-auto">
               <DialogHeader>
                 <DialogTitle>Set Nutrition Goals</DialogTitle>
               </DialogHeader>
-              <div className="grid grid-cols-2 gap-4">
-                {nutritionItems.map(item => (
-                  <div key={item.key}>
-                    <Label htmlFor={item.key}>
-                      {item.icon} {item.label} ({item.unit})
-                    </Label>
-                    <Input
-                      id={item.key}
-                      type="number"
-                      placeholder="0"
-                      value={goalForm[item.key as keyof typeof goalForm]}
-                      onChange={(e) => setGoalForm(prev => ({
-                        ...prev,
-                        [item.key]: e.target.value
-                      }))}
-                    />
-                  </div>
-                ))}
+              <div>
+                <Label htmlFor="effective_from">Effective from</Label>
+                <Input
+                  id="effective_from"
+                  type="date"
+                  value={effectiveFrom}
+                  onChange={(e) => setEffectiveFrom(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Days before this date keep the goals that applied at the time.
+                </p>
               </div>
+              <Tabs defaultValue="daily">
+                <TabsList className="w-full">
+                  <TabsTrigger value="daily" className="flex-1">Daily Goals</TabsTrigger>
+                  <TabsTrigger value="weekdays" className="flex-1">Weekday Overrides</TabsTrigger>
+                </TabsList>
+                <TabsContent value="daily">
+                  <div className="grid grid-cols-2 gap-4">
+                    {nutritionItems.map(item => (
+                      <div key={item.key}>
+                        <Label htmlFor={item.key}>
+                          {item.icon} {item.label} ({item.unit})
+                        </Label>
+                        <Input
+                          id={item.key}
+                          type="number"
+                          placeholder="0"
+                          value={goalForm[item.key as keyof GoalForm]}
+                          onChange={(e) => setGoalForm(prev => ({
+                            ...prev,
+                            [item.key]: e.target.value
+                          }))}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </TabsContent>
+                <TabsContent value="weekdays" className="space-y-4">
+                  <Select value={overrideDay} onValueChange={(value) => setOverrideDay(value as Weekday)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {WEEKDAYS.map(day => (
+                        <SelectItem key={day.key} value={day.key}>
+                          {day.label}
+                          {overrideForm[day.key] && Object.values(overrideForm[day.key]).some(v => v !== '') ? ' •' : ''}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    Leave a field blank to use the daily goal on this day.
+                  </p>
+                  <div className="grid grid-cols-2 gap-4">
+                    {nutritionItems.map(item => (
+                      <div key={item.key}>
+                        <Label htmlFor={`${overrideDay}-${item.key}`}>
+                          {item.icon} {item.label} ({item.unit})
+                        </Label>
+                        <Input
+                          id={`${overrideDay}-${item.key}`}
+                          type="number"
+                          placeholder={goalForm[item.key as keyof GoalForm] || '0'}
+                          value={overrideForm[overrideDay]?.[item.key as keyof GoalForm] ?? ''}
+                          onChange={(e) => setOverrideForm(prev => ({
+                            ...prev,
+                            [overrideDay]: {
+                              ...(prev[overrideDay] || EMPTY_GOAL_FORM),
+                              [item.key]: e.target.value,
+                            },
+                          }))}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </TabsContent>
+              </Tabs>
               <Button onClick={saveNutritionGoals} className="w-full">
                 Save Goals
               </Button>
@@ -229,7 +340,7 @@ export function NutritionGoalsTracker() {
             <p className="text-muted-foreground mb-4">
               Define your daily nutrition targets to start tracking your progress
             </p>
-            <Button onClick={() => setIsGoalsDialogOpen(true)}>
+            <Button onClick={openGoalsDialog}>
               <Settings className="mr-2 h-4 w-4" />
               Set Goals
             </Button>
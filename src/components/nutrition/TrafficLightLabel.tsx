@@ -0,0 +1,63 @@
+import { cn } from "@/lib/utils";
+import { TRAFFIC_LIGHT_LABELS, TrafficLight, TrafficLightLabel as Label } from "@/lib/trafficLights";
+
+interface TrafficLightLabelProps {
+  label: Label | null;
+  className?: string;
+}
+
+const LIGHT_CLASSES: Record<TrafficLight, string> = {
+  green: 'bg-green-500 text-white',
+  amber: 'bg-amber-400 text-black',
+  red: 'bg-red-600 text-white',
+};
+
+const LIGHT_NAMES: Record<TrafficLight, string> = {
+  green: 'Low',
+  amber: 'Medium',
+  red: 'High',
+};
+
+const BASIS_TEXT: Record<Label['basis'], string> = {
+  portion: 'Per portion',
+  '100g': 'Per 100g',
+  '100ml': 'Per 100ml',
+  day: 'Whole day',
+};
+
+const formatAmount = (amount: number) => amount < 10 ? amount.toFixed(1) : String(Math.round(amount));
+
+export function TrafficLightLabel({ label, className }: TrafficLightLabelProps) {
+  if (!label) return null;
+
+  return (
+    <div className={cn("space-y-1", className)}>
+      <div className="grid grid-cols-4 gap-1">
+        {label.entries.map(entry => (
+          <div
+            key={entry.nutrient}
+            className={cn(
+              "rounded-md px-1 py-1 text-center",
+              entry.light ? LIGHT_CLASSES[entry.light] : 'bg-muted text-muted-foreground',
+            )}
+            title={entry.light ? `${LIGHT_NAMES[entry.light]} ${TRAFFIC_LIGHT_LABELS[entry.nutrient].toLowerCase()}` : 'Not known'}
+          >
+            <p className="text-[10px] leading-tight">{TRAFFIC_LIGHT_LABELS[entry.nutrient]}</p>
+            <p className="text-xs font-semibold leading-tight">
+              {entry.amount === null ? '—' : `${formatAmount(entry.amount)}g`}
+            </p>
+            {entry.percentOfReferenceIntake !== null && (
+              <p className="text-[10px] leading-tight">{Math.round(entry.percentOfReferenceIntake)}%</p>
+            )}
+          </div>
+        ))}
+      </div>
+      <p className="text-[10px] text-muted-foreground">
+        {label.basis === 'portion' && label.portionGrams
+          ? `Per ${Math.round(label.portionGrams)}g portion`
+          : BASIS_TEXT[label.basis]}
+        {' '}· % of an adult's reference intake
+      </p>
+    </div>
+  );
+}
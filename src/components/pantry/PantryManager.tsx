@@ -0,0 +1,289 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Package, Plus, Edit2, Trash2 } from "lucide-react";
+import { FoodItemAutocomplete } from "@/components/food/FoodItemAutocomplete";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { PantryService, PantryItem } from "@/services/pantry";
+import { PANTRY_LOCATIONS, PantryLocation } from "@/lib/pantry";
+import { UNITS } from "@/lib/units";
+import { differenceInCalendarDays, format, parseISO } from "date-fns";
+
+const EMPTY_FORM = {
+  name: '',
+  food_item_id: null as string | null,
+  quantity: '',
+  unit: 'g',
+  location: 'cupboard' as PantryLocation,
+  best_before: '',
+};
+
+// Items within this many days of their best-before date are flagged
+const EXPIRY_WARNING_DAYS = 3;
+
+export function PantryManager() {
+  const [items, setItems] = useState<PantryItem[]>([]);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingItem, setEditingItem] = useState<PantryItem | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const loadItems = async () => {
+    if (!user) return;
+
+    try {
+      setItems(await PantryService.getItems(user.id));
+    } catch (error) {
+      console.error('Error loading pantry:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load pantry",
+        variant: "destructive",
+      });
+    }
+  };
+
+  useEffect(() => {
+    loadItems();
+  }, [user]);
+
+  const openCreateDialog = () => {
+    setEditingItem(null);
+    setFormData(EMPTY_FORM);
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (item: PantryItem) => {
+    setEditingItem(item);
+    setFormData({
+      name: item.name,
+      food_item_id: item.food_item_id,
+      quantity: String(item.quantity),
+      unit: item.unit,
+      location: item.location as PantryLocation,
+      best_before: item.best_before || '',
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    // Zero is allowed so staples can be kept on the list while they are out of stock
+    const quantity = parseFloat(formData.quantity);
+    if (!formData.name.trim() || !Number.isFinite(quantity) || quantity < 0) {
+      toast({
+        title: "Error",
+        description: "Enter an item name and a quantity of zero or more",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      await PantryService.saveItem({
+        user_id: user.id,
+        name: formData.name.trim(),
+        food_item_id: formData.food_item_id,
+        quantity,
+        unit: formData.unit,
+        location: formData.location,
+        best_before: formData.best_before || null,
+      }, editingItem?.id);
+
+      toast({
+        title: "Success",
+        description: `Pantry item ${editingItem ? 'updated' : 'added'}`,
+      });
+      setIsDialogOpen(false);
+      loadItems();
+    } catch (error) {
+      console.error('Error saving pantry item:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save pantry item",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await PantryService.deleteItem(id);
+      setItems(prev => prev.filter(item => item.id !== id));
+    } catch (error) {
+      console.error('Error deleting pantry item:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete pantry item",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const getStatusBadge = (item: PantryItem) => {
+    if (Number(item.quantity) <= 0) {
+      return <Badge variant="outline">Out of stock</Badge>;
+    }
+    if (!item.best_before) return null;
+
+    const daysLeft = differenceInCalendarDays(parseISO(item.best_before), new Date());
+    if (daysLeft < 0) {
+      return <Badge variant="destructive">Past best before</Badge>;
+    }
+    if (daysLeft <= EXPIRY_WARNING_DAYS) {
+      return <Badge variant="secondary">Use soon</Badge>;
+    }
+    return null;
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold">Pantry</h2>
+        <Button onClick={openCreateDialog}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Item
+        </Button>
+      </div>
+
+      {items.length === 0 ? (
+        <div className="text-center py-12">
+          <Package className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+          <h3 className="text-lg font-semibold mb-2">Your pantry is empty</h3>
+          <p className="text-muted-foreground">
+            Add staples you keep at home and they will be left off generated shopping lists
+          </p>
+        </div>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-3">
+          {PANTRY_LOCATIONS.map(location => (
+            <Card key={location.value}>
+              <CardHeader>
+                <CardTitle className="text-lg">{location.label}</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {items.filter(item => item.location === location.value).map(item => (
+                  <div key={item.id} className="flex items-center gap-2 p-2 rounded-md bg-muted/30 group">
+                    <div className="flex-1 min-w-0">
+                      <div className="font-medium truncate">{item.name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {Number(item.quantity)} {item.unit}
+                        {item.best_before && ` · BB ${format(parseISO(item.best_before), 'd MMM')}`}
+                      </div>
+                    </div>
+                    {getStatusBadge(item)}
+                    <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                      <Button size="sm" variant="ghost" className="h-6 w-6 p-0" onClick={() => openEditDialog(item)}>
+                        <Edit2 className="h-3 w-3" />
+                      </Button>
+                      <Button size="sm" variant="ghost" className="h-6 w-6 p-0 text-destructive" onClick={() => handleDelete(item.id)}>
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editingItem ? 'Edit' : 'Add'} Pantry Item</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div>
+              <Label>Item *</Label>
+              <FoodItemAutocomplete
+                value={formData.name}
+                linkedFoodItemId={formData.food_item_id}
+                placeholder="e.g. Basmati rice"
+                onValueChange={(value) => setFormData(prev => ({ ...prev, name: value, food_item_id: null }))}
+                onSelect={(food) => setFormData(prev => ({ ...prev, name: food.name, food_item_id: food.id }))}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <Label htmlFor="pantry-quantity">Quantity *</Label>
+                <Input
+                  id="pantry-quantity"
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={formData.quantity}
+                  onChange={(e) => setFormData(prev => ({ ...prev, quantity: e.target.value }))}
+                />
+              </div>
+              <div>
+                <Label>Unit</Label>
+                <Select value={formData.unit} onValueChange={(value) => setFormData(prev => ({ ...prev, unit: value }))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {UNITS.map(unit => (
+                      <SelectItem key={unit.value} value={unit.value}>
+                        {unit.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <Label>Location</Label>
+                <Select
+                  value={formData.location}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, location: value as PantryLocation }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PANTRY_LOCATIONS.map(location => (
+                      <SelectItem key={location.value} value={location.value}>
+                        {location.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="pantry-best-before">Best Before</Label>
+                <Input
+                  id="pantry-best-before"
+                  type="date"
+                  value={formData.best_before}
+                  onChange={(e) => setFormData(prev => ({ ...prev, best_before: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            <div className="flex gap-2">
+              <Button onClick={handleSave} className="flex-1">
+                {editingItem ? 'Update' : 'Add'} Item
+              </Button>
+              <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Shuffle, Wand2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { MealPlannerService } from "@/services/mealPlanner";
+import { PlannedMeal, PlannerMealType } from "@/lib/mealPlanner";
+import { addDays, format, parseISO } from "date-fns";
+
+interface AutoPlanDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  weekStart: Date;
+  onApplied: () => void;
+}
+
+const MEAL_TYPES: { value: PlannerMealType; label: string }[] = [
+  { value: 'breakfast', label: 'Breakfast' },
+  { value: 'lunch', label: 'Lunch' },
+  { value: 'dinner', label: 'Dinner' },
+  { value: 'snack', label: 'Snack' },
+];
+
+export function AutoPlanDialog({ isOpen, onClose, weekStart, onApplied }: AutoPlanDialogProps) {
+  const [seed, setSeed] = useState('');
+  const [avoidRepeatDays, setAvoidRepeatDays] = useState('3');
+  const [mealTypes, setMealTypes] = useState<PlannerMealType[]>(['breakfast', 'lunch', 'dinner']);
+  const [plan, setPlan] = useState<PlannedMeal[] | null>(null);
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (isOpen) {
+      // The week is the default seed, so reopening the dialog gives the same plan
+      setSeed(format(weekStart, 'yyyy-MM-dd'));
+      setPlan(null);
+    }
+  }, [isOpen, weekStart]);
+
+  const toggleMealType = (mealType: PlannerMealType) => {
+    setMealTypes(prev => prev.includes(mealType)
+      ? prev.filter(type => type !== mealType)
+      : [...prev, mealType]);
+    setPlan(null);
+  };
+
+  const buildPlan = async () => {
+    if (mealTypes.length === 0) {
+      toast({
+        title: "Error",
+        description: "Choose at least one meal to plan",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    setIsPlanning(true);
+    try {
+      const result = await MealPlannerService.buildPlan(user.id, weekStart, {
+        seed,
+        avoidRepeatDays: Math.max(0, parseInt(avoidRepeatDays) || 0),
+        mealTypes,
+      });
+      setPlan(result);
+
+      if (result.length === 0) {
+        toast({
+          title: "Nothing to plan",
+          description: "Add recipes with matching meal times, or unlock some meals",
+        });
+      }
+    } catch (error) {
+      console.error('Error building meal plan:', error);
+      toast({
+        title: "Error",
+        description: "Failed to build a meal plan",
+        variant: "destructive",
+      });
+    } finally {
+      setIsPlanning(false);
+    }
+  };
+
+  const applyPlan = async () => {
+    if (!plan) return;
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    setIsApplying(true);
+    try {
+      await MealPlannerService.applyPlan(weekStart, mealTypes, plan);
+      toast({
+        title: "Success",
+        description: `Planned ${plan.length} meals for the week`,
+      });
+      onApplied();
+      onClose();
+    } catch (error) {
+      console.error('Error applying meal plan:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save the meal plan",
+        variant: "destructive",
+      });
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const days = Array.from({ length: 7 }, (_, i) => format(addDays(weekStart, i), 'yyyy-MM-dd'));
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Auto-plan week of {format(weekStart, 'd MMMM')}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-4">
+            {MEAL_TYPES.map(type => (
+              <div key={type.value} className="flex items-center gap-2">
+                <Checkbox
+                  id={`plan-${type.value}`}
+                  checked={mealTypes.includes(type.value)}
+                  onCheckedChange={() => toggleMealType(type.value)}
+                />
+                <Label htmlFor={`plan-${type.value}`} className="font-normal">{type.label}</Label>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label htmlFor="avoid-repeat">Don't repeat a recipe within (days)</Label>
+              <Input
+                id="avoid-repeat"
+                type="number"
+                min="0"
+                max="14"
+                value={avoidRepeatDays}
+                onChange={(e) => { setAvoidRepeatDays(e.target.value); setPlan(null); }}
+              />
+            </div>
+            <div>
+              <Label htmlFor="plan-seed">Seed</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="plan-seed"
+                  value={seed}
+                  onChange={(e) => { setSeed(e.target.value); setPlan(null); }}
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="icon"
+                  title="Try a different plan"
+                  onClick={() => { setSeed(String(Math.floor(Math.random() * 1000000))); setPlan(null); }}
+                >
+                  <Shuffle className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            Work days from your default schedule get quick or batch-cooked meals and packable lunches.
+            Locked, cooked and hand-added meals are kept; earlier auto-planned meals of the chosen types are replaced this week.
+          </p>
+
+          {plan && plan.length > 0 && (
+            <div className="space-y-3">
+              {days.map(day => {
+                const meals = plan.filter(meal => meal.date === day);
+                if (meals.length === 0) return null;
+                return (
+                  <div key={day}>
+                    <h4 className="text-sm font-semibold mb-1">{format(parseISO(day), 'EEEE d MMM')}</h4>
+                    <div className="space-y-1">
+                      {meals.map(meal => (
+                        <div key={meal.meal_type} className="flex items-center gap-2 text-sm p-2 rounded-md bg-muted/30">
+                          <Badge variant="outline" className="capitalize w-20 justify-center">{meal.meal_type}</Badge>
+                          <span className="font-medium">{meal.title}</span>
+                          {meal.start_time && <span className="text-muted-foreground">{meal.start_time}</span>}
+                          {meal.reason && <span className="text-xs text-muted-foreground ml-auto">{meal.reason}</span>}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="flex gap-2 justify-end">
+            <Button variant="outline" onClick={buildPlan} disabled={isPlanning}>
+              <Wand2 className="h-4 w-4 mr-2" />
+              {isPlanning ? 'Planning...' : plan ? 'Rebuild Preview' : 'Preview Plan'}
+            </Button>
+            <Button onClick={applyPlan} disabled={!plan || plan.length === 0 || isApplying}>
+              {isApplying ? 'Saving...' : 'Apply to Calendar'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,114 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Download } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { CalendarFeedService } from "@/services/calendarFeed";
+import { format } from "date-fns";
+
+interface CalendarExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  startDate: Date;
+  endDate: Date;
+}
+
+export function CalendarExportDialog({ isOpen, onClose, startDate, endDate }: CalendarExportDialogProps) {
+  const [start, setStart] = useState('');
+  const [end, setEnd] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (isOpen) {
+      setStart(format(startDate, 'yyyy-MM-dd'));
+      setEnd(format(endDate, 'yyyy-MM-dd'));
+    }
+  }, [isOpen, startDate, endDate]);
+
+  const handleExport = async () => {
+    if (!start || !end || start > end) {
+      toast({
+        title: "Error",
+        description: "Choose a start date on or before the end date",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    setIsExporting(true);
+    try {
+      const { ics, eventCount } = await CalendarFeedService.exportRange(user.id, start, end);
+      if (eventCount === 0) {
+        toast({
+          title: "Nothing to export",
+          description: "There are no meals planned in that date range",
+        });
+        return;
+      }
+
+      const url = URL.createObjectURL(new Blob([ics], { type: 'text/calendar;charset=utf-8' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `meal-plan-${start}-to-${end}.ics`;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      toast({
+        title: "Calendar exported",
+        description: `${eventCount} meal events exported`,
+      });
+      onClose();
+    } catch (error) {
+      console.error('Error exporting calendar:', error);
+      toast({
+        title: "Error",
+        description: "Failed to export calendar",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Export to Calendar</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Download an .ics file to import into Google Calendar, Outlook or Apple Calendar.
+            To keep another calendar up to date automatically, subscribe to your feed in Settings.
+          </p>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label htmlFor="export_start">From</Label>
+              <Input id="export_start" type="date" value={start} onChange={(e) => setStart(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="export_end">To</Label>
+              <Input id="export_end" type="date" value={end} onChange={(e) => setEnd(e.target.value)} />
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={handleExport} disabled={isExporting} className="flex-1">
+              <Download className="h-4 w-4 mr-2" />
+              {isExporting ? 'Exporting...' : 'Export'}
+            </Button>
+            <Button variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
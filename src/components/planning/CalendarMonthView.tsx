@@ -0,0 +1,94 @@
+import React from "react";
+import { AlertTriangle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { findShiftConflict } from "@/lib/mealCalendar";
+import { WeekSchedule } from "@/lib/mealPlanner";
+import { addDays, endOfMonth, endOfWeek, format, isSameMonth, isToday, startOfMonth, startOfWeek } from "date-fns";
+
+interface MonthEvent {
+  id: string;
+  title: string;
+  date: string;
+  meal_type: string;
+  start_time?: string;
+  end_time?: string;
+}
+
+interface CalendarMonthViewProps {
+  month: Date;
+  events: MonthEvent[];
+  schedule: WeekSchedule | null;
+  getMealTypeColor: (mealType: string) => string;
+  onSelectDay: (date: Date) => void;
+  onDropEvent: (e: React.DragEvent, date: Date) => void;
+}
+
+// Events shown per day before collapsing into "+N more"
+const MAX_VISIBLE_EVENTS = 3;
+
+export function CalendarMonthView({
+  month,
+  events,
+  schedule,
+  getMealTypeColor,
+  onSelectDay,
+  onDropEvent,
+}: CalendarMonthViewProps) {
+  const firstDay = startOfWeek(startOfMonth(month), { weekStartsOn: 1 });
+  const lastDay = endOfWeek(endOfMonth(month), { weekStartsOn: 1 });
+  const days: Date[] = [];
+  for (let day = firstDay; day <= lastDay; day = addDays(day, 1)) {
+    days.push(day);
+  }
+
+  return (
+    <div className="grid grid-cols-7 gap-1">
+      {['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'].map(label => (
+        <div key={label} className="text-xs font-semibold text-muted-foreground text-center py-1">
+          {label}
+        </div>
+      ))}
+
+      {days.map(day => {
+        const dateKey = format(day, 'yyyy-MM-dd');
+        const dayEvents = events.filter(event => event.date === dateKey);
+        const hasConflict = dayEvents.some(event => findShiftConflict(event, schedule));
+
+        return (
+          <button
+            key={dateKey}
+            type="button"
+            onClick={() => onSelectDay(day)}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => onDropEvent(e, day)}
+            className={cn(
+              "min-h-[96px] p-1 rounded-md border text-left align-top hover:bg-muted/50 transition-colors",
+              !isSameMonth(day, month) && "opacity-50",
+              isToday(day) && "border-primary"
+            )}
+          >
+            <div className="flex items-center justify-between text-xs font-medium mb-1">
+              {format(day, 'd')}
+              {hasConflict && <AlertTriangle className="h-3 w-3 text-destructive" />}
+            </div>
+            <div className="space-y-0.5">
+              {dayEvents.slice(0, MAX_VISIBLE_EVENTS).map(event => (
+                <div
+                  key={event.id}
+                  className={cn("truncate rounded px-1 text-[10px]", getMealTypeColor(event.meal_type))}
+                >
+                  {event.title}
+                </div>
+              ))}
+              {dayEvents.length > MAX_VISIBLE_EVENTS && (
+                <div className="text-[10px] text-muted-foreground">
+                  +{dayEvents.length - MAX_VISIBLE_EVENTS} more
+                </div>
+              )}
+            </div>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
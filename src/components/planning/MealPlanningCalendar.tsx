@@ -7,10 +7,31 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
-import { Calendar, Clock, Plus, Edit2, Trash2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Calendar, Clock, Plus, Edit2, Trash2, ChefHat, Lock, Unlock, Wand2, AlertTriangle, Copy, Repeat, Download } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
-import { format, addDays, startOfWeek, isSameDay } from "date-fns";
+import { PantryService } from "@/services/pantry";
+import { MealCalendarService } from "@/services/mealCalendar";
+import { findShiftConflict, RECURRENCE_OPTIONS, RecurrenceFrequency, MAX_OCCURRENCES } from "@/lib/mealCalendar";
+import { WeekSchedule } from "@/lib/mealPlanner";
+import { AutoPlanDialog } from "@/components/planning/AutoPlanDialog";
+import { CalendarMonthView } from "@/components/planning/CalendarMonthView";
+import { CalendarExportDialog } from "@/components/planning/CalendarExportDialog";
+import { AllergenWarnings } from "@/components/allergens/AllergenWarnings";
+import { AllergenService } from "@/services/allergens";
+import { AllergenWarning } from "@/lib/allergens";
+import { format, addDays, addMonths, startOfWeek, endOfWeek, startOfMonth, endOfMonth, isSameDay, parseISO } from "date-fns";
 
 interface MealPlanEvent {
   id: string;
@@ -21,10 +42,15 @@ interface MealPlanEvent {
   end_time?: string;
   notes?: string;
   recipe_id?: string;
+  servings?: number | null;
+  cooked_at?: string | null;
+  is_locked?: boolean;
+  recurrence_id?: string | null;
   recipe?: {
     name: string;
     prep_time?: number;
     cook_time?: number;
+    servings?: number | null;
   };
 }
 
@@ -33,6 +59,7 @@ interface Recipe {
   name: string;
   prep_time?: number;
   cook_time?: number;
+  servings?: number | null;
 }
 
 const MEAL_TYPES = [
@@ -42,13 +69,27 @@ const MEAL_TYPES = [
   { value: 'snack', label: 'Snack', color: 'bg-purple-100 text-purple-800' },
 ];
 
+type CalendarView = 'week' | 'month';
+
+// Dragged events carry their id under this type
+const DRAG_TYPE = 'application/x-meal-event';
+
 export function MealPlanningCalendar() {
-  const [currentWeek, setCurrentWeek] = useState(new Date());
+  const [currentDate, setCurrentDate] = useState(new Date());
+  const [view, setView] = useState<CalendarView>('week');
   const [events, setEvents] = useState<MealPlanEvent[]>([]);
   const [recipes, setRecipes] = useState<Recipe[]>([]);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingEvent, setEditingEvent] = useState<MealPlanEvent | null>(null);
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
+  const [isAutoPlanOpen, setIsAutoPlanOpen] = useState(false);
+  const [schedule, setSchedule] = useState<WeekSchedule | null>(null);
+  const [deletingEvent, setDeletingEvent] = useState<MealPlanEvent | null>(null);
+  const [isRepeatOpen, setIsRepeatOpen] = useState(false);
+  const [repeatWeeks, setRepeatWeeks] = useState('1');
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [allergenWarnings, setAllergenWarnings] = useState<AllergenWarning[]>([]);
+  const [allergenCheckFailed, setAllergenCheckFailed] = useState(false);
   
   // Form state
   const [formData, setFormData] = useState({
@@ -58,26 +99,30 @@ export function MealPlanningCalendar() {
     end_time: '',
     notes: '',
     recipe_id: '',
+    servings: '',
+    recurrence: 'none' as RecurrenceFrequency | 'none',
+    recurrence_until: '',
   });
 
   const { toast } = useToast();
 
-  const weekDays = Array.from({ length: 7 }, (_, i) => 
-    addDays(startOfWeek(currentWeek, { weekStartsOn: 1 }), i)
-  );
+  const weekStart = startOfWeek(currentDate, { weekStartsOn: 1 });
+  const weekDays = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+
+  // The month grid shows whole weeks, so it spills into the months either side
+  const rangeStart = view === 'week' ? weekStart : startOfWeek(startOfMonth(currentDate), { weekStartsOn: 1 });
+  const rangeEnd = view === 'week' ? addDays(weekStart, 6) : endOfWeek(endOfMonth(currentDate), { weekStartsOn: 1 });
 
   const loadEvents = async () => {
-    const weekStart = startOfWeek(currentWeek, { weekStartsOn: 1 });
-    const weekEnd = addDays(weekStart, 6);
 
     const { data, error } = await supabase
       .from('meal_plan_events')
       .select(`
         *,
-        recipe:recipes(name, prep_time, cook_time)
+        recipe:recipes(name, prep_time, cook_time, servings)
       `)
-      .gte('date', format(weekStart, 'yyyy-MM-dd'))
-      .lte('date', format(weekEnd, 'yyyy-MM-dd'))
+      .gte('date', format(rangeStart, 'yyyy-MM-dd'))
+      .lte('date', format(rangeEnd, 'yyyy-MM-dd'))
       .order('date')
       .order('start_time');
 
@@ -96,7 +141,7 @@ export function MealPlanningCalendar() {
   const loadRecipes = async () => {
     const { data, error } = await supabase
       .from('recipes')
-      .select('id, name, prep_time, cook_time')
+      .select('id, name, prep_time, cook_time, servings')
       .order('name');
 
     if (error) {
@@ -111,6 +156,18 @@ export function MealPlanningCalendar() {
     setRecipes(data || []);
   };
 
+  const loadSchedule = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    try {
+      setSchedule(await MealCalendarService.getDefaultSchedule(user.id));
+    } catch (error) {
+      // Conflict warnings are a nicety; the calendar works without them
+      console.error('Error loading work schedule:', error);
+    }
+  };
+
   const handleSaveEvent = async () => {
     if (!formData.title || !formData.meal_type || !selectedDate) {
       toast({
@@ -131,30 +188,56 @@ export function MealPlanningCalendar() {
       return;
     }
 
+    const servings = formData.servings ? parseFloat(formData.servings) : null;
+    if (servings !== null && !(servings > 0)) {
+      toast({
+        title: "Error",
+        description: "Servings must be greater than zero",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const date = format(selectedDate, 'yyyy-MM-dd');
+    const rule = !editingEvent && formData.recurrence !== 'none'
+      ? { frequency: formData.recurrence, until: formData.recurrence_until }
+      : null;
+    if (rule && !(rule.until > date)) {
+      toast({
+        title: "Error",
+        description: "Repeat until must be after the first date",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const recipeId = formData.recipe_id === 'no-recipe' ? null : formData.recipe_id || null;
     const eventData = {
       user_id: user.id,
       title: formData.title,
-      date: format(selectedDate, 'yyyy-MM-dd'),
+      date,
       meal_type: formData.meal_type,
       start_time: formData.start_time || null,
       end_time: formData.end_time || null,
       notes: formData.notes || null,
-      recipe_id: formData.recipe_id === 'no-recipe' ? null : formData.recipe_id || null,
+      recipe_id: recipeId,
+      servings: recipeId ? servings : null,
     };
 
-    let error;
-    if (editingEvent) {
-      ({ error } = await supabase
-        .from('meal_plan_events')
-        .update(eventData)
-        .eq('id', editingEvent.id));
-    } else {
-      ({ error } = await supabase
-        .from('meal_plan_events')
-        .insert(eventData));
-    }
-
-    if (error) {
+    let created = 1;
+    try {
+      if (editingEvent) {
+        // An edited meal is the user's own, so re-planning the week keeps it
+        const { error } = await supabase
+          .from('meal_plan_events')
+          .update({ ...eventData, auto_planned: false })
+          .eq('id', editingEvent.id);
+        if (error) throw error;
+      } else {
+        created = await MealCalendarService.createEvents(eventData, rule);
+      }
+    } catch (error) {
+      console.error('Error saving meal event:', error);
       toast({
         title: "Error",
         description: `Failed to ${editingEvent ? 'update' : 'create'} meal event`,
@@ -165,7 +248,9 @@ export function MealPlanningCalendar() {
 
     toast({
       title: "Success",
-      description: `Meal event ${editingEvent ? 'updated' : 'created'} successfully!`,
+      description: created > 1
+        ? `${created} meal events created successfully!`
+        : `Meal event ${editingEvent ? 'updated' : 'created'} successfully!`,
     });
 
     setIsDialogOpen(false);
@@ -173,11 +258,22 @@ export function MealPlanningCalendar() {
     loadEvents();
   };
 
-  const handleDeleteEvent = async (eventId: string) => {
-    const { error } = await supabase
-      .from('meal_plan_events')
-      .delete()
-      .eq('id', eventId);
+  const handleDeleteEvent = async (event: MealPlanEvent, following = false) => {
+    setDeletingEvent(null);
+
+    let error;
+    if (following && event.recurrence_id) {
+      try {
+        await MealCalendarService.deleteSeries(event.recurrence_id, event.date);
+      } catch (e) {
+        error = e;
+      }
+    } else {
+      ({ error } = await supabase
+        .from('meal_plan_events')
+        .delete()
+        .eq('id', event.id));
+    }
 
     if (error) {
       toast({
@@ -196,6 +292,125 @@ export function MealPlanningCalendar() {
     loadEvents();
   };
 
+  const requestDelete = (event: MealPlanEvent) => {
+    if (event.recurrence_id) {
+      setDeletingEvent(event);
+    } else {
+      handleDeleteEvent(event);
+    }
+  };
+
+  const handleDragStart = (e: React.DragEvent, event: MealPlanEvent) => {
+    e.dataTransfer.setData(DRAG_TYPE, event.id);
+    e.dataTransfer.effectAllowed = 'copyMove';
+  };
+
+  // Drops move the event; holding Ctrl, Alt or Cmd copies it instead. Month
+  // cells have no meal slots, so the event keeps its meal type there.
+  const handleDrop = async (e: React.DragEvent, date: Date, mealType?: string) => {
+    e.preventDefault();
+    const event = events.find(ev => ev.id === e.dataTransfer.getData(DRAG_TYPE));
+    if (!event) return;
+
+    const copy = e.ctrlKey || e.altKey || e.metaKey;
+    const dateKey = format(date, 'yyyy-MM-dd');
+    const targetType = mealType || event.meal_type;
+    if (!copy && event.date === dateKey && event.meal_type === targetType) return;
+
+    try {
+      if (copy) {
+        await MealCalendarService.copyEvent(event.id, dateKey, targetType);
+      } else {
+        await MealCalendarService.moveEvent(event.id, dateKey, targetType);
+      }
+      loadEvents();
+    } catch (error) {
+      console.error('Error moving meal event:', error);
+      toast({
+        title: "Error",
+        description: `Failed to ${copy ? 'copy' : 'move'} meal event`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const copyWeeks = async (fromWeekStart: Date, toWeekStarts: Date[]) => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    try {
+      const count = await MealCalendarService.copyWeek(user.id, fromWeekStart, toWeekStarts);
+      toast({
+        title: count > 0 ? "Week copied" : "Nothing to copy",
+        description: count > 0
+          ? `${count} meal events added`
+          : `There are no meals planned for the week of ${format(fromWeekStart, 'dd/MM')}`,
+      });
+      loadEvents();
+    } catch (error) {
+      console.error('Error copying week:', error);
+      toast({
+        title: "Error",
+        description: "Failed to copy meal events",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRepeatWeek = async () => {
+    const weeks = parseInt(repeatWeeks);
+    if (!(weeks >= 1 && weeks <= 12)) {
+      toast({
+        title: "Error",
+        description: "Choose between 1 and 12 weeks",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsRepeatOpen(false);
+    await copyWeeks(weekStart, Array.from({ length: weeks }, (_, i) => addDays(weekStart, 7 * (i + 1))));
+  };
+
+  const handleToggleLock = async (event: MealPlanEvent) => {
+    const { error } = await supabase
+      .from('meal_plan_events')
+      .update({ is_locked: !event.is_locked })
+      .eq('id', event.id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update meal event",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setEvents(prev => prev.map(e => e.id === event.id ? { ...e, is_locked: !event.is_locked } : e));
+  };
+
+  const handleMarkCooked = async (event: MealPlanEvent) => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    try {
+      await PantryService.cookEvent(user.id, event.id);
+      toast({
+        title: "Marked as cooked",
+        description: "Ingredients have been taken out of your pantry",
+      });
+      loadEvents();
+    } catch (error) {
+      console.error('Error marking meal cooked:', error);
+      toast({
+        title: "Error",
+        description: "Failed to mark meal as cooked",
+        variant: "destructive",
+      });
+    }
+  };
+
   const resetForm = () => {
     setFormData({
       title: '',
@@ -204,6 +419,9 @@ export function MealPlanningCalendar() {
       end_time: '',
       notes: '',
       recipe_id: 'no-recipe',
+      servings: '',
+      recurrence: 'none',
+      recurrence_until: '',
     });
     setEditingEvent(null);
     setSelectedDate(null);
@@ -218,8 +436,11 @@ export function MealPlanningCalendar() {
       end_time: event.end_time || '',
       notes: event.notes || '',
       recipe_id: event.recipe_id || 'no-recipe',
+      servings: event.servings ? String(event.servings) : '',
+      recurrence: 'none',
+      recurrence_until: '',
     });
-    setSelectedDate(new Date(event.date));
+    setSelectedDate(parseISO(event.date));
     setIsDialogOpen(true);
   };
 
@@ -230,7 +451,16 @@ export function MealPlanningCalendar() {
   };
 
   const getEventsForDate = (date: Date) => {
-    return events.filter(event => isSameDay(new Date(event.date), date));
+    return events.filter(event => isSameDay(parseISO(event.date), date));
+  };
+
+  const describeConflict = (event: { date: string; start_time?: string | null; end_time?: string | null }) => {
+    const shift = findShiftConflict(event, schedule);
+    return shift ? `Overlaps your ${shift.start_time}–${shift.end_time} shift` : null;
+  };
+
+  const step = (direction: number) => {
+    setCurrentDate(view === 'week' ? addDays(currentDate, 7 * direction) : addMonths(currentDate, direction));
   };
 
   const getMealTypeColor = (mealType: string) => {
@@ -239,107 +469,251 @@ export function MealPlanningCalendar() {
 
   useEffect(() => {
     loadEvents();
+  }, [currentDate, view]);
+
+  useEffect(() => {
     loadRecipes();
-  }, [currentWeek]);
+    loadSchedule();
+  }, []);
+
+  useEffect(() => {
+    setAllergenWarnings([]);
+    setAllergenCheckFailed(false);
+    const recipeId = formData.recipe_id;
+    if (!recipeId || recipeId === 'no-recipe') return;
+
+    let cancelled = false;
+    (async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const warnings = await AllergenService.checkTarget(user.id, { recipe_id: recipeId });
+      if (!cancelled) setAllergenWarnings(warnings);
+    })().catch(error => {
+      console.error('Error checking allergens:', error);
+      if (!cancelled) setAllergenCheckFailed(true);
+    });
+
+    return () => { cancelled = true; };
+  }, [formData.recipe_id]);
+
+  const formConflict = selectedDate && describeConflict({
+    date: format(selectedDate, 'yyyy-MM-dd'),
+    start_time: formData.start_time,
+    end_time: formData.end_time,
+  });
 
   return (
     <div className="space-y-6">
-      <div className="flex items-center justify-between">
-        <h2 className="text-2xl font-bold">Meal Planning Calendar</h2>
-        <div className="flex items-center gap-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h2 className="text-2xl font-bold">Meal Planning Calendar</h2>
+          <p className="text-sm text-muted-foreground">
+            {view === 'week'
+              ? `Week of ${format(weekStart, 'dd MMM yyyy')}`
+              : format(currentDate, 'MMMM yyyy')}
+            {' · '}Drag meals to move them, hold Ctrl or Alt to copy
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <ToggleGroup
+            type="single"
+            value={view}
+            onValueChange={(value) => value && setView(value as CalendarView)}
+          >
+            <ToggleGroupItem value="week">Week</ToggleGroupItem>
+            <ToggleGroupItem value="month">Month</ToggleGroupItem>
+          </ToggleGroup>
+          {view === 'week' && (
+            <>
+              <Button onClick={() => setIsAutoPlanOpen(true)}>
+                <Wand2 className="h-4 w-4 mr-2" />
+                Auto Plan
+              </Button>
+              <Button variant="outline" onClick={() => copyWeeks(addDays(weekStart, -7), [weekStart])}>
+                <Copy className="h-4 w-4 mr-2" />
+                Copy Last Week
+              </Button>
+              <Button variant="outline" onClick={() => setIsRepeatOpen(true)}>
+                <Repeat className="h-4 w-4 mr-2" />
+                Repeat Week
+              </Button>
+            </>
+          )}
+          <Button variant="outline" onClick={() => setIsExportOpen(true)}>
+            <Download className="h-4 w-4 mr-2" />
+            Export
+          </Button>
           <Button 
             variant="outline" 
-            onClick={() => setCurrentWeek(addDays(currentWeek, -7))}
+            onClick={() => step(-1)}
           >
-            Previous Week
+            Previous {view === 'week' ? 'Week' : 'Month'}
           </Button>
           <Button 
             variant="outline"
-            onClick={() => setCurrentWeek(new Date())}
+            onClick={() => setCurrentDate(new Date())}
           >
-            This Week
+            {view === 'week' ? 'This Week' : 'This Month'}
           </Button>
           <Button 
             variant="outline"
-            onClick={() => setCurrentWeek(addDays(currentWeek, 7))}
+            onClick={() => step(1)}
           >
-            Next Week
+            Next {view === 'week' ? 'Week' : 'Month'}
           </Button>
         </div>
       </div>
 
-      <div className="grid grid-cols-7 gap-4">
-        {weekDays.map((date) => {
-          const dayEvents = getEventsForDate(date);
-          
-          return (
-            <Card key={date.toISOString()} className="min-h-[300px]">
-              <CardHeader className="pb-2">
-                <div className="flex items-center justify-between">
-                  <CardTitle className="text-sm">
-                    {format(date, 'EEE dd/MM')}
-                  </CardTitle>
-                  <Button
-                    size="sm"
-                    variant="ghost"
-                    onClick={() => openCreateDialog(date)}
-                  >
-                    <Plus className="h-4 w-4" />
-                  </Button>
-                </div>
-              </CardHeader>
-              <CardContent className="space-y-2">
-                {dayEvents.map((event) => (
-                  <div
-                    key={event.id}
-                    className="p-2 rounded-md bg-muted/30 group hover:bg-muted/50 transition-colors"
-                  >
-                    <div className="flex items-center justify-between mb-1">
-                      <Badge variant="secondary" className={getMealTypeColor(event.meal_type)}>
-                        {MEAL_TYPES.find(t => t.value === event.meal_type)?.label}
+      {view === 'month' ? (
+        <CalendarMonthView
+          month={currentDate}
+          events={events}
+          schedule={schedule}
+          getMealTypeColor={getMealTypeColor}
+          onSelectDay={(date) => {
+            setCurrentDate(date);
+            setView('week');
+          }}
+          onDropEvent={handleDrop}
+        />
+      ) : (
+        <div className="grid grid-cols-7 gap-4">
+          {weekDays.map((date) => {
+            const dayEvents = getEventsForDate(date);
+            
+            return (
+              <Card key={date.toISOString()} className="min-h-[300px]">
+                <CardHeader className="pb-2">
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="text-sm">
+                      {format(date, 'EEE dd/MM')}
+                    </CardTitle>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => openCreateDialog(date)}
+                    >
+                      <Plus className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {MEAL_TYPES.map((type) => (
+                    <div
+                      key={type.value}
+                      className="min-h-[48px] rounded-md border border-dashed p-1 space-y-1"
+                      onDragOver={(e) => e.preventDefault()}
+                      onDrop={(e) => handleDrop(e, date, type.value)}
+                    >
+                      <Badge variant="secondary" className={`${type.color} text-[10px]`}>
+                        {type.label}
                       </Badge>
-                      <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                        <Button
-                          size="sm"
-                          variant="ghost"
-                          className="h-6 w-6 p-0"
-                          onClick={() => openEditDialog(event)}
-                        >
-                          <Edit2 className="h-3 w-3" />
-                        </Button>
-                        <Button
-                          size="sm"
-                          variant="ghost"
-                          className="h-6 w-6 p-0 text-destructive"
-                          onClick={() => handleDeleteEvent(event.id)}
-                        >
-                          <Trash2 className="h-3 w-3" />
-                        </Button>
-                      </div>
+                      {dayEvents.filter(event => event.meal_type === type.value).map((event) => {
+                        const conflict = describeConflict(event);
+
+                        return (
+                          <div
+                            key={event.id}
+                            draggable
+                            onDragStart={(e) => handleDragStart(e, event)}
+                            className="p-2 rounded-md bg-muted/30 group hover:bg-muted/50 transition-colors cursor-grab"
+                          >
+                            <div className="flex items-center justify-between mb-1">
+                              <div className="flex items-center gap-1">
+                                {event.is_locked && <Lock className="h-3 w-3 text-muted-foreground" />}
+                                {event.recurrence_id && <Repeat className="h-3 w-3 text-muted-foreground" />}
+                                {conflict && (
+                                  <span title={conflict}>
+                                    <AlertTriangle className="h-3 w-3 text-destructive" />
+                                  </span>
+                                )}
+                              </div>
+                              <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  className="h-6 w-6 p-0"
+                                  title={event.is_locked ? 'Unlock' : 'Lock so auto-planning keeps this meal'}
+                                  onClick={() => handleToggleLock(event)}
+                                >
+                                  {event.is_locked ? <Unlock className="h-3 w-3" /> : <Lock className="h-3 w-3" />}
+                                </Button>
+                                {event.recipe_id && !event.cooked_at && (
+                                  <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    className="h-6 w-6 p-0"
+                                    title="Mark as cooked"
+                                    onClick={() => handleMarkCooked(event)}
+                                  >
+                                    <ChefHat className="h-3 w-3" />
+                                  </Button>
+                                )}
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  className="h-6 w-6 p-0"
+                                  onClick={() => openEditDialog(event)}
+                                >
+                                  <Edit2 className="h-3 w-3" />
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  className="h-6 w-6 p-0 text-destructive"
+                                  onClick={() => requestDelete(event)}
+                                >
+                                  <Trash2 className="h-3 w-3" />
+                                </Button>
+                              </div>
+                            </div>
+                            
+                            <h4 className="font-medium text-sm">{event.title}</h4>
+
+                            {event.cooked_at && (
+                              <Badge variant="outline" className="text-xs">Cooked</Badge>
+                            )}
+                            
+                            {event.start_time && (
+                              <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                                <Clock className="h-3 w-3" />
+                                {event.start_time}
+                                {event.end_time && ` - ${event.end_time}`}
+                              </div>
+                            )}
+                            
+                            {event.recipe && (
+                              <div className="text-xs text-primary">
+                                Recipe: {event.recipe.name}
+                                {event.servings ? ` (${event.servings} servings)` : ''}
+                              </div>
+                            )}
+                          </div>
+                        );
+                      })}
                     </div>
-                    
-                    <h4 className="font-medium text-sm">{event.title}</h4>
-                    
-                    {event.start_time && (
-                      <div className="flex items-center gap-1 text-xs text-muted-foreground">
-                        <Clock className="h-3 w-3" />
-                        {event.start_time}
-                        {event.end_time && ` - ${event.end_time}`}
-                      </div>
-                    )}
-                    
-                    {event.recipe && (
-                      <div className="text-xs text-primary">
-                        Recipe: {event.recipe.name}
-                      </div>
-                    )}
-                  </div>
-                ))}
-              </CardContent>
-            </Card>
-          );
-        })}
-      </div>
+                  ))}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <AutoPlanDialog
+        isOpen={isAutoPlanOpen}
+        onClose={() => setIsAutoPlanOpen(false)}
+        weekStart={weekStart}
+        onApplied={loadEvents}
+      />
+
+      <CalendarExportDialog
+        isOpen={isExportOpen}
+        onClose={() => setIsExportOpen(false)}
+        startDate={view === 'week' ? rangeStart : startOfMonth(currentDate)}
+        endDate={view === 'week' ? rangeEnd : endOfMonth(currentDate)}
+      />
 
       <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
         <DialogContent className="max-w-md">
@@ -399,6 +773,23 @@ export function MealPlanningCalendar() {
               </Select>
             </div>
 
+            {formData.recipe_id && formData.recipe_id !== 'no-recipe' && (
+              <div>
+                <Label htmlFor="servings">Servings</Label>
+                <Input
+                  id="servings"
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  placeholder={`Recipe makes ${recipes.find(r => r.id === formData.recipe_id)?.servings || 1}`}
+                  value={formData.servings}
+                  onChange={(e) => setFormData(prev => ({ ...prev, servings: e.target.value }))}
+                />
+              </div>
+            )}
+
+            <AllergenWarnings warnings={allergenWarnings} failed={allergenCheckFailed} />
+
             <div className="grid grid-cols-2 gap-2">
               <div>
                 <Label htmlFor="start_time">Start Time</Label>
@@ -420,6 +811,54 @@ export function MealPlanningCalendar() {
               </div>
             </div>
 
+            {formConflict && (
+              <div className="flex items-center gap-2 text-sm text-destructive">
+                <AlertTriangle className="h-4 w-4" />
+                {formConflict}
+              </div>
+            )}
+
+            {!editingEvent && (
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label htmlFor="recurrence">Repeat</Label>
+                  <Select
+                    value={formData.recurrence}
+                    onValueChange={(value) => setFormData(prev => ({ ...prev, recurrence: value as RecurrenceFrequency | 'none' }))}
+                  >
+                    <SelectTrigger id="recurrence">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Does not repeat</SelectItem>
+                      {RECURRENCE_OPTIONS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {formData.recurrence !== 'none' && (
+                  <div>
+                    <Label htmlFor="recurrence_until">Until</Label>
+                    <Input
+                      id="recurrence_until"
+                      type="date"
+                      min={selectedDate ? format(addDays(selectedDate, 1), 'yyyy-MM-dd') : undefined}
+                      value={formData.recurrence_until}
+                      onChange={(e) => setFormData(prev => ({ ...prev, recurrence_until: e.target.value }))}
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+            {!editingEvent && formData.recurrence !== 'none' && (
+              <p className="text-xs text-muted-foreground">
+                At most {MAX_OCCURRENCES} meals are created per series.
+              </p>
+            )}
+
             <div>
               <Label htmlFor="notes">Notes</Label>
               <Textarea
@@ -444,6 +883,55 @@ export function MealPlanningCalendar() {
           </div>
         </DialogContent>
       </Dialog>
+
+      <Dialog open={isRepeatOpen} onOpenChange={setIsRepeatOpen}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Repeat This Week</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="repeat_weeks">Copy onto the following weeks</Label>
+              <Input
+                id="repeat_weeks"
+                type="number"
+                min="1"
+                max="12"
+                value={repeatWeeks}
+                onChange={(e) => setRepeatWeeks(e.target.value)}
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={handleRepeatWeek} className="flex-1">
+                Repeat
+              </Button>
+              <Button variant="outline" onClick={() => setIsRepeatOpen(false)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deletingEvent} onOpenChange={(open) => !open && setDeletingEvent(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete repeating meal</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{deletingEvent?.title}" is part of a series. Delete just this meal, or this one and every later one?
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => deletingEvent && handleDeleteEvent(deletingEvent)}>
+              Only this meal
+            </AlertDialogAction>
+            <AlertDialogAction onClick={() => deletingEvent && handleDeleteEvent(deletingEvent, true)}>
+              This and following
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
\ No newline at end of file
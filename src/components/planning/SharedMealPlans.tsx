@@ -0,0 +1,422 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Copy, Download, Eye, Share2, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { SharedMealPlan, SharedMealPlanService } from "@/services/sharedMealPlans";
+import { addDays, format, parseISO, startOfWeek } from "date-fns";
+
+const MEAL_TYPES = [
+  { value: 'breakfast', label: 'Breakfast' },
+  { value: 'lunch', label: 'Lunch' },
+  { value: 'dinner', label: 'Dinner' },
+  { value: 'snack', label: 'Snack' },
+];
+
+const DAY_NAMES = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+// Plans are published and imported a whole week at a time
+const toMonday = (value: string) => startOfWeek(parseISO(value), { weekStartsOn: 1 });
+
+export function SharedMealPlans() {
+  const [publicPlans, setPublicPlans] = useState<SharedMealPlan[]>([]);
+  const [myPlans, setMyPlans] = useState<SharedMealPlan[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [previewPlan, setPreviewPlan] = useState<SharedMealPlan | null>(null);
+  const [importWeek, setImportWeek] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [isPublishOpen, setIsPublishOpen] = useState(false);
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [publishForm, setPublishForm] = useState({
+    title: '',
+    description: '',
+    weekStart: format(startOfWeek(new Date(), { weekStartsOn: 1 }), 'yyyy-MM-dd'),
+    weeks: '1',
+    isPublic: true,
+  });
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  const loadPlans = async () => {
+    if (!user) return;
+
+    setLoading(true);
+    try {
+      const [community, mine] = await Promise.all([
+        SharedMealPlanService.getPublicPlans(),
+        SharedMealPlanService.getMyPlans(user.id),
+      ]);
+      setPublicPlans(community);
+      setMyPlans(mine);
+    } catch (error) {
+      console.error('Error loading shared meal plans:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load shared meal plans",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePublish = async () => {
+    if (!user) return;
+
+    const weeks = parseInt(publishForm.weeks);
+    if (!publishForm.title.trim() || !publishForm.weekStart || !(weeks >= 1 && weeks <= 4)) {
+      toast({
+        title: "Error",
+        description: "Give the plan a title and choose 1 to 4 weeks",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsPublishing(true);
+    try {
+      await SharedMealPlanService.publish(user.id, {
+        title: publishForm.title.trim(),
+        description: publishForm.description.trim(),
+        weekStart: toMonday(publishForm.weekStart),
+        weeks,
+        isPublic: publishForm.isPublic,
+      });
+      toast({
+        title: "Plan shared",
+        description: publishForm.isPublic
+          ? "Your plan is now visible to the community"
+          : "Your plan has been saved privately",
+      });
+      setIsPublishOpen(false);
+      setPublishForm(prev => ({ ...prev, title: '', description: '' }));
+      loadPlans();
+    } catch (error) {
+      console.error('Error publishing meal plan:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to share meal plan",
+        variant: "destructive",
+      });
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  const openPreview = (plan: SharedMealPlan) => {
+    setPreviewPlan(plan);
+    setImportWeek(format(addDays(startOfWeek(new Date(), { weekStartsOn: 1 }), 7), 'yyyy-MM-dd'));
+  };
+
+  const handleImport = async () => {
+    if (!user || !previewPlan || !importWeek) return;
+
+    setIsImporting(true);
+    try {
+      const weekStart = toMonday(importWeek);
+      const count = await SharedMealPlanService.importPlan(previewPlan, weekStart);
+      toast({
+        title: "Plan imported",
+        description: `${count} meals added from the week of ${format(weekStart, 'dd MMM')}`,
+      });
+      setPreviewPlan(null);
+    } catch (error) {
+      console.error('Error importing meal plan:', error);
+      toast({
+        title: "Error",
+        description: "Failed to import meal plan",
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleTogglePublic = async (plan: SharedMealPlan) => {
+    try {
+      await SharedMealPlanService.setPublic(plan.id, !plan.is_public);
+      loadPlans();
+    } catch (error) {
+      console.error('Error updating shared meal plan:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update shared meal plan",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (plan: SharedMealPlan) => {
+    try {
+      await SharedMealPlanService.deletePlan(plan.id);
+      toast({
+        title: "Plan removed",
+        description: `"${plan.title}" is no longer shared`,
+      });
+      loadPlans();
+    } catch (error) {
+      console.error('Error deleting shared meal plan:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove shared meal plan",
+        variant: "destructive",
+      });
+    }
+  };
+
+  useEffect(() => {
+    loadPlans();
+  }, [user]);
+
+  const renderNutrition = (plan: SharedMealPlan) => {
+    const summary = plan.nutrition_summary;
+    if (!summary || summary.days === 0) {
+      return <p className="text-xs text-muted-foreground">No nutrition information</p>;
+    }
+
+    return (
+      <div className="grid grid-cols-4 gap-2 text-center">
+        {[
+          { label: 'kcal', value: summary.perDay.calories },
+          { label: 'protein', value: summary.perDay.protein, unit: 'g' },
+          { label: 'carbs', value: summary.perDay.carbs, unit: 'g' },
+          { label: 'fat', value: summary.perDay.fat, unit: 'g' },
+        ].map(item => (
+          <div key={item.label} className="rounded-md bg-muted/30 p-2">
+            <div className="font-semibold text-sm">{Math.round(item.value)}{item.unit}</div>
+            <div className="text-xs text-muted-foreground">{item.label}/day</div>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const renderPlanCard = (plan: SharedMealPlan, isMine: boolean) => (
+    <Card key={plan.id}>
+      <CardHeader className="pb-2">
+        <div className="flex items-start justify-between gap-2">
+          <CardTitle className="text-lg">{plan.title}</CardTitle>
+          <Badge variant="secondary">
+            {plan.weeks_count || 1} week{(plan.weeks_count || 1) === 1 ? '' : 's'}
+          </Badge>
+        </div>
+        {plan.description && <CardDescription>{plan.description}</CardDescription>}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-sm text-muted-foreground">
+          {plan.events.length} meals · {plan.recipes.length} recipes
+        </p>
+        {renderNutrition(plan)}
+        <div className="flex items-center gap-2">
+          <Button size="sm" variant="outline" onClick={() => openPreview(plan)}>
+            <Eye className="h-4 w-4 mr-2" />
+            Preview
+          </Button>
+          {isMine && (
+            <>
+              <div className="flex items-center gap-2 ml-auto">
+                <Switch
+                  id={`public-${plan.id}`}
+                  checked={!!plan.is_public}
+                  onCheckedChange={() => handleTogglePublic(plan)}
+                />
+                <Label htmlFor={`public-${plan.id}`} className="text-xs">Public</Label>
+              </div>
+              <Button size="sm" variant="ghost" className="text-destructive" onClick={() => handleDelete(plan)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+
+  const renderPlanList = (plans: SharedMealPlan[], isMine: boolean) => {
+    if (loading) {
+      return <p className="text-center text-muted-foreground py-8">Loading plans...</p>;
+    }
+    if (plans.length === 0) {
+      return (
+        <div className="text-center py-12">
+          <Copy className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+          <p className="text-muted-foreground">
+            {isMine ? "You haven't shared any meal plans yet" : 'No meal plans have been shared yet'}
+          </p>
+        </div>
+      );
+    }
+    return (
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+        {plans.map(plan => renderPlanCard(plan, isMine))}
+      </div>
+    );
+  };
+
+  const previewDays = previewPlan
+    ? [...new Set(previewPlan.events.map(event => event.day))].sort((a, b) => a - b)
+    : [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold">Shared Meal Plans</h2>
+          <p className="text-muted-foreground">Browse and copy meal plans shared by other users</p>
+        </div>
+        <Button onClick={() => setIsPublishOpen(true)}>
+          <Share2 className="h-4 w-4 mr-2" />
+          Share a Plan
+        </Button>
+      </div>
+
+      <Tabs defaultValue="community">
+        <TabsList>
+          <TabsTrigger value="community">Community</TabsTrigger>
+          <TabsTrigger value="mine">My Shared Plans</TabsTrigger>
+        </TabsList>
+        <TabsContent value="community">{renderPlanList(publicPlans, false)}</TabsContent>
+        <TabsContent value="mine">{renderPlanList(myPlans, true)}</TabsContent>
+      </Tabs>
+
+      <Dialog open={isPublishOpen} onOpenChange={setIsPublishOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Share a Meal Plan</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="plan_title">Title *</Label>
+              <Input
+                id="plan_title"
+                placeholder="e.g., Busy week batch cooking"
+                value={publishForm.title}
+                onChange={(e) => setPublishForm(prev => ({ ...prev, title: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label htmlFor="plan_description">Description</Label>
+              <Textarea
+                id="plan_description"
+                placeholder="What makes this plan work for you?"
+                value={publishForm.description}
+                onChange={(e) => setPublishForm(prev => ({ ...prev, description: e.target.value }))}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <Label htmlFor="plan_week">Starting week</Label>
+                <Input
+                  id="plan_week"
+                  type="date"
+                  value={publishForm.weekStart}
+                  onChange={(e) => setPublishForm(prev => ({ ...prev, weekStart: e.target.value }))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="plan_weeks">Weeks</Label>
+                <Input
+                  id="plan_weeks"
+                  type="number"
+                  min="1"
+                  max="4"
+                  value={publishForm.weeks}
+                  onChange={(e) => setPublishForm(prev => ({ ...prev, weeks: e.target.value }))}
+                />
+              </div>
+            </div>
+            {publishForm.weekStart && (
+              <p className="text-xs text-muted-foreground">
+                Shares your calendar from Monday {format(toMonday(publishForm.weekStart), 'dd MMM yyyy')}.
+                Recipes are included so others can cook them.
+              </p>
+            )}
+            <div className="flex items-center gap-2">
+              <Switch
+                id="plan_public"
+                checked={publishForm.isPublic}
+                onCheckedChange={(checked) => setPublishForm(prev => ({ ...prev, isPublic: checked }))}
+              />
+              <Label htmlFor="plan_public">Visible to the community</Label>
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={handlePublish} disabled={isPublishing} className="flex-1">
+                {isPublishing ? 'Sharing...' : 'Share Plan'}
+              </Button>
+              <Button variant="outline" onClick={() => setIsPublishOpen(false)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!previewPlan} onOpenChange={(open) => !open && setPreviewPlan(null)}>
+        <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{previewPlan?.title}</DialogTitle>
+          </DialogHeader>
+          {previewPlan && (
+            <div className="space-y-4">
+              {previewPlan.description && (
+                <p className="text-sm text-muted-foreground">{previewPlan.description}</p>
+              )}
+              {renderNutrition(previewPlan)}
+
+              <div className="space-y-3">
+                {previewDays.map(day => (
+                  <div key={day}>
+                    <h4 className="text-sm font-semibold">
+                      {(previewPlan.weeks_count || 1) > 1 && `Week ${Math.floor(day / 7) + 1} · `}
+                      {DAY_NAMES[day % 7]}
+                    </h4>
+                    <div className="space-y-1">
+                      {previewPlan.events
+                        .filter(event => event.day === day)
+                        .sort((a, b) => MEAL_TYPES.findIndex(t => t.value === a.meal_type) - MEAL_TYPES.findIndex(t => t.value === b.meal_type))
+                        .map((event, index) => (
+                          <div key={index} className="flex items-center gap-2 text-sm">
+                            <Badge variant="outline" className="text-xs">
+                              {MEAL_TYPES.find(t => t.value === event.meal_type)?.label || event.meal_type}
+                            </Badge>
+                            {event.title}
+                            {event.start_time && (
+                              <span className="text-xs text-muted-foreground">{event.start_time.slice(0, 5)}</span>
+                            )}
+                          </div>
+                        ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex items-end gap-2 border-t pt-4">
+                <div className="flex-1">
+                  <Label htmlFor="import_week">Add to my calendar from the week of</Label>
+                  <Input
+                    id="import_week"
+                    type="date"
+                    value={importWeek}
+                    onChange={(e) => setImportWeek(e.target.value)}
+                  />
+                </div>
+                <Button onClick={handleImport} disabled={isImporting || !importWeek}>
+                  <Download className="h-4 w-4 mr-2" />
+                  {isImporting ? 'Importing...' : 'Import'}
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowUp, ArrowDown, Trash2, Plus } from "lucide-react";
+import { FoodItemAutocomplete } from "@/components/food/FoodItemAutocomplete";
+import { UNITS, getUnit } from "@/lib/units";
+
+export interface IngredientRow {
+  key: string;
+  food_item_id: string | null;
+  ingredient_name: string;
+  quantity: string;
+  unit: string;
+}
+
+interface IngredientEditorProps {
+  ingredients: IngredientRow[];
+  onChange: (ingredients: IngredientRow[]) => void;
+  errors?: Record<string, string>;
+}
+
+export function IngredientEditor({ ingredients, onChange, errors = {} }: IngredientEditorProps) {
+  const updateRow = (key: string, changes: Partial<IngredientRow>) => {
+    onChange(ingredients.map(row => row.key === key ? { ...row, ...changes } : row));
+  };
+
+  const addRow = () => {
+    onChange([
+      ...ingredients,
+      { key: crypto.randomUUID(), food_item_id: null, ingredient_name: '', quantity: '', unit: 'g' },
+    ]);
+  };
+
+  const removeRow = (key: string) => {
+    onChange(ingredients.filter(row => row.key !== key));
+  };
+
+  const moveRow = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= ingredients.length) return;
+
+    const reordered = [...ingredients];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <Label>Ingredients</Label>
+        <Button type="button" variant="outline" size="sm" onClick={addRow}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add Ingredient
+        </Button>
+      </div>
+
+      {ingredients.length === 0 ? (
+        <p className="text-sm text-muted-foreground mt-2">
+          No ingredients yet. Add ingredients to enable shopping lists and nutrition.
+        </p>
+      ) : (
+        <div className="space-y-2 mt-2">
+          {ingredients.map((row, index) => (
+            <div key={row.key}>
+              <div className="flex items-center gap-2">
+                <div className="flex flex-col">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-4 w-6 p-0"
+                    disabled={index === 0}
+                    onClick={() => moveRow(index, -1)}
+                  >
+                    <ArrowUp className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-4 w-6 p-0"
+                    disabled={index === ingredients.length - 1}
+                    onClick={() => moveRow(index, 1)}
+                  >
+                    <ArrowDown className="h-3 w-3" />
+                  </Button>
+                </div>
+
+                <FoodItemAutocomplete
+                  className="flex-1"
+                  value={row.ingredient_name}
+                  linkedFoodItemId={row.food_item_id}
+                  invalid={!!errors[row.key]}
+                  placeholder="e.g. Chopped tomatoes"
+                  // Editing the text breaks the link to the food database entry
+                  onValueChange={(value) => updateRow(row.key, { ingredient_name: value, food_item_id: null })}
+                  onSelect={(item) => updateRow(row.key, {
+                    food_item_id: item.id,
+                    ingredient_name: item.name,
+                    unit: row.quantity || !getUnit(item.serving_unit) ? row.unit : getUnit(item.serving_unit)!.value,
+                  })}
+                />
+
+                <Input
+                  type="number"
+                  min="0"
+                  step="any"
+                  placeholder="Qty"
+                  value={row.quantity}
+                  onChange={(e) => updateRow(row.key, { quantity: e.target.value })}
+                  className={`w-20 ${errors[row.key] ? 'border-destructive' : ''}`}
+                />
+
+                <Select value={row.unit} onValueChange={(value) => updateRow(row.key, { unit: value })}>
+                  <SelectTrigger className="w-24">
+                    <SelectValue placeholder="Unit" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {UNITS.map(unit => (
+                      <SelectItem key={unit.value} value={unit.value}>
+                        {unit.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="text-destructive"
+                  onClick={() => removeRow(row.key)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              {errors[row.key] && (
+                <p className="text-xs text-destructive mt-1 ml-8">{errors[row.key]}</p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
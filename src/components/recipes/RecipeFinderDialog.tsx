@@ -0,0 +1,217 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Progress } from "@/components/ui/progress";
+import { Package, Plus, Search, ShoppingCart, X } from "lucide-react";
+import { FoodItemAutocomplete } from "@/components/food/FoodItemAutocomplete";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { PantryService } from "@/services/pantry";
+import { ShoppingListService } from "@/services/shoppingList";
+import { FinderIngredient, RecipeFinderService, RecipeMatch } from "@/services/recipeFinder";
+
+// Most kitchens have these, so by default they don't count against a recipe
+const PANTRY_BASICS = ['salt', 'pepper', 'oil', 'water'];
+
+interface RecipeFinderDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function RecipeFinderDialog({ isOpen, onClose }: RecipeFinderDialogProps) {
+  const [have, setHave] = useState<FinderIngredient[]>([]);
+  const [input, setInput] = useState('');
+  const [inputFoodId, setInputFoodId] = useState<string | null>(null);
+  const [assumeBasics, setAssumeBasics] = useState(true);
+  const [includeCommunity, setIncludeCommunity] = useState(true);
+  const [results, setResults] = useState<RecipeMatch[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [addingId, setAddingId] = useState<string | null>(null);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const addIngredient = (item: FinderIngredient) => {
+    const name = item.name.trim();
+    if (!name) return;
+
+    setHave(prev => prev.some(existing => existing.name.toLowerCase() === name.toLowerCase())
+      ? prev
+      : [...prev, { name, food_item_id: item.food_item_id || null }]);
+    setInput('');
+    setInputFoodId(null);
+  };
+
+  const addPantryItems = async () => {
+    if (!user) return;
+
+    try {
+      const pantry = await PantryService.getItems(user.id);
+      pantry
+        .filter(item => Number(item.quantity) > 0)
+        .forEach(item => addIngredient({ name: item.name, food_item_id: item.food_item_id }));
+    } catch (error) {
+      console.error('Error loading pantry:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load pantry",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const findRecipes = async () => {
+    const ingredients = assumeBasics
+      ? [...have, ...PANTRY_BASICS.map(name => ({ name }))]
+      : have;
+
+    setIsSearching(true);
+    try {
+      setResults(await RecipeFinderService.find(ingredients, includeCommunity));
+    } catch (error) {
+      console.error('Error finding recipes:', error);
+      toast({
+        title: "Error",
+        description: "Failed to find recipes",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const addMissing = async (match: RecipeMatch) => {
+    if (!user) return;
+
+    setAddingId(match.recipe_id);
+    try {
+      const added = await ShoppingListService.addToLatestList(user.id, match.missing, 'Shopping list');
+      toast({
+        title: "Added to shopping list",
+        description: added.itemCount > 0
+          ? `${added.itemCount} item${added.itemCount === 1 ? '' : 's'} added to ${added.listName}`
+          : `Everything was already on ${added.listName}`,
+      });
+    } catch (error) {
+      console.error('Error adding missing ingredients:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add ingredients to your shopping list",
+        variant: "destructive",
+      });
+    } finally {
+      setAddingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Cook with what I have</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex gap-2">
+            <div className="flex-1" onKeyDown={(e) => e.key === 'Enter' && addIngredient({ name: input, food_item_id: inputFoodId })}>
+              <FoodItemAutocomplete
+                value={input}
+                linkedFoodItemId={inputFoodId}
+                placeholder="Add an ingredient, e.g. chicken"
+                onValueChange={(value) => { setInput(value); setInputFoodId(null); }}
+                onSelect={(food) => addIngredient({ name: food.name, food_item_id: food.id })}
+              />
+            </div>
+            <Button variant="outline" onClick={() => addIngredient({ name: input, food_item_id: inputFoodId })}>
+              <Plus className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" onClick={addPantryItems}>
+              <Package className="h-4 w-4 mr-2" />
+              Use Pantry
+            </Button>
+          </div>
+
+          {have.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {have.map(item => (
+                <Badge key={item.name} variant="secondary" className="flex items-center gap-1">
+                  {item.name}
+                  <X
+                    className="h-3 w-3 cursor-pointer"
+                    onClick={() => setHave(prev => prev.filter(existing => existing.name !== item.name))}
+                  />
+                </Badge>
+              ))}
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-6">
+            <div className="flex items-center space-x-2">
+              <Checkbox id="assume-basics" checked={assumeBasics} onCheckedChange={(checked) => setAssumeBasics(!!checked)} />
+              <Label htmlFor="assume-basics" className="text-sm">I have {PANTRY_BASICS.join(', ')}</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch id="include-community" checked={includeCommunity} onCheckedChange={setIncludeCommunity} />
+              <Label htmlFor="include-community" className="text-sm">Include community recipes</Label>
+            </div>
+          </div>
+
+          <Button className="w-full" onClick={findRecipes} disabled={have.length === 0 || isSearching}>
+            <Search className="h-4 w-4 mr-2" />
+            {isSearching ? 'Searching...' : 'Find Recipes'}
+          </Button>
+
+          {results && results.length === 0 && (
+            <p className="text-center text-muted-foreground py-4">
+              No recipes use any of these ingredients yet.
+            </p>
+          )}
+
+          {results?.map(match => (
+            <div key={match.recipe_id} className="border rounded-lg p-4 space-y-2">
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <h4 className="font-medium">{match.name}</h4>
+                  {match.description && (
+                    <p className="text-sm text-muted-foreground line-clamp-1">{match.description}</p>
+                  )}
+                </div>
+                {!match.is_own && <Badge variant="outline">Community</Badge>}
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Progress value={match.coverage * 100} className="flex-1" />
+                <span className="text-sm text-muted-foreground whitespace-nowrap">
+                  {match.matched_ingredients}/{match.total_ingredients} ingredients
+                </span>
+              </div>
+
+              {match.missing.length > 0 ? (
+                <div className="flex items-end justify-between gap-2">
+                  <p className="text-sm">
+                    <span className="text-muted-foreground">Missing: </span>
+                    {match.missing.map(item => `${item.quantity}${item.unit ? ` ${item.unit}` : ''} ${item.name}`).join(', ')}
+                  </p>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={addingId === match.recipe_id}
+                    onClick={() => addMissing(match)}
+                  >
+                    <ShoppingCart className="h-4 w-4 mr-2" />
+                    Add Missing
+                  </Button>
+                </div>
+              ) : (
+                <p className="text-sm text-primary">You have everything for this recipe</p>
+              )}
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
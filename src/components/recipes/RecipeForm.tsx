@@ -9,6 +9,8 @@ import { Badge } from "@/components/ui/badge";
 import { X, Plus } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import { IngredientEditor, IngredientRow } from "./IngredientEditor";
+import { validateQuantity, normaliseUnit } from "@/lib/units";
 
 interface Recipe {
   id?: string;
@@ -49,17 +51,25 @@ export function RecipeForm({ isOpen, onClose, recipe, onSave }: RecipeFormProps)
     tags: [],
     image_url: '',
   });
+  const [ingredients, setIngredients] = useState<IngredientRow[]>([]);
+  const [ingredientErrors, setIngredientErrors] = useState<Record<string, string>>({});
   const [newTag, setNewTag] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const { toast } = useToast();
 
   useEffect(() => {
+    setIngredients([]);
+    setIngredientErrors({});
+
     if (recipe) {
       setFormData({
         ...recipe,
         meal_times: recipe.meal_times || [],
         tags: recipe.tags || [],
       });
+      if (recipe.id) {
+        loadIngredients(recipe.id);
+      }
     } else {
       setFormData({
         name: '',
@@ -75,6 +85,46 @@ export function RecipeForm({ isOpen, onClose, recipe, onSave }: RecipeFormProps)
     }
   }, [recipe]);
 
+  const loadIngredients = async (recipeId: string) => {
+    const { data, error } = await supabase
+      .from('recipe_ingredients')
+      .select('food_item_id, ingredient_name, quantity, unit')
+      .eq('recipe_id', recipeId)
+      .order('position');
+
+    if (error) {
+      console.error('Error loading ingredients:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load recipe ingredients",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIngredients((data || []).map(ingredient => ({
+      key: crypto.randomUUID(),
+      food_item_id: ingredient.food_item_id,
+      ingredient_name: ingredient.ingredient_name || '',
+      quantity: String(ingredient.quantity),
+      unit: normaliseUnit(ingredient.unit),
+    })));
+  };
+
+  const validateIngredients = () => {
+    const errors: Record<string, string> = {};
+    ingredients.forEach(row => {
+      if (!row.ingredient_name.trim() && !row.food_item_id) {
+        errors[row.key] = 'Enter an ingredient name';
+        return;
+      }
+      const message = validateQuantity(parseFloat(row.quantity), row.unit);
+      if (message) errors[row.key] = message;
+    });
+    setIngredientErrors(errors);
+    return Object.keys(errors).length === 0;
+  };
+
   const handleMealTimeToggle = (mealTime: string) => {
     setFormData(prev => ({
       ...prev,
@@ -112,6 +162,15 @@ export function RecipeForm({ isOpen, onClose, recipe, onSave }: RecipeFormProps)
       return;
     }
 
+    if (!validateIngredients()) {
+      toast({
+        title: "Error",
+        description: "Please fix the highlighted ingredients",
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsLoading(true);
 
     try {
@@ -125,23 +184,16 @@ export function RecipeForm({ isOpen, onClose, recipe, onSave }: RecipeFormProps)
         return;
       }
 
-      const recipeData = {
-        ...formData,
-        user_id: user.id,
-        updated_at: new Date().toISOString(),
-      };
-
-      let error;
-      if (recipe?.id) {
-        ({ error } = await supabase
-          .from('recipes')
-          .update(recipeData)
-          .eq('id', recipe.id));
-      } else {
-        ({ error } = await supabase
-          .from('recipes')
-          .insert(recipeData));
-      }
+      // The recipe and its ingredients are written in a single transaction
+      const { error } = await supabase.rpc('save_recipe_with_ingredients', {
+        p_recipe: { ...formData, id: recipe?.id },
+        p_ingredients: ingredients.map(row => ({
+          food_item_id: row.food_item_id,
+          ingredient_name: row.ingredient_name.trim(),
+          quantity: parseFloat(row.quantity),
+          unit: row.unit,
+        })),
+      });
 
       if (error) throw error;
 
@@ -283,6 +335,12 @@ export function RecipeForm({ isOpen, onClose, recipe, onSave }: RecipeFormProps)
             </div>
           </div>
 
+          <IngredientEditor
+            ingredients={ingredients}
+            onChange={setIngredients}
+            errors={ingredientErrors}
+          />
+
           <div>
             <Label htmlFor="instructions">Instructions</Label>
             <Textarea
@@ -0,0 +1,59 @@
+import { AlertTriangle } from "lucide-react";
+import { RecipeNutrition } from "@/lib/nutrition";
+import { recipeTrafficLights } from "@/lib/trafficLights";
+import { TrafficLightLabel } from "@/components/nutrition/TrafficLightLabel";
+
+interface RecipeNutritionSummaryProps {
+  nutrition?: RecipeNutrition | null;
+}
+
+export function RecipeNutritionSummary({ nutrition }: RecipeNutritionSummaryProps) {
+  if (!nutrition) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        Add linked ingredients to see nutrition
+      </p>
+    );
+  }
+
+  const { perServing, unconverted } = nutrition;
+
+  return (
+    <div className="space-y-1">
+      <div className="grid grid-cols-4 gap-2 text-center">
+        <div>
+          <p className="text-sm font-semibold">{Math.round(perServing.calories)}</p>
+          <p className="text-xs text-muted-foreground">kcal</p>
+        </div>
+        <div>
+          <p className="text-sm font-semibold">{Math.round(perServing.protein)}g</p>
+          <p className="text-xs text-muted-foreground">protein</p>
+        </div>
+        <div>
+          <p className="text-sm font-semibold">{Math.round(perServing.carbs)}g</p>
+          <p className="text-xs text-muted-foreground">carbs</p>
+        </div>
+        <div>
+          <p className="text-sm font-semibold">{Math.round(perServing.fat)}g</p>
+          <p className="text-xs text-muted-foreground">fat</p>
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground text-center">
+        Per serving · fibre {Math.round(perServing.fiber)}g · sugar {Math.round(perServing.sugar)}g
+        {perServing.saturated_fat != null && ` · saturates ${perServing.saturated_fat.toFixed(1)}g`}
+        {perServing.salt != null && ` · salt ${perServing.salt.toFixed(1)}g`}
+        {' '}· sodium {Math.round(perServing.sodium)}mg
+      </p>
+      <TrafficLightLabel label={recipeTrafficLights(nutrition)} />
+      {unconverted.length > 0 && (
+        <p
+          className="flex items-center text-xs text-warning"
+          title={unconverted.map(i => `${i.name}: ${i.reason}`).join('\n')}
+        >
+          <AlertTriangle className="h-3 w-3 mr-1" />
+          {unconverted.length} ingredient{unconverted.length === 1 ? '' : 's'} not counted
+        </p>
+      )}
+    </div>
+  );
+}
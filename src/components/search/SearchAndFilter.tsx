@@ -11,6 +11,8 @@ interface FilterOptions {
   dietaryRestrictions: string[];
   prepTime: { min: number; max: number } | null;
   rating: number | null;
+  includeIngredients: string[];
+  excludeIngredients: string[];
 }
 
 interface SearchAndFilterProps {
@@ -37,12 +39,16 @@ export function SearchAndFilter({
   placeholder = "Search meals, recipes, ingredients..."
 }: SearchAndFilterProps) {
   const [open, setOpen] = useState(false);
+  const [includeInput, setIncludeInput] = useState("");
+  const [excludeInput, setExcludeInput] = useState("");
 
   const hasActiveFilters = 
     filters.mealTypes.length > 0 || 
     filters.dietaryRestrictions.length > 0 || 
     filters.prepTime !== null || 
-    filters.rating !== null;
+    filters.rating !== null ||
+    filters.includeIngredients.length > 0 ||
+    filters.excludeIngredients.length > 0;
 
   const clearAllFilters = () => {
     onFiltersChange({
@@ -50,6 +56,8 @@ export function SearchAndFilter({
       dietaryRestrictions: [],
       prepTime: null,
       rating: null,
+      includeIngredients: [],
+      excludeIngredients: [],
     });
   };
 
@@ -75,6 +83,16 @@ export function SearchAndFilter({
     onFiltersChange({ ...filters, rating });
   };
 
+  const addIngredient = (key: 'includeIngredients' | 'excludeIngredients', value: string) => {
+    const term = value.trim().toLowerCase();
+    if (!term || filters[key].includes(term)) return;
+    onFiltersChange({ ...filters, [key]: [...filters[key], term] });
+  };
+
+  const removeIngredient = (key: 'includeIngredients' | 'excludeIngredients', term: string) => {
+    onFiltersChange({ ...filters, [key]: filters[key].filter(t => t !== term) });
+  };
+
   return (
     <div className="space-y-4">
       <div className="flex gap-2">
@@ -96,7 +114,8 @@ export function SearchAndFilter({
               {hasActiveFilters && (
                 <Badge variant="secondary" className="ml-1 h-5 px-1.5 text-xs">
                   {filters.mealTypes.length + filters.dietaryRestrictions.length + 
-                   (filters.prepTime ? 1 : 0) + (filters.rating ? 1 : 0)}
+                   (filters.prepTime ? 1 : 0) + (filters.rating ? 1 : 0) +
+                   filters.includeIngredients.length + filters.excludeIngredients.length}
                 </Badge>
               )}
             </Button>
@@ -164,6 +183,34 @@ export function SearchAndFilter({
                   </div>
                 </div>
 
+                <div>
+                  <h5 className="text-sm font-medium mb-2">Ingredients</h5>
+                  <div className="space-y-2">
+                    <Input
+                      placeholder="Must include, e.g. chicken"
+                      value={includeInput}
+                      onChange={(e) => setIncludeInput(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') {
+                          addIngredient('includeIngredients', includeInput);
+                          setIncludeInput("");
+                        }
+                      }}
+                    />
+                    <Input
+                      placeholder="Must exclude, e.g. peanuts"
+                      value={excludeInput}
+                      onChange={(e) => setExcludeInput(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') {
+                          addIngredient('excludeIngredients', excludeInput);
+                          setExcludeInput("");
+                        }
+                      }}
+                    />
+                  </div>
+                </div>
+
                 <div>
                   <h5 className="text-sm font-medium mb-2">Minimum Rating</h5>
                   <div className="flex gap-2">
@@ -216,6 +263,24 @@ export function SearchAndFilter({
               />
             </Badge>
           )}
+          {filters.includeIngredients.map((term) => (
+            <Badge key={`include-${term}`} variant="secondary" className="flex items-center gap-1">
+              <span>with {term}</span>
+              <X 
+                className="h-3 w-3 cursor-pointer" 
+                onClick={() => removeIngredient('includeIngredients', term)} 
+              />
+            </Badge>
+          ))}
+          {filters.excludeIngredients.map((term) => (
+            <Badge key={`exclude-${term}`} variant="secondary" className="flex items-center gap-1">
+              <span>without {term}</span>
+              <X 
+                className="h-3 w-3 cursor-pointer" 
+                onClick={() => removeIngredient('excludeIngredients', term)} 
+              />
+            </Badge>
+          ))}
           {filters.rating && (
             <Badge variant="secondary" className="flex items-center gap-1">
               <span>{filters.rating}★+</span>
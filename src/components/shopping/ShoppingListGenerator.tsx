@@ -7,9 +7,16 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ShoppingCart, Plus, DollarSign, MapPin } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import { ShoppingListService } from "@/services/shoppingList";
+import { PantryService } from "@/services/pantry";
+import { AllergenService } from "@/services/allergens";
+import { AllergenWarning } from "@/lib/allergens";
+import { AllergenWarnings } from "@/components/allergens/AllergenWarnings";
+import { addDays, format, startOfWeek } from "date-fns";
 
 interface MealPlan {
   id: string;
@@ -24,6 +31,7 @@ interface ShoppingListItem {
   quantity: number;
   unit: string;
   category_id?: string;
+  food_item_id?: string | null;
   estimated_cost: number;
   actual_cost: number;
   is_purchased: boolean;
@@ -31,6 +39,10 @@ interface ShoppingListItem {
     name: string;
     sort_order: number;
   };
+  food_item?: {
+    allergens: string[] | null;
+    allergen_traces: string[] | null;
+  } | null;
 }
 
 interface ShoppingCategory {
@@ -41,7 +53,12 @@ interface ShoppingCategory {
 
 export function ShoppingListGenerator() {
   const [isOpen, setIsOpen] = useState(false);
+  const [source, setSource] = useState<'calendar' | 'meal-plan'>('calendar');
   const [selectedMealPlan, setSelectedMealPlan] = useState<string>("");
+  const [startDate, setStartDate] = useState(format(startOfWeek(new Date(), { weekStartsOn: 1 }), 'yyyy-MM-dd'));
+  const [endDate, setEndDate] = useState(format(addDays(startOfWeek(new Date(), { weekStartsOn: 1 }), 6), 'yyyy-MM-dd'));
+  const [usePantry, setUsePantry] = useState(true);
+  const [isGenerating, setIsGenerating] = useState(false);
   const [listName, setListName] = useState("");
   const [mealPlans, setMealPlans] = useState<MealPlan[]>([]);
   const [shoppingLists, setShoppingLists] = useState<any[]>([]);
@@ -49,6 +66,8 @@ export function ShoppingListGenerator() {
   const [listItems, setListItems] = useState<ShoppingListItem[]>([]);
   const [categories, setCategories] = useState<ShoppingCategory[]>([]);
   const [totalCost, setTotalCost] = useState(0);
+  const [allergenWarnings, setAllergenWarnings] = useState<AllergenWarning[]>([]);
+  const [allergenCheckFailed, setAllergenCheckFailed] = useState(false);
   const { toast } = useToast();
 
   const loadMealPlans = async () => {
@@ -110,7 +129,8 @@ export function ShoppingListGenerator() {
       .from('shopping_list_items')
       .select(`
         *,
-        category:shopping_categories(name, sort_order)
+        category:shopping_categories(name, sort_order),
+        food_item:food_items(allergens, allergen_traces)
       `)
       .eq('shopping_list_id', listId)
       .order('created_at');
@@ -129,6 +149,88 @@ export function ShoppingListGenerator() {
     // Calculate total cost
     const total = data?.reduce((sum, item) => sum + (item.actual_cost || item.estimated_cost || 0), 0) || 0;
     setTotalCost(total);
+
+    checkAllergens(data || []);
+  };
+
+  // A failed check doesn't get in the way of the list, but it does say so
+  const checkAllergens = async (items: ShoppingListItem[]) => {
+    setAllergenWarnings([]);
+    setAllergenCheckFailed(false);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      setAllergenWarnings(await AllergenService.getWarnings(user.id, items.map(item => ({
+        name: item.item_name,
+        allergens: item.food_item?.allergens,
+        traces: item.food_item?.allergen_traces,
+      }))));
+    } catch (error) {
+      console.error('Error checking allergens:', error);
+      setAllergenCheckFailed(true);
+    }
+  };
+
+  const generateFromCalendar = async () => {
+    if (!listName || !startDate || !endDate) {
+      toast({
+        title: "Error",
+        description: "Please choose a date range and enter a list name",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (endDate < startDate) {
+      toast({
+        title: "Error",
+        description: "The end date must be on or after the start date",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      toast({
+        title: "Error",
+        description: "You must be logged in to generate shopping lists",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsGenerating(true);
+    try {
+      const result = await ShoppingListService.generateFromCalendar(user.id, {
+        name: listName,
+        startDate,
+        endDate,
+        pantry: usePantry ? await PantryService.getItems(user.id) : undefined,
+      });
+
+      toast({
+        title: "Success",
+        description: result.eventCount > 0
+          ? `Added ${result.itemCount} items from ${result.eventCount} planned meals`
+          : "No planned recipes in that range, so the list is empty",
+      });
+
+      setIsOpen(false);
+      setListName("");
+      await loadShoppingLists();
+      setSelectedList(result.listId);
+    } catch (error) {
+      console.error('Error generating shopping list:', error);
+      toast({
+        title: "Error",
+        description: "Failed to generate shopping list",
+        variant: "destructive",
+      });
+    } finally {
+      setIsGenerating(false);
+    }
   };
 
   const generateShoppingList = async () => {
@@ -166,7 +268,8 @@ export function ShoppingListGenerator() {
     loadShoppingLists();
   };
 
-  const toggleItemPurchased = async (itemId: string, purchased: boolean) => {
+  const toggleItemPurchased = async (listItem: ShoppingListItem, purchased: boolean) => {
+    const itemId = listItem.id;
     const { error } = await supabase
       .from('shopping_list_items')
       .update({ is_purchased: purchased })
@@ -186,6 +289,32 @@ export function ShoppingListGenerator() {
         item.id === itemId ? { ...item, is_purchased: purchased } : item
       )
     );
+
+    // Purchases go into the pantry; unticking takes them back out
+    if (!listItem.quantity) return;
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const stock = {
+        name: listItem.item_name,
+        quantity: Number(listItem.quantity),
+        unit: listItem.unit || 'each',
+        food_item_id: listItem.food_item_id,
+      };
+      if (purchased) {
+        await PantryService.restock(user.id, stock);
+      } else {
+        await PantryService.deplete(user.id, [stock]);
+      }
+    } catch (pantryError) {
+      console.error('Error updating pantry:', pantryError);
+      toast({
+        title: "Error",
+        description: "Item updated, but the pantry could not be updated",
+        variant: "destructive",
+      });
+    }
   };
 
   const updateItemCost = async (itemId: string, cost: number) => {
@@ -252,7 +381,7 @@ export function ShoppingListGenerator() {
           <DialogTrigger asChild>
             <Button onClick={() => setIsOpen(true)}>
               <Plus className="mr-2 h-4 w-4" />
-              Generate from Meal Plan
+              Generate List
             </Button>
           </DialogTrigger>
           <DialogContent>
@@ -260,21 +389,64 @@ export function ShoppingListGenerator() {
               <DialogTitle>Generate Shopping List</DialogTitle>
             </DialogHeader>
             <div className="space-y-4">
-              <div>
-                <Label htmlFor="mealplan">Select Meal Plan</Label>
-                <Select value={selectedMealPlan} onValueChange={setSelectedMealPlan}>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Choose a meal plan" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {mealPlans.map(plan => (
-                      <SelectItem key={plan.id} value={plan.id}>
-                        {plan.name}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
+              <Tabs value={source} onValueChange={(value) => setSource(value as 'calendar' | 'meal-plan')}>
+                <TabsList className="grid w-full grid-cols-2">
+                  <TabsTrigger value="calendar">Meal Calendar</TabsTrigger>
+                  <TabsTrigger value="meal-plan">Meal Plan</TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="calendar" className="space-y-2">
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <Label htmlFor="start-date">From</Label>
+                      <Input
+                        id="start-date"
+                        type="date"
+                        value={startDate}
+                        onChange={(e) => setStartDate(e.target.value)}
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="end-date">To</Label>
+                      <Input
+                        id="end-date"
+                        type="date"
+                        value={endDate}
+                        onChange={(e) => setEndDate(e.target.value)}
+                      />
+                    </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Ingredients from every planned recipe in this range, scaled to the planned servings.
+                  </p>
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="use-pantry"
+                      checked={usePantry}
+                      onCheckedChange={(checked) => setUsePantry(checked === true)}
+                    />
+                    <Label htmlFor="use-pantry" className="font-normal">
+                      Leave out what is already in my pantry
+                    </Label>
+                  </div>
+                </TabsContent>
+
+                <TabsContent value="meal-plan">
+                  <Label htmlFor="mealplan">Select Meal Plan</Label>
+                  <Select value={selectedMealPlan} onValueChange={setSelectedMealPlan}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose a meal plan" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {mealPlans.map(plan => (
+                        <SelectItem key={plan.id} value={plan.id}>
+                          {plan.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TabsContent>
+              </Tabs>
               
               <div>
                 <Label htmlFor="listname">Shopping List Name</Label>
@@ -286,9 +458,13 @@ export function ShoppingListGenerator() {
                 />
               </div>
               
-              <Button onClick={generateShoppingList} className="w-full">
+              <Button
+                onClick={source === 'calendar' ? generateFromCalendar : generateShoppingList}
+                className="w-full"
+                disabled={isGenerating}
+              >
                 <ShoppingCart className="mr-2 h-4 w-4" />
-                Generate Shopping List
+                {isGenerating ? 'Generating...' : 'Generate Shopping List'}
               </Button>
             </div>
           </DialogContent>
@@ -324,6 +500,7 @@ export function ShoppingListGenerator() {
               </div>
             </CardHeader>
             <CardContent>
+              <AllergenWarnings warnings={allergenWarnings} failed={allergenCheckFailed} className="mb-6" />
               <div className="space-y-6">
                 {groupItemsByCategory(listItems).map(([categoryName, { items }]) => (
                   <div key={categoryName}>
@@ -339,7 +516,7 @@ export function ShoppingListGenerator() {
                           <Checkbox
                             checked={item.is_purchased}
                             onCheckedChange={(checked) => 
-                              toggleItemPurchased(item.id, checked as boolean)
+                              toggleItemPurchased(item, checked as boolean)
                             }
                           />
                           
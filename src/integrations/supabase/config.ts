@@ -0,0 +1,3 @@
+// The project URL for code outside the Supabase client. client.ts is
+// generated and gets overwritten, so this is kept here; keep the two in step.
+export const SUPABASE_URL = "https://wmqfonczkedrrdnfwpfc.supabase.co";
@@ -44,63 +44,197 @@ export type Database = {
         }
         Relationships: []
       }
+      allergen_profiles: {
+        Row: {
+          allergens: string[]
+          created_at: string | null
+          id: string
+          name: string
+          notes: string | null
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          allergens?: string[]
+          created_at?: string | null
+          id?: string
+          name: string
+          notes?: string | null
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          allergens?: string[]
+          created_at?: string | null
+          id?: string
+          name?: string
+          notes?: string | null
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      calendar_feeds: {
+        Row: {
+          created_at: string | null
+          id: string
+          token: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          token: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          token?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      comment_reports: {
+        Row: {
+          comment_id: string
+          created_at: string | null
+          details: string | null
+          id: string
+          reason: string
+          reporter_id: string
+          resolved_at: string | null
+          resolved_by: string | null
+          status: string
+        }
+        Insert: {
+          comment_id: string
+          created_at?: string | null
+          details?: string | null
+          id?: string
+          reason: string
+          reporter_id: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+        }
+        Update: {
+          comment_id?: string
+          created_at?: string | null
+          details?: string | null
+          id?: string
+          reason?: string
+          reporter_id?: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "comment_reports_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "recipe_comments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       food_items: {
         Row: {
+          allergen_traces: string[] | null
+          allergens: string[] | null
           barcode: string | null
           brand: string | null
+          calcium_per_100g: number | null
           calories_per_100g: number | null
           carbs_per_100g: number | null
           created_at: string | null
           fat_per_100g: number | null
           fiber_per_100g: number | null
           id: string
+          iron_per_100g: number | null
           is_public: boolean | null
           name: string
+          nova_group: number | null
+          nutriscore_grade: string | null
+          potassium_per_100g: number | null
           protein_per_100g: number | null
+          salt_per_100g: number | null
+          saturated_fat_per_100g: number | null
           serving_size: number | null
           serving_unit: string | null
           sodium_per_100g: number | null
           sugar_per_100g: number | null
           updated_at: string | null
           user_id: string
+          vitamin_a_per_100g: number | null
+          vitamin_c_per_100g: number | null
+          vitamin_d_per_100g: number | null
         }
         Insert: {
+          allergen_traces?: string[] | null
+          allergens?: string[] | null
           barcode?: string | null
           brand?: string | null
+          calcium_per_100g?: number | null
           calories_per_100g?: number | null
           carbs_per_100g?: number | null
           created_at?: string | null
           fat_per_100g?: number | null
           fiber_per_100g?: number | null
           id?: string
+          iron_per_100g?: number | null
           is_public?: boolean | null
           name: string
+          nova_group?: number | null
+          nutriscore_grade?: string | null
+          potassium_per_100g?: number | null
           protein_per_100g?: number | null
+          salt_per_100g?: number | null
+          saturated_fat_per_100g?: number | null
           serving_size?: number | null
           serving_unit?: string | null
           sodium_per_100g?: number | null
           sugar_per_100g?: number | null
           updated_at?: string | null
           user_id: string
+          vitamin_a_per_100g?: number | null
+          vitamin_c_per_100g?: number | null
+          vitamin_d_per_100g?: number | null
         }
         Update: {
+          allergen_traces?: string[] | null
+          allergens?: string[] | null
           barcode?: string | null
           brand?: string | null
+          calcium_per_100g?: number | null
           calories_per_100g?: number | null
           carbs_per_100g?: number | null
           created_at?: string | null
           fat_per_100g?: number | null
           fiber_per_100g?: number | null
           id?: string
+          iron_per_100g?: number | null
           is_public?: boolean | null
           name?: string
+          nova_group?: number | null
+          nutriscore_grade?: string | null
+          potassium_per_100g?: number | null
           protein_per_100g?: number | null
+          salt_per_100g?: number | null
+          saturated_fat_per_100g?: number | null
           serving_size?: number | null
           serving_unit?: string | null
           sodium_per_100g?: number | null
           sugar_per_100g?: number | null
           updated_at?: string | null
           user_id?: string
+          vitamin_a_per_100g?: number | null
+          vitamin_c_per_100g?: number | null
+          vitamin_d_per_100g?: number | null
         }
         Relationships: []
       }
@@ -147,42 +281,57 @@ export type Database = {
       }
       meal_plan_events: {
         Row: {
+          auto_planned: boolean
+          cooked_at: string | null
           created_at: string
           date: string
           end_time: string | null
           id: string
+          is_locked: boolean
           meal_plan_id: string | null
           meal_type: string
           notes: string | null
           recipe_id: string | null
+          recurrence_id: string | null
+          servings: number | null
           start_time: string | null
           title: string
           updated_at: string
           user_id: string
         }
         Insert: {
+          auto_planned?: boolean
+          cooked_at?: string | null
           created_at?: string
           date: string
           end_time?: string | null
           id?: string
+          is_locked?: boolean
           meal_plan_id?: string | null
           meal_type: string
           notes?: string | null
           recipe_id?: string | null
+          recurrence_id?: string | null
+          servings?: number | null
           start_time?: string | null
           title: string
           updated_at?: string
           user_id: string
         }
         Update: {
+          auto_planned?: boolean
+          cooked_at?: string | null
           created_at?: string
           date?: string
           end_time?: string | null
           id?: string
+          is_locked?: boolean
           meal_plan_id?: string | null
           meal_type?: string
           notes?: string | null
           recipe_id?: string | null
+          recurrence_id?: string | null
+          servings?: number | null
           start_time?: string | null
           title?: string
           updated_at?: string
@@ -242,11 +391,12 @@ export type Database = {
           food_item_id: string | null
           id: string
           meal_name: string | null
-          meal_plan_id: string
+          meal_plan_id: string | null
           meal_type: string
           notes: string | null
           quantity: number | null
           rating: number | null
+          ready_meal_id: string | null
           recipe_id: string | null
           unit: string | null
           user_id: string
@@ -257,11 +407,12 @@ export type Database = {
           food_item_id?: string | null
           id?: string
           meal_name?: string | null
-          meal_plan_id: string
+          meal_plan_id?: string | null
           meal_type: string
           notes?: string | null
           quantity?: number | null
           rating?: number | null
+          ready_meal_id?: string | null
           recipe_id?: string | null
           unit?: string | null
           user_id: string
@@ -272,11 +423,12 @@ export type Database = {
           food_item_id?: string | null
           id?: string
           meal_name?: string | null
-          meal_plan_id?: string
+          meal_plan_id?: string | null
           meal_type?: string
           notes?: string | null
           quantity?: number | null
           rating?: number | null
+          ready_meal_id?: string | null
           recipe_id?: string | null
           unit?: string | null
           user_id?: string
@@ -296,6 +448,13 @@ export type Database = {
             referencedRelation: "meal_plans"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "meals_ready_meal_id_fkey"
+            columns: ["ready_meal_id"]
+            isOneToOne: false
+            referencedRelation: "ready_meals"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "meals_recipe_id_fkey"
             columns: ["recipe_id"]
@@ -305,8 +464,57 @@ export type Database = {
           },
         ]
       }
+      nutrition_goals: {
+        Row: {
+          calories: number
+          carbs: number
+          created_at: string | null
+          effective_from: string
+          fat: number
+          fiber: number
+          id: string
+          protein: number
+          sodium: number
+          sugar: number
+          updated_at: string | null
+          user_id: string
+          weekday_overrides: Json
+        }
+        Insert: {
+          calories?: number
+          carbs?: number
+          created_at?: string | null
+          effective_from?: string
+          fat?: number
+          fiber?: number
+          id?: string
+          protein?: number
+          sodium?: number
+          sugar?: number
+          updated_at?: string | null
+          user_id: string
+          weekday_overrides?: Json
+        }
+        Update: {
+          calories?: number
+          carbs?: number
+          created_at?: string | null
+          effective_from?: string
+          fat?: number
+          fiber?: number
+          id?: string
+          protein?: number
+          sodium?: number
+          sugar?: number
+          updated_at?: string | null
+          user_id?: string
+          weekday_overrides?: Json
+        }
+        Relationships: []
+      }
       nutrition_logs: {
         Row: {
+          calcium: number | null
           calories: number | null
           carbs: number | null
           created_at: string | null
@@ -314,13 +522,21 @@ export type Database = {
           fat: number | null
           fiber: number | null
           id: string
+          iron: number | null
           meal_id: string | null
+          potassium: number | null
           protein: number | null
+          salt: number | null
+          saturated_fat: number | null
           sodium: number | null
           sugar: number | null
           user_id: string
+          vitamin_a: number | null
+          vitamin_c: number | null
+          vitamin_d: number | null
         }
         Insert: {
+          calcium?: number | null
           calories?: number | null
           carbs?: number | null
           created_at?: string | null
@@ -328,13 +544,21 @@ export type Database = {
           fat?: number | null
           fiber?: number | null
           id?: string
+          iron?: number | null
           meal_id?: string | null
+          potassium?: number | null
           protein?: number | null
+          salt?: number | null
+          saturated_fat?: number | null
           sodium?: number | null
           sugar?: number | null
           user_id: string
+          vitamin_a?: number | null
+          vitamin_c?: number | null
+          vitamin_d?: number | null
         }
         Update: {
+          calcium?: number | null
           calories?: number | null
           carbs?: number | null
           created_at?: string | null
@@ -342,11 +566,18 @@ export type Database = {
           fat?: number | null
           fiber?: number | null
           id?: string
+          iron?: number | null
           meal_id?: string | null
+          potassium?: number | null
           protein?: number | null
+          salt?: number | null
+          saturated_fat?: number | null
           sodium?: number | null
           sugar?: number | null
           user_id?: string
+          vitamin_a?: number | null
+          vitamin_c?: number | null
+          vitamin_d?: number | null
         }
         Relationships: [
           {
@@ -358,6 +589,53 @@ export type Database = {
           },
         ]
       }
+      pantry_items: {
+        Row: {
+          best_before: string | null
+          created_at: string | null
+          food_item_id: string | null
+          id: string
+          location: string
+          name: string
+          quantity: number
+          unit: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          best_before?: string | null
+          created_at?: string | null
+          food_item_id?: string | null
+          id?: string
+          location?: string
+          name: string
+          quantity?: number
+          unit?: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          best_before?: string | null
+          created_at?: string | null
+          food_item_id?: string | null
+          id?: string
+          location?: string
+          name?: string
+          quantity?: number
+          unit?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pantry_items_food_item_id_fkey"
+            columns: ["food_item_id"]
+            isOneToOne: false
+            referencedRelation: "food_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           avatar_url: string | null
@@ -416,9 +694,12 @@ export type Database = {
           minimum_stock: number | null
           name: string
           protein_per_serving: number | null
+          salt_per_serving: number | null
+          saturated_fat_per_serving: number | null
           serving_size: number | null
           serving_unit: string | null
           stock_quantity: number | null
+          sugar_per_serving: number | null
           updated_at: string | null
           user_id: string
         }
@@ -434,9 +715,12 @@ export type Database = {
           minimum_stock?: number | null
           name: string
           protein_per_serving?: number | null
+          salt_per_serving?: number | null
+          saturated_fat_per_serving?: number | null
           serving_size?: number | null
           serving_unit?: string | null
           stock_quantity?: number | null
+          sugar_per_serving?: number | null
           updated_at?: string | null
           user_id: string
         }
@@ -452,9 +736,12 @@ export type Database = {
           minimum_stock?: number | null
           name?: string
           protein_per_serving?: number | null
+          salt_per_serving?: number | null
+          saturated_fat_per_serving?: number | null
           serving_size?: number | null
           serving_unit?: string | null
           stock_quantity?: number | null
+          sugar_per_serving?: number | null
           updated_at?: string | null
           user_id?: string
         }
@@ -464,6 +751,10 @@ export type Database = {
         Row: {
           comment: string
           created_at: string
+          deleted_at: string | null
+          edited_at: string | null
+          hidden_at: string | null
+          hidden_by: string | null
           id: string
           parent_comment_id: string | null
           shared_recipe_id: string | null
@@ -473,6 +764,10 @@ export type Database = {
         Insert: {
           comment: string
           created_at?: string
+          deleted_at?: string | null
+          edited_at?: string | null
+          hidden_at?: string | null
+          hidden_by?: string | null
           id?: string
           parent_comment_id?: string | null
           shared_recipe_id?: string | null
@@ -482,6 +777,10 @@ export type Database = {
         Update: {
           comment?: string
           created_at?: string
+          deleted_at?: string | null
+          edited_at?: string | null
+          hidden_at?: string | null
+          hidden_by?: string | null
           id?: string
           parent_comment_id?: string | null
           shared_recipe_id?: string | null
@@ -511,6 +810,7 @@ export type Database = {
           food_item_id: string | null
           id: string
           ingredient_name: string | null
+          position: number
           quantity: number
           recipe_id: string
           unit: string
@@ -520,6 +820,7 @@ export type Database = {
           food_item_id?: string | null
           id?: string
           ingredient_name?: string | null
+          position?: number
           quantity: number
           recipe_id: string
           unit: string
@@ -529,6 +830,7 @@ export type Database = {
           food_item_id?: string | null
           id?: string
           ingredient_name?: string | null
+          position?: number
           quantity?: number
           recipe_id?: string
           unit?: string
@@ -557,6 +859,7 @@ export type Database = {
           id: string
           rating: number
           shared_recipe_id: string | null
+          updated_at: string | null
           user_id: string
         }
         Insert: {
@@ -565,6 +868,7 @@ export type Database = {
           id?: string
           rating: number
           shared_recipe_id?: string | null
+          updated_at?: string | null
           user_id: string
         }
         Update: {
@@ -573,6 +877,7 @@ export type Database = {
           id?: string
           rating?: number
           shared_recipe_id?: string | null
+          updated_at?: string | null
           user_id?: string
         }
         Relationships: [
@@ -588,6 +893,7 @@ export type Database = {
       recipes: {
         Row: {
           cook_time: number | null
+          copied_from_recipe_id: string | null
           created_at: string | null
           description: string | null
           id: string
@@ -596,6 +902,7 @@ export type Database = {
           meal_times: string[] | null
           name: string
           prep_time: number | null
+          search_vector: unknown | null
           servings: number | null
           tags: string[] | null
           updated_at: string | null
@@ -603,6 +910,7 @@ export type Database = {
         }
         Insert: {
           cook_time?: number | null
+          copied_from_recipe_id?: string | null
           created_at?: string | null
           description?: string | null
           id?: string
@@ -611,6 +919,7 @@ export type Database = {
           meal_times?: string[] | null
           name: string
           prep_time?: number | null
+          search_vector?: unknown | null
           servings?: number | null
           tags?: string[] | null
           updated_at?: string | null
@@ -618,6 +927,7 @@ export type Database = {
         }
         Update: {
           cook_time?: number | null
+          copied_from_recipe_id?: string | null
           created_at?: string | null
           description?: string | null
           id?: string
@@ -626,6 +936,7 @@ export type Database = {
           meal_times?: string[] | null
           name?: string
           prep_time?: number | null
+          search_vector?: unknown | null
           servings?: number | null
           tags?: string[] | null
           updated_at?: string | null
@@ -638,9 +949,12 @@ export type Database = {
           created_at: string | null
           created_by: string
           description: string | null
+          events: Json
           id: string
           is_public: boolean | null
+          nutrition_summary: Json | null
           original_plan_id: string | null
+          recipes: Json
           title: string
           updated_at: string | null
           weeks_count: number | null
@@ -649,9 +963,12 @@ export type Database = {
           created_at?: string | null
           created_by: string
           description?: string | null
+          events?: Json
           id?: string
           is_public?: boolean | null
+          nutrition_summary?: Json | null
           original_plan_id?: string | null
+          recipes?: Json
           title: string
           updated_at?: string | null
           weeks_count?: number | null
@@ -660,9 +977,12 @@ export type Database = {
           created_at?: string | null
           created_by?: string
           description?: string | null
+          events?: Json
           id?: string
           is_public?: boolean | null
+          nutrition_summary?: Json | null
           original_plan_id?: string | null
+          recipes?: Json
           title?: string
           updated_at?: string | null
           weeks_count?: number | null
@@ -680,6 +1000,7 @@ export type Database = {
       shared_recipes: {
         Row: {
           average_rating: number | null
+          bayesian_score: number
           created_at: string
           featured: boolean | null
           id: string
@@ -691,6 +1012,7 @@ export type Database = {
         }
         Insert: {
           average_rating?: number | null
+          bayesian_score?: number
           created_at?: string
           featured?: boolean | null
           id?: string
@@ -702,6 +1024,7 @@ export type Database = {
         }
         Update: {
           average_rating?: number | null
+          bayesian_score?: number
           created_at?: string
           featured?: boolean | null
           id?: string
@@ -875,6 +1198,27 @@ export type Database = {
           },
         ]
       }
+      user_roles: {
+        Row: {
+          created_at: string | null
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Relationships: []
+      }
       work_schedules: {
         Row: {
           created_at: string | null
@@ -910,13 +1254,201 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      adjust_pantry_items: {
+        Args: { p_changes: Json }
+        Returns: undefined
+      }
+      apply_meal_plan: {
+        Args: {
+          p_events: Json
+          p_meal_types: string[]
+          p_week_start: string
+        }
+        Returns: number
+      }
+      cook_meal_plan_event: {
+        Args: { p_changes: Json; p_event_id: string }
+        Returns: boolean
+      }
+      delete_recipe_comment: {
+        Args: { p_comment_id: string }
+        Returns: undefined
+      }
+      find_duplicate_food_items: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          brand: string
+          items: Json
+          name: string
+        }[]
+      }
+      find_recipes_by_ingredients: {
+        Args: {
+          p_food_item_ids?: string[]
+          p_include_community?: boolean
+          p_ingredients?: string[]
+          p_limit?: number
+        }
+        Returns: {
+          cook_time: number
+          coverage: number
+          description: string
+          is_own: boolean
+          matched_ingredients: number
+          missing: Json
+          name: string
+          prep_time: number
+          recipe_id: string
+          servings: number
+          shared_recipe_id: string
+          total_ingredients: number
+        }[]
+      }
       generate_shopping_list_from_meal_plan: {
         Args: { p_meal_plan_id: string; p_shopping_list_name?: string }
         Returns: string
       }
+      get_recipe_comments: {
+        Args: { p_shared_recipe_id: string }
+        Returns: {
+          comment: string
+          created_at: string
+          deleted_at: string | null
+          edited_at: string | null
+          hidden_at: string | null
+          hidden_by: string | null
+          id: string
+          parent_comment_id: string | null
+          shared_recipe_id: string | null
+          updated_at: string
+          user_id: string
+        }[]
+      }
+      has_role: {
+        Args: {
+          p_role: Database["public"]["Enums"]["app_role"]
+          p_user_id: string
+        }
+        Returns: boolean
+      }
+      import_food_item: {
+        Args: { p_item: Json }
+        Returns: string
+      }
+      import_shared_meal_plan: {
+        Args: { p_plan_id: string; p_week_start: string }
+        Returns: number
+      }
+      is_moderator: {
+        Args: { p_user_id: string }
+        Returns: boolean
+      }
+      is_valid_allergen_list: {
+        Args: { p_allergens: string[] }
+        Returns: boolean
+      }
+      merge_food_items: {
+        Args: { p_duplicate_ids: string[]; p_survivor_id: string }
+        Returns: number
+      }
+      rate_shared_recipe: {
+        Args: { p_rating: number; p_shared_recipe_id: string }
+        Returns: {
+          average_rating: number | null
+          bayesian_score: number
+          created_at: string
+          featured: boolean | null
+          id: string
+          is_public: boolean | null
+          recipe_id: string | null
+          total_ratings: number | null
+          updated_at: string
+          user_id: string
+        }
+      }
+      recipe_ingredient_names: {
+        Args: { p_recipe_id: string }
+        Returns: string
+      }
+      refresh_shared_recipe_rating: {
+        Args: { p_shared_recipe_id: string }
+        Returns: undefined
+      }
+      regenerate_calendar_feed_token: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      resolve_comment_reports: {
+        Args: { p_action: string; p_comment_id: string }
+        Returns: undefined
+      }
+      save_meal: {
+        Args: {
+          p_meal: Json
+          p_meal_id: string | null
+          p_nutrition: Json | null
+          p_replace_log?: boolean
+        }
+        Returns: {
+          created_at: string | null
+          date: string
+          food_item_id: string | null
+          id: string
+          meal_name: string | null
+          meal_plan_id: string | null
+          meal_type: string
+          notes: string | null
+          quantity: number | null
+          rating: number | null
+          ready_meal_id: string | null
+          recipe_id: string | null
+          unit: string | null
+          user_id: string
+        }
+      }
+      save_recipe_with_ingredients: {
+        Args: { p_ingredients?: Json; p_recipe: Json }
+        Returns: string
+      }
+      search_recipes: {
+        Args: {
+          p_dietary?: string[]
+          p_exclude_ingredients?: string[]
+          p_include_ingredients?: string[]
+          p_limit?: number
+          p_max_total_time?: number
+          p_meal_types?: string[]
+          p_min_rating?: number
+          p_min_total_time?: number
+          p_offset?: number
+          p_query?: string
+          p_sort?: string
+        }
+        Returns: {
+          cook_time: number
+          created_at: string
+          description: string
+          id: string
+          image_url: string
+          instructions: string
+          meal_times: string[]
+          name: string
+          prep_time: number
+          rank: number
+          servings: number
+          tags: string[]
+          total_count: number
+          updated_at: string
+          user_id: string
+        }[]
+      }
+      set_recipe_comment_hidden: {
+        Args: { p_comment_id: string; p_hidden: boolean }
+        Returns: undefined
+      }
     }
     Enums: {
-      [_ in never]: never
+      app_role: "admin" | "moderator"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -1043,6 +1575,8 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      app_role: ["admin", "moderator"],
+    },
   },
 } as const
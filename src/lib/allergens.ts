@@ -0,0 +1,151 @@
+// The 14 allergens that UK food law requires to be declared. Keys match the
+// values stored in food_items.allergens and allergen_profiles.allergens.
+export const ALLERGENS = [
+  'celery', 'gluten', 'crustaceans', 'eggs', 'fish', 'lupin', 'milk',
+  'molluscs', 'mustard', 'tree_nuts', 'peanuts', 'sesame', 'soya', 'sulphites',
+] as const;
+
+export type Allergen = typeof ALLERGENS[number];
+
+export const ALLERGEN_LABELS: Record<Allergen, string> = {
+  celery: 'Celery',
+  gluten: 'Cereals containing gluten',
+  crustaceans: 'Crustaceans',
+  eggs: 'Eggs',
+  fish: 'Fish',
+  lupin: 'Lupin',
+  milk: 'Milk',
+  molluscs: 'Molluscs',
+  mustard: 'Mustard',
+  tree_nuts: 'Tree nuts',
+  peanuts: 'Peanuts',
+  sesame: 'Sesame',
+  soya: 'Soya',
+  sulphites: 'Sulphur dioxide and sulphites',
+};
+
+// Open Food Facts allergens_tags (and traces_tags) for each allergen
+const OPEN_FOOD_FACTS_TAGS: Record<string, Allergen> = {
+  'en:celery': 'celery',
+  'en:gluten': 'gluten',
+  'en:crustaceans': 'crustaceans',
+  'en:eggs': 'eggs',
+  'en:fish': 'fish',
+  'en:lupin': 'lupin',
+  'en:milk': 'milk',
+  'en:molluscs': 'molluscs',
+  'en:mustard': 'mustard',
+  'en:nuts': 'tree_nuts',
+  'en:peanuts': 'peanuts',
+  'en:sesame-seeds': 'sesame',
+  'en:soybeans': 'soya',
+  'en:sulphur-dioxide-and-sulphites': 'sulphites',
+};
+
+// Words in an ingredient or product name that give an allergen away. This
+// only catches the obvious cases; declared allergens are always preferred.
+const INGREDIENT_PATTERNS: Record<Allergen, RegExp> = {
+  celery: /\b(celery|celeriac)\b/,
+  gluten: /\b(wheat|barley|rye|oats?|spelt|kamut|flour|bread|breadcrumbs|pasta|spaghetti|noodles?|couscous|semolina|bulgur)\b/,
+  crustaceans: /\b(prawns?|shrimps?|crabs?|lobsters?|crayfish|langoustines?|scampi)\b/,
+  eggs: /\b(eggs?|mayonnaise|mayo|meringue)\b/,
+  fish: /\b(fish|salmon|tuna|cod|haddock|pollock|hake|mackerel|sardines?|anchov(y|ies)|trout|plaice|sea bass|kippers?)\b/,
+  lupin: /\blupin\b/,
+  milk: /\b(milk|cheese|butter|cream|yog(h)?urt|whey|casein|lactose|ghee|cheddar|mozzarella|parmesan|creme fraiche)\b/,
+  molluscs: /\b(mussels?|oysters?|squid|calamari|clams?|scallops?|octopus|whelks?|snails?|cockles?)\b/,
+  mustard: /\bmustard\b/,
+  tree_nuts: /\b(almonds?|hazelnuts?|walnuts?|cashews?|pecans?|pistachios?|macadamias?|brazil nuts?|pine nuts?)\b/,
+  peanuts: /\b(peanuts?|groundnuts?)\b/,
+  sesame: /\b(sesame|tahini)\b/,
+  soya: /\b(soy|soya|tofu|edamame|miso|tempeh)\b/,
+  sulphites: /\b(wine|sulphites?|sulfites?)\b/,
+};
+
+// Plant milks and nut butters aren't dairy, though what they're made from
+// may still be an allergen, so only the dairy word is dropped
+const DAIRY_LOOKALIKES = /\b(coconut|almond|oat|soya?|rice|cashew|peanut|nut|cocoa|shea) (milk|cream|yog(h)?urt|butter)\b/g;
+// Phrases that contain an allergen's keyword without containing the allergen
+const FALSE_POSITIVES = /\bcream of tartar\b|\bbuckwheat\b/g;
+
+export interface AllergenSource {
+  name: string;
+  // Declared allergens, e.g. from Open Food Facts. Null means unknown.
+  allergens?: string[] | null;
+  // "May contain" allergens. Someone with an allergy needs to hear about
+  // these too.
+  traces?: string[] | null;
+}
+
+export interface AllergenProfileSummary {
+  name: string;
+  allergens: string[];
+}
+
+export interface AllergenWarning {
+  allergen: Allergen;
+  // Names of the profiles that flag this allergen
+  profiles: string[];
+  // Names of the foods or ingredients it was found in
+  sources: string[];
+  // Names of the foods that may contain it
+  traceSources: string[];
+}
+
+export function isAllergen(value: string): value is Allergen {
+  return (ALLERGENS as readonly string[]).includes(value);
+}
+
+export function allergensFromOpenFoodFactsTags(tags: string[] | undefined): Allergen[] {
+  if (!tags) return [];
+  return [...new Set(tags.map(tag => OPEN_FOOD_FACTS_TAGS[tag.toLowerCase()]).filter(Boolean))];
+}
+
+export function allergensInText(text: string): Allergen[] {
+  const cleaned = text.toLowerCase().replace(DAIRY_LOOKALIKES, '$1').replace(FALSE_POSITIVES, ' ');
+  return ALLERGENS.filter(allergen => INGREDIENT_PATTERNS[allergen].test(cleaned));
+}
+
+// Declared allergens plus anything the name gives away
+export function detectAllergens(source: AllergenSource): Allergen[] {
+  const declared = (source.allergens || []).filter(isAllergen);
+  return [...new Set([...declared, ...allergensInText(source.name)])];
+}
+
+// One warning per flagged allergen found in any of the sources, in the
+// order of ALLERGENS
+export function findAllergenWarnings(sources: AllergenSource[], profiles: AllergenProfileSummary[]): AllergenWarning[] {
+  if (profiles.length === 0) return [];
+
+  const contains = new Map<Allergen, Set<string>>();
+  const mayContain = new Map<Allergen, Set<string>>();
+  const add = (map: Map<Allergen, Set<string>>, allergen: Allergen, name: string) => {
+    if (!map.has(allergen)) map.set(allergen, new Set());
+    map.get(allergen)!.add(name);
+  };
+
+  sources.forEach(source => {
+    const found = detectAllergens(source);
+    found.forEach(allergen => add(contains, allergen, source.name));
+    (source.traces || [])
+      .filter(isAllergen)
+      .filter(allergen => !found.includes(allergen))
+      .forEach(allergen => add(mayContain, allergen, source.name));
+  });
+
+  return ALLERGENS.flatMap(allergen => {
+    const sourceNames = [...(contains.get(allergen) || [])];
+    const traceNames = [...(mayContain.get(allergen) || [])];
+    const flaggedBy = profiles.filter(profile => profile.allergens.includes(allergen)).map(profile => profile.name);
+    return (sourceNames.length > 0 || traceNames.length > 0) && flaggedBy.length > 0
+      ? [{ allergen, profiles: flaggedBy, sources: sourceNames, traceSources: traceNames }]
+      : [];
+  });
+}
+
+export function describeAllergenWarning(warning: AllergenWarning): string {
+  const where = [
+    warning.sources.join(', '),
+    warning.traceSources.length > 0 ? `may be in ${warning.traceSources.join(', ')}` : '',
+  ].filter(Boolean).join('; ');
+  return `${ALLERGEN_LABELS[warning.allergen]} (${where}): flagged for ${warning.profiles.join(', ')}`;
+}
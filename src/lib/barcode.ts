@@ -0,0 +1,159 @@
+import {
+  BarcodeFormat,
+  BinaryBitmap,
+  DecodeHintType,
+  HybridBinarizer,
+  MultiFormatReader,
+  RGBLuminanceSource,
+} from "@zxing/library";
+
+export type RetailBarcodeFormat = 'EAN_13' | 'EAN_8' | 'UPC_A' | 'UPC_E';
+
+export interface DecodedBarcode {
+  text: string;
+  format: RetailBarcodeFormat;
+}
+
+// Anything with RGBA pixel data, e.g. ImageData from a canvas or a decoded image fixture
+export interface RgbaImage {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+const FORMAT_NAMES: Partial<Record<BarcodeFormat, RetailBarcodeFormat>> = {
+  [BarcodeFormat.EAN_13]: 'EAN_13',
+  [BarcodeFormat.EAN_8]: 'EAN_8',
+  [BarcodeFormat.UPC_A]: 'UPC_A',
+  [BarcodeFormat.UPC_E]: 'UPC_E',
+};
+
+// GTIN check digit: weights alternate 3,1 from the digit nearest the check digit
+function hasValidGtinCheckDigit(digits: string): boolean {
+  let sum = 0;
+  const body = digits.slice(0, -1);
+  for (let i = 0; i < body.length; i++) {
+    const weight = (body.length - i) % 2 === 1 ? 3 : 1;
+    sum += Number(body[i]) * weight;
+  }
+  return (10 - (sum % 10)) % 10 === Number(digits[digits.length - 1]);
+}
+
+// Expands an 8-digit UPC-E code to its 12-digit UPC-A equivalent
+export function expandUpcE(code: string): string | null {
+  if (!/^[01]\d{7}$/.test(code)) return null;
+
+  const numberSystem = code[0];
+  const d = code.slice(1, 7);
+  const check = code[7];
+  let manufacturerAndProduct: string;
+
+  switch (d[5]) {
+    case '0':
+    case '1':
+    case '2':
+      manufacturerAndProduct = `${d[0]}${d[1]}${d[5]}0000${d[2]}${d[3]}${d[4]}`;
+      break;
+    case '3':
+      manufacturerAndProduct = `${d[0]}${d[1]}${d[2]}00000${d[3]}${d[4]}`;
+      break;
+    case '4':
+      manufacturerAndProduct = `${d[0]}${d[1]}${d[2]}${d[3]}00000${d[4]}`;
+      break;
+    default:
+      manufacturerAndProduct = `${d[0]}${d[1]}${d[2]}${d[3]}${d[4]}0000${d[5]}`;
+  }
+
+  return `${numberSystem}${manufacturerAndProduct}${check}`;
+}
+
+export function isValidRetailBarcode(code: string, format?: RetailBarcodeFormat): boolean {
+  if (!/^\d+$/.test(code)) return false;
+
+  const expected = format ?? (code.length === 13 ? 'EAN_13' : code.length === 12 ? 'UPC_A' : code.length === 8 ? 'EAN_8' : null);
+  switch (expected) {
+    case 'EAN_13':
+      return code.length === 13 && hasValidGtinCheckDigit(code);
+    case 'UPC_A':
+      return code.length === 12 && hasValidGtinCheckDigit(code);
+    case 'EAN_8':
+      return code.length === 8 && hasValidGtinCheckDigit(code);
+    case 'UPC_E': {
+      const expanded = expandUpcE(code);
+      return expanded !== null && hasValidGtinCheckDigit(expanded);
+    }
+    default:
+      return false;
+  }
+}
+
+function toLuminance(image: RgbaImage): Uint8ClampedArray {
+  const luminance = new Uint8ClampedArray(image.width * image.height);
+  for (let i = 0, p = 0; i < luminance.length; i++, p += 4) {
+    // Green-weighted average, matching ZXing's own RGB conversion
+    luminance[i] = (image.data[p] + 2 * image.data[p + 1] + image.data[p + 2]) >> 2;
+  }
+  return luminance;
+}
+
+export function createRetailBarcodeReader(): MultiFormatReader {
+  const reader = new MultiFormatReader();
+  const hints = new Map();
+  hints.set(DecodeHintType.POSSIBLE_FORMATS, [
+    BarcodeFormat.EAN_13,
+    BarcodeFormat.EAN_8,
+    BarcodeFormat.UPC_A,
+    BarcodeFormat.UPC_E,
+  ]);
+  hints.set(DecodeHintType.TRY_HARDER, true);
+  reader.setHints(hints);
+  return reader;
+}
+
+// Decodes a single frame. Returns null when no valid retail barcode is found,
+// including reads that fail the check digit.
+export function decodeBarcode(image: RgbaImage, reader: MultiFormatReader = createRetailBarcodeReader()): DecodedBarcode | null {
+  if (image.width === 0 || image.height === 0) return null;
+
+  try {
+    const source = new RGBLuminanceSource(toLuminance(image), image.width, image.height);
+    const result = reader.decodeWithState(new BinaryBitmap(new HybridBinarizer(source)));
+    const format = FORMAT_NAMES[result.getBarcodeFormat()];
+    const text = result.getText();
+
+    if (!format || !isValidRetailBarcode(text, format)) return null;
+    return { text, format };
+  } catch {
+    // ZXing throws NotFound/Checksum/Format exceptions for frames without a readable code
+    return null;
+  } finally {
+    reader.reset();
+  }
+}
+
+// Only reports a code once it has been read in several consecutive frames,
+// which filters out the occasional misread from a blurry frame.
+export class BarcodeConfirmation {
+  private lastCode: string | null = null;
+  private count = 0;
+
+  constructor(private readonly requiredFrames = 3) {}
+
+  push(code: string | null): string | null {
+    if (!code) return null;
+
+    if (code === this.lastCode) {
+      this.count++;
+    } else {
+      this.lastCode = code;
+      this.count = 1;
+    }
+
+    return this.count >= this.requiredFrames ? code : null;
+  }
+
+  reset() {
+    this.lastCode = null;
+    this.count = 0;
+  }
+}
@@ -0,0 +1,46 @@
+export interface ThreadComment {
+  id: string;
+  parent_comment_id: string | null;
+  created_at: string;
+}
+
+export type CommentNode<T extends ThreadComment> = T & { replies: CommentNode<T>[] };
+
+export const REPORT_REASONS = [
+  { value: 'spam', label: 'Spam or advertising' },
+  { value: 'abuse', label: 'Abusive or hateful' },
+  { value: 'off_topic', label: 'Off topic' },
+  { value: 'other', label: 'Something else' },
+] as const;
+
+export type ReportReason = typeof REPORT_REASONS[number]['value'];
+
+// Replies deeper than this are drawn at the same indent as their parent
+export const MAX_THREAD_DEPTH = 3;
+
+// Builds reply trees from a flat list. Top-level comments are newest first and
+// replies oldest first, so conversations read top to bottom. Replies whose
+// parent is missing are shown at the top level rather than dropped.
+export function buildCommentThreads<T extends ThreadComment>(comments: T[]): CommentNode<T>[] {
+  const nodes = new Map<string, CommentNode<T>>(
+    comments.map(comment => [comment.id, { ...comment, replies: [] }])
+  );
+  const roots: CommentNode<T>[] = [];
+
+  nodes.forEach(node => {
+    const parent = node.parent_comment_id ? nodes.get(node.parent_comment_id) : undefined;
+    if (parent) {
+      parent.replies.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  const byDate = (a: T, b: T) => a.created_at.localeCompare(b.created_at);
+  nodes.forEach(node => node.replies.sort(byDate));
+  return roots.sort((a, b) => byDate(b, a));
+}
+
+export function countComments<T extends ThreadComment>(nodes: CommentNode<T>[]): number {
+  return nodes.reduce((total, node) => total + 1 + countComments(node.replies), 0);
+}
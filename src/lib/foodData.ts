@@ -0,0 +1,125 @@
+// A product as returned by a food data provider, before it is saved to food_items
+export interface FoodProduct {
+  barcode: string;
+  name: string;
+  brand?: string;
+  calories_per_100g?: number;
+  protein_per_100g?: number;
+  carbs_per_100g?: number;
+  fat_per_100g?: number;
+  fiber_per_100g?: number;
+  sugar_per_100g?: number;
+  sodium_per_100g?: number;
+  saturated_fat_per_100g?: number;
+  salt_per_100g?: number;
+  vitamin_a_per_100g?: number;
+  vitamin_c_per_100g?: number;
+  vitamin_d_per_100g?: number;
+  calcium_per_100g?: number;
+  iron_per_100g?: number;
+  potassium_per_100g?: number;
+  nutriscore_grade?: string; // a to e
+  nova_group?: number; // 1 to 4
+  allergens?: string[]; // keys from ALLERGENS in lib/allergens
+  allergen_traces?: string[]; // "may contain", same keys
+  serving_size?: number;
+  serving_unit?: string;
+  image_url?: string;
+  categories?: string[];
+}
+
+// Providers return null for an unknown barcode and throw FoodDataHttpError
+// for any other unsuccessful response. Network failures and timeouts surface
+// as a TypeError, like fetch's own.
+export interface FoodDataProvider {
+  readonly name: string;
+  lookupBarcode(barcode: string): Promise<FoodProduct | null>;
+  search(query: string, page: number, pageSize: number): Promise<FoodProduct[]>;
+}
+
+export class FoodDataHttpError extends Error {
+  constructor(public readonly status: number, public readonly retryAfterSeconds: number | null = null) {
+    super(`Food data request failed with status ${status}`);
+    this.name = 'FoodDataHttpError';
+  }
+}
+
+// "offline" means we couldn't reach the provider and had nothing cached, as
+// opposed to "not_found", where the provider answered that it doesn't know
+// the product. Results served from the cache say so, and stale ones are past
+// their TTL but were the best we had without a connection.
+export type FoodLookupResult<T> =
+  | { status: 'found'; data: T; source: 'network' | 'cache'; stale?: boolean }
+  | { status: 'not_found' }
+  | { status: 'offline' }
+  | { status: 'error'; message: string };
+
+export const MAX_ATTEMPTS = 3;
+const BASE_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 8000;
+// Longer than this and we give up instead of keeping the user waiting
+export const MAX_RETRY_AFTER_SECONDS = 10;
+export const REQUEST_TIMEOUT_MS = 10000;
+
+// Fetches a URL and reads the response within timeoutMs. A request that
+// runs out of time is aborted and rejects with a TypeError, so callers
+// treat it like any other network failure.
+export async function fetchWithTimeout<T>(
+  url: string,
+  read: (response: Response) => Promise<T>,
+  timeoutMs = REQUEST_TIMEOUT_MS,
+): Promise<T> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    return await read(await fetch(url, { signal: controller.signal }));
+  } catch (error) {
+    if (controller.signal.aborted) throw new TypeError(`Food data request timed out after ${timeoutMs}ms`);
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Rate limiting and server errors are worth another try; anything else isn't
+export function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+// Worth waiting and trying again: a retryable status, unless the server asks
+// us to wait longer than MAX_RETRY_AFTER_SECONDS
+export function shouldRetry(error: unknown): error is FoodDataHttpError {
+  return error instanceof FoodDataHttpError
+    && isRetryableStatus(error.status)
+    && (error.retryAfterSeconds ?? 0) <= MAX_RETRY_AFTER_SECONDS;
+}
+
+// Exponential backoff with jitter, attempt counting from 1. A Retry-After
+// from the server wins when it asks us to wait longer.
+export function retryDelay(attempt: number, retryAfterSeconds: number | null = null, random = Math.random): number {
+  const backoff = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** (attempt - 1));
+  const jittered = backoff / 2 + random() * (backoff / 2);
+  return Math.max(jittered, (retryAfterSeconds ?? 0) * 1000);
+}
+
+export function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds);
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, (date - Date.now()) / 1000);
+}
+
+// What to tell the user when a lookup didn't produce a product
+export function lookupFailureMessage(result: FoodLookupResult<unknown>, notFound: string): { title: string; description: string } {
+  switch (result.status) {
+    case 'offline':
+      return { title: "You're Offline", description: "Couldn't reach the food database. Check your connection and try again." };
+    case 'error':
+      return { title: "Lookup Failed", description: "The food database isn't responding right now. Please try again shortly." };
+    default:
+      return { title: "Item Not Found", description: notFound };
+  }
+}
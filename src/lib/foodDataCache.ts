@@ -0,0 +1,90 @@
+// A small IndexedDB key/value cache for food data lookups. Expired entries
+// are kept for a while so they can still be served when there's no signal.
+// Where IndexedDB isn't available (private browsing in some browsers, tests)
+// every read misses and writes are dropped.
+
+const DB_NAME = 'food-data-cache';
+const DB_VERSION = 1;
+const STORE = 'entries';
+
+// Entries this far past their expiry are removed the first time the cache opens
+const MAX_STALE_MS = 90 * 24 * 60 * 60 * 1000;
+
+interface CacheEntry<T> {
+  key: string;
+  value: T;
+  expiresAt: number;
+}
+
+export interface CachedValue<T> {
+  value: T;
+  expired: boolean;
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase | null>(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'key' });
+        store.createIndex('expiresAt', 'expiresAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => resolve(null);
+      request.onblocked = () => resolve(null);
+    }).then(db => {
+      if (db) pruneCache(db).catch(error => console.error('Error pruning food data cache:', error));
+      return db;
+    });
+  }
+  return dbPromise;
+}
+
+async function pruneCache(db: IDBDatabase): Promise<void> {
+  const store = db.transaction(STORE, 'readwrite').objectStore(STORE);
+  const keys = await requestResult(store.index('expiresAt').getAllKeys(IDBKeyRange.upperBound(Date.now() - MAX_STALE_MS)));
+  await Promise.all(keys.map(key => requestResult(store.delete(key))));
+}
+
+export async function readCache<T>(key: string): Promise<CachedValue<T> | null> {
+  try {
+    const db = await openDatabase();
+    if (!db) return null;
+
+    const entry = await requestResult<CacheEntry<T> | undefined>(
+      db.transaction(STORE).objectStore(STORE).get(key)
+    );
+    if (!entry) return null;
+
+    return { value: entry.value, expired: entry.expiresAt <= Date.now() };
+  } catch (error) {
+    console.error('Error reading food data cache:', error);
+    return null;
+  }
+}
+
+export async function writeCache<T>(key: string, value: T, ttlMs: number): Promise<void> {
+  try {
+    const db = await openDatabase();
+    if (!db) return;
+
+    const entry: CacheEntry<T> = { key, value, expiresAt: Date.now() + ttlMs };
+    await requestResult(db.transaction(STORE, 'readwrite').objectStore(STORE).put(entry));
+  } catch (error) {
+    console.error('Error writing food data cache:', error);
+  }
+}
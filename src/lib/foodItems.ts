@@ -0,0 +1,19 @@
+interface CatalogueItem {
+  user_id: string;
+  barcode?: string | null;
+  is_public?: boolean | null;
+}
+
+// A private item with the same barcode as a public one is the user's own
+// version of that catalogue entry
+export function isOverride(item: Pick<CatalogueItem, 'barcode' | 'is_public'>): boolean {
+  return !item.is_public && !!item.barcode;
+}
+
+// Hides catalogue entries the user has overridden, so each barcode shows once
+export function applyOverrides<T extends CatalogueItem>(items: T[], userId: string): T[] {
+  const overridden = new Set(
+    items.filter(item => item.user_id === userId && isOverride(item)).map(item => item.barcode)
+  );
+  return items.filter(item => !(item.is_public && item.barcode && overridden.has(item.barcode)));
+}
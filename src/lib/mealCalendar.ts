@@ -0,0 +1,84 @@
+import { addDays, differenceInCalendarDays, format, isWeekend, parseISO } from "date-fns";
+import { DaySchedule, WeekSchedule } from "@/lib/mealPlanner";
+
+export type RecurrenceFrequency = 'daily' | 'weekdays' | 'weekly';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  // Last date (inclusive) an occurrence may fall on
+  until: string;
+}
+
+export const RECURRENCE_OPTIONS: { value: RecurrenceFrequency; label: string }[] = [
+  { value: 'daily', label: 'Every day' },
+  { value: 'weekdays', label: 'Every weekday' },
+  { value: 'weekly', label: 'Every week' },
+];
+
+// Guards against a far-off "until" date creating thousands of events
+export const MAX_OCCURRENCES = 100;
+
+// Dates (yyyy-MM-dd) a recurring event falls on, starting with the first date
+export function expandRecurrence(startDate: string, rule: RecurrenceRule): string[] {
+  const start = parseISO(startDate);
+  const until = parseISO(rule.until);
+  const dates: string[] = [];
+
+  for (let day = start; day <= until && dates.length < MAX_OCCURRENCES; day = addDays(day, 1)) {
+    const offset = differenceInCalendarDays(day, start);
+    const matches = rule.frequency === 'daily'
+      || (rule.frequency === 'weekdays' && !isWeekend(day))
+      || (rule.frequency === 'weekly' && offset % 7 === 0);
+    if (matches) dates.push(format(day, 'yyyy-MM-dd'));
+  }
+
+  return dates;
+}
+
+function toMinutes(time?: string | null): number | null {
+  if (!time) return null;
+  const [hours, minutes] = time.split(':').map(Number);
+  return Number.isFinite(hours) ? hours * 60 + (minutes || 0) : null;
+}
+
+// Events without an end time are assumed to take this long
+const DEFAULT_EVENT_MINUTES = 30;
+
+const DAY_MINUTES = 24 * 60;
+
+// A day's shift in minutes from the start of that day. Overnight shifts
+// (ending before they start) run past midnight.
+function shiftMinutes(day: DaySchedule | undefined): { start: number; end: number } | null {
+  if (!day?.is_working) return null;
+
+  const start = toMinutes(day.start_time);
+  const end = toMinutes(day.end_time);
+  if (start === null || end === null) return null;
+  return { start, end: end <= start ? end + DAY_MINUTES : end };
+}
+
+const scheduleFor = (schedule: WeekSchedule, date: Date) => schedule[format(date, 'EEEE').toLowerCase()];
+
+// Returns the work shift an event overlaps, if any: its own day's shift, or
+// the previous day's when that one is overnight and runs into the morning.
+export function findShiftConflict(
+  event: { date: string; start_time?: string | null; end_time?: string | null },
+  schedule?: WeekSchedule | null,
+): DaySchedule | null {
+  const start = toMinutes(event.start_time);
+  if (start === null || !schedule) return null;
+
+  let end = toMinutes(event.end_time) ?? start + DEFAULT_EVENT_MINUTES;
+  if (end <= start) end += DAY_MINUTES;
+
+  const date = parseISO(event.date);
+  const today = scheduleFor(schedule, date);
+  const shift = shiftMinutes(today);
+  if (shift && start < shift.end && end > shift.start) return today;
+
+  const yesterday = scheduleFor(schedule, addDays(date, -1));
+  const previous = shiftMinutes(yesterday);
+  if (previous && previous.end > DAY_MINUTES && start < previous.end - DAY_MINUTES) return yesterday;
+
+  return null;
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { generateMealPlan, PlannerOptions, PlannerRecipe } from "@/lib/mealPlanner";
+
+const recipes: PlannerRecipe[] = Array.from({ length: 10 }, (_, i) => ({
+  id: `recipe-${i}`,
+  name: `Recipe ${i}`,
+}));
+
+const options = (overrides: Partial<PlannerOptions> = {}): PlannerOptions => ({
+  weekStart: new Date(2026, 9, 19),
+  recipes,
+  mealTypes: ['dinner'],
+  seed: 'week-42',
+  ...overrides,
+});
+
+describe('generateMealPlan', () => {
+  it('gives the same plan for the same seed', () => {
+    const plan = generateMealPlan(options({ mealTypes: ['breakfast', 'lunch', 'dinner'] }));
+    expect(generateMealPlan(options({ mealTypes: ['breakfast', 'lunch', 'dinner'] }))).toEqual(plan);
+  });
+
+  it('does not depend on the order recipes are loaded in', () => {
+    const plan = generateMealPlan(options());
+    expect(generateMealPlan(options({ recipes: [...recipes].reverse() }))).toEqual(plan);
+  });
+
+  it('does not repeat a recipe within the window', () => {
+    const plan = generateMealPlan(options({ avoidRepeatDays: 6 }));
+    expect(plan).toHaveLength(7);
+    expect(new Set(plan.map(meal => meal.recipe_id)).size).toBe(7);
+  });
+
+  it('counts recipes eaten before the week towards the window', () => {
+    const history = recipes.slice(0, 5).map(recipe => ({ recipe_id: recipe.id, date: '2026-10-18' }));
+    const plan = generateMealPlan(options({ history, avoidRepeatDays: 3 }));
+
+    // Eaten the day before the week starts, so not again until the fourth day
+    const early = plan.filter(meal => meal.date <= '2026-10-21').map(meal => meal.recipe_id);
+    expect(early.some(id => history.some(entry => entry.recipe_id === id))).toBe(false);
+  });
+
+  it('falls back to the least recently used recipe when every recipe was had recently', () => {
+    const plan = generateMealPlan(options({ recipes: recipes.slice(0, 2), avoidRepeatDays: 6 }));
+    expect(plan).toHaveLength(7);
+    plan.slice(2).forEach((meal, i) => expect(meal.recipe_id).toBe(plan[i].recipe_id));
+  });
+
+  it('leaves locked slots alone', () => {
+    const plan = generateMealPlan(options({ locked: [{ date: '2026-10-20', meal_type: 'dinner' }] }));
+    expect(plan.map(meal => meal.date)).not.toContain('2026-10-20');
+    expect(plan).toHaveLength(6);
+  });
+});
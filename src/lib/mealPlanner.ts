@@ -0,0 +1,279 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from "date-fns";
+
+export type PlannerMealType = 'breakfast' | 'lunch' | 'dinner' | 'snack';
+
+export interface PlannerRecipe {
+  id: string;
+  name: string;
+  prep_time?: number | null;
+  cook_time?: number | null;
+  meal_times?: string[] | null;
+  tags?: string[] | null;
+  // Per-serving nutrition, when the recipe's ingredients allow it to be calculated
+  calories?: number | null;
+  protein?: number | null;
+}
+
+// One day of work_schedules.schedule
+export interface DaySchedule {
+  is_working: boolean;
+  start_time?: string;
+  end_time?: string;
+}
+
+export type WeekSchedule = Partial<Record<string, DaySchedule>>;
+
+export interface DailyTargets {
+  calories?: number;
+  protein?: number;
+}
+
+export interface PlannerSlot {
+  date: string;
+  meal_type: PlannerMealType;
+}
+
+export interface PlannedMeal extends PlannerSlot {
+  recipe_id: string;
+  title: string;
+  start_time: string | null;
+  reason: string;
+}
+
+export interface PlannerOptions {
+  weekStart: Date;
+  recipes: PlannerRecipe[];
+  schedule?: WeekSchedule | null;
+  // Goals for a yyyy-MM-dd date, or null when none are set
+  targetsForDate?: (date: string) => DailyTargets | null;
+  mealTypes?: PlannerMealType[];
+  // Slots already filled by events that are staying
+  locked?: PlannerSlot[];
+  // Recipes eaten or planned recently, so they are not repeated too soon
+  history?: { recipe_id: string; date: string }[];
+  avoidRepeatDays?: number;
+  seed: number | string;
+}
+
+export const PLANNER_MEAL_TYPES: PlannerMealType[] = ['breakfast', 'lunch', 'dinner', 'snack'];
+
+// Share of the day's calories each meal should roughly provide
+const MEAL_CALORIE_SHARE: Record<PlannerMealType, number> = {
+  breakfast: 0.25,
+  lunch: 0.3,
+  dinner: 0.35,
+  snack: 0.1,
+};
+
+const DEFAULT_MEAL_TIMES: Record<PlannerMealType, string> = {
+  breakfast: '08:00',
+  lunch: '12:30',
+  dinner: '18:30',
+  snack: '15:30',
+};
+
+export const QUICK_MEAL_MINUTES = 30;
+// Shifts at least this long, or starting before EARLY_SHIFT_START, get an earlier breakfast
+export const LONG_SHIFT_HOURS = 10;
+const EARLY_SHIFT_START = '08:00';
+
+const BATCH_TAGS = ['batch', 'batch cook', 'batch-cook', 'meal prep', 'meal-prep', 'freezer'];
+const PACKABLE_TAGS = ['packable', 'packed lunch', 'lunchbox', 'portable', 'batch', 'meal prep', 'meal-prep'];
+
+// Candidates within this fraction of the best score are picked between at random
+const SCORE_TOLERANCE = 0.15;
+
+// mulberry32: a small, fast PRNG that gives the same sequence for the same seed
+export function createRandom(seed: number | string): () => number {
+  let state = typeof seed === 'number' ? seed >>> 0 : hashString(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function hashString(value: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash = Math.imul(hash ^ value.charCodeAt(i), 16777619);
+  }
+  return hash >>> 0;
+}
+
+function toMinutes(time?: string): number | null {
+  if (!time) return null;
+  const [hours, minutes] = time.split(':').map(Number);
+  return Number.isFinite(hours) ? hours * 60 + (minutes || 0) : null;
+}
+
+function fromMinutes(minutes: number): string {
+  const clamped = Math.max(0, Math.min(minutes, 23 * 60 + 59));
+  return `${String(Math.floor(clamped / 60)).padStart(2, '0')}:${String(clamped % 60).padStart(2, '0')}`;
+}
+
+function hasTag(recipe: PlannerRecipe, tags: string[]): boolean {
+  return (recipe.tags || []).some(tag => tags.includes(tag.trim().toLowerCase()));
+}
+
+export function totalTime(recipe: PlannerRecipe): number {
+  return (recipe.prep_time || 0) + (recipe.cook_time || 0);
+}
+
+export function isQuick(recipe: PlannerRecipe): boolean {
+  const time = totalTime(recipe);
+  return time > 0 && time <= QUICK_MEAL_MINUTES;
+}
+
+export function isBatchCooked(recipe: PlannerRecipe): boolean {
+  return hasTag(recipe, BATCH_TAGS);
+}
+
+export function isPackable(recipe: PlannerRecipe): boolean {
+  return hasTag(recipe, PACKABLE_TAGS);
+}
+
+// Recipes without meal times can be used for any meal
+function suitsMealType(recipe: PlannerRecipe, mealType: PlannerMealType): boolean {
+  return !recipe.meal_times || recipe.meal_times.length === 0 || recipe.meal_times.includes(mealType);
+}
+
+export function isLongShift(day?: DaySchedule | null): boolean {
+  if (!day?.is_working) return false;
+  const start = toMinutes(day.start_time);
+  const end = toMinutes(day.end_time);
+  if (start === null || end === null) return false;
+
+  const length = end > start ? end - start : end + 24 * 60 - start;
+  return length >= LONG_SHIFT_HOURS * 60 || start < (toMinutes(EARLY_SHIFT_START) as number);
+}
+
+// Before a long or early shift, breakfast moves an hour earlier than usual, or
+// to an hour before the shift starts if that is earlier still
+export function mealTimeFor(mealType: PlannerMealType, day?: DaySchedule | null): string {
+  if (mealType === 'breakfast' && isLongShift(day)) {
+    const start = toMinutes(day?.start_time) as number;
+    return fromMinutes(Math.min(start - 60, (toMinutes(DEFAULT_MEAL_TIMES.breakfast) as number) - 60));
+  }
+  return DEFAULT_MEAL_TIMES[mealType];
+}
+
+interface Candidate {
+  recipe: PlannerRecipe;
+  score: number;
+  reason: string;
+}
+
+// Lower scores are better. Work days strongly prefer quick or batch-cooked
+// meals, and packable lunches; calories are matched against the meal's share
+// of the daily goal.
+function scoreRecipe(
+  recipe: PlannerRecipe,
+  mealType: PlannerMealType,
+  working: boolean,
+  targets: DailyTargets | null,
+  // Sum of MEAL_CALORIE_SHARE for the meal types being planned
+  shareTotal: number,
+): Candidate {
+  let score = 0;
+  const reasons: string[] = [];
+
+  if (working) {
+    if (mealType === 'lunch') {
+      if (isPackable(recipe)) {
+        reasons.push('packable for work');
+      } else {
+        score += 2;
+      }
+    } else if (isBatchCooked(recipe)) {
+      reasons.push('batch-cooked for a work day');
+    } else if (isQuick(recipe)) {
+      reasons.push('quick for a work day');
+    } else {
+      score += 1 + Math.min(totalTime(recipe), 120) / 60;
+    }
+  }
+
+  if (targets?.calories && recipe.calories) {
+    const target = targets.calories * MEAL_CALORIE_SHARE[mealType] / shareTotal;
+    score += Math.abs(recipe.calories - target) / target;
+    if (Math.abs(recipe.calories - target) / target <= 0.2) reasons.push('fits calorie goal');
+  }
+
+  if (targets?.protein && recipe.protein) {
+    const target = targets.protein * MEAL_CALORIE_SHARE[mealType] / shareTotal;
+    score += Math.max(0, target - recipe.protein) / target / 2;
+  }
+
+  return { recipe, score, reason: reasons.join(', ') };
+}
+
+// Fills every unlocked slot of the week with a recipe. The same options and
+// seed always produce the same plan.
+export function generateMealPlan(options: PlannerOptions): PlannedMeal[] {
+  const random = createRandom(options.seed);
+  const mealTypes = options.mealTypes?.length ? options.mealTypes : PLANNER_MEAL_TYPES;
+  const avoidDays = options.avoidRepeatDays ?? 0;
+  const locked = new Set((options.locked || []).map(slot => `${slot.date}|${slot.meal_type}`));
+  const lastUsed = new Map<string, string>();
+  // Meal shares are rescaled when only some meal types are planned
+  const shareTotal = mealTypes.reduce((sum, type) => sum + MEAL_CALORIE_SHARE[type], 0);
+
+  const remember = (recipeId: string, date: string) => {
+    const previous = lastUsed.get(recipeId);
+    if (!previous || previous < date) lastUsed.set(recipeId, date);
+  };
+  (options.history || []).forEach(entry => remember(entry.recipe_id, entry.date));
+
+  // Sort so that input order from the database does not affect the result
+  const recipes = [...options.recipes].sort((a, b) => a.id.localeCompare(b.id));
+  const plan: PlannedMeal[] = [];
+
+  for (let offset = 0; offset < 7; offset++) {
+    const day = addDays(options.weekStart, offset);
+    const date = format(day, 'yyyy-MM-dd');
+    const daySchedule = options.schedule?.[format(day, 'EEEE').toLowerCase()] || null;
+    const working = !!daySchedule?.is_working;
+    const targets = options.targetsForDate?.(date) || null;
+
+    for (const mealType of mealTypes) {
+      if (locked.has(`${date}|${mealType}`)) continue;
+
+      const suitable = recipes.filter(recipe => suitsMealType(recipe, mealType));
+      if (suitable.length === 0) continue;
+
+      const daysSince = (recipe: PlannerRecipe) => {
+        const used = lastUsed.get(recipe.id);
+        return used ? Math.abs(differenceInCalendarDays(parseISO(date), parseISO(used))) : Infinity;
+      };
+
+      // Fall back to the least recently used recipes when everything was had recently
+      let fresh = suitable.filter(recipe => daysSince(recipe) > avoidDays);
+      if (fresh.length === 0) {
+        const longest = Math.max(...suitable.map(daysSince));
+        fresh = suitable.filter(recipe => daysSince(recipe) === longest);
+      }
+
+      const candidates = fresh
+        .map(recipe => scoreRecipe(recipe, mealType, working, targets, shareTotal))
+        .sort((a, b) => a.score - b.score);
+      const best = candidates[0].score;
+      const shortlist = candidates.filter(candidate => candidate.score <= best + SCORE_TOLERANCE);
+      const choice = shortlist[Math.floor(random() * shortlist.length)];
+
+      remember(choice.recipe.id, date);
+      plan.push({
+        date,
+        meal_type: mealType,
+        recipe_id: choice.recipe.id,
+        title: choice.recipe.name,
+        start_time: mealTimeFor(mealType, daySchedule),
+        reason: choice.reason,
+      });
+    }
+  }
+
+  return plan;
+}
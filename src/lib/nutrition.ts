@@ -0,0 +1,237 @@
+import { getUnit } from "@/lib/units";
+
+// Nutrients that labels and databases often leave out. Unlike the core
+// values, which count a missing figure as zero, these stay null when nothing
+// reported them. A total is only null when none of its parts was known, so a
+// partial total is a lower bound.
+export const OPTIONAL_NUTRIENTS = [
+  'saturated_fat', 'salt', 'vitamin_a', 'vitamin_c', 'vitamin_d', 'calcium', 'iron', 'potassium',
+] as const;
+
+export type OptionalNutrient = typeof OPTIONAL_NUTRIENTS[number];
+
+export const OPTIONAL_NUTRIENT_INFO: Record<OptionalNutrient, { label: string; unit: string }> = {
+  saturated_fat: { label: 'Saturates', unit: 'g' },
+  salt: { label: 'Salt', unit: 'g' },
+  vitamin_a: { label: 'Vitamin A', unit: 'µg' },
+  vitamin_c: { label: 'Vitamin C', unit: 'mg' },
+  vitamin_d: { label: 'Vitamin D', unit: 'µg' },
+  calcium: { label: 'Calcium', unit: 'mg' },
+  iron: { label: 'Iron', unit: 'mg' },
+  potassium: { label: 'Potassium', unit: 'mg' },
+};
+
+export const NUTRI_SCORE_GRADES = ['a', 'b', 'c', 'd', 'e'] as const;
+export type NutriScoreGrade = typeof NUTRI_SCORE_GRADES[number];
+
+// NOVA classifies how processed a food is, from 1 (unprocessed) to 4 (ultra-processed)
+export const NOVA_GROUPS = [1, 2, 3, 4] as const;
+export type NovaGroup = typeof NOVA_GROUPS[number];
+
+export const NOVA_GROUP_LABELS: Record<NovaGroup, string> = {
+  1: 'Unprocessed or minimally processed',
+  2: 'Processed culinary ingredients',
+  3: 'Processed foods',
+  4: 'Ultra-processed foods',
+};
+
+export function isNutriScoreGrade(value: unknown): value is NutriScoreGrade {
+  return NUTRI_SCORE_GRADES.includes(value as NutriScoreGrade);
+}
+
+export function isNovaGroup(value: unknown): value is NovaGroup {
+  return NOVA_GROUPS.includes(value as NovaGroup);
+}
+
+export interface CoreNutrition {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber: number;
+  sugar: number;
+  sodium: number;
+}
+
+export type NutritionTotals = CoreNutrition & Record<OptionalNutrient, number | null>;
+
+// The per-100g columns of a food_items row
+export interface NutritionFoodItem {
+  name?: string;
+  calories_per_100g?: number | null;
+  protein_per_100g?: number | null;
+  carbs_per_100g?: number | null;
+  fat_per_100g?: number | null;
+  fiber_per_100g?: number | null;
+  sugar_per_100g?: number | null;
+  sodium_per_100g?: number | null;
+  saturated_fat_per_100g?: number | null;
+  salt_per_100g?: number | null;
+  vitamin_a_per_100g?: number | null;
+  vitamin_c_per_100g?: number | null;
+  vitamin_d_per_100g?: number | null;
+  calcium_per_100g?: number | null;
+  iron_per_100g?: number | null;
+  potassium_per_100g?: number | null;
+  serving_size?: number | null;
+  serving_unit?: string | null;
+}
+
+export interface NutritionIngredient {
+  ingredient_name?: string | null;
+  quantity: number;
+  unit?: string | null;
+  food_item?: NutritionFoodItem | null;
+}
+
+export interface UnconvertedIngredient {
+  name: string;
+  reason: string;
+}
+
+export interface RecipeNutrition {
+  total: NutritionTotals;
+  perServing: NutritionTotals;
+  servings: number;
+  totalWeightGrams: number;
+  unconverted: UnconvertedIngredient[];
+  isComplete: boolean;
+}
+
+const UNKNOWN_OPTIONAL = Object.fromEntries(
+  OPTIONAL_NUTRIENTS.map(key => [key, null])
+) as Record<OptionalNutrient, null>;
+
+export const EMPTY_NUTRITION: NutritionTotals = {
+  calories: 0,
+  protein: 0,
+  carbs: 0,
+  fat: 0,
+  fiber: 0,
+  sugar: 0,
+  sodium: 0,
+  ...UNKNOWN_OPTIONAL,
+};
+
+// For sources that only know the core values, e.g. photo analysis
+export function withUnknownExtras(core: CoreNutrition): NutritionTotals {
+  return { ...core, ...UNKNOWN_OPTIONAL };
+}
+
+// Postgres numerics can arrive as strings; null means the value isn't known
+export function optionalNumber(value: number | string | null | undefined): number | null {
+  return value == null ? null : Number(value);
+}
+
+const mapOptional = (fn: (key: OptionalNutrient) => number | null) =>
+  Object.fromEntries(OPTIONAL_NUTRIENTS.map(key => [key, fn(key)])) as Record<OptionalNutrient, number | null>;
+
+function addOptional(a: number | null, b: number | null): number | null {
+  if (a === null && b === null) return null;
+  return (a ?? 0) + (b ?? 0);
+}
+
+export function addNutrition(a: NutritionTotals, b: NutritionTotals): NutritionTotals {
+  return {
+    calories: a.calories + b.calories,
+    protein: a.protein + b.protein,
+    carbs: a.carbs + b.carbs,
+    fat: a.fat + b.fat,
+    fiber: a.fiber + b.fiber,
+    sugar: a.sugar + b.sugar,
+    sodium: a.sodium + b.sodium,
+    // Older stored summaries may not have the optional keys at all
+    ...mapOptional(key => addOptional(a[key] ?? null, b[key] ?? null)),
+  };
+}
+
+export function scaleNutrition(totals: NutritionTotals, factor: number): NutritionTotals {
+  return {
+    calories: totals.calories * factor,
+    protein: totals.protein * factor,
+    carbs: totals.carbs * factor,
+    fat: totals.fat * factor,
+    fiber: totals.fiber * factor,
+    sugar: totals.sugar * factor,
+    sodium: totals.sodium * factor,
+    ...mapOptional(key => totals[key] == null ? null : (totals[key] as number) * factor),
+  };
+}
+
+// Nutrition for a given weight of a food item
+export function nutritionForGrams(food: NutritionFoodItem, grams: number): NutritionTotals {
+  const factor = grams / 100;
+  const optional = (value?: number | null) => value == null ? null : Number(value) * factor;
+  // Salt is sodium x 2.5; sodium is stored in mg and salt in g
+  const salt = food.salt_per_100g ?? (food.sodium_per_100g == null ? null : food.sodium_per_100g * 2.5 / 1000);
+
+  return {
+    calories: (food.calories_per_100g || 0) * factor,
+    protein: (food.protein_per_100g || 0) * factor,
+    carbs: (food.carbs_per_100g || 0) * factor,
+    fat: (food.fat_per_100g || 0) * factor,
+    fiber: (food.fiber_per_100g || 0) * factor,
+    sugar: (food.sugar_per_100g || 0) * factor,
+    sodium: (food.sodium_per_100g || 0) * factor,
+    saturated_fat: optional(food.saturated_fat_per_100g),
+    salt: optional(salt),
+    vitamin_a: optional(food.vitamin_a_per_100g),
+    vitamin_c: optional(food.vitamin_c_per_100g),
+    vitamin_d: optional(food.vitamin_d_per_100g),
+    calcium: optional(food.calcium_per_100g),
+    iron: optional(food.iron_per_100g),
+    potassium: optional(food.potassium_per_100g),
+  };
+}
+
+// Converts a quantity to grams. Volumes assume the density of water, and
+// "each" uses the food item's serving size. Returns null when no sensible
+// conversion exists.
+export function toGrams(quantity: number, unit: string | null | undefined, food?: NutritionFoodItem | null): number | null {
+  const definition = getUnit(unit);
+  if (!definition || !Number.isFinite(quantity)) return null;
+
+  if (definition.dimension !== 'count') {
+    return quantity * definition.toBase;
+  }
+
+  const servingUnit = getUnit(food?.serving_unit);
+  if (!food?.serving_size || !servingUnit || servingUnit.dimension === 'count') {
+    return null;
+  }
+  return quantity * food.serving_size * servingUnit.toBase;
+}
+
+export function calculateRecipeNutrition(ingredients: NutritionIngredient[], servings?: number | null): RecipeNutrition {
+  const safeServings = servings && servings > 0 ? servings : 1;
+  let total = { ...EMPTY_NUTRITION };
+  let totalWeightGrams = 0;
+  const unconverted: UnconvertedIngredient[] = [];
+
+  ingredients.forEach(ingredient => {
+    const name = ingredient.food_item?.name || ingredient.ingredient_name || 'Unnamed ingredient';
+
+    if (!ingredient.food_item) {
+      unconverted.push({ name, reason: 'Not linked to the food database' });
+      return;
+    }
+
+    const grams = toGrams(ingredient.quantity, ingredient.unit, ingredient.food_item);
+    if (grams === null) {
+      unconverted.push({ name, reason: `Cannot convert "${ingredient.unit}" to grams` });
+      return;
+    }
+
+    total = addNutrition(total, nutritionForGrams(ingredient.food_item, grams));
+    totalWeightGrams += grams;
+  });
+
+  return {
+    total,
+    perServing: scaleNutrition(total, 1 / safeServings),
+    servings: safeServings,
+    totalWeightGrams,
+    unconverted,
+    isComplete: unconverted.length === 0,
+  };
+}
@@ -0,0 +1,94 @@
+import { convertQuantity } from "@/lib/units";
+import { MergedShoppingItem } from "@/lib/shoppingList";
+
+export type PantryLocation = 'fridge' | 'freezer' | 'cupboard';
+
+export const PANTRY_LOCATIONS: { value: PantryLocation; label: string }[] = [
+  { value: 'fridge', label: 'Fridge' },
+  { value: 'freezer', label: 'Freezer' },
+  { value: 'cupboard', label: 'Cupboard' },
+];
+
+export interface PantryStock {
+  name: string;
+  quantity: number;
+  unit: string;
+  food_item_id?: string | null;
+  best_before?: string | null;
+}
+
+interface StockItem {
+  name: string;
+  unit?: string | null;
+  food_item_id?: string | null;
+}
+
+// Same food (by food item, or by name when either side has none) in a convertible unit
+export function isSameStock(a: StockItem, b: StockItem): boolean {
+  const sameFood = a.food_item_id && b.food_item_id
+    ? a.food_item_id === b.food_item_id
+    : a.name.trim().toLowerCase() === b.name.trim().toLowerCase();
+  return sameFood && convertQuantity(1, a.unit, b.unit) !== null;
+}
+
+export function findPantryMatch<T extends PantryStock>(pantry: T[], item: StockItem): T | undefined {
+  return pantry.find(stock => isSameStock(stock, item));
+}
+
+// Still usable on a yyyy-MM-dd date: no best-before date, or one not yet passed
+export function isUnexpired(stock: PantryStock, date: string): boolean {
+  return !stock.best_before || stock.best_before >= date;
+}
+
+// Reduces each shopping item by what the pantry already holds, dropping
+// anything that is fully covered. Stock past its best-before date on `date`
+// doesn't count.
+export function netAgainstPantry(items: MergedShoppingItem[], pantry: PantryStock[], date: string): MergedShoppingItem[] {
+  return items.flatMap(item => {
+    const onHand = pantry
+      .filter(stock => isSameStock(stock, item) && isUnexpired(stock, date))
+      .reduce((total, stock) => total + (convertQuantity(Number(stock.quantity), stock.unit, item.unit) ?? 0), 0);
+    if (onHand <= 0) return [item];
+
+    const remaining = Math.round((item.quantity - onHand) * 100) / 100;
+    return remaining > 0 ? [{ ...item, quantity: remaining }] : [];
+  });
+}
+
+export interface PantryChange {
+  id: string;
+  // In the pantry item's own unit; negative takes stock out
+  change: number;
+}
+
+// Oldest best-before first; stock without a date goes last
+const byBestBefore = (a: PantryStock, b: PantryStock) =>
+  (a.best_before || '9999-12-31').localeCompare(b.best_before || '9999-12-31');
+
+// Works out how much to take from each pantry item to cover the ingredients,
+// using up whatever goes off first. Ingredients that are not in the pantry are
+// ignored, and no item is taken below zero.
+export function planDepletion<T extends PantryStock & { id: string }>(pantry: T[], items: MergedShoppingItem[]): PantryChange[] {
+  const left = new Map(pantry.map(stock => [stock.id, Number(stock.quantity)]));
+  const used = new Map<string, number>();
+
+  items.forEach(item => {
+    let needed = item.quantity;
+    const matches = pantry.filter(stock => isSameStock(stock, item)).sort(byBestBefore);
+
+    for (const stock of matches) {
+      if (needed <= 0) break;
+
+      const available = convertQuantity(left.get(stock.id) ?? 0, stock.unit, item.unit) ?? 0;
+      const taken = Math.min(available, needed);
+      if (taken <= 0) continue;
+
+      const takenInStockUnit = convertQuantity(taken, item.unit, stock.unit) ?? 0;
+      left.set(stock.id, (left.get(stock.id) ?? 0) - takenInStockUnit);
+      used.set(stock.id, (used.get(stock.id) ?? 0) + takenInStockUnit);
+      needed -= taken;
+    }
+  });
+
+  return Array.from(used, ([id, quantity]) => ({ id, change: -Math.round(quantity * 100) / 100 }));
+}
@@ -0,0 +1,38 @@
+export interface RecipeStats {
+  // Average of the ratings given to logged meals of this recipe
+  personalRating: number | null;
+  personalRatingCount: number;
+  // From the shared_recipes entry, when the recipe is shared with the community
+  communityRating: number | null;
+  communityRatingCount: number;
+  // Days on which the recipe was logged as eaten or marked as cooked
+  timesCooked: number;
+  lastCooked: string | null;
+}
+
+export type RecipeSort = 'relevance' | 'name' | 'top_rated' | 'most_cooked' | 'recently_cooked' | 'not_cooked_lately';
+
+export const RECIPE_SORT_OPTIONS: { value: RecipeSort; label: string }[] = [
+  { value: 'relevance', label: 'Best match' },
+  { value: 'name', label: 'Name' },
+  { value: 'top_rated', label: 'Top rated' },
+  { value: 'most_cooked', label: 'Most cooked' },
+  { value: 'recently_cooked', label: 'Recently cooked' },
+  { value: 'not_cooked_lately', label: 'Not cooked in a while' },
+];
+
+export const EMPTY_RECIPE_STATS: RecipeStats = {
+  personalRating: null,
+  personalRatingCount: 0,
+  communityRating: null,
+  communityRatingCount: 0,
+  timesCooked: 0,
+  lastCooked: null,
+};
+
+// The rating shown on a recipe: your own opinion when you have one, otherwise
+// the community's. search_recipes filters and sorts on the same rating.
+export function effectiveRating(stats: RecipeStats | undefined): number | null {
+  if (!stats) return null;
+  return stats.personalRating ?? stats.communityRating;
+}
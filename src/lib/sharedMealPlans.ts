@@ -0,0 +1,88 @@
+import { differenceInCalendarDays, parseISO } from "date-fns";
+import { addNutrition, EMPTY_NUTRITION, NutritionTotals, scaleNutrition } from "@/lib/nutrition";
+
+// An event in a shared plan, placed by its day within the plan (0 = the
+// first Monday) rather than by date
+export interface SharedPlanEvent {
+  day: number;
+  meal_type: string;
+  title: string;
+  start_time: string | null;
+  end_time: string | null;
+  notes: string | null;
+  servings: number | null;
+  // id of the recipe in the publisher's account, matching SharedPlanRecipe.id
+  recipe_id: string | null;
+}
+
+export interface SharedPlanIngredient {
+  food_item_id: string | null;
+  ingredient_name: string | null;
+  quantity: number;
+  unit: string;
+}
+
+export interface SharedPlanRecipe {
+  id: string;
+  user_id: string;
+  name: string;
+  description: string | null;
+  instructions: string | null;
+  prep_time: number | null;
+  cook_time: number | null;
+  servings: number | null;
+  tags: string[] | null;
+  meal_times: string[] | null;
+  ingredients: SharedPlanIngredient[];
+}
+
+// Average daily nutrition across the days that have any planned recipe
+export interface SharedPlanNutrition {
+  perDay: NutritionTotals;
+  days: number;
+  // Planned meals with no recipe, or a recipe we couldn't compute, aren't counted
+  mealsCounted: number;
+  mealsTotal: number;
+}
+
+export function toSharedEvents(
+  events: { date: string; meal_type: string; title: string; start_time?: string | null; end_time?: string | null; notes?: string | null; servings?: number | null; recipe_id?: string | null }[],
+  weekStart: Date,
+): SharedPlanEvent[] {
+  return events.map(event => ({
+    day: differenceInCalendarDays(parseISO(event.date), weekStart),
+    meal_type: event.meal_type,
+    title: event.title,
+    start_time: event.start_time || null,
+    end_time: event.end_time || null,
+    notes: event.notes || null,
+    servings: event.servings ?? null,
+    recipe_id: event.recipe_id || null,
+  }));
+}
+
+// Counts one serving of each planned recipe, i.e. what one person eats
+export function summariseNutrition(
+  events: SharedPlanEvent[],
+  perServing: Record<string, NutritionTotals>,
+): SharedPlanNutrition {
+  const days = new Set<number>();
+  let total = { ...EMPTY_NUTRITION };
+  let mealsCounted = 0;
+
+  events.forEach(event => {
+    const nutrition = event.recipe_id ? perServing[event.recipe_id] : undefined;
+    if (!nutrition) return;
+
+    total = addNutrition(total, nutrition);
+    days.add(event.day);
+    mealsCounted++;
+  });
+
+  return {
+    perDay: scaleNutrition(total, days.size ? 1 / days.size : 0),
+    days: days.size,
+    mealsCounted,
+    mealsTotal: events.length,
+  };
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { categoriseIngredient } from "@/lib/shoppingList";
+
+describe('categoriseIngredient', () => {
+  it.each([
+    ['kitchen roll', 'Household Items'],
+    ['rolled oats', 'Pantry & Dry Goods'],
+    ['bunch of coriander', 'Produce'],
+    ['peanut butter', 'Pantry & Dry Goods'],
+    ['coconut milk', 'Pantry & Dry Goods'],
+    ['watercress', 'Produce'],
+    ['chicken stock', 'Pantry & Dry Goods'],
+  ])('files %s under %s', (name, category) => {
+    expect(categoriseIngredient(name)).toBe(category);
+  });
+
+  it('only matches whole words', () => {
+    expect(categoriseIngredient('Hamburger relish')).toBeNull();
+    expect(categoriseIngredient('bunting')).toBeNull();
+  });
+
+  it('matches plurals', () => {
+    expect(categoriseIngredient('Cherry tomatoes')).toBe('Produce');
+    expect(categoriseIngredient('Bread rolls')).toBe('Bakery');
+    expect(categoriseIngredient('Free range eggs')).toBe('Dairy & Eggs');
+  });
+
+  it('still files meat and dairy by their single-word keywords', () => {
+    expect(categoriseIngredient('Chicken thighs')).toBe('Meat & Seafood');
+    expect(categoriseIngredient('Unsalted butter')).toBe('Dairy & Eggs');
+  });
+});
@@ -0,0 +1,115 @@
+import { getUnit, normaliseUnit } from "@/lib/units";
+
+export interface ShoppingIngredient {
+  name: string;
+  quantity: number;
+  unit?: string | null;
+  food_item_id?: string | null;
+}
+
+export interface MergedShoppingItem {
+  name: string;
+  quantity: number;
+  unit: string;
+  food_item_id: string | null;
+}
+
+// Keywords for the seeded shopping_categories, matched as whole words (or
+// their plurals) against ingredient names. Phrases are tried before single
+// words, so peanut butter isn't filed as butter; otherwise the first category
+// with a matching keyword wins.
+export const CATEGORY_KEYWORDS: Record<string, string[]> = {
+  'Frozen Foods': ['frozen', 'ice cream', 'peas'],
+  'Meat & Seafood': [
+    'chicken', 'beef', 'pork', 'lamb', 'turkey', 'mince', 'bacon', 'sausage', 'ham', 'steak',
+    'fish', 'salmon', 'tuna', 'cod', 'haddock', 'prawn', 'shrimp', 'mackerel', 'chorizo',
+  ],
+  'Dairy & Eggs': ['milk', 'cheese', 'butter', 'cream', 'yoghurt', 'yogurt', 'egg', 'creme fraiche', 'mozzarella', 'parmesan', 'cheddar'],
+  'Bakery': ['bread', 'roll', 'bagel', 'wrap', 'tortilla', 'pitta', 'naan', 'croissant', 'bun'],
+  'Beverages': ['juice', 'coffee', 'tea', 'water', 'cola', 'wine', 'beer'],
+  'Produce': [
+    'apple', 'banana', 'orange', 'lemon', 'lime', 'berry', 'berries', 'grape', 'tomato', 'potato',
+    'onion', 'garlic', 'carrot', 'pepper', 'lettuce', 'spinach', 'kale', 'broccoli', 'cauliflower',
+    'courgette', 'cucumber', 'mushroom', 'avocado', 'celery', 'leek', 'cabbage', 'ginger', 'chilli',
+    'herb', 'basil', 'coriander', 'parsley', 'mint', 'spring onion', 'sweet potato', 'squash',
+    'watercress',
+  ],
+  'Pantry & Dry Goods': [
+    'rice', 'pasta', 'noodle', 'flour', 'sugar', 'salt', 'oil', 'vinegar', 'stock', 'bean', 'lentil',
+    'chickpea', 'oat', 'cereal', 'tin', 'tinned', 'canned', 'sauce', 'spice', 'cumin', 'paprika',
+    'honey', 'jam', 'peanut', 'nut', 'seed', 'couscous', 'quinoa', 'soy', 'mustard', 'ketchup',
+    'chicken stock', 'beef stock', 'fish stock', 'peanut butter', 'coconut milk',
+  ],
+  'Household Items': ['foil', 'cling film', 'bin bag', 'washing up', 'kitchen roll'],
+};
+
+const wordCount = (keyword: string) => keyword.split(' ').length;
+
+const KEYWORD_PATTERNS = Object.entries(CATEGORY_KEYWORDS)
+  .flatMap(([category, keywords]) =>
+    keywords.map(keyword => ({ category, keyword, pattern: new RegExp(`\\b${keyword}(e?s)?\\b`) })))
+  .sort((a, b) => wordCount(b.keyword) - wordCount(a.keyword));
+
+// Returns the name of the best-matching shopping category, or null if none match
+export function categoriseIngredient(name: string): string | null {
+  const lower = name.toLowerCase();
+  return KEYWORD_PATTERNS.find(({ pattern }) => pattern.test(lower))?.category ?? null;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Picks a readable unit for a quantity already expressed in g, ml or each
+function displayQuantity(baseQuantity: number, dimension: string): { quantity: number; unit: string } {
+  if (dimension === 'mass' && baseQuantity >= 1000) {
+    return { quantity: round(baseQuantity / 1000), unit: 'kg' };
+  }
+  if (dimension === 'volume' && baseQuantity >= 1000) {
+    return { quantity: round(baseQuantity / 1000), unit: 'l' };
+  }
+  const unit = dimension === 'mass' ? 'g' : dimension === 'volume' ? 'ml' : 'each';
+  return { quantity: round(baseQuantity), unit };
+}
+
+// Combines duplicate ingredients across recipes. Items are matched on their
+// food item (or name when there is none) and summed within a unit dimension,
+// so 500 g and 1 kg of flour become 1.5 kg. Unknown units are only merged
+// with the exact same unit.
+export function mergeIngredients(ingredients: ShoppingIngredient[]): MergedShoppingItem[] {
+  const merged = new Map<string, { name: string; food_item_id: string | null; dimension: string | null; unit: string; quantity: number }>();
+
+  ingredients.forEach(ingredient => {
+    if (!Number.isFinite(ingredient.quantity) || ingredient.quantity <= 0) return;
+
+    const definition = getUnit(ingredient.unit);
+    const identity = ingredient.food_item_id || ingredient.name.trim().toLowerCase();
+    const unitKey = definition ? definition.dimension : `unit:${normaliseUnit(ingredient.unit)}`;
+    const key = `${identity}|${unitKey}`;
+    const quantity = definition ? ingredient.quantity * definition.toBase : ingredient.quantity;
+
+    const existing = merged.get(key);
+    if (existing) {
+      existing.quantity += quantity;
+    } else {
+      merged.set(key, {
+        name: ingredient.name.trim(),
+        food_item_id: ingredient.food_item_id || null,
+        dimension: definition ? definition.dimension : null,
+        unit: definition ? definition.value : normaliseUnit(ingredient.unit),
+        quantity,
+      });
+    }
+  });
+
+  return Array.from(merged.values())
+    .map(item => {
+      const display = item.dimension
+        ? displayQuantity(item.quantity, item.dimension)
+        : { quantity: round(item.quantity), unit: item.unit };
+      return {
+        name: item.name,
+        food_item_id: item.food_item_id,
+        ...display,
+      };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { EMPTY_NUTRITION } from "@/lib/nutrition";
+import {
+  dayTrafficLights,
+  DRINK_THRESHOLDS,
+  FOOD_THRESHOLDS,
+  foodItemTrafficLights,
+  lightForPortion,
+  lightPer100g,
+  recipeTrafficLights,
+  TRAFFIC_LIGHT_NUTRIENTS,
+  TrafficLightLabel,
+  TrafficLightNutrient,
+} from "@/lib/trafficLights";
+
+const entry = (label: TrafficLightLabel, nutrient: TrafficLightNutrient) =>
+  label.entries.find(e => e.nutrient === nutrient);
+
+describe('lightPer100g', () => {
+  describe.each([
+    { kind: 'food', drink: false, thresholds: FOOD_THRESHOLDS },
+    { kind: 'drink', drink: true, thresholds: DRINK_THRESHOLDS },
+  ])('$kind', ({ drink, thresholds }) => {
+    it.each(TRAFFIC_LIGHT_NUTRIENTS)('%s is green at exactly the low threshold', nutrient => {
+      expect(lightPer100g(nutrient, thresholds[nutrient].low, drink)).toBe('green');
+    });
+
+    it.each(TRAFFIC_LIGHT_NUTRIENTS)('%s is amber just above the low threshold', nutrient => {
+      expect(lightPer100g(nutrient, thresholds[nutrient].low + 0.01, drink)).toBe('amber');
+    });
+
+    it.each(TRAFFIC_LIGHT_NUTRIENTS)('%s is amber at exactly the high threshold', nutrient => {
+      expect(lightPer100g(nutrient, thresholds[nutrient].high, drink)).toBe('amber');
+    });
+
+    it.each(TRAFFIC_LIGHT_NUTRIENTS)('%s is red just above the high threshold', nutrient => {
+      expect(lightPer100g(nutrient, thresholds[nutrient].high + 0.01, drink)).toBe('red');
+    });
+  });
+});
+
+describe('lightForPortion', () => {
+  it('uses the per-100g colour for portions of 100g and just over', () => {
+    expect(lightForPortion('fat', 17.5, 100)).toBe('amber');
+    expect(lightForPortion('fat', 17.5, 101)).toBe('amber');
+    expect(lightForPortion('fat', 3, 101)).toBe('green');
+  });
+
+  it('only applies the portion limit to drinks over 150ml', () => {
+    // 150ml holds 16.9g, over the 13.5g limit, but isn't a large portion yet
+    expect(lightForPortion('sugars', 11.25, 150, true)).toBe('amber');
+    expect(lightForPortion('sugars', 11.25, 151, true)).toBe('red');
+    expect(lightForPortion('sugars', 2.5, 151, true)).toBe('green');
+  });
+
+  it('turns a large food portion red only when it is over the portion limit', () => {
+    // 10.5g per 100g is amber; 200g holds exactly the 21g limit
+    expect(lightForPortion('fat', 10.5, 200)).toBe('amber');
+    expect(lightForPortion('fat', 10.5, 201)).toBe('red');
+  });
+
+  it('turns a large drink red only when it is over the portion limit', () => {
+    // 5.25g per 100ml is amber; 200ml holds exactly the 10.5g limit
+    expect(lightForPortion('fat', 5.25, 200, true)).toBe('amber');
+    expect(lightForPortion('fat', 5.25, 201, true)).toBe('red');
+  });
+
+  it('turns a portion red once it holds more than the limit', () => {
+    // 4g per 100g is amber; 150g holds exactly the 6g limit
+    expect(lightForPortion('saturates', 4, 100)).toBe('amber');
+    expect(lightForPortion('saturates', 4, 150)).toBe('amber');
+    expect(lightForPortion('saturates', 4, 151)).toBe('red');
+  });
+});
+
+describe('salt from sodium', () => {
+  it('works salt out from sodium when salt is missing', () => {
+    // 600mg sodium is 1.5g salt: the top of amber
+    const label = foodItemTrafficLights({ sodium_per_100g: 600, salt_per_100g: null });
+    expect(entry(label, 'salt')).toMatchObject({ amount: 1.5, light: 'amber' });
+
+    const higher = foodItemTrafficLights({ sodium_per_100g: 601, salt_per_100g: null });
+    expect(entry(higher, 'salt')?.light).toBe('red');
+  });
+
+  it('prefers a recorded salt amount over sodium', () => {
+    const label = foodItemTrafficLights({ sodium_per_100g: 2000, salt_per_100g: 0.2 });
+    expect(entry(label, 'salt')).toMatchObject({ amount: 0.2, light: 'green' });
+  });
+
+  it('leaves salt unknown when neither is recorded', () => {
+    const label = foodItemTrafficLights({ fat_per_100g: 1 });
+    expect(entry(label, 'salt')).toMatchObject({ amount: null, light: null });
+  });
+
+  it('works out a day\'s salt from its sodium', () => {
+    const label = dayTrafficLights({ ...EMPTY_NUTRITION, sodium: 2000 });
+    expect(entry(label, 'salt')).toMatchObject({ amount: 5, light: 'amber' });
+  });
+
+  it('leaves a day or recipe\'s salt unknown when it has no salt or sodium', () => {
+    expect(entry(dayTrafficLights(EMPTY_NUTRITION), 'salt')).toMatchObject({ amount: null, light: null });
+
+    const recipe = recipeTrafficLights({
+      total: { ...EMPTY_NUTRITION, fat: 5 },
+      perServing: { ...EMPTY_NUTRITION, fat: 5 },
+      servings: 1,
+      totalWeightGrams: 200,
+      unconverted: [],
+      isComplete: true,
+    });
+    expect(recipe && entry(recipe, 'salt')).toMatchObject({ amount: null, light: null });
+  });
+});
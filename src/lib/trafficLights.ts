@@ -0,0 +1,229 @@
+import { getUnit } from "@/lib/units";
+import { NutritionFoodItem, NutritionTotals, RecipeNutrition } from "@/lib/nutrition";
+
+// UK front-of-pack traffic lights, following the FSA/Department of Health
+// guidance (2016). Colours come from the amount per 100g (100ml for drinks):
+// at or below `low` is green, above `high` is red, and anything in between
+// is amber. Boundaries are inclusive on the lower colour, so exactly 3.0g of
+// fat per 100g is green and exactly 17.5g is amber.
+// Large portions can also turn a nutrient red: when a portion is over 100g
+// (150ml for drinks), more than `portionHigh` in that portion is red whatever
+// the per-100g amount.
+
+export type TrafficLight = 'green' | 'amber' | 'red';
+
+export const TRAFFIC_LIGHT_NUTRIENTS = ['fat', 'saturates', 'sugars', 'salt'] as const;
+export type TrafficLightNutrient = typeof TRAFFIC_LIGHT_NUTRIENTS[number];
+
+export const TRAFFIC_LIGHT_LABELS: Record<TrafficLightNutrient, string> = {
+  fat: 'Fat',
+  saturates: 'Saturates',
+  sugars: 'Sugars',
+  salt: 'Salt',
+};
+
+// Adult reference intakes, in grams per day
+export const REFERENCE_INTAKES: Record<TrafficLightNutrient, number> = {
+  fat: 70,
+  saturates: 20,
+  sugars: 90,
+  salt: 6,
+};
+
+interface Thresholds {
+  low: number;
+  high: number;
+  portionHigh: number;
+}
+
+export const FOOD_THRESHOLDS: Record<TrafficLightNutrient, Thresholds> = {
+  fat: { low: 3, high: 17.5, portionHigh: 21 },
+  saturates: { low: 1.5, high: 5, portionHigh: 6 },
+  sugars: { low: 5, high: 22.5, portionHigh: 27 },
+  salt: { low: 0.3, high: 1.5, portionHigh: 1.8 },
+};
+
+export const DRINK_THRESHOLDS: Record<TrafficLightNutrient, Thresholds> = {
+  fat: { low: 1.5, high: 8.75, portionHigh: 10.5 },
+  saturates: { low: 0.75, high: 2.5, portionHigh: 3 },
+  sugars: { low: 2.5, high: 11.25, portionHigh: 13.5 },
+  salt: { low: 0.3, high: 0.75, portionHigh: 0.9 },
+};
+
+const FOOD_PORTION_MINIMUM = 100;
+const DRINK_PORTION_MINIMUM = 150;
+
+// The FSA scheme has no daily thresholds. A day is compared with the
+// reference intakes themselves: over the intake is red, over this share of it
+// is amber.
+const DAY_AMBER_SHARE = 0.75;
+
+// Amounts in grams. Null means the amount isn't known.
+export type TrafficLightValues = Record<TrafficLightNutrient, number | null>;
+
+export interface TrafficLightOptions {
+  // Weight (or volume, for drinks) of a portion, when there is one
+  portionGrams?: number | null;
+  drink?: boolean;
+}
+
+export interface TrafficLightEntry {
+  nutrient: TrafficLightNutrient;
+  light: TrafficLight | null;
+  // Per portion when a portion size is known, otherwise per 100g
+  amount: number | null;
+  percentOfReferenceIntake: number | null;
+}
+
+export interface TrafficLightLabel {
+  basis: 'portion' | '100g' | '100ml' | 'day';
+  portionGrams: number | null;
+  entries: TrafficLightEntry[];
+}
+
+export function lightPer100g(nutrient: TrafficLightNutrient, per100g: number, drink = false): TrafficLight {
+  const { low, high } = (drink ? DRINK_THRESHOLDS : FOOD_THRESHOLDS)[nutrient];
+  if (per100g <= low) return 'green';
+  if (per100g <= high) return 'amber';
+  return 'red';
+}
+
+export function lightForPortion(
+  nutrient: TrafficLightNutrient,
+  per100g: number,
+  portionGrams: number,
+  drink = false,
+): TrafficLight {
+  const light = lightPer100g(nutrient, per100g, drink);
+  const minimum = drink ? DRINK_PORTION_MINIMUM : FOOD_PORTION_MINIMUM;
+  if (portionGrams <= minimum) return light;
+
+  const { portionHigh } = (drink ? DRINK_THRESHOLDS : FOOD_THRESHOLDS)[nutrient];
+  return (per100g * portionGrams) / 100 > portionHigh ? 'red' : light;
+}
+
+const percentOf = (nutrient: TrafficLightNutrient, amount: number | null) =>
+  amount === null ? null : (amount / REFERENCE_INTAKES[nutrient]) * 100;
+
+export function trafficLightLabel(per100g: TrafficLightValues, options: TrafficLightOptions = {}): TrafficLightLabel {
+  const drink = !!options.drink;
+  const portion = options.portionGrams && options.portionGrams > 0 ? options.portionGrams : null;
+
+  return {
+    basis: portion ? 'portion' : drink ? '100ml' : '100g',
+    portionGrams: portion,
+    entries: TRAFFIC_LIGHT_NUTRIENTS.map(nutrient => {
+      const value = per100g[nutrient];
+      if (value === null) {
+        return { nutrient, light: null, amount: null, percentOfReferenceIntake: null };
+      }
+
+      const amount = portion ? (value * portion) / 100 : value;
+      return {
+        nutrient,
+        light: portion ? lightForPortion(nutrient, value, portion, drink) : lightPer100g(nutrient, value, drink),
+        amount,
+        percentOfReferenceIntake: percentOf(nutrient, amount),
+      };
+    }),
+  };
+}
+
+// Salt is sodium x 2.5; sodium is stored in mg
+const saltFrom = (salt: number | null | undefined, sodiumMg: number | null | undefined) =>
+  salt ?? (sodiumMg == null ? null : (sodiumMg * 2.5) / 1000);
+
+// Sodium is a core total, so it's 0 rather than null when nothing recorded
+// it; only a real figure stands in for missing salt
+const saltFromTotals = (totals: NutritionTotals) =>
+  saltFrom(totals.salt, totals.sodium > 0 ? totals.sodium : null);
+
+const known = (value: number | string | null | undefined) => value == null ? null : Number(value);
+
+// Drinks are recognised by a serving measured by volume, taking 1ml as 1g
+export function foodItemTrafficLights(food: NutritionFoodItem): TrafficLightLabel {
+  const servingUnit = getUnit(food.serving_unit);
+  const portionGrams = food.serving_size && servingUnit && servingUnit.dimension !== 'count'
+    ? food.serving_size * servingUnit.toBase
+    : null;
+
+  return trafficLightLabel({
+    fat: known(food.fat_per_100g),
+    saturates: known(food.saturated_fat_per_100g),
+    sugars: known(food.sugar_per_100g),
+    salt: known(saltFrom(food.salt_per_100g, food.sodium_per_100g)),
+  }, { portionGrams, drink: servingUnit?.dimension === 'volume' });
+}
+
+export interface ReadyMealNutrition {
+  serving_size?: number | null;
+  serving_unit?: string | null;
+  fat_per_serving?: number | null;
+  saturated_fat_per_serving?: number | null;
+  sugar_per_serving?: number | null;
+  salt_per_serving?: number | null;
+}
+
+// Ready meals record nutrition per serving, so they can only be coloured
+// when the serving has a weight to work back to 100g from
+export function readyMealTrafficLights(meal: ReadyMealNutrition): TrafficLightLabel | null {
+  const servingUnit = getUnit(meal.serving_unit);
+  if (!meal.serving_size || !servingUnit || servingUnit.dimension === 'count') return null;
+
+  const portionGrams = meal.serving_size * servingUnit.toBase;
+  const per100g = (perServing: number | null | undefined) =>
+    perServing == null ? null : (Number(perServing) * 100) / portionGrams;
+
+  return trafficLightLabel({
+    fat: per100g(meal.fat_per_serving),
+    saturates: per100g(meal.saturated_fat_per_serving),
+    sugars: per100g(meal.sugar_per_serving),
+    salt: per100g(meal.salt_per_serving),
+  }, { portionGrams, drink: servingUnit.dimension === 'volume' });
+}
+
+// Recipes are coloured per 100g of the finished dish, with a serving as the
+// portion. Only the weight of the ingredients that could be converted counts.
+export function recipeTrafficLights(nutrition: RecipeNutrition): TrafficLightLabel | null {
+  const { total, totalWeightGrams, servings } = nutrition;
+  if (totalWeightGrams <= 0) return null;
+
+  const per100g = (amount: number | null) => amount === null ? null : (amount * 100) / totalWeightGrams;
+
+  return trafficLightLabel({
+    fat: per100g(total.fat),
+    saturates: per100g(total.saturated_fat),
+    sugars: per100g(total.sugar),
+    salt: per100g(saltFromTotals(total)),
+  }, { portionGrams: totalWeightGrams / servings });
+}
+
+export function lightForDay(nutrient: TrafficLightNutrient, amount: number): TrafficLight {
+  const intake = REFERENCE_INTAKES[nutrient];
+  if (amount > intake) return 'red';
+  if (amount > intake * DAY_AMBER_SHARE) return 'amber';
+  return 'green';
+}
+
+export function dayTrafficLights(totals: NutritionTotals): TrafficLightLabel {
+  const amounts: TrafficLightValues = {
+    fat: totals.fat,
+    saturates: totals.saturated_fat,
+    sugars: totals.sugar,
+    salt: saltFromTotals(totals),
+  };
+
+  return {
+    basis: 'day',
+    portionGrams: null,
+    entries: TRAFFIC_LIGHT_NUTRIENTS.map(nutrient => {
+      const amount = amounts[nutrient];
+      return {
+        nutrient,
+        light: amount === null ? null : lightForDay(nutrient, amount),
+        amount,
+        percentOfReferenceIntake: percentOf(nutrient, amount),
+      };
+    }),
+  };
+}
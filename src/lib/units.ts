@@ -0,0 +1,99 @@
+export type UnitDimension = 'mass' | 'volume' | 'count';
+
+export interface UnitDefinition {
+  value: string;
+  label: string;
+  dimension: UnitDimension;
+  // Multiplier to the dimension's base unit (g, ml or each)
+  toBase: number;
+}
+
+export const UNITS: UnitDefinition[] = [
+  { value: 'g', label: 'g', dimension: 'mass', toBase: 1 },
+  { value: 'kg', label: 'kg', dimension: 'mass', toBase: 1000 },
+  { value: 'oz', label: 'oz', dimension: 'mass', toBase: 28.3495 },
+  { value: 'lb', label: 'lb', dimension: 'mass', toBase: 453.592 },
+  { value: 'ml', label: 'ml', dimension: 'volume', toBase: 1 },
+  { value: 'l', label: 'litre', dimension: 'volume', toBase: 1000 },
+  { value: 'tsp', label: 'tsp', dimension: 'volume', toBase: 5 },
+  { value: 'tbsp', label: 'tbsp', dimension: 'volume', toBase: 15 },
+  { value: 'cup', label: 'cup', dimension: 'volume', toBase: 250 }, // UK metric cup
+  { value: 'each', label: 'each', dimension: 'count', toBase: 1 },
+];
+
+const UNIT_ALIASES: Record<string, string> = {
+  gram: 'g',
+  grams: 'g',
+  gr: 'g',
+  kilogram: 'kg',
+  kilograms: 'kg',
+  kgs: 'kg',
+  ounce: 'oz',
+  ounces: 'oz',
+  pound: 'lb',
+  pounds: 'lb',
+  lbs: 'lb',
+  millilitre: 'ml',
+  millilitres: 'ml',
+  milliliter: 'ml',
+  milliliters: 'ml',
+  litre: 'l',
+  litres: 'l',
+  liter: 'l',
+  liters: 'l',
+  teaspoon: 'tsp',
+  teaspoons: 'tsp',
+  tablespoon: 'tbsp',
+  tablespoons: 'tbsp',
+  cups: 'cup',
+  item: 'each',
+  items: 'each',
+  piece: 'each',
+  pieces: 'each',
+  whole: 'each',
+  x: 'each',
+};
+
+export function normaliseUnit(unit?: string | null): string {
+  const cleaned = (unit || '').trim().toLowerCase();
+  return UNIT_ALIASES[cleaned] || cleaned;
+}
+
+export function getUnit(unit?: string | null): UnitDefinition | undefined {
+  const normalised = normaliseUnit(unit);
+  return UNITS.find(u => u.value === normalised);
+}
+
+export function isValidUnit(unit?: string | null): boolean {
+  return getUnit(unit) !== undefined;
+}
+
+// Returns a user-facing message, or null when the quantity/unit pair is usable
+export function validateQuantity(quantity: number, unit?: string | null): string | null {
+  if (!Number.isFinite(quantity) || quantity <= 0) {
+    return 'Quantity must be greater than zero';
+  }
+  if (quantity > 100000) {
+    return 'Quantity is too large';
+  }
+
+  const definition = getUnit(unit);
+  if (!definition) {
+    return 'Choose a unit';
+  }
+  if (definition.dimension === 'count' && !Number.isInteger(quantity * 4)) {
+    return 'Use whole, half or quarter amounts for "each"';
+  }
+  return null;
+}
+
+// Converts between two units of the same dimension, or returns null if they are incompatible
+export function convertQuantity(quantity: number, fromUnit?: string | null, toUnit?: string | null): number | null {
+  const from = getUnit(fromUnit);
+  const to = getUnit(toUnit);
+  if (!from || !to) {
+    return normaliseUnit(fromUnit) === normaliseUnit(toUnit) ? quantity : null;
+  }
+  if (from.dimension !== to.dimension) return null;
+  return (quantity * from.toBase) / to.toBase;
+}
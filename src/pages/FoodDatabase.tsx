@@ -1,15 +1,24 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { Header } from "@/components/layout/Header";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { BarcodeScanner } from "@/components/barcode/BarcodeScanner";
+import { FoodItemMergeDialog } from "@/components/food/FoodItemMergeDialog";
+import { FoodDetailsDialog } from "@/components/food/FoodDetailsDialog";
+import { TrafficLightLabel } from "@/components/nutrition/TrafficLightLabel";
+import { foodItemTrafficLights } from "@/lib/trafficLights";
 import { useToast } from "@/hooks/use-toast";
-import { OpenFoodFactsService } from "@/services/openFoodFacts";
+import { FoodDataService } from "@/services/foodData";
+import { lookupFailureMessage } from "@/lib/foodData";
+import { applyOverrides, isOverride } from "@/lib/foodItems";
+import { FoodItemRow, FoodItemService } from "@/services/foodItems";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import { useSearchParams } from "react-router-dom";
 import { 
   Scan, 
   Package, 
@@ -19,11 +28,13 @@ import {
   Wheat,
   Beef,
   Loader2,
-  Download
+  Download,
+  Merge
 } from "lucide-react";
 
 interface FoodItem {
   id: string;
+  user_id?: string;
   barcode: string;
   name: string;
   brand?: string;
@@ -34,6 +45,16 @@ interface FoodItem {
   fiber_per_100g?: number;
   sugar_per_100g?: number;
   sodium_per_100g?: number;
+  saturated_fat_per_100g?: number;
+  salt_per_100g?: number;
+  vitamin_a_per_100g?: number;
+  vitamin_c_per_100g?: number;
+  vitamin_d_per_100g?: number;
+  calcium_per_100g?: number;
+  iron_per_100g?: number;
+  potassium_per_100g?: number;
+  nutriscore_grade?: string;
+  nova_group?: number;
   serving_size?: number;
   serving_unit?: string;
   image_url?: string;
@@ -70,10 +91,17 @@ const getCategoryColor = (categories?: string[]) => {
 
 export default function FoodDatabase() {
   const [searchTerm, setSearchTerm] = useState("");
-  const [isScannerOpen, setIsScannerOpen] = useState(false);
+  const [searchParams] = useSearchParams();
+  // The dashboard's "Scan Barcode" action links here with ?scan=1
+  const [isScannerOpen, setIsScannerOpen] = useState(searchParams.get('scan') === '1');
   const [foodItems, setFoodItems] = useState<FoodItem[]>([]);
   const [isSearching, setIsSearching] = useState(false);
   const [searchResults, setSearchResults] = useState<FoodItem[]>([]);
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [isMergeOpen, setIsMergeOpen] = useState(false);
+  const [customising, setCustomising] = useState<FoodItemRow | null>(null);
+  const [viewing, setViewing] = useState<FoodItem | null>(null);
+  const [overrideForm, setOverrideForm] = useState({ name: '', calories: '', protein: '', carbs: '', fat: '' });
   const { toast } = useToast();
   const { user } = useAuth();
 
@@ -92,7 +120,7 @@ export default function FoodDatabase() {
       return;
     }
 
-    setFoodItems(data || []);
+    setFoodItems(applyOverrides(data || [], user?.id ?? ''));
   };
 
   const handleBarcodeScanned = async (barcode: string) => {
@@ -106,11 +134,12 @@ export default function FoodDatabase() {
     }
 
     // First check if item exists in our database
-    const { data: existingItem } = await supabase
-      .from('food_items')
-      .select('*')
-      .eq('barcode', barcode)
-      .single();
+    let existingItem: FoodItemRow | null = null;
+    try {
+      existingItem = await FoodItemService.findByBarcode(barcode);
+    } catch (error) {
+      console.error('Error checking barcode:', error);
+    }
 
     if (existingItem) {
       toast({
@@ -123,11 +152,12 @@ export default function FoodDatabase() {
     // If not found, search Open Food Facts
     setIsSearching(true);
     try {
-      const foodItem = await OpenFoodFactsService.searchByBarcode(barcode);
+      const lookup = await FoodDataService.lookupBarcode(barcode);
       
-      if (foodItem) {
+      if (lookup.status === 'found') {
+        const foodItem = lookup.data;
         // Add to our database
-        const success = await OpenFoodFactsService.addToDatabase(foodItem, user.id);
+        const success = await FoodDataService.addToDatabase(foodItem);
         
         if (success) {
           toast({
@@ -144,8 +174,7 @@ export default function FoodDatabase() {
         }
       } else {
         toast({
-          title: "Item Not Found",
-          description: "This item is not in the Open Food Facts database. Would you like to add it manually?",
+          ...lookupFailureMessage(lookup, "This item is not in the Open Food Facts database. Would you like to add it manually?"),
           variant: "destructive",
         });
       }
@@ -167,10 +196,24 @@ export default function FoodDatabase() {
     
     setIsSearching(true);
     try {
-      const results = await OpenFoodFactsService.searchByName(searchTerm);
+      const lookup = await FoodDataService.search(searchTerm);
+      if (lookup.status !== 'found') {
+        toast({
+          ...lookupFailureMessage(lookup, "No food items found for your search"),
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const results = lookup.data;
       setSearchResults(results);
       
-      if (results.length === 0) {
+      if (lookup.stale) {
+        toast({
+          title: "Showing Saved Results",
+          description: "You're offline, so these results may be out of date",
+        });
+      } else if (results.length === 0) {
         toast({
           title: "No Results",
           description: "No food items found for your search",
@@ -197,7 +240,7 @@ export default function FoodDatabase() {
       return;
     }
 
-    const success = await OpenFoodFactsService.addToDatabase(foodItem, user.id);
+    const success = await FoodDataService.addToDatabase(foodItem);
     
     if (success) {
       toast({
@@ -214,6 +257,46 @@ export default function FoodDatabase() {
     }
   };
 
+  const openCustomise = (item: FoodItemRow) => {
+    setCustomising(item);
+    setOverrideForm({
+      name: item.name,
+      calories: String(item.calories_per_100g ?? ''),
+      protein: String(item.protein_per_100g ?? ''),
+      carbs: String(item.carbs_per_100g ?? ''),
+      fat: String(item.fat_per_100g ?? ''),
+    });
+  };
+
+  // Saves a private copy of a catalogue item that only this user sees
+  const saveOverride = async () => {
+    if (!user || !customising) return;
+
+    const toNumber = (value: string) => value.trim() === '' ? null : Number(value);
+    try {
+      await FoodItemService.saveOverride(user.id, customising, {
+        name: overrideForm.name.trim() || customising.name,
+        calories_per_100g: toNumber(overrideForm.calories),
+        protein_per_100g: toNumber(overrideForm.protein),
+        carbs_per_100g: toNumber(overrideForm.carbs),
+        fat_per_100g: toNumber(overrideForm.fat),
+      });
+      toast({
+        title: "Food Item Customised",
+        description: "Your version will be used whenever you scan or pick this item",
+      });
+      setCustomising(null);
+      loadFoodItems();
+    } catch (error) {
+      console.error('Error saving food override:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save your version of this item",
+        variant: "destructive",
+      });
+    }
+  };
+
   const filteredItems = foodItems.filter(item =>
     item.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
     item.brand?.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -224,7 +307,14 @@ export default function FoodDatabase() {
 
   React.useEffect(() => {
     loadFoodItems();
-  }, []);
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) return;
+    FoodItemService.isAdmin(user.id)
+      .then(setIsAdmin)
+      .catch(error => console.error('Error checking admin role:', error));
+  }, [user]);
 
   return (
     <div className="min-h-screen bg-background">
@@ -254,6 +344,12 @@ export default function FoodDatabase() {
               <Plus className="h-4 w-4 mr-2" />
               Add Manual
             </Button>
+            {isAdmin && (
+              <Button variant="outline" onClick={() => setIsMergeOpen(true)}>
+                <Merge className="h-4 w-4 mr-2" />
+                Merge Duplicates
+              </Button>
+            )}
           </div>
         </div>
 
@@ -327,6 +423,9 @@ export default function FoodDatabase() {
                     </div>
                     <div className="flex flex-col gap-1">
                       <Badge variant="outline">{getPrimaryCategory(item.categories)}</Badge>
+                      {!isSearchResult && user && item.user_id === user.id && isOverride(item) && (
+                        <Badge variant="secondary" className="text-xs">Your version</Badge>
+                      )}
                       {isSearchResult && (
                         <Badge variant="secondary" className="text-xs">
                           <Download className="h-3 w-3 mr-1" />
@@ -356,6 +455,8 @@ export default function FoodDatabase() {
                       <p className="text-xs text-muted-foreground">Fat</p>
                     </div>
                   </div>
+
+                  <TrafficLightLabel label={foodItemTrafficLights(item)} />
                   
                   <div className="flex gap-2">
                     {isSearchResult ? (
@@ -373,9 +474,20 @@ export default function FoodDatabase() {
                         Add to Meal
                       </Button>
                     )}
-                    <Button variant="outline" size="sm" className="flex-1">
-                      View Details
-                    </Button>
+                    {!isSearchResult && user && item.is_public && item.barcode ? (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="flex-1"
+                        onClick={() => openCustomise(item as unknown as FoodItemRow)}
+                      >
+                        Customise
+                      </Button>
+                    ) : (
+                      <Button variant="outline" size="sm" className="flex-1" onClick={() => setViewing(item)}>
+                        View Details
+                      </Button>
+                    )}
                   </div>
                 </CardContent>
               </Card>
@@ -407,6 +519,59 @@ export default function FoodDatabase() {
           </div>
         )}
 
+        <Dialog open={!!customising} onOpenChange={(open) => !open && setCustomising(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Customise {customising?.name}</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Changes are saved as your own version of this item. Everyone else keeps seeing the shared catalogue entry.
+              </p>
+              <div>
+                <Label htmlFor="override-name">Name</Label>
+                <Input
+                  id="override-name"
+                  value={overrideForm.name}
+                  onChange={(e) => setOverrideForm(prev => ({ ...prev, name: e.target.value }))}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                {([
+                  ['calories', 'Calories per 100g'],
+                  ['protein', 'Protein (g) per 100g'],
+                  ['carbs', 'Carbs (g) per 100g'],
+                  ['fat', 'Fat (g) per 100g'],
+                ] as const).map(([field, label]) => (
+                  <div key={field}>
+                    <Label htmlFor={`override-${field}`}>{label}</Label>
+                    <Input
+                      id={`override-${field}`}
+                      type="number"
+                      min="0"
+                      step="0.1"
+                      value={overrideForm[field]}
+                      onChange={(e) => setOverrideForm(prev => ({ ...prev, [field]: e.target.value }))}
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setCustomising(null)}>Cancel</Button>
+                <Button onClick={saveOverride}>Save My Version</Button>
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+
+        <FoodDetailsDialog food={viewing} onClose={() => setViewing(null)} />
+
+        <FoodItemMergeDialog
+          isOpen={isMergeOpen}
+          onClose={() => setIsMergeOpen(false)}
+          onMerged={loadFoodItems}
+        />
+
         <BarcodeScanner
           isOpen={isScannerOpen}
           onClose={() => setIsScannerOpen(false)}
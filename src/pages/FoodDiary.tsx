@@ -0,0 +1,219 @@
+import { useState, useEffect } from "react";
+import { Header } from "@/components/layout/Header";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { ChevronLeft, ChevronRight, Copy } from "lucide-react";
+import { DiaryMealSection } from "@/components/diary/DiaryMealSection";
+import { QuickAddDialog } from "@/components/diary/QuickAddDialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { FoodDiaryService, DiaryEntry, totalNutrition } from "@/services/foodDiary";
+import { MealLoggingService } from "@/services/mealLogging";
+import { NutritionGoalsService, NutritionGoalValues } from "@/services/nutritionGoals";
+import { OPTIONAL_NUTRIENT_INFO, OptionalNutrient } from "@/lib/nutrition";
+import { dayTrafficLights } from "@/lib/trafficLights";
+import { TrafficLightLabel } from "@/components/nutrition/TrafficLightLabel";
+import { addDays, format, parseISO, subDays } from "date-fns";
+
+const MEAL_TYPES = [
+  { value: 'breakfast', label: 'Breakfast' },
+  { value: 'lunch', label: 'Lunch' },
+  { value: 'dinner', label: 'Dinner' },
+  { value: 'snack', label: 'Snacks' },
+];
+
+const TOTAL_ITEMS: { key: keyof NutritionGoalValues; label: string; unit: string }[] = [
+  { key: 'calories', label: 'Calories', unit: 'kcal' },
+  { key: 'protein', label: 'Protein', unit: 'g' },
+  { key: 'carbs', label: 'Carbs', unit: 'g' },
+  { key: 'fat', label: 'Fat', unit: 'g' },
+  { key: 'fiber', label: 'Fibre', unit: 'g' },
+  { key: 'sugar', label: 'Sugar', unit: 'g' },
+  { key: 'sodium', label: 'Sodium', unit: 'mg' },
+];
+
+// Shown as totals only. They stay blank until something logged reports them.
+const UNGOALED_ITEMS: OptionalNutrient[] = ['saturated_fat', 'salt'];
+
+export default function FoodDiary() {
+  const [date, setDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [entries, setEntries] = useState<DiaryEntry[]>([]);
+  const [goals, setGoals] = useState<NutritionGoalValues | null>(null);
+  const [addingTo, setAddingTo] = useState<string | null>(null);
+  const [isCopying, setIsCopying] = useState(false);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const loadDiary = async () => {
+    if (!user) return;
+
+    try {
+      const [dayEntries, dayGoals] = await Promise.all([
+        FoodDiaryService.getEntries(user.id, date),
+        NutritionGoalsService.getGoalsForDate(user.id, parseISO(date)),
+      ]);
+      setEntries(dayEntries);
+      setGoals(dayGoals);
+    } catch (error) {
+      console.error('Error loading diary:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load your food diary",
+        variant: "destructive",
+      });
+    }
+  };
+
+  useEffect(() => {
+    loadDiary();
+  }, [user, date]);
+
+  const shiftDate = (days: number) => {
+    setDate(format(addDays(parseISO(date), days), 'yyyy-MM-dd'));
+  };
+
+  const copyYesterday = async () => {
+    if (!user) return;
+
+    setIsCopying(true);
+    try {
+      const yesterday = format(subDays(parseISO(date), 1), 'yyyy-MM-dd');
+      const { copied, skipped } = await FoodDiaryService.copyDay(user.id, yesterday, date);
+
+      toast({
+        title: copied > 0 ? "Copied" : "Nothing to copy",
+        description: copied > 0
+          ? `Copied ${copied} item${copied === 1 ? '' : 's'} from the previous day`
+            + (skipped > 0 ? `, skipping ${skipped} already logged` : '')
+          : skipped > 0
+            ? "Everything from the previous day is already logged"
+            : "The previous day has no logged meals",
+      });
+      loadDiary();
+    } catch (error) {
+      console.error('Error copying diary day:', error);
+      toast({
+        title: "Error",
+        description: "Failed to copy the previous day",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCopying(false);
+    }
+  };
+
+  const deleteEntry = async (entry: DiaryEntry) => {
+    try {
+      await MealLoggingService.deleteMeal(entry.id);
+      setEntries(prev => prev.filter(e => e.id !== entry.id));
+    } catch (error) {
+      console.error('Error deleting diary entry:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove entry",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const totals = totalNutrition(entries);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <main className="container mx-auto px-4 py-8">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">Food Diary</h1>
+            <p className="text-muted-foreground">
+              {format(parseISO(date), 'EEEE, d MMMM yyyy')}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="icon" onClick={() => shiftDate(-1)}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Input
+              type="date"
+              value={date}
+              onChange={(e) => e.target.value && setDate(e.target.value)}
+              className="w-auto"
+            />
+            <Button variant="outline" size="icon" onClick={() => shiftDate(1)}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" onClick={() => setDate(format(new Date(), 'yyyy-MM-dd'))}>
+              Today
+            </Button>
+            <Button variant="outline" onClick={copyYesterday} disabled={isCopying}>
+              <Copy className="h-4 w-4 mr-2" />
+              {isCopying ? 'Copying...' : 'Copy Yesterday'}
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-3">
+          <div className="space-y-4 lg:col-span-2">
+            {MEAL_TYPES.map(mealType => (
+              <DiaryMealSection
+                key={mealType.value}
+                label={mealType.label}
+                entries={entries.filter(entry => entry.meal_type === mealType.value)}
+                onAdd={() => setAddingTo(mealType.value)}
+                onDelete={deleteEntry}
+              />
+            ))}
+          </div>
+
+          <Card className="h-fit">
+            <CardHeader>
+              <CardTitle>Daily Totals</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {TOTAL_ITEMS.map(item => {
+                const current = totals[item.key];
+                const goal = goals?.[item.key];
+                return (
+                  <div key={item.key}>
+                    <div className="flex justify-between text-sm mb-1">
+                      <span>{item.label}</span>
+                      <span className="text-muted-foreground">
+                        {Math.round(current)}{goal ? ` / ${goal}` : ''} {item.unit}
+                      </span>
+                    </div>
+                    {goal ? <Progress value={Math.min((current / goal) * 100, 100)} /> : null}
+                  </div>
+                );
+              })}
+              {UNGOALED_ITEMS.map(key => (
+                <div key={key} className="flex justify-between text-sm">
+                  <span>{OPTIONAL_NUTRIENT_INFO[key].label}</span>
+                  <span className="text-muted-foreground">
+                    {totals[key] == null ? '—' : `${(totals[key] as number).toFixed(1)} ${OPTIONAL_NUTRIENT_INFO[key].unit}`}
+                  </span>
+                </div>
+              ))}
+              <TrafficLightLabel label={dayTrafficLights(totals)} />
+              {!goals && (
+                <p className="text-xs text-muted-foreground">
+                  Set nutrition goals in Planning to track progress against them.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <QuickAddDialog
+          isOpen={addingTo !== null}
+          onClose={() => setAddingTo(null)}
+          date={date}
+          mealType={addingTo || 'breakfast'}
+          onAdded={loadDiary}
+        />
+      </main>
+    </div>
+  );
+}
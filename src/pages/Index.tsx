@@ -9,18 +9,28 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Calendar, Clock, Star, TrendingUp } from "lucide-react";
 import { useNavigate } from "react-router-dom";
+import { useEffect, useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { DashboardService, DashboardStats } from "@/services/dashboard";
 import heroImage from "@/assets/hero-image.jpg";
 
 const Index = () => {
   const navigate = useNavigate();
-  
-  const stats = {
-    totalMeals: 18,
-    weeklyPlans: 3,
-    activeRecipes: 42,
-    shoppingItems: 7,
+  const { user } = useAuth();
+  const [stats, setStats] = useState<DashboardStats | null>(null);
+
+  const loadStats = () => {
+    if (!user) return;
+
+    DashboardService.getStats(user.id)
+      .then(setStats)
+      .catch(error => console.error('Error loading dashboard stats:', error));
   };
 
+  useEffect(() => {
+    loadStats();
+  }, [user]);
+
   return (
     <div className="min-h-screen bg-background">
       <Header />
@@ -80,7 +90,7 @@ const Index = () => {
         <div className="grid gap-8 lg:grid-cols-3">
           {/* Left Column */}
           <div className="lg:col-span-2 space-y-8">
-            <WeeklyOverview />
+            <WeeklyOverview onChange={loadStats} />
             
             {/* Recent Activity */}
             <Card>
@@ -123,7 +133,7 @@ const Index = () => {
 
           {/* Right Column */}
           <div className="space-y-8">
-            <QuickActions />
+            <QuickActions stats={stats} />
             <AIRecommendations />
             <NutritionSummary />
           </div>
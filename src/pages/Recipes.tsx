@@ -1,12 +1,20 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Header } from "@/components/layout/Header";
 import { SearchAndFilter } from "@/components/search/SearchAndFilter";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Rating } from "@/components/ui/rating";
-import { Clock, Users, Plus, ChefHat } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Clock, Users, Plus, ChefHat, UtensilsCrossed, Refrigerator } from "lucide-react";
 import { RecipeForm } from "@/components/recipes/RecipeForm";
+import { RecipeFinderDialog } from "@/components/recipes/RecipeFinderDialog";
+import { RecipeNutritionSummary } from "@/components/recipes/RecipeNutritionSummary";
+import { RecipeNutritionService } from "@/services/recipeNutrition";
+import { RecipeNutrition } from "@/lib/nutrition";
+import { RecipeStatsService } from "@/services/recipeStats";
+import { RecipeSearchParams, RecipeSearchService } from "@/services/recipeSearch";
+import { effectiveRating, RECIPE_SORT_OPTIONS, RecipeSort, RecipeStats } from "@/lib/recipeStats";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 
@@ -17,7 +25,6 @@ interface Recipe {
   prep_time?: number;
   cook_time?: number;
   servings?: number;
-  rating?: number;
   tags?: string[];
   meal_times?: string[];
   image_url?: string;
@@ -28,68 +35,113 @@ interface Recipe {
 
 export default function Recipes() {
   const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [nutritionByRecipe, setNutritionByRecipe] = useState<Record<string, RecipeNutrition>>({});
+  const [statsByRecipe, setStatsByRecipe] = useState<Record<string, RecipeStats>>({});
+  const [sort, setSort] = useState<RecipeSort>('relevance');
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const searchId = useRef(0);
   const [searchTerm, setSearchTerm] = useState("");
   const [filters, setFilters] = useState({
     mealTypes: [],
     dietaryRestrictions: [],
     prepTime: null,
     rating: null,
+    includeIngredients: [],
+    excludeIngredients: [],
   });
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [editingRecipe, setEditingRecipe] = useState<Recipe | null>(null);
+  const [isFinderOpen, setIsFinderOpen] = useState(false);
   const { toast } = useToast();
 
+  const searchParams = (): RecipeSearchParams => ({
+    query: searchTerm,
+    includeIngredients: filters.includeIngredients,
+    excludeIngredients: filters.excludeIngredients,
+    mealTypes: filters.mealTypes,
+    dietary: filters.dietaryRestrictions,
+    totalTime: filters.prepTime,
+    sort,
+    minRating: filters.rating,
+  });
+
   const loadRecipes = async () => {
-    const { data, error } = await supabase
-      .from('recipes')
-      .select('*')
-      .order('name');
+    // Ignore responses to searches the user has already typed past
+    const id = ++searchId.current;
+    setLoading(true);
 
-    if (error) {
+    try {
+      const page = await RecipeSearchService.search(searchParams());
+      if (id !== searchId.current) return;
+      setRecipes(page.recipes);
+      setTotal(page.total);
+      loadNutrition(page.recipes);
+    } catch (error) {
+      console.error('Error searching recipes:', error);
       toast({
         title: "Error",
         description: "Failed to load recipes",
         variant: "destructive",
       });
-      return;
+    } finally {
+      if (id === searchId.current) setLoading(false);
     }
+  };
 
-    setRecipes(data || []);
+  const loadMore = async () => {
+    const id = searchId.current;
+    setLoadingMore(true);
+
+    try {
+      const page = await RecipeSearchService.search(searchParams(), recipes.length);
+      if (id !== searchId.current) return;
+      setRecipes(prev => [...prev, ...page.recipes]);
+      setTotal(page.total);
+      loadNutrition(page.recipes);
+    } catch (error) {
+      console.error('Error loading more recipes:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load more recipes",
+        variant: "destructive",
+      });
+    } finally {
+      setLoadingMore(false);
+    }
   };
 
-  const filteredRecipes = recipes.filter((recipe) => {
-    // Search term filter
-    const matchesSearch = recipe.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         recipe.description?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         recipe.tags?.some(tag => tag.toLowerCase().includes(searchTerm.toLowerCase())) ||
-                         recipe.meal_times?.some(time => time.toLowerCase().includes(searchTerm.toLowerCase()));
-
-    // Meal type filter
-    const matchesMealType = filters.mealTypes.length === 0 || 
-                           filters.mealTypes.some(type => 
-                             recipe.tags?.includes(type) || 
-                             recipe.meal_times?.includes(type)
-                           );
-
-    // Dietary restrictions filter
-    const matchesDietary = filters.dietaryRestrictions.length === 0 ||
-                          filters.dietaryRestrictions.some(restriction => recipe.tags?.includes(restriction));
-
-    // Prep time filter
-    const totalTime = (recipe.prep_time || 0) + (recipe.cook_time || 0);
-    const matchesPrepTime = !filters.prepTime || 
-                           (totalTime >= filters.prepTime.min && totalTime <= filters.prepTime.max);
-
-    // Rating filter - skip rating filter for now since we don't have ratings in the DB
-    const matchesRating = true;
-
-    return matchesSearch && matchesMealType && matchesDietary && matchesPrepTime && matchesRating;
-  });
+  const loadStats = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    try {
+      setStatsByRecipe(await RecipeStatsService.getForUser(user.id));
+    } catch (error) {
+      console.error('Error loading recipe ratings:', error);
+    }
+  };
+
+  const loadNutrition = async (loadedRecipes: Recipe[]) => {
+    try {
+      const nutrition = await RecipeNutritionService.getForRecipes(loadedRecipes);
+      setNutritionByRecipe(prev => ({ ...prev, ...nutrition }));
+    } catch (error) {
+      console.error('Error calculating recipe nutrition:', error);
+    }
+  };
 
   useEffect(() => {
-    loadRecipes();
+    loadStats();
   }, []);
 
+  // Search as the user types, once they pause
+  useEffect(() => {
+    const timeout = setTimeout(loadRecipes, 300);
+    return () => clearTimeout(timeout);
+  }, [searchTerm, sort, filters.mealTypes, filters.dietaryRestrictions, filters.prepTime, filters.rating, filters.includeIngredients, filters.excludeIngredients]);
+
   return (
     <div className="min-h-screen bg-background">
       <Header />
@@ -102,27 +154,51 @@ export default function Recipes() {
               Discover and manage your favorite recipes
             </p>
           </div>
-          <Button 
-            className="bg-gradient-primary"
-            onClick={() => { setEditingRecipe(null); setIsFormOpen(true); }}
-          >
-            <Plus className="h-4 w-4 mr-2" />
-            Add Recipe
-          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setIsFinderOpen(true)}>
+              <Refrigerator className="h-4 w-4 mr-2" />
+              Cook with what I have
+            </Button>
+            <Button 
+              className="bg-gradient-primary"
+              onClick={() => { setEditingRecipe(null); setIsFormOpen(true); }}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Recipe
+            </Button>
+          </div>
         </div>
 
-        <div className="mb-6">
-          <SearchAndFilter
-            searchTerm={searchTerm}
-            onSearchChange={setSearchTerm}
-            filters={filters}
-            onFiltersChange={setFilters}
-            placeholder="Search recipes by name, ingredients, or tags..."
-          />
+        <div className="mb-6 flex flex-col gap-2 md:flex-row md:items-start">
+          <div className="flex-1">
+            <SearchAndFilter
+              searchTerm={searchTerm}
+              onSearchChange={setSearchTerm}
+              filters={filters}
+              onFiltersChange={setFilters}
+              placeholder="Search recipes by name, ingredients, or tags..."
+            />
+          </div>
+          <Select value={sort} onValueChange={(value) => setSort(value as RecipeSort)}>
+            <SelectTrigger className="md:w-52">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RECIPE_SORT_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  Sort: {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </div>
 
         <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-          {filteredRecipes.map((recipe) => (
+          {recipes.map((recipe) => {
+            const stats = statsByRecipe[recipe.id];
+            const rating = effectiveRating(stats);
+
+            return (
             <Card key={recipe.id} className="hover:shadow-lg transition-shadow cursor-pointer group"
                   onClick={() => { setEditingRecipe(recipe); setIsFormOpen(true); }}>
               <CardHeader className="pb-3">
@@ -130,8 +206,15 @@ export default function Recipes() {
                   <CardTitle className="text-lg group-hover:text-primary transition-colors">
                     {recipe.name}
                   </CardTitle>
-                  {recipe.rating && (
-                    <Rating value={recipe.rating} readonly size="sm" />
+                  {rating !== null && (
+                    <div className="flex flex-col items-end">
+                      <Rating value={rating} readonly size="sm" />
+                      <span className="text-xs text-muted-foreground">
+                        {stats?.personalRating != null
+                          ? 'Your rating'
+                          : `Community (${stats?.communityRatingCount})`}
+                      </span>
+                    </div>
                   )}
                 </div>
                 <p className="text-sm text-muted-foreground line-clamp-2">
@@ -154,6 +237,18 @@ export default function Recipes() {
                     {recipe.servings || 1}
                   </div>
                 </div>
+
+                {stats?.timesCooked ? (
+                  <div className="flex items-center text-xs text-muted-foreground">
+                    <UtensilsCrossed className="w-3 h-3 mr-1" />
+                    Cooked {stats.timesCooked}× · last {new Date(stats.lastCooked as string).toLocaleDateString()}
+                    {stats.personalRating != null && stats.communityRating != null && (
+                      ` · community ${stats.communityRating.toFixed(1)}`
+                    )}
+                  </div>
+                ) : null}
+
+                <RecipeNutritionSummary nutrition={nutritionByRecipe[recipe.id]} />
                 
                 <div className="flex flex-wrap gap-1">
                   {recipe.meal_times?.slice(0, 2).map((mealTime) => (
@@ -174,10 +269,22 @@ export default function Recipes() {
                 </div>
               </CardContent>
             </Card>
-          ))}
+            );
+          })}
         </div>
 
-        {filteredRecipes.length === 0 && (
+        {recipes.length < total && (
+          <div className="flex flex-col items-center gap-2 mt-6">
+            <p className="text-sm text-muted-foreground">
+              Showing {recipes.length} of {total} recipes
+            </p>
+            <Button variant="outline" onClick={loadMore} disabled={loadingMore}>
+              {loadingMore ? 'Loading...' : 'Load more'}
+            </Button>
+          </div>
+        )}
+
+        {!loading && recipes.length === 0 && (
           <div className="text-center py-12">
             <ChefHat className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
             <h3 className="text-lg font-semibold mb-2">No recipes found</h3>
@@ -203,6 +310,11 @@ export default function Recipes() {
           recipe={editingRecipe}
           onSave={loadRecipes}
         />
+
+        <RecipeFinderDialog
+          isOpen={isFinderOpen}
+          onClose={() => setIsFinderOpen(false)}
+        />
       </main>
     </div>
   );
@@ -1,5 +1,7 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { FitbitIntegration } from "@/components/integrations/FitbitIntegration";
+import { CalendarFeedIntegration } from "@/components/integrations/CalendarFeedIntegration";
+import { AllergenProfiles } from "@/components/allergens/AllergenProfiles";
 import { Header } from "@/components/layout/Header";
 import { ThemeToggle } from "@/components/ui/theme-toggle";
 import { Label } from "@/components/ui/label";
@@ -31,9 +33,17 @@ export default function Settings() {
               </CardContent>
             </Card>
 
+            <div className="md:col-span-2">
+              <AllergenProfiles />
+            </div>
+
             <div className="md:col-span-2">
               <FitbitIntegration />
             </div>
+
+            <div className="md:col-span-2">
+              <CalendarFeedIntegration />
+            </div>
           </div>
         </div>
       </main>
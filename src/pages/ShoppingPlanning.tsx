@@ -3,10 +3,19 @@ import { ShoppingListGenerator } from "@/components/shopping/ShoppingListGenerat
 import { MealPlanningCalendar } from "@/components/planning/MealPlanningCalendar";
 import { NutritionGoalsTracker } from "@/components/nutrition/NutritionGoalsTracker";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { ShoppingCart, Calendar, Target, Clock, Copy } from "lucide-react";
+import { ShoppingCart, Calendar, Target, Clock, Copy, Package } from "lucide-react";
 import { WorkScheduleManager } from "@/components/planning/WorkScheduleManager";
+import { PantryManager } from "@/components/pantry/PantryManager";
+import { SharedMealPlans } from "@/components/planning/SharedMealPlans";
+import { useSearchParams } from "react-router-dom";
+
+const TABS = ['calendar', 'shopping', 'pantry', 'nutrition', 'schedules', 'shared'];
 
 const ShoppingPlanning = () => {
+  // The open tab lives in the URL so other pages can link straight to it
+  const [searchParams, setSearchParams] = useSearchParams();
+  const tab = TABS.includes(searchParams.get('tab') || '') ? searchParams.get('tab') as string : 'calendar';
+
   return (
     <div className="min-h-screen bg-background">
       <Header />
@@ -19,8 +28,12 @@ const ShoppingPlanning = () => {
           </p>
         </div>
 
-        <Tabs defaultValue="calendar" className="space-y-8">
-          <TabsList className="grid w-full grid-cols-5">
+        <Tabs
+          value={tab}
+          onValueChange={(value) => setSearchParams({ tab: value }, { replace: true })}
+          className="space-y-8"
+        >
+          <TabsList className="grid w-full grid-cols-6">
             <TabsTrigger value="calendar" className="flex items-center gap-2">
               <Calendar className="h-4 w-4" />
               Meal Calendar
@@ -29,6 +42,10 @@ const ShoppingPlanning = () => {
               <ShoppingCart className="h-4 w-4" />
               Shopping Lists
             </TabsTrigger>
+            <TabsTrigger value="pantry" className="flex items-center gap-2">
+              <Package className="h-4 w-4" />
+              Pantry
+            </TabsTrigger>
             <TabsTrigger value="nutrition" className="flex items-center gap-2">
               <Target className="h-4 w-4" />
               Nutrition Goals
@@ -51,6 +68,10 @@ const ShoppingPlanning = () => {
             <ShoppingListGenerator />
           </TabsContent>
 
+          <TabsContent value="pantry">
+            <PantryManager />
+          </TabsContent>
+
           <TabsContent value="nutrition">
             <NutritionGoalsTracker />
           </TabsContent>
@@ -60,13 +81,7 @@ const ShoppingPlanning = () => {
           </TabsContent>
 
           <TabsContent value="shared">
-            <div className="text-center py-12">
-              <Copy className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-              <h3 className="text-lg font-semibold mb-2">Shared Meal Plans</h3>
-              <p className="text-muted-foreground">
-                Browse and copy meal plans shared by other users
-              </p>
-            </div>
+            <SharedMealPlans />
           </TabsContent>
         </Tabs>
       </main>
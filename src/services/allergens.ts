@@ -0,0 +1,116 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { AllergenSource, AllergenWarning, findAllergenWarnings } from "@/lib/allergens";
+
+export type AllergenProfile = Database['public']['Tables']['allergen_profiles']['Row'];
+
+export interface AllergenProfileInput {
+  id?: string;
+  name: string;
+  allergens: string[];
+  notes?: string | null;
+}
+
+// Something that can be logged or planned: a food, a recipe or a ready meal
+export interface AllergenCheckTarget {
+  food_item_id?: string | null;
+  recipe_id?: string | null;
+  ready_meal_id?: string | null;
+}
+
+export class AllergenService {
+  static async getProfiles(userId: string): Promise<AllergenProfile[]> {
+    const { data, error } = await supabase
+      .from('allergen_profiles')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at');
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  static async saveProfile(userId: string, profile: AllergenProfileInput): Promise<AllergenProfile> {
+    const fields = {
+      name: profile.name.trim(),
+      allergens: profile.allergens,
+      notes: profile.notes || null,
+    };
+
+    const query = profile.id
+      ? supabase.from('allergen_profiles').update(fields).eq('id', profile.id)
+      : supabase.from('allergen_profiles').insert({ ...fields, user_id: userId });
+
+    const { data, error } = await query.select().single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  static async deleteProfile(profileId: string): Promise<void> {
+    const { error } = await supabase
+      .from('allergen_profiles')
+      .delete()
+      .eq('id', profileId);
+
+    if (error) throw error;
+  }
+
+  // Allergens in the sources that any of the user's profiles flag. Users
+  // without profiles never get warnings, so this skips the lookup for them.
+  static async getWarnings(userId: string, sources: AllergenSource[]): Promise<AllergenWarning[]> {
+    if (sources.length === 0) return [];
+
+    const profiles = await this.getProfiles(userId);
+    return findAllergenWarnings(sources, profiles);
+  }
+
+  // What to check for a food, recipe or ready meal. Recipes are checked
+  // ingredient by ingredient; ready meals only have a name to go on.
+  static async getSources(target: AllergenCheckTarget): Promise<AllergenSource[]> {
+    if (target.food_item_id) {
+      const { data, error } = await supabase
+        .from('food_items')
+        .select('name, allergens, allergen_traces')
+        .eq('id', target.food_item_id)
+        .single();
+
+      if (error) throw error;
+      return [{ name: data.name, allergens: data.allergens, traces: data.allergen_traces }];
+    }
+
+    if (target.recipe_id) {
+      const { data, error } = await supabase
+        .from('recipe_ingredients')
+        .select('ingredient_name, food_items(name, allergens, allergen_traces)')
+        .eq('recipe_id', target.recipe_id);
+
+      if (error) throw error;
+      // Ingredients linked to a food item may have no name of their own
+      return (data || []).map(ingredient => ({
+        name: ingredient.ingredient_name ?? ingredient.food_items?.name ?? '',
+        allergens: ingredient.food_items?.allergens,
+        traces: ingredient.food_items?.allergen_traces,
+      }));
+    }
+
+    if (target.ready_meal_id) {
+      const { data, error } = await supabase
+        .from('ready_meals')
+        .select('name')
+        .eq('id', target.ready_meal_id)
+        .single();
+
+      if (error) throw error;
+      return [data];
+    }
+
+    return [];
+  }
+
+  static async checkTarget(userId: string, target: AllergenCheckTarget): Promise<AllergenWarning[]> {
+    return this.getWarnings(userId, await this.getSources(target));
+  }
+}
+
+export default AllergenService;
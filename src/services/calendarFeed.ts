@@ -0,0 +1,56 @@
+import { supabase } from "@/integrations/supabase/client";
+import { SUPABASE_URL } from "@/integrations/supabase/config";
+import { buildCalendar } from "@/lib/ics";
+
+const FEED_FUNCTION_URL = `${SUPABASE_URL}/functions/v1/meal-plan-ics`;
+
+const feedUrl = (token: string) => `${FEED_FUNCTION_URL}?token=${token}`;
+
+export class CalendarFeedService {
+  // ICS file of the user's meal events between two dates (inclusive)
+  static async exportRange(userId: string, startDate: string, endDate: string): Promise<{ ics: string; eventCount: number }> {
+    const { data, error } = await supabase
+      .from('meal_plan_events')
+      .select('id, title, date, meal_type, start_time, end_time, notes, servings, recipe:recipes(name, prep_time, cook_time)')
+      .eq('user_id', userId)
+      .gte('date', startDate)
+      .lte('date', endDate)
+      .order('date')
+      .order('start_time');
+
+    if (error) throw error;
+
+    const events = data || [];
+    return { ics: buildCalendar(events), eventCount: events.length };
+  }
+
+  static async getFeedUrl(userId: string): Promise<string | null> {
+    const { data, error } = await supabase
+      .from('calendar_feeds')
+      .select('token')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? feedUrl(data.token) : null;
+  }
+
+  // Issues a new token; any previously shared URL stops working
+  static async regenerateFeed(): Promise<string> {
+    const { data, error } = await supabase.rpc('regenerate_calendar_feed_token');
+
+    if (error) throw error;
+    return feedUrl(data);
+  }
+
+  static async revokeFeed(userId: string): Promise<void> {
+    const { error } = await supabase
+      .from('calendar_feeds')
+      .delete()
+      .eq('user_id', userId);
+
+    if (error) throw error;
+  }
+}
+
+export default CalendarFeedService;
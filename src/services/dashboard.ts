@@ -0,0 +1,205 @@
+import { supabase } from "@/integrations/supabase/client";
+import { MealLoggingService, SERVING_UNIT } from "@/services/mealLogging";
+import { addDays, format, startOfMonth, startOfWeek, subDays } from "date-fns";
+
+export interface WeekMeal {
+  // The planned event and/or the logged meal this row represents
+  eventId: string | null;
+  mealId: string | null;
+  date: string;
+  name: string;
+  type: string;
+  time: string | null;
+  servings: number | null;
+  prepTime: number | null;
+  recipeId: string | null;
+  rating: number | null;
+  notes: string | null;
+}
+
+export interface WeekDay {
+  date: string;
+  meals: WeekMeal[];
+}
+
+export interface DashboardStats {
+  mealsThisWeek: number;
+  mealsLastWeek: number;
+  activePlans: number;
+  plansThisMonth: number;
+  recipes: number;
+  recipesThisWeek: number;
+  shoppingItems: number;
+  shoppingItemsNeeded: number;
+  mealsToday: number;
+}
+
+const MEAL_TYPE_ORDER = ['breakfast', 'lunch', 'dinner', 'snack'];
+
+function countOf(result: { count: number | null; error: unknown }): number {
+  if (result.error) throw result.error;
+  return result.count || 0;
+}
+
+export class DashboardService {
+  // Planned events for the week, each paired with the meal logged for the same
+  // slot and recipe. Logged meals that were never planned are included too.
+  static async getWeek(userId: string, weekStart: Date): Promise<WeekDay[]> {
+    const start = format(weekStart, 'yyyy-MM-dd');
+    const end = format(addDays(weekStart, 6), 'yyyy-MM-dd');
+
+    const [eventsResult, mealsResult] = await Promise.all([
+      supabase
+        .from('meal_plan_events')
+        .select('id, date, meal_type, title, start_time, recipe_id, servings, recipes(prep_time, cook_time, servings)')
+        .eq('user_id', userId)
+        .gte('date', start)
+        .lte('date', end)
+        .order('start_time'),
+      supabase
+        .from('meals')
+        .select('id, date, meal_type, meal_name, recipe_id, quantity, unit, rating, notes, recipes(name, prep_time, cook_time), food_items(name), ready_meals(name)')
+        .eq('user_id', userId)
+        .gte('date', start)
+        .lte('date', end)
+        .order('created_at'),
+    ]);
+
+    if (eventsResult.error) throw eventsResult.error;
+    if (mealsResult.error) throw mealsResult.error;
+
+    const unmatched = [...(mealsResult.data || [])];
+    const items: WeekMeal[] = (eventsResult.data || []).map(event => {
+      const index = unmatched.findIndex(meal => meal.date === event.date
+        && meal.meal_type === event.meal_type
+        && (event.recipe_id ? meal.recipe_id === event.recipe_id : meal.meal_name === event.title));
+      const meal = index >= 0 ? unmatched.splice(index, 1)[0] : null;
+      const prepTime = (event.recipes?.prep_time || 0) + (event.recipes?.cook_time || 0);
+
+      return {
+        eventId: event.id,
+        mealId: meal?.id || null,
+        date: event.date,
+        name: event.title,
+        type: event.meal_type,
+        time: event.start_time ? event.start_time.slice(0, 5) : null,
+        servings: event.servings ?? event.recipes?.servings ?? null,
+        prepTime: prepTime || null,
+        recipeId: event.recipe_id,
+        rating: meal?.rating ?? null,
+        notes: meal?.notes ?? null,
+      };
+    });
+
+    unmatched.forEach(meal => {
+      const prepTime = (meal.recipes?.prep_time || 0) + (meal.recipes?.cook_time || 0);
+      items.push({
+        eventId: null,
+        mealId: meal.id,
+        date: meal.date,
+        name: meal.meal_name || meal.recipes?.name || meal.food_items?.name || meal.ready_meals?.name || 'Meal',
+        type: meal.meal_type,
+        time: null,
+        servings: meal.unit === SERVING_UNIT ? meal.quantity : null,
+        prepTime: prepTime || null,
+        recipeId: meal.recipe_id,
+        rating: meal.rating,
+        notes: meal.notes,
+      });
+    });
+
+    return Array.from({ length: 7 }, (_, i) => {
+      const date = format(addDays(weekStart, i), 'yyyy-MM-dd');
+      return {
+        date,
+        meals: items
+          .filter(item => item.date === date)
+          .sort((a, b) => MEAL_TYPE_ORDER.indexOf(a.type) - MEAL_TYPE_ORDER.indexOf(b.type)),
+      };
+    });
+  }
+
+  // Saves a rating on the logged meal. Rating a planned meal that hasn't been
+  // logged yet logs it, since it has evidently been eaten.
+  static async rateMeal(userId: string, meal: WeekMeal, rating: number, notes?: string): Promise<WeekMeal> {
+    const changes = { rating, notes: notes || null };
+
+    if (meal.mealId) {
+      await MealLoggingService.updateMeal(meal.mealId, changes);
+      return { ...meal, ...changes };
+    }
+
+    const logged = await MealLoggingService.logMeal({
+      user_id: userId,
+      date: meal.date,
+      meal_type: meal.type,
+      meal_name: meal.name,
+      recipe_id: meal.recipeId,
+      quantity: meal.recipeId ? 1 : null,
+      unit: meal.recipeId ? SERVING_UNIT : null,
+      ...changes,
+    });
+    return { ...meal, mealId: logged.id, ...changes };
+  }
+
+  static async getStats(userId: string, today: Date = new Date()): Promise<DashboardStats> {
+    const todayKey = format(today, 'yyyy-MM-dd');
+    const weekStart = startOfWeek(today, { weekStartsOn: 1 });
+    const day = (date: Date) => format(date, 'yyyy-MM-dd');
+
+    const eventCount = (from: string, to: string) => supabase
+      .from('meal_plan_events')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .gte('date', from)
+      .lte('date', to);
+
+    const [thisWeek, lastWeek, todayEvents, activePlans, monthPlans, recipes, newRecipes, shopping, needed] = await Promise.all([
+      eventCount(day(weekStart), day(addDays(weekStart, 6))),
+      eventCount(day(subDays(weekStart, 7)), day(subDays(weekStart, 1))),
+      eventCount(todayKey, todayKey),
+      supabase
+        .from('meal_plans')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .gte('end_date', todayKey),
+      supabase
+        .from('meal_plans')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .gte('created_at', startOfMonth(today).toISOString()),
+      supabase
+        .from('recipes')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId),
+      supabase
+        .from('recipes')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .gte('created_at', subDays(today, 7).toISOString()),
+      supabase
+        .from('shopping_list_items')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId),
+      supabase
+        .from('shopping_list_items')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .eq('is_purchased', false),
+    ]);
+
+    return {
+      mealsThisWeek: countOf(thisWeek),
+      mealsLastWeek: countOf(lastWeek),
+      mealsToday: countOf(todayEvents),
+      activePlans: countOf(activePlans),
+      plansThisMonth: countOf(monthPlans),
+      recipes: countOf(recipes),
+      recipesThisWeek: countOf(newRecipes),
+      shoppingItems: countOf(shopping),
+      shoppingItemsNeeded: countOf(needed),
+    };
+  }
+}
+
+export default DashboardService;
@@ -0,0 +1,127 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import {
+  FoodDataProvider,
+  FoodLookupResult,
+  FoodProduct,
+  MAX_ATTEMPTS,
+  retryDelay,
+  shouldRetry,
+} from "@/lib/foodData";
+import { readCache, writeCache } from "@/lib/foodDataCache";
+import { OpenFoodFactsProvider } from "@/services/openFoodFacts";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FOUND_TTL_MS = 30 * DAY_MS;
+// Products get added to Open Food Facts all the time, so don't trust a miss for long
+const NOT_FOUND_TTL_MS = DAY_MS;
+const SEARCH_TTL_MS = DAY_MS;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// fetch rejects with a TypeError when the request never got a response, and
+// providers do the same when a request times out
+const isNetworkError = (error: unknown) => error instanceof TypeError;
+
+const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+export class FoodDataService {
+  private static provider: FoodDataProvider = new OpenFoodFactsProvider();
+  private static inFlight = new Map<string, Promise<FoodLookupResult<unknown>>>();
+
+  static setProvider(provider: FoodDataProvider): void {
+    this.provider = provider;
+  }
+
+  static lookupBarcode(barcode: string): Promise<FoodLookupResult<FoodProduct>> {
+    const key = `barcode:${this.provider.name}:${barcode}`;
+    return this.cachedLookup(key, async () => {
+      const product = await this.provider.lookupBarcode(barcode);
+      return product
+        ? { value: product, ttlMs: FOUND_TTL_MS }
+        : { value: null, ttlMs: NOT_FOUND_TTL_MS };
+    });
+  }
+
+  // An empty page of results counts as found, not "not found"
+  static search(query: string, page = 1, pageSize = 20): Promise<FoodLookupResult<FoodProduct[]>> {
+    const key = `search:${this.provider.name}:${query.trim().toLowerCase()}:${page}:${pageSize}`;
+    return this.cachedLookup(key, async () => ({
+      value: await this.provider.search(query.trim(), page, pageSize),
+      ttlMs: SEARCH_TTL_MS,
+    }));
+  }
+
+  // Adds the product to the public catalogue, or reuses the catalogue entry
+  // already there for its barcode. Returns the food item's id.
+  static async addToDatabase(foodItem: FoodProduct): Promise<string | null> {
+    const { data, error } = await supabase.rpc('import_food_item', {
+      p_item: foodItem as unknown as Json,
+    });
+
+    if (error) {
+      console.error('Error adding food item to database:', error);
+      return null;
+    }
+
+    return data;
+  }
+
+  // Serves fresh cache entries without touching the network and shares one
+  // request between concurrent callers asking for the same thing. When the
+  // network is unavailable, an expired entry is better than nothing.
+  private static cachedLookup<T>(
+    key: string,
+    fetchValue: () => Promise<{ value: T | null; ttlMs: number }>,
+  ): Promise<FoodLookupResult<T>> {
+    const pending = this.inFlight.get(key);
+    if (pending) return pending as Promise<FoodLookupResult<T>>;
+
+    const lookup = (async (): Promise<FoodLookupResult<T>> => {
+      const cached = await readCache<T | null>(key);
+      if (cached && !cached.expired) return this.fromCache(cached.value, false);
+
+      const fallback = (): FoodLookupResult<T> =>
+        cached ? this.fromCache(cached.value, true) : { status: 'offline' };
+
+      if (isOffline()) return fallback();
+
+      try {
+        const { value, ttlMs } = await this.withRetries(fetchValue);
+        await writeCache(key, value, ttlMs);
+        return value === null ? { status: 'not_found' } : { status: 'found', data: value, source: 'network' };
+      } catch (error) {
+        if (isNetworkError(error)) return fallback();
+
+        console.error('Error fetching food data:', error);
+        if (cached) return this.fromCache(cached.value, true);
+        return { status: 'error', message: error instanceof Error ? error.message : 'Food data lookup failed' };
+      }
+    })().finally(() => this.inFlight.delete(key));
+
+    this.inFlight.set(key, lookup);
+    return lookup;
+  }
+
+  private static fromCache<T>(value: T | null, stale: boolean): FoodLookupResult<T> {
+    return value === null
+      ? { status: 'not_found' }
+      : { status: 'found', data: value, source: 'cache', stale };
+  }
+
+  private static async withRetries<T>(request: () => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await request();
+      } catch (error) {
+        // A long Retry-After is thrown straight away, so the caller falls
+        // back to the cache or an error instead of waiting
+        if (!shouldRetry(error) || attempt >= MAX_ATTEMPTS) throw error;
+
+        await sleep(retryDelay(attempt, error.retryAfterSeconds));
+      }
+    }
+  }
+}
+
+export default FoodDataService;
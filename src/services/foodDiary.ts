@@ -0,0 +1,201 @@
+import { supabase } from "@/integrations/supabase/client";
+import { EMPTY_NUTRITION, NutritionTotals, addNutrition, optionalNumber } from "@/lib/nutrition";
+import { MealLoggingService } from "@/services/mealLogging";
+import { format, subDays } from "date-fns";
+
+export type DiarySourceType = 'food' | 'recipe' | 'ready_meal' | 'custom';
+
+export interface DiaryEntry {
+  id: string;
+  date: string;
+  meal_type: string;
+  name: string;
+  source: DiarySourceType;
+  food_item_id: string | null;
+  recipe_id: string | null;
+  ready_meal_id: string | null;
+  quantity: number | null;
+  unit: string | null;
+  notes: string | null;
+  rating: number | null;
+  nutrition: NutritionTotals | null;
+}
+
+export interface RecentDiaryItem {
+  key: string;
+  name: string;
+  source: Exclude<DiarySourceType, 'custom'>;
+  food_item_id: string | null;
+  recipe_id: string | null;
+  ready_meal_id: string | null;
+  quantity: number | null;
+  unit: string | null;
+}
+
+const ENTRY_COLUMNS = `
+  id, date, meal_type, meal_name, food_item_id, recipe_id, ready_meal_id, quantity, unit, notes, rating,
+  food_items(name, brand),
+  recipes(name),
+  ready_meals(name, brand),
+  nutrition_logs(calories, protein, carbs, fat, fiber, sugar, sodium, saturated_fat, salt, vitamin_a, vitamin_c, vitamin_d, calcium, iron, potassium)
+`;
+
+const RECENT_DAYS = 30;
+
+export interface CopiedDay {
+  copied: number;
+  // Entries left out because the target day already has them
+  skipped: number;
+}
+
+// Same meal slot, same food (or name, for custom meals) and same amount
+const entryKey = (entry: DiaryEntry) => [
+  entry.meal_type,
+  entry.source,
+  entry.food_item_id ?? entry.recipe_id ?? entry.ready_meal_id ?? entry.name.trim().toLowerCase(),
+  entry.quantity ?? '',
+  entry.unit ?? '',
+].join('|');
+
+export function totalNutrition(entries: DiaryEntry[]): NutritionTotals {
+  return entries.reduce(
+    (totals, entry) => entry.nutrition ? addNutrition(totals, entry.nutrition) : totals,
+    { ...EMPTY_NUTRITION }
+  );
+}
+
+export class FoodDiaryService {
+  static async getEntries(userId: string, date: string): Promise<DiaryEntry[]> {
+    const { data, error } = await supabase
+      .from('meals')
+      .select(ENTRY_COLUMNS)
+      .eq('user_id', userId)
+      .eq('date', date)
+      .order('created_at');
+
+    if (error) throw error;
+
+    return (data || []).map(meal => {
+      const log = meal.nutrition_logs?.[0];
+      const source: DiarySourceType = meal.food_item_id ? 'food'
+        : meal.recipe_id ? 'recipe'
+        : meal.ready_meal_id ? 'ready_meal'
+        : 'custom';
+      const brand = meal.food_items?.brand || meal.ready_meals?.brand;
+      const name = meal.food_items?.name || meal.recipes?.name || meal.ready_meals?.name || meal.meal_name || 'Unnamed meal';
+
+      return {
+        id: meal.id,
+        date: meal.date,
+        meal_type: meal.meal_type,
+        name: brand ? `${name} (${brand})` : name,
+        source,
+        food_item_id: meal.food_item_id,
+        recipe_id: meal.recipe_id,
+        ready_meal_id: meal.ready_meal_id,
+        quantity: meal.quantity,
+        unit: meal.unit,
+        notes: meal.notes,
+        rating: meal.rating,
+        nutrition: log ? {
+          calories: Number(log.calories) || 0,
+          protein: Number(log.protein) || 0,
+          carbs: Number(log.carbs) || 0,
+          fat: Number(log.fat) || 0,
+          fiber: Number(log.fiber) || 0,
+          sugar: Number(log.sugar) || 0,
+          sodium: Number(log.sodium) || 0,
+          saturated_fat: optionalNumber(log.saturated_fat),
+          salt: optionalNumber(log.salt),
+          vitamin_a: optionalNumber(log.vitamin_a),
+          vitamin_c: optionalNumber(log.vitamin_c),
+          vitamin_d: optionalNumber(log.vitamin_d),
+          calcium: optionalNumber(log.calcium),
+          iron: optionalNumber(log.iron),
+          potassium: optionalNumber(log.potassium),
+        } : null,
+      };
+    });
+  }
+
+  // Most recently logged foods, recipes and ready meals, newest first and de-duplicated
+  static async getRecentItems(userId: string, limit = 15): Promise<RecentDiaryItem[]> {
+    const { data, error } = await supabase
+      .from('meals')
+      .select('food_item_id, recipe_id, ready_meal_id, quantity, unit, food_items(name), recipes(name), ready_meals(name)')
+      .eq('user_id', userId)
+      .gte('date', format(subDays(new Date(), RECENT_DAYS), 'yyyy-MM-dd'))
+      .order('created_at', { ascending: false })
+      .limit(100);
+
+    if (error) throw error;
+
+    const items: RecentDiaryItem[] = [];
+    const seen = new Set<string>();
+
+    (data || []).forEach(meal => {
+      const key = meal.food_item_id || meal.recipe_id || meal.ready_meal_id;
+      if (!key || seen.has(key) || items.length >= limit) return;
+      seen.add(key);
+
+      items.push({
+        key,
+        name: meal.food_items?.name || meal.recipes?.name || meal.ready_meals?.name || 'Unnamed',
+        source: meal.food_item_id ? 'food' : meal.recipe_id ? 'recipe' : 'ready_meal',
+        food_item_id: meal.food_item_id,
+        recipe_id: meal.recipe_id,
+        ready_meal_id: meal.ready_meal_id,
+        quantity: meal.quantity,
+        unit: meal.unit,
+      });
+    });
+
+    return items;
+  }
+
+  // Copies the entries from one day to another. Entries the target day
+  // already has are skipped, so copying twice doesn't log meals twice.
+  static async copyDay(userId: string, fromDate: string, toDate: string): Promise<CopiedDay> {
+    const [entries, existing] = await Promise.all([
+      this.getEntries(userId, fromDate),
+      this.getEntries(userId, toDate),
+    ]);
+
+    // Counts, so two identical entries are only both skipped if both exist
+    const alreadyLogged = new Map<string, number>();
+    existing.forEach(entry => {
+      const key = entryKey(entry);
+      alreadyLogged.set(key, (alreadyLogged.get(key) ?? 0) + 1);
+    });
+
+    const toCopy = entries.filter(entry => {
+      const key = entryKey(entry);
+      const remaining = alreadyLogged.get(key) ?? 0;
+      if (remaining === 0) return true;
+      alreadyLogged.set(key, remaining - 1);
+      return false;
+    });
+
+    for (const entry of toCopy) {
+      // Custom meals have no source to recalculate from, so carry their logged values over
+      const nutrition = entry.source === 'custom' ? entry.nutrition : undefined;
+
+      await MealLoggingService.logMeal({
+        user_id: userId,
+        date: toDate,
+        meal_type: entry.meal_type,
+        meal_name: entry.source === 'custom' ? entry.name : null,
+        food_item_id: entry.food_item_id,
+        recipe_id: entry.recipe_id,
+        ready_meal_id: entry.ready_meal_id,
+        quantity: entry.quantity,
+        unit: entry.unit,
+        notes: entry.notes,
+      }, nutrition);
+    }
+
+    return { copied: toCopy.length, skipped: entries.length - toCopy.length };
+  }
+}
+
+export default FoodDiaryService;
@@ -0,0 +1,95 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type FoodItemRow = Database['public']['Tables']['food_items']['Row'];
+type FoodItemUpdate = Database['public']['Tables']['food_items']['Update'];
+
+export interface DuplicateFoodItem {
+  id: string;
+  name: string;
+  brand: string | null;
+  barcode: string | null;
+  calories_per_100g: number | null;
+  completeness: number;
+  created_at: string;
+}
+
+export interface DuplicateFoodGroup {
+  name: string;
+  brand: string | null;
+  // Most complete first, which is the suggested survivor
+  items: DuplicateFoodItem[];
+}
+
+export class FoodItemService {
+  // The user's own override of a barcode wins over the public catalogue entry
+  static async findByBarcode(barcode: string): Promise<FoodItemRow | null> {
+    const { data, error } = await supabase
+      .from('food_items')
+      .select('*')
+      .eq('barcode', barcode)
+      .order('is_public', { ascending: true })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  // Saves the user's private version of a catalogue item, creating it from
+  // the public entry the first time
+  static async saveOverride(userId: string, item: FoodItemRow, changes: FoodItemUpdate): Promise<FoodItemRow> {
+    if (!item.is_public) {
+      const { data, error } = await supabase
+        .from('food_items')
+        .update(changes)
+        .eq('id', item.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    }
+
+    const { id: _id, created_at: _createdAt, updated_at: _updatedAt, ...fields } = item;
+    const { data, error } = await supabase
+      .from('food_items')
+      .insert({ ...fields, ...changes, user_id: userId, is_public: false })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  static async isAdmin(userId: string): Promise<boolean> {
+    const { data, error } = await supabase.rpc('has_role', { p_user_id: userId, p_role: 'admin' });
+
+    if (error) throw error;
+    return !!data;
+  }
+
+  static async getDuplicates(): Promise<DuplicateFoodGroup[]> {
+    const { data, error } = await supabase.rpc('find_duplicate_food_items');
+
+    if (error) throw error;
+    return (data || []).map(group => ({
+      ...group,
+      items: group.items as unknown as DuplicateFoodItem[],
+    }));
+  }
+
+  // Repoints meals, recipe ingredients, shopping list and pantry items from
+  // the duplicates to the survivor and deletes the duplicates. Admins only.
+  static async merge(survivorId: string, duplicateIds: string[]): Promise<number> {
+    const { data, error } = await supabase.rpc('merge_food_items', {
+      p_survivor_id: survivorId,
+      p_duplicate_ids: duplicateIds,
+    });
+
+    if (error) throw error;
+    return data;
+  }
+}
+
+export default FoodItemService;
@@ -0,0 +1,116 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { expandRecurrence, RecurrenceRule } from "@/lib/mealCalendar";
+import { WeekSchedule } from "@/lib/mealPlanner";
+import { addDays, differenceInCalendarDays, format, parseISO } from "date-fns";
+
+type EventRow = Database['public']['Tables']['meal_plan_events']['Row'];
+type EventInsert = Database['public']['Tables']['meal_plan_events']['Insert'];
+
+// A fresh copy of an event on another day: not cooked, not locked and not part of a series
+function copyOf(event: EventRow, date: string, mealType = event.meal_type): EventInsert {
+  return {
+    user_id: event.user_id,
+    meal_plan_id: event.meal_plan_id,
+    title: event.title,
+    date,
+    meal_type: mealType,
+    start_time: event.start_time,
+    end_time: event.end_time,
+    notes: event.notes,
+    recipe_id: event.recipe_id,
+    servings: event.servings,
+  };
+}
+
+export class MealCalendarService {
+  // Creates a single event, or one per occurrence when a recurrence rule is given
+  static async createEvents(event: EventInsert, rule?: RecurrenceRule | null): Promise<number> {
+    const dates = rule ? expandRecurrence(event.date, rule) : [event.date];
+    const recurrenceId = rule && dates.length > 1 ? crypto.randomUUID() : null;
+
+    const { error } = await supabase
+      .from('meal_plan_events')
+      .insert(dates.map(date => ({ ...event, date, recurrence_id: recurrenceId })));
+
+    if (error) throw error;
+    return dates.length;
+  }
+
+  // A moved meal is the user's own choice, so re-planning the week keeps it
+  static async moveEvent(eventId: string, date: string, mealType: string): Promise<void> {
+    const { error } = await supabase
+      .from('meal_plan_events')
+      .update({ date, meal_type: mealType, auto_planned: false })
+      .eq('id', eventId);
+
+    if (error) throw error;
+  }
+
+  static async copyEvent(eventId: string, date: string, mealType: string): Promise<void> {
+    const { data: event, error } = await supabase
+      .from('meal_plan_events')
+      .select('*')
+      .eq('id', eventId)
+      .single();
+
+    if (error) throw error;
+
+    const { error: insertError } = await supabase
+      .from('meal_plan_events')
+      .insert(copyOf(event, date, mealType));
+
+    if (insertError) throw insertError;
+  }
+
+  // Deletes an occurrence and every later one in the same series
+  static async deleteSeries(recurrenceId: string, fromDate: string): Promise<void> {
+    const { error } = await supabase
+      .from('meal_plan_events')
+      .delete()
+      .eq('recurrence_id', recurrenceId)
+      .gte('date', fromDate);
+
+    if (error) throw error;
+  }
+
+  // Copies a week of events onto each of the target weeks. Returns how many
+  // events were created.
+  static async copyWeek(userId: string, fromWeekStart: Date, toWeekStarts: Date[]): Promise<number> {
+    const { data: events, error } = await supabase
+      .from('meal_plan_events')
+      .select('*')
+      .eq('user_id', userId)
+      .gte('date', format(fromWeekStart, 'yyyy-MM-dd'))
+      .lte('date', format(addDays(fromWeekStart, 6), 'yyyy-MM-dd'));
+
+    if (error) throw error;
+    if (!events || events.length === 0 || toWeekStarts.length === 0) return 0;
+
+    const copies = toWeekStarts.flatMap(weekStart => {
+      const offset = differenceInCalendarDays(weekStart, fromWeekStart);
+      return events.map(event => copyOf(event, format(addDays(parseISO(event.date), offset), 'yyyy-MM-dd')));
+    });
+
+    const { error: insertError } = await supabase
+      .from('meal_plan_events')
+      .insert(copies);
+
+    if (insertError) throw insertError;
+    return copies.length;
+  }
+
+  static async getDefaultSchedule(userId: string): Promise<WeekSchedule | null> {
+    const { data, error } = await supabase
+      .from('work_schedules')
+      .select('schedule')
+      .eq('user_id', userId)
+      .eq('is_default', true)
+      .maybeSingle();
+
+    if (error) throw error;
+    return (data?.schedule || null) as unknown as WeekSchedule | null;
+  }
+}
+
+export default MealCalendarService;
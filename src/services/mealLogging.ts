@@ -0,0 +1,161 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, Json } from "@/integrations/supabase/types";
+import { NutritionTotals, nutritionForGrams, optionalNumber, scaleNutrition, toGrams } from "@/lib/nutrition";
+import { getUnit } from "@/lib/units";
+import { RecipeNutritionService } from "@/services/recipeNutrition";
+
+type MealRow = Database['public']['Tables']['meals']['Row'];
+type MealInsert = Database['public']['Tables']['meals']['Insert'];
+type MealUpdate = Database['public']['Tables']['meals']['Update'];
+
+// Recipes and ready meals are logged in servings unless a weight is given
+export const SERVING_UNIT = 'serving';
+
+type MealSource = Pick<MealRow, 'food_item_id' | 'recipe_id' | 'ready_meal_id' | 'quantity' | 'unit'>;
+
+export class MealLoggingService {
+  // Nutrition for a meal row, scaled by its quantity and unit. Returns null for
+  // custom meals or amounts that cannot be converted.
+  static async calculateMealNutrition(meal: Partial<MealSource>): Promise<NutritionTotals | null> {
+    if (meal.food_item_id) {
+      const { data: food, error } = await supabase
+        .from('food_items')
+        .select('*')
+        .eq('id', meal.food_item_id)
+        .single();
+
+      if (error) throw error;
+
+      const grams = meal.quantity == null
+        ? toGrams(1, 'each', food)
+        : toGrams(Number(meal.quantity), meal.unit || 'g', food);
+      return grams === null ? null : nutritionForGrams(food, grams);
+    }
+
+    if (meal.recipe_id) {
+      const nutrition = await RecipeNutritionService.getForRecipe(meal.recipe_id);
+      if (!nutrition) return null;
+
+      const quantity = meal.quantity == null ? 1 : Number(meal.quantity);
+      const unit = getUnit(meal.unit);
+      if (unit && unit.dimension !== 'count') {
+        if (nutrition.totalWeightGrams <= 0) return null;
+        return scaleNutrition(nutrition.total, (quantity * unit.toBase) / nutrition.totalWeightGrams);
+      }
+      return scaleNutrition(nutrition.perServing, quantity);
+    }
+
+    if (meal.ready_meal_id) {
+      const { data: readyMeal, error } = await supabase
+        .from('ready_meals')
+        .select('*')
+        .eq('id', meal.ready_meal_id)
+        .single();
+
+      if (error) throw error;
+
+      const perServing: NutritionTotals = {
+        calories: Number(readyMeal.calories_per_serving) || 0,
+        protein: Number(readyMeal.protein_per_serving) || 0,
+        carbs: Number(readyMeal.carbs_per_serving) || 0,
+        fat: Number(readyMeal.fat_per_serving) || 0,
+        fiber: 0,
+        sugar: Number(readyMeal.sugar_per_serving) || 0,
+        sodium: 0,
+        saturated_fat: optionalNumber(readyMeal.saturated_fat_per_serving),
+        salt: optionalNumber(readyMeal.salt_per_serving),
+        vitamin_a: null,
+        vitamin_c: null,
+        vitamin_d: null,
+        calcium: null,
+        iron: null,
+        potassium: null,
+      };
+
+      const quantity = meal.quantity == null ? 1 : Number(meal.quantity);
+      const unit = getUnit(meal.unit);
+      if (unit && unit.dimension !== 'count') {
+        const servingUnit = getUnit(readyMeal.serving_unit);
+        if (!readyMeal.serving_size || !servingUnit || servingUnit.dimension === 'count') return null;
+        return scaleNutrition(perServing, (quantity * unit.toBase) / (readyMeal.serving_size * servingUnit.toBase));
+      }
+      return scaleNutrition(perServing, quantity);
+    }
+
+    return null;
+  }
+
+  // Creates a meal and its nutrition log in one transaction. Pass nutrition to
+  // log known values (e.g. from photo analysis) instead of calculating them
+  // from the source.
+  static async logMeal(meal: MealInsert, nutrition?: NutritionTotals | null): Promise<MealRow> {
+    const logged = nutrition !== undefined ? nutrition : await this.calculateMealNutrition(meal);
+
+    const { data, error } = await supabase.rpc('save_meal', {
+      p_meal_id: null,
+      p_meal: meal as unknown as Json,
+      p_nutrition: logged as unknown as Json,
+    });
+
+    if (error) throw error;
+    return data;
+  }
+
+  static async updateMeal(mealId: string, changes: MealUpdate, nutrition?: NutritionTotals | null): Promise<MealRow> {
+    // Ratings and notes don't affect nutrition, so leave the log alone
+    const affectsNutrition = ['date', 'food_item_id', 'recipe_id', 'ready_meal_id', 'quantity', 'unit']
+      .some(key => key in changes);
+    const replaceLog = affectsNutrition || nutrition !== undefined;
+
+    let logged = nutrition ?? null;
+    if (replaceLog && nutrition === undefined) {
+      const { data: current, error } = await supabase
+        .from('meals')
+        .select('food_item_id, recipe_id, ready_meal_id, quantity, unit')
+        .eq('id', mealId)
+        .single();
+
+      if (error) throw error;
+      logged = await this.calculateMealNutrition({ ...current, ...changes });
+    }
+
+    const { data, error } = await supabase.rpc('save_meal', {
+      p_meal_id: mealId,
+      p_meal: changes as unknown as Json,
+      p_nutrition: logged as unknown as Json,
+      p_replace_log: replaceLog,
+    });
+
+    if (error) throw error;
+    return data;
+  }
+
+  // The nutrition log is removed with the meal by the foreign key cascade
+  static async deleteMeal(mealId: string): Promise<void> {
+    const { error } = await supabase
+      .from('meals')
+      .delete()
+      .eq('id', mealId);
+
+    if (error) throw error;
+  }
+
+  // Logs an accepted photo analysis as a custom meal and attaches the photo to it
+  static async logPhotoMeal(
+    photoId: string,
+    meal: MealInsert,
+    nutrition: NutritionTotals
+  ): Promise<MealRow> {
+    const created = await this.logMeal(meal, nutrition);
+
+    const { error } = await supabase
+      .from('meal_photos')
+      .update({ meal_id: created.id })
+      .eq('id', photoId);
+
+    if (error) throw error;
+    return created;
+  }
+}
+
+export default MealLoggingService;
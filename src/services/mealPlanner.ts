@@ -0,0 +1,94 @@
+import { supabase } from "@/integrations/supabase/client";
+import { generateMealPlan, PlannedMeal, PlannerMealType } from "@/lib/mealPlanner";
+import { RecipeNutritionService } from "@/services/recipeNutrition";
+import { NutritionGoalsService } from "@/services/nutritionGoals";
+import { MealCalendarService } from "@/services/mealCalendar";
+import { addDays, format, parseISO, subDays } from "date-fns";
+
+export interface AutoPlanSettings {
+  seed: number | string;
+  avoidRepeatDays: number;
+  mealTypes: PlannerMealType[];
+}
+
+export class MealPlannerService {
+  // Plans a week (Monday to Sunday) from the user's recipes, default work
+  // schedule, nutrition goals and existing events. Nothing is saved.
+  static async buildPlan(userId: string, weekStart: Date, settings: AutoPlanSettings): Promise<PlannedMeal[]> {
+    const weekEnd = addDays(weekStart, 6);
+
+    const [recipesResult, schedule, eventsResult, goalHistory] = await Promise.all([
+      supabase
+        .from('recipes')
+        .select('id, name, prep_time, cook_time, meal_times, tags, servings')
+        .eq('user_id', userId),
+      MealCalendarService.getDefaultSchedule(userId),
+      supabase
+        .from('meal_plan_events')
+        .select('date, meal_type, recipe_id, is_locked, auto_planned, cooked_at')
+        .eq('user_id', userId)
+        .gte('date', format(subDays(weekStart, settings.avoidRepeatDays), 'yyyy-MM-dd'))
+        .lte('date', format(weekEnd, 'yyyy-MM-dd')),
+      NutritionGoalsService.getHistory(userId),
+    ]);
+
+    if (recipesResult.error) throw recipesResult.error;
+    if (eventsResult.error) throw eventsResult.error;
+
+    const recipes = recipesResult.data || [];
+    const nutrition = await RecipeNutritionService.getForRecipes(recipes);
+    const weekStartKey = format(weekStart, 'yyyy-MM-dd');
+    const events = eventsResult.data || [];
+
+    // Only uncooked, unlocked auto-planned events of the planned meal types
+    // are replaced. Everything else stays, so it counts towards repeats and
+    // keeps its slot.
+    const replaced = (event: typeof events[number]) => event.date >= weekStartKey
+      && event.auto_planned
+      && !event.is_locked
+      && !event.cooked_at
+      && settings.mealTypes.includes(event.meal_type as PlannerMealType);
+    const kept = events.filter(event => !replaced(event));
+
+    return generateMealPlan({
+      weekStart,
+      seed: settings.seed,
+      avoidRepeatDays: settings.avoidRepeatDays,
+      mealTypes: settings.mealTypes,
+      schedule,
+      recipes: recipes.map(recipe => ({
+        ...recipe,
+        calories: nutrition[recipe.id]?.perServing.calories ?? null,
+        protein: nutrition[recipe.id]?.perServing.protein ?? null,
+      })),
+      targetsForDate: (date) => NutritionGoalsService.resolveForDate(goalHistory, parseISO(date)),
+      locked: kept
+        .filter(event => event.date >= weekStartKey)
+        .map(event => ({ date: event.date, meal_type: event.meal_type as PlannerMealType })),
+      history: kept
+        .filter(event => event.recipe_id)
+        .map(event => ({ recipe_id: event.recipe_id as string, date: event.date })),
+    });
+  }
+
+  // Replaces the week's auto-planned events for the planned meal types with
+  // the plan, in one transaction. Locked, cooked and hand-added events stay.
+  static async applyPlan(weekStart: Date, mealTypes: PlannerMealType[], plan: PlannedMeal[]): Promise<void> {
+    const { error } = await supabase.rpc('apply_meal_plan', {
+      p_week_start: format(weekStart, 'yyyy-MM-dd'),
+      p_meal_types: mealTypes,
+      p_events: plan.map(meal => ({
+        date: meal.date,
+        meal_type: meal.meal_type,
+        title: meal.title,
+        recipe_id: meal.recipe_id,
+        start_time: meal.start_time,
+        notes: meal.reason ? `Auto-planned: ${meal.reason}` : null,
+      })),
+    });
+
+    if (error) throw error;
+  }
+}
+
+export default MealPlannerService;
@@ -0,0 +1,169 @@
+import { supabase } from "@/integrations/supabase/client";
+import { format, subDays } from "date-fns";
+import { NutritionGoalsService } from "@/services/nutritionGoals";
+
+export interface MealRecommendation {
+  name: string;
+  type: "breakfast" | "lunch" | "dinner";
+  description: string;
+  prepTime: number;
+  cookTime: number;
+  servings: number;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  ingredients: string[];
+  tags: string[];
+  reason: string;
+}
+
+export interface RecommendationContext {
+  preferences: {
+    dietaryTags: string[];
+    favouriteMeals: string[];
+  };
+  mealHistory: { date: string; mealType: string; name: string; rating?: number | null }[];
+  nutritionalGoals: Record<string, number>;
+}
+
+export interface AddToPlanOptions {
+  date: string;
+  mealType: string;
+  saveAsRecipe: boolean;
+}
+
+// Tags we treat as dietary preferences rather than cuisine or style
+const DIETARY_TAGS = ["vegetarian", "vegan", "gluten-free", "dairy-free", "low-carb", "high-protein"];
+const HISTORY_DAYS = 28;
+
+export class MealRecommendationService {
+  static async gatherContext(userId: string): Promise<RecommendationContext> {
+    const since = format(subDays(new Date(), HISTORY_DAYS), 'yyyy-MM-dd');
+
+    const [mealsResult, eventsResult, recipesResult, goals] = await Promise.all([
+      supabase
+        .from('meals')
+        .select('date, meal_type, meal_name, rating, recipes(name)')
+        .eq('user_id', userId)
+        .gte('date', since)
+        .order('date'),
+      supabase
+        .from('meal_plan_events')
+        .select('date, meal_type, title')
+        .eq('user_id', userId)
+        .gte('date', since)
+        .order('date'),
+      supabase
+        .from('recipes')
+        .select('tags')
+        .eq('user_id', userId),
+      NutritionGoalsService.getGoalsForDate(userId, new Date()),
+    ]);
+
+    if (mealsResult.error) throw mealsResult.error;
+    if (eventsResult.error) throw eventsResult.error;
+    if (recipesResult.error) throw recipesResult.error;
+
+    const mealHistory: RecommendationContext['mealHistory'] = [
+      ...(mealsResult.data || []).map(meal => ({
+        date: meal.date,
+        mealType: meal.meal_type,
+        name: meal.recipes?.name || meal.meal_name || 'Unnamed meal',
+        rating: meal.rating,
+      })),
+      ...(eventsResult.data || []).map(event => ({
+        date: event.date,
+        mealType: event.meal_type,
+        name: event.title,
+      })),
+    ].sort((a, b) => a.date.localeCompare(b.date));
+
+    const tagCounts: Record<string, number> = {};
+    (recipesResult.data || []).forEach(recipe => {
+      recipe.tags?.forEach(tag => {
+        const normalised = tag.toLowerCase();
+        if (DIETARY_TAGS.includes(normalised)) {
+          tagCounts[normalised] = (tagCounts[normalised] || 0) + 1;
+        }
+      });
+    });
+
+    const favouriteMeals = Array.from(new Set(
+      mealHistory.filter(meal => (meal.rating || 0) >= 4).map(meal => meal.name)
+    ));
+
+    return {
+      preferences: {
+        dietaryTags: Object.keys(tagCounts).sort((a, b) => tagCounts[b] - tagCounts[a]),
+        favouriteMeals,
+      },
+      mealHistory,
+      nutritionalGoals: { ...goals },
+    };
+  }
+
+  static async getRecommendations(userId: string): Promise<MealRecommendation[]> {
+    const context = await this.gatherContext(userId);
+
+    const { data, error } = await supabase.functions.invoke('meal-recommendations', {
+      body: { userId, ...context },
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      throw new Error(data?.error || 'Failed to generate recommendations');
+    }
+
+    const seen = new Set<string>();
+    return (data.recommendations as MealRecommendation[]).filter(meal => {
+      const key = meal.name.trim().toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  // Creates a meal_plan_events row for the recommendation, optionally saving
+  // it as a recipe first so it can be reused and planned again later.
+  static async addToMealPlan(userId: string, meal: MealRecommendation, options: AddToPlanOptions): Promise<void> {
+    let recipeId: string | null = null;
+
+    if (options.saveAsRecipe) {
+      const { data: recipe, error: recipeError } = await supabase
+        .from('recipes')
+        .insert({
+          user_id: userId,
+          name: meal.name,
+          description: meal.description,
+          // Suggested ingredients have no quantities, so list them with the method
+          instructions: `Ingredients:\n${meal.ingredients.map(i => `- ${i}`).join('\n')}`,
+          prep_time: meal.prepTime,
+          cook_time: meal.cookTime,
+          servings: meal.servings,
+          tags: meal.tags,
+          meal_times: [meal.type],
+        })
+        .select('id')
+        .single();
+
+      if (recipeError) throw recipeError;
+      recipeId = recipe.id;
+    }
+
+    const { error } = await supabase
+      .from('meal_plan_events')
+      .insert({
+        user_id: userId,
+        date: options.date,
+        meal_type: options.mealType,
+        title: meal.name,
+        recipe_id: recipeId,
+        notes: meal.reason,
+      });
+
+    if (error) throw error;
+  }
+}
+
+export default MealRecommendationService;
@@ -0,0 +1,145 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { format } from "date-fns";
+
+export interface NutritionGoalValues {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber: number;
+  sodium: number;
+  sugar: number;
+}
+
+export type Weekday = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday';
+
+export type WeekdayOverrides = Partial<Record<Weekday, Partial<NutritionGoalValues>>>;
+
+export interface NutritionGoalRecord extends NutritionGoalValues {
+  id: string;
+  effective_from: string;
+  weekday_overrides: WeekdayOverrides;
+}
+
+export const WEEKDAYS: { key: Weekday; label: string }[] = [
+  { key: 'monday', label: 'Monday' },
+  { key: 'tuesday', label: 'Tuesday' },
+  { key: 'wednesday', label: 'Wednesday' },
+  { key: 'thursday', label: 'Thursday' },
+  { key: 'friday', label: 'Friday' },
+  { key: 'saturday', label: 'Saturday' },
+  { key: 'sunday', label: 'Sunday' },
+];
+
+export const GOAL_KEYS: (keyof NutritionGoalValues)[] = ['calories', 'protein', 'carbs', 'fat', 'fiber', 'sodium', 'sugar'];
+
+const LEGACY_STORAGE_KEY = 'nutrition_goals';
+// Goals imported from localStorage have no known start date, so they cover all past days
+const LEGACY_EFFECTIVE_FROM = '1970-01-01';
+
+function toRecord(row: {
+  id: string;
+  effective_from: string;
+  weekday_overrides: Json;
+} & NutritionGoalValues): NutritionGoalRecord {
+  return {
+    id: row.id,
+    effective_from: row.effective_from,
+    calories: Number(row.calories),
+    protein: Number(row.protein),
+    carbs: Number(row.carbs),
+    fat: Number(row.fat),
+    fiber: Number(row.fiber),
+    sodium: Number(row.sodium),
+    sugar: Number(row.sugar),
+    weekday_overrides: (row.weekday_overrides || {}) as WeekdayOverrides,
+  };
+}
+
+export class NutritionGoalsService {
+  // All goal versions for the user, oldest first
+  static async getHistory(userId: string): Promise<NutritionGoalRecord[]> {
+    const { data, error } = await supabase
+      .from('nutrition_goals')
+      .select('*')
+      .eq('user_id', userId)
+      .order('effective_from');
+
+    if (error) throw error;
+    return (data || []).map(toRecord);
+  }
+
+  // Resolves the goals that applied on a date, including any weekday override
+  static resolveForDate(history: NutritionGoalRecord[], date: Date): NutritionGoalValues | null {
+    const dateStr = format(date, 'yyyy-MM-dd');
+    const active = [...history].reverse().find(goal => goal.effective_from <= dateStr);
+    if (!active) return null;
+
+    const weekday = format(date, 'EEEE').toLowerCase() as Weekday;
+    const override = active.weekday_overrides[weekday] || {};
+
+    return GOAL_KEYS.reduce((values, key) => ({
+      ...values,
+      [key]: override[key] ?? active[key],
+    }), {} as NutritionGoalValues);
+  }
+
+  static async getGoalsForDate(userId: string, date: Date): Promise<NutritionGoalValues | null> {
+    await this.importLocalGoals(userId);
+    return this.resolveForDate(await this.getHistory(userId), date);
+  }
+
+  // Saving twice on the same effective date replaces that version rather than adding another
+  static async saveGoals(
+    userId: string,
+    values: NutritionGoalValues,
+    weekdayOverrides: WeekdayOverrides,
+    effectiveFrom: string
+  ): Promise<void> {
+    const { error } = await supabase
+      .from('nutrition_goals')
+      .upsert({
+        user_id: userId,
+        effective_from: effectiveFrom,
+        ...values,
+        weekday_overrides: weekdayOverrides as Json,
+      }, { onConflict: 'user_id,effective_from' });
+
+    if (error) throw error;
+  }
+
+  // One-off import of goals saved in this browser before they were stored on the server
+  static async importLocalGoals(userId: string): Promise<void> {
+    const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!stored) return;
+
+    let legacy: Partial<NutritionGoalValues>;
+    try {
+      legacy = JSON.parse(stored);
+    } catch {
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+      return;
+    }
+
+    const { count, error } = await supabase
+      .from('nutrition_goals')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId);
+
+    if (error) throw error;
+
+    // Goals already on the server win over whatever this device had cached
+    if (!count) {
+      const values = GOAL_KEYS.reduce((acc, key) => ({
+        ...acc,
+        [key]: Number(legacy[key]) || 0,
+      }), {} as NutritionGoalValues);
+      await this.saveGoals(userId, values, {}, LEGACY_EFFECTIVE_FROM);
+    }
+
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+  }
+}
+
+export default NutritionGoalsService;
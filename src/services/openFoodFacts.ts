@@ -1,3 +1,7 @@
+import { FoodDataHttpError, FoodDataProvider, FoodProduct, fetchWithTimeout, parseRetryAfter } from "@/lib/foodData";
+import { isNovaGroup, isNutriScoreGrade } from "@/lib/nutrition";
+import { allergensFromOpenFoodFactsTags, allergensInText } from "@/lib/allergens";
+
 interface OpenFoodFactsProduct {
   code: string;
   product: {
@@ -11,7 +15,21 @@ interface OpenFoodFactsProduct {
       'fiber_100g'?: number;
       'sugars_100g'?: number;
       'sodium_100g'?: number;
+      'saturated-fat_100g'?: number;
+      'salt_100g'?: number;
+      'vitamin-a_100g'?: number;
+      'vitamin-c_100g'?: number;
+      'vitamin-d_100g'?: number;
+      'calcium_100g'?: number;
+      'iron_100g'?: number;
+      'potassium_100g'?: number;
     };
+    nutriscore_grade?: string;
+    nova_group?: number | string;
+    allergens_tags?: string[];
+    traces_tags?: string[];
+    ingredients_text?: string;
+    ingredients_text_en?: string;
     serving_size?: string;
     image_url?: string;
     categories?: string;
@@ -20,73 +38,56 @@ interface OpenFoodFactsProduct {
   status_verbose: string;
 }
 
-interface FoodItem {
-  barcode: string;
-  name: string;
-  brand?: string;
-  calories_per_100g?: number;
-  protein_per_100g?: number;
-  carbs_per_100g?: number;
-  fat_per_100g?: number;
-  fiber_per_100g?: number;
-  sugar_per_100g?: number;
-  sodium_per_100g?: number;
-  serving_size?: number;
-  serving_unit?: string;
-  image_url?: string;
-  categories?: string[];
-}
+const scaled = (grams: number | undefined, factor: number) => grams == null ? undefined : grams * factor;
 
-export class OpenFoodFactsService {
+// Open Food Facts as a food data provider. Lookups and searches go straight to
+// the public API; caching, retries and offline handling live in FoodDataService.
+export class OpenFoodFactsProvider implements FoodDataProvider {
+  readonly name = 'openfoodfacts';
   private static readonly BASE_URL = 'https://world.openfoodfacts.org/api/v2';
-  
-  static async searchByBarcode(barcode: string): Promise<FoodItem | null> {
-    try {
-      const response = await fetch(`${this.BASE_URL}/product/${barcode}.json`);
-      
+
+  async lookupBarcode(barcode: string): Promise<FoodProduct | null> {
+    return fetchWithTimeout(`${OpenFoodFactsProvider.BASE_URL}/product/${encodeURIComponent(barcode)}.json`, async response => {
+      // Unknown products come back as a 404 with status 0 in the body
+      if (response.status === 404) {
+        return null;
+      }
+
       if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+        throw new FoodDataHttpError(response.status, parseRetryAfter(response.headers.get('Retry-After')));
       }
-      
+
       const data: OpenFoodFactsProduct = await response.json();
-      
+
       if (data.status === 0) {
         return null; // Product not found
       }
-      
-      return this.transformProduct(data);
-    } catch (error) {
-      console.error('Error fetching product from Open Food Facts:', error);
-      return null;
-    }
+
+      return OpenFoodFactsProvider.transformProduct(data);
+    });
   }
-  
-  static async searchByName(query: string, page = 1, pageSize = 20): Promise<FoodItem[]> {
-    try {
-      const response = await fetch(
-        `${this.BASE_URL}/search?search_terms=${encodeURIComponent(query)}&page=${page}&page_size=${pageSize}&json=true`
-      );
-      
+
+  async search(query: string, page: number, pageSize: number): Promise<FoodProduct[]> {
+    const url = `${OpenFoodFactsProvider.BASE_URL}/search?search_terms=${encodeURIComponent(query)}&page=${page}&page_size=${pageSize}&json=true`;
+
+    return fetchWithTimeout(url, async response => {
       if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+        throw new FoodDataHttpError(response.status, parseRetryAfter(response.headers.get('Retry-After')));
       }
-      
+
       const data = await response.json();
-      
+
       if (!data.products) {
         return [];
       }
-      
+
       return data.products
-        .map((product: any) => this.transformProduct({ product, status: 1, status_verbose: 'found', code: product.code }))
-        .filter((item: FoodItem | null) => item !== null) as FoodItem[];
-    } catch (error) {
-      console.error('Error searching products from Open Food Facts:', error);
-      return [];
-    }
+        .map((product: any) => OpenFoodFactsProvider.transformProduct({ product, status: 1, status_verbose: 'found', code: product.code }))
+        .filter((item: FoodProduct | null) => item !== null) as FoodProduct[];
+    });
   }
-  
-  private static transformProduct(data: OpenFoodFactsProduct): FoodItem | null {
+
+  private static transformProduct(data: OpenFoodFactsProduct): FoodProduct | null {
     const { product } = data;
     
     if (!product.product_name) {
@@ -110,6 +111,16 @@ export class OpenFoodFactsService {
       ? product.categories.split(',').map(cat => cat.trim()).slice(0, 3)
       : [];
     
+    const nutriments = product.nutriments || {};
+    const nutriscore = product.nutriscore_grade?.toLowerCase();
+    const nova = Number(product.nova_group);
+    // Declared allergens, plus any the English ingredients list gives away
+    const allergens = [...new Set([
+      ...allergensFromOpenFoodFactsTags(product.allergens_tags),
+      ...allergensInText(product.ingredients_text_en || ''),
+    ])];
+    const traces = allergensFromOpenFoodFactsTags(product.traces_tags);
+
     return {
       barcode: data.code,
       name: product.product_name,
@@ -121,45 +132,25 @@ export class OpenFoodFactsService {
       fiber_per_100g: product.nutriments?.['fiber_100g'],
       sugar_per_100g: product.nutriments?.['sugars_100g'],
       sodium_per_100g: product.nutriments?.['sodium_100g'] ? product.nutriments['sodium_100g'] * 1000 : undefined, // Convert g to mg
+      saturated_fat_per_100g: nutriments['saturated-fat_100g'],
+      salt_per_100g: nutriments['salt_100g'],
+      // Open Food Facts reports everything in grams
+      vitamin_a_per_100g: scaled(nutriments['vitamin-a_100g'], 1e6), // µg
+      vitamin_c_per_100g: scaled(nutriments['vitamin-c_100g'], 1000), // mg
+      vitamin_d_per_100g: scaled(nutriments['vitamin-d_100g'], 1e6), // µg
+      calcium_per_100g: scaled(nutriments['calcium_100g'], 1000), // mg
+      iron_per_100g: scaled(nutriments['iron_100g'], 1000), // mg
+      potassium_per_100g: scaled(nutriments['potassium_100g'], 1000), // mg
+      nutriscore_grade: nutriscore && isNutriScoreGrade(nutriscore) ? nutriscore : undefined,
+      nova_group: isNovaGroup(nova) ? nova : undefined,
+      allergens: allergens.length > 0 ? allergens : undefined,
+      allergen_traces: traces.length > 0 ? traces : undefined,
       serving_size: servingSize,
       serving_unit: servingUnit,
       image_url: product.image_url,
       categories,
     };
   }
-  
-  static async addToDatabase(foodItem: FoodItem, userId: string): Promise<boolean> {
-    try {
-      const { error } = await supabase
-        .from('food_items')
-        .insert({
-          user_id: userId,
-          name: foodItem.name,
-          brand: foodItem.brand,
-          barcode: foodItem.barcode,
-          calories_per_100g: foodItem.calories_per_100g,
-          protein_per_100g: foodItem.protein_per_100g,
-          carbs_per_100g: foodItem.carbs_per_100g,
-          fat_per_100g: foodItem.fat_per_100g,
-          fiber_per_100g: foodItem.fiber_per_100g,
-          sugar_per_100g: foodItem.sugar_per_100g,
-          sodium_per_100g: foodItem.sodium_per_100g,
-          serving_size: foodItem.serving_size,
-          serving_unit: foodItem.serving_unit,
-          is_public: true, // Make imported items public by default
-        });
-      
-      if (error) {
-        console.error('Error adding food item to database:', error);
-        return false;
-      }
-      
-      return true;
-    } catch (error) {
-      console.error('Error adding food item to database:', error);
-      return false;
-    }
-  }
 }
 
-export default OpenFoodFactsService;
\ No newline at end of file
+export default OpenFoodFactsProvider;
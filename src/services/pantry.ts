@@ -0,0 +1,103 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, Json } from "@/integrations/supabase/types";
+import { findPantryMatch, PantryChange, PantryStock, planDepletion } from "@/lib/pantry";
+import { mergeIngredients, ShoppingIngredient } from "@/lib/shoppingList";
+import { convertQuantity } from "@/lib/units";
+import { ShoppingListService } from "@/services/shoppingList";
+
+export type PantryItem = Database['public']['Tables']['pantry_items']['Row'];
+type PantryItemInsert = Database['public']['Tables']['pantry_items']['Insert'];
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export class PantryService {
+  static async getItems(userId: string): Promise<PantryItem[]> {
+    const { data, error } = await supabase
+      .from('pantry_items')
+      .select('*')
+      .eq('user_id', userId)
+      .order('name');
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  static async saveItem(item: PantryItemInsert, id?: string): Promise<void> {
+    const { error } = id
+      ? await supabase.from('pantry_items').update(item).eq('id', id)
+      : await supabase.from('pantry_items').insert(item);
+
+    if (error) throw error;
+  }
+
+  static async deleteItem(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('pantry_items')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  private static async adjust(changes: PantryChange[]): Promise<void> {
+    if (changes.length === 0) return;
+
+    const { error } = await supabase.rpc('adjust_pantry_items', { p_changes: changes as unknown as Json });
+    if (error) throw error;
+  }
+
+  // Adds a purchase to the matching pantry item, creating one if needed
+  static async restock(userId: string, item: PantryStock): Promise<void> {
+    const pantry = await this.getItems(userId);
+    const match = findPantryMatch(pantry, item);
+
+    if (!match) {
+      await this.saveItem({
+        user_id: userId,
+        name: item.name,
+        food_item_id: item.food_item_id || null,
+        quantity: round(item.quantity),
+        unit: item.unit,
+      });
+      return;
+    }
+
+    const added = convertQuantity(item.quantity, item.unit, match.unit) ?? 0;
+    await this.adjust([{ id: match.id, change: round(added) }]);
+  }
+
+  // Takes ingredients out of the pantry, from whatever goes off first. Stock
+  // never goes below zero and ingredients that are not in the pantry are
+  // ignored.
+  static async deplete(userId: string, ingredients: ShoppingIngredient[]): Promise<void> {
+    const pantry = await this.getItems(userId);
+    await this.adjust(planDepletion(pantry, mergeIngredients(ingredients)));
+  }
+
+  // Marks a planned recipe cooked and depletes the pantry for it in one
+  // transaction. Cooking the same event twice only takes stock out once.
+  static async cookEvent(userId: string, eventId: string): Promise<void> {
+    const { data: event, error } = await supabase
+      .from('meal_plan_events')
+      .select('id, recipe_id, servings, cooked_at, recipes(servings)')
+      .eq('id', eventId)
+      .single();
+
+    if (error) throw error;
+    if (event.cooked_at) return;
+
+    const [ingredients, pantry] = await Promise.all([
+      ShoppingListService.getIngredientsForEvents([event]),
+      this.getItems(userId),
+    ]);
+
+    const { error: cookError } = await supabase.rpc('cook_meal_plan_event', {
+      p_event_id: eventId,
+      p_changes: planDepletion(pantry, mergeIngredients(ingredients)) as unknown as Json,
+    });
+
+    if (cookError) throw cookError;
+  }
+}
+
+export default PantryService;
@@ -0,0 +1,65 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { NutritionTotals, withUnknownExtras } from "@/lib/nutrition";
+
+export type AnalysisConfidence = 'high' | 'medium' | 'low';
+
+export interface MealPhotoAnalysis {
+  estimatedNutrition: NutritionTotals;
+  identifiedFoods: string[];
+  portionSize: string;
+  confidence: AnalysisConfidence;
+  notes?: string;
+}
+
+export class PhotoAnalysisService {
+  // Runs the analyze-meal-photo function and stores the result on the photo
+  static async analysePhoto(photoId: string, imageUrl: string, description?: string | null): Promise<MealPhotoAnalysis> {
+    const { data, error } = await supabase.functions.invoke('analyze-meal-photo', {
+      body: { imageUrl, description: description || undefined },
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+      throw new Error(data?.error || 'Photo analysis failed');
+    }
+
+    const analysis = this.normalise(data.analysis);
+    if (!analysis) throw new Error('Photo analysis returned no result');
+
+    const { error: updateError } = await supabase
+      .from('meal_photos')
+      .update({ ai_analyzed_nutrition: analysis as unknown as Json })
+      .eq('id', photoId);
+
+    if (updateError) throw updateError;
+    return analysis;
+  }
+
+  // Fills in anything the model left out so the review form always has values
+  static normalise(raw: Json | null | undefined): MealPhotoAnalysis | null {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+
+    const value = raw as Record<string, Json>;
+    const nutrition = (value.estimatedNutrition || {}) as Record<string, Json>;
+    const confidence = String(value.confidence || 'low').toLowerCase();
+
+    return {
+      estimatedNutrition: withUnknownExtras({
+        calories: Number(nutrition.calories) || 0,
+        protein: Number(nutrition.protein) || 0,
+        carbs: Number(nutrition.carbs) || 0,
+        fat: Number(nutrition.fat) || 0,
+        fiber: Number(nutrition.fiber) || 0,
+        sugar: Number(nutrition.sugar) || 0,
+        sodium: Number(nutrition.sodium) || 0,
+      }),
+      identifiedFoods: Array.isArray(value.identifiedFoods) ? value.identifiedFoods.map(String) : [],
+      portionSize: value.portionSize ? String(value.portionSize) : '',
+      confidence: ['high', 'medium', 'low'].includes(confidence) ? confidence as AnalysisConfidence : 'low',
+      notes: value.notes ? String(value.notes) : undefined,
+    };
+  }
+}
+
+export default PhotoAnalysisService;
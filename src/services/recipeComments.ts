@@ -0,0 +1,119 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { ReportReason } from "@/lib/commentThreads";
+
+export type RecipeComment = Database['public']['Tables']['recipe_comments']['Row'];
+
+export type ModerationAction = 'dismiss' | 'hide' | 'delete';
+
+export interface CommentReportGroup {
+  comment: RecipeComment;
+  recipeName: string | null;
+  reports: { id: string; reason: string; details: string | null; created_at: string | null }[];
+}
+
+export class RecipeCommentService {
+  // Hidden and deleted comments come back with their text blanked unless
+  // the caller may read them
+  static async getComments(sharedRecipeId: string): Promise<RecipeComment[]> {
+    const { data, error } = await supabase.rpc('get_recipe_comments', {
+      p_shared_recipe_id: sharedRecipeId,
+    });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  static async addComment(userId: string, sharedRecipeId: string, comment: string, parentCommentId?: string | null): Promise<void> {
+    const { error } = await supabase
+      .from('recipe_comments')
+      .insert({
+        shared_recipe_id: sharedRecipeId,
+        user_id: userId,
+        comment,
+        parent_comment_id: parentCommentId || null,
+      });
+
+    if (error) throw error;
+  }
+
+  static async editComment(commentId: string, comment: string): Promise<void> {
+    const { error } = await supabase
+      .from('recipe_comments')
+      .update({ comment, edited_at: new Date().toISOString() })
+      .eq('id', commentId);
+
+    if (error) throw error;
+  }
+
+  // Blanks the comment but keeps the row so its replies stay in the thread
+  static async deleteComment(commentId: string): Promise<void> {
+    const { error } = await supabase.rpc('delete_recipe_comment', { p_comment_id: commentId });
+
+    if (error) throw error;
+  }
+
+  static async setHidden(commentId: string, hidden: boolean): Promise<void> {
+    const { error } = await supabase.rpc('set_recipe_comment_hidden', {
+      p_comment_id: commentId,
+      p_hidden: hidden,
+    });
+
+    if (error) throw error;
+  }
+
+  static async reportComment(userId: string, commentId: string, reason: ReportReason, details?: string): Promise<void> {
+    const { error } = await supabase
+      .from('comment_reports')
+      .insert({
+        comment_id: commentId,
+        reporter_id: userId,
+        reason,
+        details: details || null,
+      });
+
+    // Reporting the same comment twice isn't an error from the user's point of view
+    if (error && error.code !== '23505') throw error;
+  }
+
+  static async isModerator(userId: string): Promise<boolean> {
+    const { data, error } = await supabase.rpc('is_moderator', { p_user_id: userId });
+
+    if (error) throw error;
+    return !!data;
+  }
+
+  // Open reports grouped by comment, most reported first
+  static async getOpenReports(): Promise<CommentReportGroup[]> {
+    const { data, error } = await supabase
+      .from('comment_reports')
+      .select('id, reason, details, created_at, comment:recipe_comments(*, shared_recipe:shared_recipes(recipe:recipes(name)))')
+      .eq('status', 'open')
+      .order('created_at');
+
+    if (error) throw error;
+
+    const groups = new Map<string, CommentReportGroup>();
+    (data || []).forEach(({ comment, ...report }) => {
+      if (!comment) return;
+      const { shared_recipe, ...row } = comment;
+      if (!groups.has(row.id)) {
+        groups.set(row.id, { comment: row, recipeName: shared_recipe?.recipe?.name ?? null, reports: [] });
+      }
+      groups.get(row.id)!.reports.push(report);
+    });
+
+    return [...groups.values()].sort((a, b) => b.reports.length - a.reports.length);
+  }
+
+  static async resolveReports(commentId: string, action: ModerationAction): Promise<void> {
+    const { error } = await supabase.rpc('resolve_comment_reports', {
+      p_comment_id: commentId,
+      p_action: action,
+    });
+
+    if (error) throw error;
+  }
+}
+
+export default RecipeCommentService;
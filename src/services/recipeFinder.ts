@@ -0,0 +1,39 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { ShoppingIngredient } from "@/lib/shoppingList";
+
+type FinderRow = Database['public']['Functions']['find_recipes_by_ingredients']['Returns'][number];
+
+export interface FinderIngredient {
+  name: string;
+  food_item_id?: string | null;
+}
+
+export interface RecipeMatch extends Omit<FinderRow, 'missing'> {
+  missing: ShoppingIngredient[];
+}
+
+export class RecipeFinderService {
+  // Recipes ranked by the share of their ingredients already on hand, best
+  // coverage first
+  static async find(have: FinderIngredient[], includeCommunity = true): Promise<RecipeMatch[]> {
+    const { data, error } = await supabase.rpc('find_recipes_by_ingredients', {
+      p_ingredients: have.map(item => item.name),
+      p_food_item_ids: have.map(item => item.food_item_id).filter((id): id is string => !!id),
+      p_include_community: includeCommunity,
+    });
+
+    if (error) throw error;
+
+    return (data || []).map(row => ({
+      ...row,
+      coverage: Number(row.coverage),
+      missing: (row.missing as unknown as ShoppingIngredient[]).map(item => ({
+        ...item,
+        quantity: Number(item.quantity),
+      })),
+    }));
+  }
+}
+
+export default RecipeFinderService;
@@ -0,0 +1,55 @@
+import { supabase } from "@/integrations/supabase/client";
+import { calculateRecipeNutrition, NutritionIngredient, RecipeNutrition } from "@/lib/nutrition";
+
+const FOOD_ITEM_NUTRITION_COLUMNS =
+  'name, calories_per_100g, protein_per_100g, carbs_per_100g, fat_per_100g, fiber_per_100g, sugar_per_100g, sodium_per_100g, saturated_fat_per_100g, salt_per_100g, vitamin_a_per_100g, vitamin_c_per_100g, vitamin_d_per_100g, calcium_per_100g, iron_per_100g, potassium_per_100g, serving_size, serving_unit';
+
+export class RecipeNutritionService {
+  // Computes nutrition for several recipes with a single ingredient query.
+  // Recipes without any ingredients are omitted from the result.
+  static async getForRecipes(recipes: { id: string; servings?: number | null }[]): Promise<Record<string, RecipeNutrition>> {
+    if (recipes.length === 0) return {};
+
+    const { data, error } = await supabase
+      .from('recipe_ingredients')
+      .select(`recipe_id, ingredient_name, quantity, unit, food_items(${FOOD_ITEM_NUTRITION_COLUMNS})`)
+      .in('recipe_id', recipes.map(r => r.id))
+      .order('position');
+
+    if (error) throw error;
+
+    const byRecipe: Record<string, NutritionIngredient[]> = {};
+    (data || []).forEach(row => {
+      if (!byRecipe[row.recipe_id]) byRecipe[row.recipe_id] = [];
+      byRecipe[row.recipe_id].push({
+        ingredient_name: row.ingredient_name,
+        quantity: Number(row.quantity),
+        unit: row.unit,
+        food_item: row.food_items,
+      });
+    });
+
+    const result: Record<string, RecipeNutrition> = {};
+    recipes.forEach(recipe => {
+      if (byRecipe[recipe.id]) {
+        result[recipe.id] = calculateRecipeNutrition(byRecipe[recipe.id], recipe.servings);
+      }
+    });
+    return result;
+  }
+
+  static async getForRecipe(recipeId: string): Promise<RecipeNutrition | null> {
+    const { data: recipe, error } = await supabase
+      .from('recipes')
+      .select('id, servings')
+      .eq('id', recipeId)
+      .single();
+
+    if (error) throw error;
+
+    const result = await this.getForRecipes([recipe]);
+    return result[recipeId] || null;
+  }
+}
+
+export default RecipeNutritionService;
@@ -0,0 +1,54 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface RatingSummary {
+  average_rating: number | null;
+  total_ratings: number | null;
+  bayesian_score: number;
+}
+
+export class RecipeRatingService {
+  static async getMyRating(userId: string, sharedRecipeId: string): Promise<number | null> {
+    const { data, error } = await supabase
+      .from('recipe_ratings')
+      .select('rating')
+      .eq('user_id', userId)
+      .eq('shared_recipe_id', sharedRecipeId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data?.rating ?? null;
+  }
+
+  // Adds or replaces the user's rating. The aggregate is kept up to date by a
+  // trigger, so the returned summary already includes it.
+  static async rate(sharedRecipeId: string, rating: number): Promise<RatingSummary> {
+    const { data, error } = await supabase.rpc('rate_shared_recipe', {
+      p_shared_recipe_id: sharedRecipeId,
+      p_rating: rating,
+    });
+
+    if (error) throw error;
+    return data;
+  }
+
+  static async removeRating(userId: string, sharedRecipeId: string): Promise<RatingSummary> {
+    const { error } = await supabase
+      .from('recipe_ratings')
+      .delete()
+      .eq('user_id', userId)
+      .eq('shared_recipe_id', sharedRecipeId);
+
+    if (error) throw error;
+
+    const { data, error: summaryError } = await supabase
+      .from('shared_recipes')
+      .select('average_rating, total_ratings, bayesian_score')
+      .eq('id', sharedRecipeId)
+      .single();
+
+    if (summaryError) throw summaryError;
+    return data;
+  }
+}
+
+export default RecipeRatingService;
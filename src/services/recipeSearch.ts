@@ -0,0 +1,57 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { RecipeSort } from "@/lib/recipeStats";
+
+type SearchRow = Database['public']['Functions']['search_recipes']['Returns'][number];
+
+export type RecipeSearchResult = Omit<SearchRow, 'rank' | 'total_count'>;
+
+export interface RecipeSearchParams {
+  query: string;
+  includeIngredients: string[];
+  excludeIngredients: string[];
+  mealTypes: string[];
+  dietary: string[];
+  totalTime: { min: number; max: number } | null;
+  // Rating and cooking-history sorts use the signed-in user's own stats
+  sort: RecipeSort;
+  minRating: number | null;
+}
+
+export interface RecipeSearchPage {
+  recipes: RecipeSearchResult[];
+  // Number of matching recipes across all pages
+  total: number;
+}
+
+export const RECIPE_SEARCH_PAGE_SIZE = 24;
+
+export class RecipeSearchService {
+  // Results come back in the requested order across all pages, best match
+  // first by default (name order when there's no query)
+  static async search(params: RecipeSearchParams, offset = 0): Promise<RecipeSearchPage> {
+    const { data, error } = await supabase.rpc('search_recipes', {
+      p_query: params.query.trim() || undefined,
+      p_include_ingredients: params.includeIngredients,
+      p_exclude_ingredients: params.excludeIngredients,
+      p_meal_types: params.mealTypes,
+      p_dietary: params.dietary,
+      p_min_total_time: params.totalTime?.min,
+      p_max_total_time: params.totalTime?.max,
+      p_sort: params.sort,
+      p_min_rating: params.minRating || undefined,
+      p_limit: RECIPE_SEARCH_PAGE_SIZE,
+      p_offset: offset,
+    });
+
+    if (error) throw error;
+
+    const rows = data || [];
+    return {
+      recipes: rows.map(({ rank: _rank, total_count: _total, ...recipe }) => recipe),
+      total: rows.length > 0 ? Number(rows[0].total_count) : 0,
+    };
+  }
+}
+
+export default RecipeSearchService;
@@ -0,0 +1,75 @@
+import { supabase } from "@/integrations/supabase/client";
+import { EMPTY_RECIPE_STATS, RecipeStats } from "@/lib/recipeStats";
+
+export class RecipeStatsService {
+  // Ratings and cooking history for each of the user's recipes that has any
+  static async getForUser(userId: string): Promise<Record<string, RecipeStats>> {
+    const [mealsResult, cookedResult, sharedResult] = await Promise.all([
+      supabase
+        .from('meals')
+        .select('recipe_id, date, rating')
+        .eq('user_id', userId)
+        .not('recipe_id', 'is', null),
+      supabase
+        .from('meal_plan_events')
+        .select('recipe_id, date')
+        .eq('user_id', userId)
+        .not('recipe_id', 'is', null)
+        .not('cooked_at', 'is', null),
+      supabase
+        .from('shared_recipes')
+        .select('recipe_id, average_rating, total_ratings')
+        .eq('user_id', userId),
+    ]);
+
+    if (mealsResult.error) throw mealsResult.error;
+    if (cookedResult.error) throw cookedResult.error;
+    if (sharedResult.error) throw sharedResult.error;
+
+    const stats: Record<string, RecipeStats> = {};
+    const cookedDays: Record<string, Set<string>> = {};
+    const ratingTotals: Record<string, number> = {};
+    const entry = (recipeId: string) => {
+      if (!stats[recipeId]) {
+        stats[recipeId] = { ...EMPTY_RECIPE_STATS };
+        cookedDays[recipeId] = new Set();
+        ratingTotals[recipeId] = 0;
+      }
+      return stats[recipeId];
+    };
+
+    // Logging a meal and marking the planned event as cooked on the same day
+    // count once
+    [...(mealsResult.data || []), ...(cookedResult.data || [])].forEach(row => {
+      entry(row.recipe_id as string);
+      cookedDays[row.recipe_id as string].add(row.date);
+    });
+
+    (mealsResult.data || []).forEach(meal => {
+      if (!meal.rating) return;
+      const recipeStats = entry(meal.recipe_id as string);
+      ratingTotals[meal.recipe_id as string] += meal.rating;
+      recipeStats.personalRatingCount++;
+    });
+
+    (sharedResult.data || []).forEach(shared => {
+      if (!shared.recipe_id || !shared.total_ratings) return;
+      const recipeStats = entry(shared.recipe_id);
+      recipeStats.communityRating = shared.average_rating;
+      recipeStats.communityRatingCount = shared.total_ratings;
+    });
+
+    Object.entries(stats).forEach(([recipeId, recipeStats]) => {
+      const days = [...cookedDays[recipeId]].sort();
+      recipeStats.timesCooked = days.length;
+      recipeStats.lastCooked = days[days.length - 1] || null;
+      if (recipeStats.personalRatingCount > 0) {
+        recipeStats.personalRating = ratingTotals[recipeId] / recipeStats.personalRatingCount;
+      }
+    });
+
+    return stats;
+  }
+}
+
+export default RecipeStatsService;
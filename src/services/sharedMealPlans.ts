@@ -0,0 +1,160 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, Json } from "@/integrations/supabase/types";
+import {
+  SharedPlanEvent,
+  SharedPlanNutrition,
+  SharedPlanRecipe,
+  summariseNutrition,
+  toSharedEvents,
+} from "@/lib/sharedMealPlans";
+import { RecipeNutritionService } from "@/services/recipeNutrition";
+import { addDays, format } from "date-fns";
+
+type SharedPlanRow = Database['public']['Tables']['shared_meal_plans']['Row'];
+
+export interface SharedMealPlan extends Omit<SharedPlanRow, 'events' | 'recipes' | 'nutrition_summary'> {
+  events: SharedPlanEvent[];
+  recipes: SharedPlanRecipe[];
+  nutrition_summary: SharedPlanNutrition | null;
+}
+
+export interface PublishOptions {
+  title: string;
+  description?: string;
+  weekStart: Date;
+  weeks: number;
+  isPublic: boolean;
+}
+
+function fromRow(row: SharedPlanRow): SharedMealPlan {
+  return {
+    ...row,
+    events: (row.events || []) as unknown as SharedPlanEvent[],
+    recipes: (row.recipes || []) as unknown as SharedPlanRecipe[],
+    nutrition_summary: row.nutrition_summary as unknown as SharedPlanNutrition | null,
+  };
+}
+
+export class SharedMealPlanService {
+  static async getPublicPlans(): Promise<SharedMealPlan[]> {
+    const { data, error } = await supabase
+      .from('shared_meal_plans')
+      .select('*')
+      .eq('is_public', true)
+      .order('created_at', { ascending: false })
+      .limit(50);
+
+    if (error) throw error;
+    return (data || []).map(fromRow);
+  }
+
+  static async getMyPlans(userId: string): Promise<SharedMealPlan[]> {
+    const { data, error } = await supabase
+      .from('shared_meal_plans')
+      .select('*')
+      .eq('created_by', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(fromRow);
+  }
+
+  // Snapshots the calendar for the given weeks, along with the recipes it uses
+  // and their nutrition, and publishes it
+  static async publish(userId: string, options: PublishOptions): Promise<SharedMealPlan> {
+    const { data: events, error } = await supabase
+      .from('meal_plan_events')
+      .select('date, meal_type, title, start_time, end_time, notes, servings, recipe_id')
+      .eq('user_id', userId)
+      .gte('date', format(options.weekStart, 'yyyy-MM-dd'))
+      .lte('date', format(addDays(options.weekStart, options.weeks * 7 - 1), 'yyyy-MM-dd'))
+      .order('date')
+      .order('start_time');
+
+    if (error) throw error;
+    if (!events || events.length === 0) {
+      throw new Error('There are no meals planned in the chosen weeks');
+    }
+
+    const recipes = await this.snapshotRecipes([...new Set(events.map(e => e.recipe_id).filter(Boolean))] as string[]);
+    const sharedEvents = toSharedEvents(events, options.weekStart);
+    const nutrition = await RecipeNutritionService.getForRecipes(recipes);
+    const perServing = Object.fromEntries(Object.entries(nutrition).map(([id, value]) => [id, value.perServing]));
+
+    const { data, error: insertError } = await supabase
+      .from('shared_meal_plans')
+      .insert({
+        created_by: userId,
+        title: options.title,
+        description: options.description || null,
+        weeks_count: options.weeks,
+        is_public: options.isPublic,
+        events: sharedEvents as unknown as Json,
+        recipes: recipes as unknown as Json,
+        nutrition_summary: summariseNutrition(sharedEvents, perServing) as unknown as Json,
+      })
+      .select()
+      .single();
+
+    if (insertError) throw insertError;
+    return fromRow(data);
+  }
+
+  static async setPublic(planId: string, isPublic: boolean): Promise<void> {
+    const { error } = await supabase
+      .from('shared_meal_plans')
+      .update({ is_public: isPublic })
+      .eq('id', planId);
+
+    if (error) throw error;
+  }
+
+  static async deletePlan(planId: string): Promise<void> {
+    const { error } = await supabase
+      .from('shared_meal_plans')
+      .delete()
+      .eq('id', planId);
+
+    if (error) throw error;
+  }
+
+  // Adds the plan to the user's calendar starting on the given Monday, in one
+  // transaction. Recipes the user doesn't own are copied into their account
+  // first, reusing any copy made by an earlier import. Returns how many
+  // events were created.
+  static async importPlan(plan: SharedMealPlan, weekStart: Date): Promise<number> {
+    const { data, error } = await supabase.rpc('import_shared_meal_plan', {
+      p_plan_id: plan.id,
+      p_week_start: format(weekStart, 'yyyy-MM-dd'),
+    });
+
+    if (error) throw error;
+    return data;
+  }
+
+  private static async snapshotRecipes(recipeIds: string[]): Promise<SharedPlanRecipe[]> {
+    if (recipeIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('recipes')
+      .select('id, user_id, name, description, instructions, prep_time, cook_time, servings, tags, meal_times, recipe_ingredients(food_item_id, ingredient_name, quantity, unit, position, food_items(name))')
+      .in('id', recipeIds);
+
+    if (error) throw error;
+
+    return (data || []).map(({ recipe_ingredients, ...recipe }) => ({
+      ...recipe,
+      ingredients: [...(recipe_ingredients || [])]
+        .sort((a, b) => a.position - b.position)
+        .map(ingredient => ({
+          food_item_id: ingredient.food_item_id,
+          // Keep a readable name in case the food item isn't visible to importers
+          ingredient_name: ingredient.ingredient_name || ingredient.food_items?.name || null,
+          quantity: Number(ingredient.quantity),
+          unit: ingredient.unit,
+        })),
+    }));
+  }
+}
+
+export default SharedMealPlanService;
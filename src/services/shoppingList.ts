@@ -0,0 +1,181 @@
+import { supabase } from "@/integrations/supabase/client";
+import { categoriseIngredient, mergeIngredients, MergedShoppingItem, ShoppingIngredient } from "@/lib/shoppingList";
+import { isSameStock, netAgainstPantry, PantryStock } from "@/lib/pantry";
+
+export interface GenerateFromCalendarOptions {
+  name: string;
+  startDate: string;
+  endDate: string;
+  // Stock on hand to leave out of the list. Stock past its best-before date
+  // by the start date is not counted.
+  pantry?: PantryStock[];
+}
+
+export interface PlannedEvent {
+  recipe_id: string | null;
+  servings: number | null;
+  recipes: { servings: number | null } | null;
+}
+
+export interface GeneratedShoppingList {
+  listId: string;
+  itemCount: number;
+  eventCount: number;
+}
+
+export interface AddedShoppingItems {
+  listId: string;
+  listName: string;
+  itemCount: number;
+}
+
+export class ShoppingListService {
+  // Collects the scaled ingredients of every recipe planned in the date range
+  static async getPlannedIngredients(userId: string, startDate: string, endDate: string): Promise<{ ingredients: ShoppingIngredient[]; eventCount: number }> {
+    const { data: events, error } = await supabase
+      .from('meal_plan_events')
+      .select('id, recipe_id, servings, recipes(servings)')
+      .eq('user_id', userId)
+      .gte('date', startDate)
+      .lte('date', endDate)
+      .not('recipe_id', 'is', null);
+
+    if (error) throw error;
+    if (!events || events.length === 0) return { ingredients: [], eventCount: 0 };
+
+    const ingredients = await this.getIngredientsForEvents(events);
+    return { ingredients, eventCount: events.length };
+  }
+
+  // Recipe ingredients for planned events. An event's servings override the
+  // recipe's yield; events without a recipe are skipped.
+  static async getIngredientsForEvents(events: PlannedEvent[]): Promise<ShoppingIngredient[]> {
+    const recipeIds = Array.from(new Set(events.map(event => event.recipe_id).filter((id): id is string => !!id)));
+    if (recipeIds.length === 0) return [];
+
+    const { data: rows, error: ingredientsError } = await supabase
+      .from('recipe_ingredients')
+      .select('recipe_id, ingredient_name, quantity, unit, food_item_id, food_items(name)')
+      .in('recipe_id', recipeIds)
+      .order('position');
+
+    if (ingredientsError) throw ingredientsError;
+
+    const ingredients: ShoppingIngredient[] = [];
+    events.forEach(event => {
+      const recipeServings = Number(event.recipes?.servings) || 1;
+      const factor = event.servings ? Number(event.servings) / recipeServings : 1;
+
+      (rows || [])
+        .filter(row => row.recipe_id === event.recipe_id)
+        .forEach(row => {
+          ingredients.push({
+            // Ingredients linked to a food item may have no name of their own
+            name: row.ingredient_name ?? row.food_items?.name ?? 'Unnamed ingredient',
+            quantity: Number(row.quantity) * factor,
+            unit: row.unit,
+            food_item_id: row.food_item_id,
+          });
+        });
+    });
+
+    return ingredients;
+  }
+
+  // Builds a new shopping list from calendar events between two dates (inclusive)
+  static async generateFromCalendar(userId: string, options: GenerateFromCalendarOptions): Promise<GeneratedShoppingList> {
+    const { ingredients, eventCount } = await this.getPlannedIngredients(userId, options.startDate, options.endDate);
+    const merged = mergeIngredients(ingredients);
+    const items = options.pantry ? netAgainstPantry(merged, options.pantry, options.startDate) : merged;
+
+    const { data: list, error: listError } = await supabase
+      .from('shopping_lists')
+      .insert({ user_id: userId, name: options.name })
+      .select('id')
+      .single();
+
+    if (listError) throw listError;
+
+    try {
+      await this.insertItems(userId, list.id, items);
+    } catch (error) {
+      await supabase.from('shopping_lists').delete().eq('id', list.id);
+      throw error;
+    }
+
+    return { listId: list.id, itemCount: items.length, eventCount };
+  }
+
+  // Adds ingredients to the user's most recent shopping list, or to a new one
+  // if they have none. Anything already on the list and not yet bought is
+  // left alone rather than added twice.
+  static async addToLatestList(userId: string, ingredients: ShoppingIngredient[], newListName: string): Promise<AddedShoppingItems> {
+    const { data: latest, error: latestError } = await supabase
+      .from('shopping_lists')
+      .select('id, name')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (latestError) throw latestError;
+
+    let list = latest;
+    if (!list) {
+      const { data: created, error: createError } = await supabase
+        .from('shopping_lists')
+        .insert({ user_id: userId, name: newListName })
+        .select('id, name')
+        .single();
+
+      if (createError) throw createError;
+      list = created;
+    }
+
+    const { data: existing, error: existingError } = await supabase
+      .from('shopping_list_items')
+      .select('item_name, unit, food_item_id')
+      .eq('shopping_list_id', list.id)
+      .not('is_purchased', 'is', true);
+
+    if (existingError) throw existingError;
+
+    const items = mergeIngredients(ingredients).filter(item =>
+      !(existing || []).some(row => isSameStock({ ...row, name: row.item_name }, item))
+    );
+    await this.insertItems(userId, list.id, items);
+
+    return { listId: list.id, listName: list.name, itemCount: items.length };
+  }
+
+  private static async insertItems(userId: string, listId: string, items: MergedShoppingItem[]): Promise<void> {
+    if (items.length === 0) return;
+
+    const { data: categories, error: categoriesError } = await supabase
+      .from('shopping_categories')
+      .select('id, name');
+
+    if (categoriesError) throw categoriesError;
+
+    const categoryIds = new Map((categories || []).map(category => [category.name, category.id]));
+
+    const { error } = await supabase
+      .from('shopping_list_items')
+      .insert(items.map(item => {
+        const category = categoriseIngredient(item.name);
+        return {
+          user_id: userId,
+          shopping_list_id: listId,
+          item_name: item.name,
+          quantity: item.quantity,
+          unit: item.unit,
+          food_item_id: item.food_item_id,
+          category_id: category ? categoryIds.get(category) ?? null : null,
+        };
+      }));
+
+    if (error) throw error;
+  }
+}
+
+export default ShoppingListService;
@@ -6,6 +6,30 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// The vision backend is swappable: VISION_API_URL points at any OpenAI-compatible
+// endpoint, and VISION_PROVIDER=mock returns a fixed analysis without any network call.
+const VISION_PROVIDER = Deno.env.get('VISION_PROVIDER') ?? 'openai';
+const VISION_API_URL = Deno.env.get('VISION_API_URL') ?? 'https://api.openai.com/v1/chat/completions';
+const VISION_MODEL = Deno.env.get('VISION_MODEL') ?? 'gpt-4o-mini';
+
+function mockAnalysis(description?: string) {
+  return {
+    estimatedNutrition: {
+      calories: 520,
+      protein: 28,
+      carbs: 55,
+      fat: 18,
+      fiber: 6,
+      sodium: 800,
+      sugar: 8
+    },
+    identifiedFoods: description ? [description] : ["Chicken breast", "Rice", "Mixed vegetables"],
+    portionSize: "1 plate",
+    confidence: "medium",
+    notes: "Mock analysis"
+  };
+}
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -13,11 +37,6 @@ serve(async (req) => {
   }
 
   try {
-    const OPENAI_API_KEY = Deno.env.get('OPENAI_API_KEY');
-    if (!OPENAI_API_KEY) {
-      throw new Error('OPENAI_API_KEY is not set');
-    }
-
     const { imageUrl, description } = await req.json();
 
     if (!imageUrl) {
@@ -33,14 +52,29 @@ serve(async (req) => {
 
     console.log("Analyzing meal photo:", imageUrl);
 
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
+    if (VISION_PROVIDER === 'mock') {
+      return new Response(JSON.stringify({
+        success: true,
+        analysis: mockAnalysis(description)
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      });
+    }
+
+    const OPENAI_API_KEY = Deno.env.get('VISION_API_KEY') ?? Deno.env.get('OPENAI_API_KEY');
+    if (!OPENAI_API_KEY && !Deno.env.get('VISION_API_URL')) {
+      throw new Error('OPENAI_API_KEY is not set');
+    }
+
+    const response = await fetch(VISION_API_URL, {
       method: 'POST',
       headers: {
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
+        ...(OPENAI_API_KEY ? { 'Authorization': `Bearer ${OPENAI_API_KEY}` } : {}),
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
-        model: 'gpt-4o-mini',
+        model: VISION_MODEL,
         messages: [
           {
             role: 'system',
@@ -93,8 +127,10 @@ serve(async (req) => {
     console.log("Analysis text:", analysisText);
 
     try {
-      // Parse the JSON response from OpenAI
-      const analysis = JSON.parse(analysisText);
+      // Parse the JSON response from OpenAI, which may be wrapped in a code fence
+      const analysis = JSON.parse(
+        analysisText.replace(/^\s*```(?:json)?/i, '').replace(/```\s*$/, '')
+      );
       
       return new Response(JSON.stringify({ 
         success: true,
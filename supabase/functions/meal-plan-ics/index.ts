@@ -0,0 +1,235 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'npm:@supabase/supabase-js@2.57.4';
+
+// Serves a user's meal plan as an iCalendar feed that calendar apps can
+// subscribe to. The secret token in the URL is the only credential, so this
+// function is deployed without JWT verification.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+};
+
+// How far either side of today the feed reaches
+const PAST_DAYS = 30;
+const FUTURE_DAYS = 180;
+
+// --- Same writer as src/lib/ics.ts; keep the two in step ---
+interface IcsMealEvent {
+  id: string;
+  title: string;
+  date: string;
+  meal_type: string;
+  start_time?: string | null;
+  end_time?: string | null;
+  notes?: string | null;
+  servings?: number | null;
+  recipe?: {
+    name: string;
+    prep_time?: number | null;
+    cook_time?: number | null;
+  } | null;
+}
+
+// Events without an end time are written as this long
+const DEFAULT_EVENT_MINUTES = 30;
+
+const MEAL_TYPE_LABELS: Record<string, string> = {
+  breakfast: 'Breakfast',
+  lunch: 'Lunch',
+  dinner: 'Dinner',
+  snack: 'Snack',
+};
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 octets are folded onto continuation lines that start
+// with a space
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const charSize = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    if (size + charSize > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+// yyyy-MM-dd plus minutes past midnight, which may run into the next day
+function formatDateTime(date: string, minutes: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const value = new Date(Date.UTC(year, month - 1, day, 0, minutes));
+  return `${value.getUTCFullYear()}${pad(value.getUTCMonth() + 1)}${pad(value.getUTCDate())}`
+    + `T${pad(value.getUTCHours())}${pad(value.getUTCMinutes())}00`;
+}
+
+function formatDate(date: string, addDays = 0): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const value = new Date(Date.UTC(year, month - 1, day + addDays));
+  return `${value.getUTCFullYear()}${pad(value.getUTCMonth() + 1)}${pad(value.getUTCDate())}`;
+}
+
+function formatStamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function alarm(minutesBefore: number, related: 'START' | 'END', description: string): string[] {
+  return [
+    'BEGIN:VALARM',
+    'ACTION:DISPLAY',
+    `DESCRIPTION:${escapeText(description)}`,
+    `TRIGGER;RELATED=${related}:-PT${minutesBefore}M`,
+    'END:VALARM',
+  ];
+}
+
+function eventLines(event: IcsMealEvent, stamp: string): string[] {
+  const label = MEAL_TYPE_LABELS[event.meal_type] || event.meal_type;
+  const prepTime = event.recipe?.prep_time || 0;
+  const cookTime = event.recipe?.cook_time || 0;
+
+  const description = [
+    event.recipe ? `Recipe: ${event.recipe.name}` : null,
+    prepTime ? `Prep: ${prepTime} min` : null,
+    cookTime ? `Cook: ${cookTime} min` : null,
+    event.servings ? `Servings: ${event.servings}` : null,
+    event.notes || null,
+  ].filter(Boolean).join('\n');
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.id}@grub-guide`,
+    `DTSTAMP:${stamp}`,
+    `SUMMARY:${escapeText(`${label}: ${event.title}`)}`,
+    `CATEGORIES:${escapeText(label)}`,
+  ];
+
+  if (event.start_time) {
+    const start = toMinutes(event.start_time);
+    let end = event.end_time ? toMinutes(event.end_time) : start + DEFAULT_EVENT_MINUTES;
+    if (end <= start) end += 24 * 60;
+    lines.push(`DTSTART:${formatDateTime(event.date, start)}`, `DTEND:${formatDateTime(event.date, end)}`);
+  } else {
+    lines.push(`DTSTART;VALUE=DATE:${formatDate(event.date)}`, `DTEND;VALUE=DATE:${formatDate(event.date, 1)}`);
+  }
+
+  if (description) lines.push(`DESCRIPTION:${escapeText(description)}`);
+
+  // The meal should be ready by the end time: start cooking cook_time before
+  // it, and prepping prep_time before that. Without an end time the reminders
+  // count back from the start instead.
+  if (event.start_time && (prepTime || cookTime)) {
+    const related = event.end_time ? 'END' : 'START';
+    if (cookTime) lines.push(...alarm(cookTime, related, `Start cooking ${event.title}`));
+    if (prepTime) lines.push(...alarm(prepTime + cookTime, related, `Start prepping ${event.title}`));
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+function buildCalendar(events: IcsMealEvent[], name = 'Meal Plan', now: Date = new Date()): string {
+  const stamp = formatStamp(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Grub Guide//Meal Plan//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...events.flatMap(event => eventLines(event, stamp)),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// --- End of shared writer ---
+
+function offsetDate(days: number): string {
+  const date = new Date();
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const token = new URL(req.url).searchParams.get('token');
+    if (!token) {
+      return new Response('Missing feed token', { status: 400, headers: corsHeaders });
+    }
+
+    const SUPABASE_URL = Deno.env.get('SUPABASE_URL');
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      throw new Error('Missing Supabase configuration');
+    }
+
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    const { data: feed, error: feedError } = await supabase
+      .from('calendar_feeds')
+      .select('user_id')
+      .eq('token', token)
+      .maybeSingle();
+
+    if (feedError) throw feedError;
+    if (!feed) {
+      // Unknown or regenerated token
+      return new Response('Calendar feed not found', { status: 404, headers: corsHeaders });
+    }
+
+    const { data: events, error } = await supabase
+      .from('meal_plan_events')
+      .select('id, title, date, meal_type, start_time, end_time, notes, servings, recipe:recipes(name, prep_time, cook_time)')
+      .eq('user_id', feed.user_id)
+      .gte('date', offsetDate(-PAST_DAYS))
+      .lte('date', offsetDate(FUTURE_DAYS))
+      .order('date')
+      .order('start_time');
+
+    if (error) throw error;
+
+    return new Response(buildCalendar(events || []), {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="meal-plan.ics"',
+        'Cache-Control': 'private, max-age=900',
+      },
+    });
+  } catch (error) {
+    console.error('Error in meal-plan-ics function:', error);
+    return new Response('Failed to build calendar feed', { status: 500, headers: corsHeaders });
+  }
+});
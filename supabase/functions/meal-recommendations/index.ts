@@ -7,17 +7,22 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-async function callOpenAIWithRetry(openAIApiKey: string, prompt: string, maxRetries = 3) {
+// Any OpenAI-compatible chat completions endpoint can be used, e.g. a local
+// stub server during tests: set LLM_API_URL (and optionally LLM_MODEL).
+const LLM_API_URL = Deno.env.get('LLM_API_URL') ?? 'https://api.openai.com/v1/chat/completions';
+const LLM_MODEL = Deno.env.get('LLM_MODEL') ?? 'gpt-4o-mini';
+
+async function callOpenAIWithRetry(openAIApiKey: string | undefined, prompt: string, maxRetries = 3) {
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
     try {
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
+      const response = await fetch(LLM_API_URL, {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${openAIApiKey}`,
+          ...(openAIApiKey ? { 'Authorization': `Bearer ${openAIApiKey}` } : {}),
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          model: 'gpt-4o-mini',
+          model: LLM_MODEL,
           messages: [
             { role: 'system', content: 'You are a helpful nutritionist and meal planning assistant specialized in UK cuisine and ingredients.' },
             { role: 'user', content: prompt }
@@ -36,7 +41,7 @@ async function callOpenAIWithRetry(openAIApiKey: string, prompt: string, maxRetr
       }
 
       if (!response.ok) {
-        throw new Error(`OpenAI API error: ${response.status}`);
+        throw new Error(`LLM API error: ${response.status}`);
       }
 
       return await response.json();
@@ -56,9 +61,10 @@ serve(async (req) => {
   }
 
   try {
-    const openAIApiKey = Deno.env.get('OPENAI_API_KEY');
-    
-    if (!openAIApiKey) {
+    const openAIApiKey = Deno.env.get('LLM_API_KEY') ?? Deno.env.get('OPENAI_API_KEY');
+
+    // A key is only optional when pointing at a custom endpoint
+    if (!openAIApiKey && !Deno.env.get('LLM_API_URL')) {
       throw new Error('OpenAI API key not configured');
     }
 
@@ -103,7 +109,18 @@ Ensure all meals are practical for UK cooking and shopping.`;
     let recommendations;
 
     try {
-      recommendations = JSON.parse(data.choices[0].message.content);
+      // Models often wrap JSON in a markdown code fence
+      const content = data.choices[0].message.content
+        .replace(/^\s*```(?:json)?/i, '')
+        .replace(/```\s*$/, '');
+      const parsed = JSON.parse(content);
+      const seen = new Set<string>();
+      recommendations = (Array.isArray(parsed) ? parsed : parsed.recommendations ?? []).filter((meal: { name?: string }) => {
+        const key = meal.name?.trim().toLowerCase();
+        if (!key || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
     } catch (parseError) {
       console.error('Failed to parse AI response as JSON:', parseError);
       // Fallback recommendations
@@ -0,0 +1,93 @@
+-- Keep recipe ingredients in the order they were entered
+ALTER TABLE public.recipe_ingredients
+ADD COLUMN position INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE public.recipe_ingredients
+ADD CONSTRAINT recipe_ingredients_quantity_positive CHECK (quantity > 0);
+
+ALTER TABLE public.recipe_ingredients
+ADD CONSTRAINT recipe_ingredients_has_name_or_food CHECK (food_item_id IS NOT NULL OR ingredient_name IS NOT NULL);
+
+CREATE INDEX idx_recipe_ingredients_recipe_id ON public.recipe_ingredients(recipe_id, position);
+
+-- Save a recipe together with its full ingredient list in one transaction.
+-- Runs as the caller so the existing recipe and ingredient policies still apply.
+CREATE OR REPLACE FUNCTION public.save_recipe_with_ingredients(
+  p_recipe JSONB,
+  p_ingredients JSONB DEFAULT '[]'::jsonb
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_recipe_id UUID := NULLIF(p_recipe->>'id', '')::uuid;
+  v_ingredient JSONB;
+  v_position INTEGER := 0;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to save recipes';
+  END IF;
+
+  IF COALESCE(trim(p_recipe->>'name'), '') = '' THEN
+    RAISE EXCEPTION 'Recipe name is required';
+  END IF;
+
+  IF v_recipe_id IS NULL THEN
+    INSERT INTO recipes (
+      user_id, name, description, instructions, prep_time, cook_time,
+      servings, image_url, tags, meal_times
+    ) VALUES (
+      v_user_id,
+      p_recipe->>'name',
+      p_recipe->>'description',
+      p_recipe->>'instructions',
+      (p_recipe->>'prep_time')::integer,
+      (p_recipe->>'cook_time')::integer,
+      COALESCE((p_recipe->>'servings')::integer, 1),
+      p_recipe->>'image_url',
+      ARRAY(SELECT jsonb_array_elements_text(COALESCE(p_recipe->'tags', '[]'::jsonb))),
+      ARRAY(SELECT jsonb_array_elements_text(COALESCE(p_recipe->'meal_times', '[]'::jsonb)))
+    )
+    RETURNING id INTO v_recipe_id;
+  ELSE
+    UPDATE recipes SET
+      name = p_recipe->>'name',
+      description = p_recipe->>'description',
+      instructions = p_recipe->>'instructions',
+      prep_time = (p_recipe->>'prep_time')::integer,
+      cook_time = (p_recipe->>'cook_time')::integer,
+      servings = COALESCE((p_recipe->>'servings')::integer, 1),
+      image_url = p_recipe->>'image_url',
+      tags = ARRAY(SELECT jsonb_array_elements_text(COALESCE(p_recipe->'tags', '[]'::jsonb))),
+      meal_times = ARRAY(SELECT jsonb_array_elements_text(COALESCE(p_recipe->'meal_times', '[]'::jsonb))),
+      updated_at = now()
+    WHERE id = v_recipe_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Recipe not found';
+    END IF;
+
+    DELETE FROM recipe_ingredients WHERE recipe_id = v_recipe_id;
+  END IF;
+
+  FOR v_ingredient IN SELECT * FROM jsonb_array_elements(COALESCE(p_ingredients, '[]'::jsonb))
+  LOOP
+    INSERT INTO recipe_ingredients (
+      recipe_id, food_item_id, ingredient_name, quantity, unit, position
+    ) VALUES (
+      v_recipe_id,
+      NULLIF(v_ingredient->>'food_item_id', '')::uuid,
+      NULLIF(trim(v_ingredient->>'ingredient_name'), ''),
+      (v_ingredient->>'quantity')::numeric,
+      v_ingredient->>'unit',
+      v_position
+    );
+    v_position := v_position + 1;
+  END LOOP;
+
+  RETURN v_recipe_id;
+END;
+$$;
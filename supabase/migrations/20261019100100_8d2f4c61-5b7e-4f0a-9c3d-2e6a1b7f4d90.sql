@@ -0,0 +1,30 @@
+-- Create nutrition_goals table. Each row applies from effective_from until the
+-- next row for the same user, so changing goals never rewrites past adherence.
+CREATE TABLE public.nutrition_goals (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  effective_from DATE NOT NULL DEFAULT CURRENT_DATE,
+  calories DECIMAL(8,2) NOT NULL DEFAULT 0,
+  protein DECIMAL(8,2) NOT NULL DEFAULT 0,
+  carbs DECIMAL(8,2) NOT NULL DEFAULT 0,
+  fat DECIMAL(8,2) NOT NULL DEFAULT 0,
+  fiber DECIMAL(8,2) NOT NULL DEFAULT 0,
+  sodium DECIMAL(8,2) NOT NULL DEFAULT 0,
+  sugar DECIMAL(8,2) NOT NULL DEFAULT 0,
+  -- Partial goal values keyed by weekday, e.g. {"tuesday": {"carbs": 300}}
+  weekday_overrides JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE(user_id, effective_from)
+);
+
+ALTER TABLE public.nutrition_goals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own nutrition goals" ON public.nutrition_goals FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert their own nutrition goals" ON public.nutrition_goals FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own nutrition goals" ON public.nutrition_goals FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own nutrition goals" ON public.nutrition_goals FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_nutrition_goals_updated_at BEFORE UPDATE ON public.nutrition_goals FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_nutrition_goals_user_id ON public.nutrition_goals(user_id, effective_from);
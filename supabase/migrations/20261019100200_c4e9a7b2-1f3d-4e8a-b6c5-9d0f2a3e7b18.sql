@@ -0,0 +1,13 @@
+-- Meals logged from the diary are not always part of a meal plan
+ALTER TABLE public.meals ALTER COLUMN meal_plan_id DROP NOT NULL;
+
+-- Allow meals to be logged from ready meals as well as food items and recipes
+ALTER TABLE public.meals
+ADD COLUMN ready_meal_id UUID REFERENCES public.ready_meals(id) ON DELETE SET NULL;
+
+-- A nutrition log only exists for its meal, so remove it with the meal
+ALTER TABLE public.nutrition_logs DROP CONSTRAINT nutrition_logs_meal_id_fkey;
+ALTER TABLE public.nutrition_logs
+ADD CONSTRAINT nutrition_logs_meal_id_fkey FOREIGN KEY (meal_id) REFERENCES public.meals(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_nutrition_logs_meal_id ON public.nutrition_logs(meal_id);
@@ -0,0 +1,6 @@
+-- Planned servings for a calendar event; NULL means the recipe's own yield
+ALTER TABLE public.meal_plan_events
+ADD COLUMN servings DECIMAL(6,2) CHECK (servings IS NULL OR servings > 0);
+
+-- Shopping lists are generated from a date range of calendar events
+CREATE INDEX idx_meal_plan_events_user_date ON public.meal_plan_events(user_id, date);
@@ -0,0 +1,28 @@
+-- Create pantry_items table for staples already on hand
+CREATE TABLE public.pantry_items (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  food_item_id UUID REFERENCES public.food_items(id) ON DELETE SET NULL,
+  name TEXT NOT NULL,
+  quantity DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (quantity >= 0),
+  unit TEXT NOT NULL DEFAULT 'each',
+  location TEXT NOT NULL DEFAULT 'cupboard' CHECK (location IN ('fridge', 'freezer', 'cupboard')),
+  best_before DATE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+ALTER TABLE public.pantry_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own pantry items" ON public.pantry_items FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert their own pantry items" ON public.pantry_items FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own pantry items" ON public.pantry_items FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own pantry items" ON public.pantry_items FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_pantry_items_updated_at BEFORE UPDATE ON public.pantry_items FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_pantry_items_user_id ON public.pantry_items(user_id);
+
+-- Cooking a planned recipe depletes the pantry once
+ALTER TABLE public.meal_plan_events
+ADD COLUMN cooked_at TIMESTAMP WITH TIME ZONE;
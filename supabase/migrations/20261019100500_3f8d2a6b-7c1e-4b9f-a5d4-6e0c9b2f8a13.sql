@@ -0,0 +1,3 @@
+-- Locked events are kept as they are when a week is planned automatically
+ALTER TABLE public.meal_plan_events
+ADD COLUMN is_locked BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,6 @@
+-- Events created together from a recurrence rule share a recurrence_id so the
+-- series can be deleted as one
+ALTER TABLE public.meal_plan_events
+ADD COLUMN recurrence_id UUID;
+
+CREATE INDEX idx_meal_plan_events_recurrence_id ON public.meal_plan_events(recurrence_id) WHERE recurrence_id IS NOT NULL;
@@ -0,0 +1,42 @@
+-- Secret tokens for subscribing to the meal calendar from other calendar apps.
+-- The token is the only credential the feed URL carries, so each user has at
+-- most one and replacing it revokes every copy of the old URL.
+CREATE TABLE public.calendar_feeds (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL UNIQUE,
+  token TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+ALTER TABLE public.calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own calendar feeds" ON public.calendar_feeds FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert their own calendar feeds" ON public.calendar_feeds FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own calendar feeds" ON public.calendar_feeds FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own calendar feeds" ON public.calendar_feeds FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_calendar_feeds_updated_at BEFORE UPDATE ON public.calendar_feeds FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create or replace the caller's feed token and return the new one
+CREATE OR REPLACE FUNCTION public.regenerate_calendar_feed_token()
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_token TEXT := replace(gen_random_uuid()::text, '-', '') || replace(gen_random_uuid()::text, '-', '');
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to manage calendar feeds';
+  END IF;
+
+  INSERT INTO calendar_feeds (user_id, token)
+  VALUES (v_user_id, v_token)
+  ON CONFLICT (user_id) DO UPDATE SET token = EXCLUDED.token;
+
+  RETURN v_token;
+END;
+$$;
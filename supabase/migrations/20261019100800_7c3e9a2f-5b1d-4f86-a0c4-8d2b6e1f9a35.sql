@@ -0,0 +1,24 @@
+-- Shared meal plans carry a snapshot of the published weeks: the events by
+-- day offset and the recipes they use, with ingredients. Importing works from
+-- the snapshot, so nobody needs access to the publisher's own rows and later
+-- edits to their calendar don't change what was shared.
+ALTER TABLE public.shared_meal_plans
+ADD COLUMN events JSONB NOT NULL DEFAULT '[]'::jsonb,
+ADD COLUMN recipes JSONB NOT NULL DEFAULT '[]'::jsonb,
+ADD COLUMN nutrition_summary JSONB;
+
+ALTER TABLE public.shared_meal_plans ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view public shared meal plans" ON public.shared_meal_plans;
+DROP POLICY IF EXISTS "Users can view their own shared meal plans" ON public.shared_meal_plans;
+DROP POLICY IF EXISTS "Users can insert their own shared meal plans" ON public.shared_meal_plans;
+DROP POLICY IF EXISTS "Users can update their own shared meal plans" ON public.shared_meal_plans;
+DROP POLICY IF EXISTS "Users can delete their own shared meal plans" ON public.shared_meal_plans;
+
+CREATE POLICY "Anyone can view public shared meal plans" ON public.shared_meal_plans FOR SELECT USING (is_public = true);
+CREATE POLICY "Users can view their own shared meal plans" ON public.shared_meal_plans FOR SELECT USING (auth.uid() = created_by);
+CREATE POLICY "Users can insert their own shared meal plans" ON public.shared_meal_plans FOR INSERT WITH CHECK (auth.uid() = created_by);
+CREATE POLICY "Users can update their own shared meal plans" ON public.shared_meal_plans FOR UPDATE USING (auth.uid() = created_by);
+CREATE POLICY "Users can delete their own shared meal plans" ON public.shared_meal_plans FOR DELETE USING (auth.uid() = created_by);
+
+CREATE INDEX IF NOT EXISTS idx_shared_meal_plans_public ON public.shared_meal_plans(is_public, created_at DESC);
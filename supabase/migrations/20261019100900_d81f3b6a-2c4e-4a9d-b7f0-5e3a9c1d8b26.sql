@@ -0,0 +1,136 @@
+-- Roles for community moderation. Kept in their own table (not on profiles)
+-- so users can't grant themselves a role by editing their profile.
+CREATE TYPE public.app_role AS ENUM ('admin', 'moderator');
+
+CREATE TABLE public.user_roles (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  role public.app_role NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE (user_id, role)
+);
+
+ALTER TABLE public.user_roles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own roles" ON public.user_roles FOR SELECT USING (auth.uid() = user_id);
+
+-- Runs as the owner so policies can call it without recursing into user_roles
+CREATE OR REPLACE FUNCTION public.has_role(p_user_id UUID, p_role public.app_role)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM user_roles WHERE user_id = p_user_id AND role = p_role);
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_moderator(p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT has_role(p_user_id, 'admin') OR has_role(p_user_id, 'moderator');
+$$;
+
+-- Comments are soft-deleted so replies keep their place in the thread, and
+-- can be hidden by the recipe's owner or a moderator
+ALTER TABLE public.recipe_comments
+ADD COLUMN edited_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN hidden_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN hidden_by UUID;
+
+CREATE INDEX IF NOT EXISTS idx_recipe_comments_shared_recipe ON public.recipe_comments(shared_recipe_id, created_at);
+
+CREATE TABLE public.comment_reports (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  comment_id UUID NOT NULL REFERENCES public.recipe_comments(id) ON DELETE CASCADE,
+  reporter_id UUID NOT NULL,
+  reason TEXT NOT NULL CHECK (reason IN ('spam', 'abuse', 'off_topic', 'other')),
+  details TEXT,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'dismissed', 'actioned')),
+  resolved_by UUID,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE (comment_id, reporter_id)
+);
+
+ALTER TABLE public.comment_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own comment reports" ON public.comment_reports FOR SELECT USING (auth.uid() = reporter_id);
+CREATE POLICY "Users can insert their own comment reports" ON public.comment_reports FOR INSERT WITH CHECK (auth.uid() = reporter_id);
+CREATE POLICY "Moderators can view all comment reports" ON public.comment_reports FOR SELECT USING (public.is_moderator(auth.uid()));
+
+CREATE INDEX idx_comment_reports_open ON public.comment_reports(status, created_at);
+
+-- Hides or unhides a comment. Allowed for the owner of the shared recipe the
+-- comment is on, and for moderators.
+CREATE OR REPLACE FUNCTION public.set_recipe_comment_hidden(p_comment_id UUID, p_hidden BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_recipe_owner UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to moderate comments';
+  END IF;
+
+  SELECT sr.user_id INTO v_recipe_owner
+  FROM recipe_comments rc
+  JOIN shared_recipes sr ON sr.id = rc.shared_recipe_id
+  WHERE rc.id = p_comment_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Comment not found';
+  END IF;
+
+  IF v_recipe_owner IS DISTINCT FROM v_user_id AND NOT is_moderator(v_user_id) THEN
+    RAISE EXCEPTION 'Only the recipe owner or a moderator can hide comments';
+  END IF;
+
+  UPDATE recipe_comments SET
+    hidden_at = CASE WHEN p_hidden THEN now() END,
+    hidden_by = CASE WHEN p_hidden THEN v_user_id END
+  WHERE id = p_comment_id;
+END;
+$$;
+
+-- Closes every open report on a comment. 'hide' and 'delete' act on the
+-- comment as well; 'dismiss' leaves it alone.
+CREATE OR REPLACE FUNCTION public.resolve_comment_reports(p_comment_id UUID, p_action TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  IF v_user_id IS NULL OR NOT is_moderator(v_user_id) THEN
+    RAISE EXCEPTION 'Only moderators can resolve reports';
+  END IF;
+
+  IF p_action NOT IN ('dismiss', 'hide', 'delete') THEN
+    RAISE EXCEPTION 'Unknown moderation action: %', p_action;
+  END IF;
+
+  IF p_action = 'hide' THEN
+    UPDATE recipe_comments SET hidden_at = now(), hidden_by = v_user_id WHERE id = p_comment_id;
+  ELSIF p_action = 'delete' THEN
+    UPDATE recipe_comments SET deleted_at = now(), comment = '' WHERE id = p_comment_id;
+  END IF;
+
+  UPDATE comment_reports SET
+    status = CASE WHEN p_action = 'dismiss' THEN 'dismissed' ELSE 'actioned' END,
+    resolved_by = v_user_id,
+    resolved_at = now()
+  WHERE comment_id = p_comment_id AND status = 'open';
+END;
+$$;
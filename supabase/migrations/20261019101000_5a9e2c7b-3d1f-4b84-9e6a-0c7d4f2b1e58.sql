@@ -0,0 +1,122 @@
+-- One rating per user per shared recipe. Keep each user's most recent rating
+-- if duplicates have already crept in.
+DELETE FROM public.recipe_ratings r
+USING public.recipe_ratings newer
+WHERE r.shared_recipe_id = newer.shared_recipe_id
+  AND r.user_id = newer.user_id
+  AND (r.created_at, r.id) < (newer.created_at, newer.id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_recipe_ratings_one_per_user ON public.recipe_ratings(shared_recipe_id, user_id);
+
+ALTER TABLE public.recipe_ratings
+ADD CONSTRAINT recipe_ratings_rating_range CHECK (rating BETWEEN 1 AND 5);
+
+ALTER TABLE public.recipe_ratings
+ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE DEFAULT now();
+
+CREATE TRIGGER update_recipe_ratings_updated_at BEFORE UPDATE ON public.recipe_ratings FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+DROP POLICY IF EXISTS "Users can update their own ratings" ON public.recipe_ratings;
+DROP POLICY IF EXISTS "Users can delete their own ratings" ON public.recipe_ratings;
+CREATE POLICY "Users can update their own ratings" ON public.recipe_ratings FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own ratings" ON public.recipe_ratings FOR DELETE USING (auth.uid() = user_id);
+
+-- Bayesian average used for ranking: each recipe starts with PRIOR_WEIGHT
+-- imaginary ratings of PRIOR_MEAN, so one 5-star rating doesn't outrank a
+-- recipe with forty 4.8s
+ALTER TABLE public.shared_recipes
+ADD COLUMN bayesian_score NUMERIC(4,3) NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_shared_recipes_bayesian_score ON public.shared_recipes(bayesian_score DESC);
+
+CREATE OR REPLACE FUNCTION public.refresh_shared_recipe_rating(p_shared_recipe_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  c_prior_mean CONSTANT NUMERIC := 3.5;
+  c_prior_weight CONSTANT NUMERIC := 5;
+BEGIN
+  UPDATE shared_recipes sr SET
+    total_ratings = agg.total,
+    average_rating = CASE WHEN agg.total > 0 THEN round(agg.sum / agg.total, 2) ELSE 0 END,
+    bayesian_score = round((c_prior_mean * c_prior_weight + agg.sum) / (c_prior_weight + agg.total), 3)
+  FROM (
+    SELECT count(*) AS total, COALESCE(sum(rating), 0) AS sum
+    FROM recipe_ratings
+    WHERE shared_recipe_id = p_shared_recipe_id
+  ) agg
+  WHERE sr.id = p_shared_recipe_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.handle_recipe_rating_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM refresh_shared_recipe_rating(OLD.shared_recipe_id);
+    RETURN NULL;
+  END IF;
+
+  PERFORM refresh_shared_recipe_rating(NEW.shared_recipe_id);
+  IF TG_OP = 'UPDATE' AND NEW.shared_recipe_id IS DISTINCT FROM OLD.shared_recipe_id THEN
+    PERFORM refresh_shared_recipe_rating(OLD.shared_recipe_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER recipe_ratings_refresh_aggregate
+AFTER INSERT OR UPDATE OR DELETE ON public.recipe_ratings
+FOR EACH ROW EXECUTE FUNCTION public.handle_recipe_rating_change();
+
+CREATE OR REPLACE FUNCTION public.prevent_self_rating()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM shared_recipes WHERE id = NEW.shared_recipe_id AND user_id = NEW.user_id) THEN
+    RAISE EXCEPTION 'You cannot rate your own recipe';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER recipe_ratings_prevent_self_rating
+BEFORE INSERT OR UPDATE ON public.recipe_ratings
+FOR EACH ROW EXECUTE FUNCTION public.prevent_self_rating();
+
+-- Creates or replaces the caller's rating and returns the updated recipe
+CREATE OR REPLACE FUNCTION public.rate_shared_recipe(p_shared_recipe_id UUID, p_rating INTEGER)
+RETURNS public.shared_recipes
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_result shared_recipes;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to rate recipes';
+  END IF;
+
+  INSERT INTO recipe_ratings (shared_recipe_id, user_id, rating)
+  VALUES (p_shared_recipe_id, v_user_id, p_rating)
+  ON CONFLICT (shared_recipe_id, user_id) DO UPDATE SET rating = EXCLUDED.rating;
+
+  SELECT * INTO v_result FROM shared_recipes WHERE id = p_shared_recipe_id;
+  RETURN v_result;
+END;
+$$;
+
+-- Bring existing aggregates in line with the ratings
+SELECT public.refresh_shared_recipe_rating(id) FROM public.shared_recipes;
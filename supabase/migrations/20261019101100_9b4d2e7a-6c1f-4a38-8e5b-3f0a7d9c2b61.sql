@@ -0,0 +1,180 @@
+-- Full-text and trigram recipe search. The search document covers the recipe's
+-- own fields plus its ingredient names, weighted so a match in the name counts
+-- for more than one buried in the method.
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+ALTER TABLE public.recipes
+ADD COLUMN search_vector TSVECTOR;
+
+-- Ingredients without their own name fall back to the linked food item's name
+CREATE OR REPLACE FUNCTION public.recipe_ingredient_names(p_recipe_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(string_agg(COALESCE(ri.ingredient_name, fi.name), ' '), '')
+  FROM recipe_ingredients ri
+  LEFT JOIN food_items fi ON fi.id = ri.food_item_id
+  WHERE ri.recipe_id = p_recipe_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.build_recipe_search_vector(p_recipe public.recipes)
+RETURNS TSVECTOR
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    setweight(to_tsvector('english', COALESCE(p_recipe.name, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(array_to_string(p_recipe.tags, ' '), '')), 'B') ||
+    setweight(to_tsvector('english', recipe_ingredient_names(p_recipe.id)), 'B') ||
+    setweight(to_tsvector('english', COALESCE(p_recipe.description, '')), 'C') ||
+    setweight(to_tsvector('english', COALESCE(p_recipe.instructions, '')), 'D');
+$$;
+
+CREATE OR REPLACE FUNCTION public.handle_recipe_search_vector()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.search_vector := build_recipe_search_vector(NEW);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER recipes_search_vector
+BEFORE INSERT OR UPDATE OF name, description, instructions, tags ON public.recipes
+FOR EACH ROW EXECUTE FUNCTION public.handle_recipe_search_vector();
+
+-- Runs as the definer so the recipe is refreshed even when the ingredient
+-- change came from somewhere the recipe policies wouldn't allow an update
+CREATE OR REPLACE FUNCTION public.handle_recipe_ingredient_search_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE recipes r
+  SET search_vector = build_recipe_search_vector(r)
+  WHERE r.id IN (
+    CASE WHEN TG_OP <> 'DELETE' THEN NEW.recipe_id END,
+    CASE WHEN TG_OP <> 'INSERT' THEN OLD.recipe_id END
+  );
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER recipe_ingredients_refresh_search_vector
+AFTER INSERT OR UPDATE OR DELETE ON public.recipe_ingredients
+FOR EACH ROW EXECUTE FUNCTION public.handle_recipe_ingredient_search_change();
+
+UPDATE public.recipes r SET search_vector = public.build_recipe_search_vector(r);
+
+CREATE INDEX IF NOT EXISTS idx_recipes_search_vector ON public.recipes USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_recipes_name_trgm ON public.recipes USING GIN (name extensions.gin_trgm_ops);
+
+-- Searches the recipes the caller can see. Every word of p_query must match as
+-- a prefix somewhere in the search document; recipe names that are a close
+-- trigram match also count, so small typos still find the recipe. Ingredient
+-- terms match anywhere in an ingredient name ("chick" matches "chickpeas").
+-- Results are ranked by relevance, then name, and total_count is the number of
+-- matches before paging.
+CREATE OR REPLACE FUNCTION public.search_recipes(
+  p_query TEXT DEFAULT NULL,
+  p_include_ingredients TEXT[] DEFAULT '{}',
+  p_exclude_ingredients TEXT[] DEFAULT '{}',
+  p_meal_types TEXT[] DEFAULT '{}',
+  p_dietary TEXT[] DEFAULT '{}',
+  p_min_total_time INTEGER DEFAULT NULL,
+  p_max_total_time INTEGER DEFAULT NULL,
+  p_limit INTEGER DEFAULT 24,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  name TEXT,
+  description TEXT,
+  instructions TEXT,
+  prep_time INTEGER,
+  cook_time INTEGER,
+  servings INTEGER,
+  image_url TEXT,
+  tags TEXT[],
+  meal_times TEXT[],
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  rank REAL,
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_query TEXT := NULLIF(trim(p_query), '');
+  v_tsquery TSQUERY;
+BEGIN
+  IF v_query IS NOT NULL THEN
+    SELECT to_tsquery('english', string_agg(quote_literal(word) || ':*', ' & '))
+    INTO v_tsquery
+    FROM regexp_split_to_table(lower(v_query), '[^[:alnum:]]+') AS word
+    WHERE word <> '';
+  END IF;
+
+  RETURN QUERY
+  WITH matches AS (
+    SELECT
+      r.*,
+      (CASE WHEN v_tsquery IS NULL THEN 0 ELSE ts_rank_cd(r.search_vector, v_tsquery) END
+        + CASE WHEN v_query IS NULL THEN 0 ELSE similarity(r.name, v_query) END)::REAL AS match_rank
+    FROM recipes r
+    WHERE (
+      v_query IS NULL
+      OR (v_tsquery IS NOT NULL AND r.search_vector @@ v_tsquery)
+      OR r.name % v_query
+    )
+    AND NOT EXISTS (
+      SELECT 1
+      FROM unnest(p_include_ingredients) AS term
+      WHERE trim(term) <> ''
+        AND NOT EXISTS (
+          SELECT 1
+          FROM recipe_ingredients ri
+          LEFT JOIN food_items fi ON fi.id = ri.food_item_id
+          WHERE ri.recipe_id = r.id
+            AND COALESCE(ri.ingredient_name, fi.name) ILIKE '%' || trim(term) || '%'
+        )
+    )
+    AND NOT EXISTS (
+      SELECT 1
+      FROM unnest(p_exclude_ingredients) AS term
+      JOIN recipe_ingredients ri ON ri.recipe_id = r.id
+      LEFT JOIN food_items fi ON fi.id = ri.food_item_id
+      WHERE trim(term) <> ''
+        AND COALESCE(ri.ingredient_name, fi.name) ILIKE '%' || trim(term) || '%'
+    )
+    AND (
+      cardinality(p_meal_types) = 0
+      OR r.meal_times && p_meal_types
+      OR r.tags && p_meal_types
+    )
+    AND (cardinality(p_dietary) = 0 OR r.tags && p_dietary)
+    AND (p_min_total_time IS NULL OR COALESCE(r.prep_time, 0) + COALESCE(r.cook_time, 0) >= p_min_total_time)
+    AND (p_max_total_time IS NULL OR COALESCE(r.prep_time, 0) + COALESCE(r.cook_time, 0) <= p_max_total_time)
+  )
+  SELECT
+    m.id, m.user_id, m.name, m.description, m.instructions, m.prep_time, m.cook_time,
+    m.servings, m.image_url, m.tags, m.meal_times, m.created_at, m.updated_at,
+    m.match_rank,
+    count(*) OVER ()
+  FROM matches m
+  ORDER BY m.match_rank DESC, m.name
+  LIMIT LEAST(GREATEST(p_limit, 1), 100)
+  OFFSET GREATEST(p_offset, 0);
+END;
+$$;
@@ -0,0 +1,209 @@
+-- One canonical public food item per barcode. Users can still keep a private
+-- row with the same barcode as their own override of the catalogue entry
+-- (one per user per barcode), and barcode lookups prefer it.
+
+-- How much of an item's nutrition is filled in; the most complete copy wins
+-- when duplicates are collapsed
+CREATE OR REPLACE FUNCTION public.food_item_completeness(p_item public.food_items)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT (p_item.calories_per_100g IS NOT NULL)::INTEGER
+    + (p_item.protein_per_100g IS NOT NULL)::INTEGER
+    + (p_item.carbs_per_100g IS NOT NULL)::INTEGER
+    + (p_item.fat_per_100g IS NOT NULL)::INTEGER
+    + (p_item.fiber_per_100g IS NOT NULL)::INTEGER
+    + (p_item.sugar_per_100g IS NOT NULL)::INTEGER
+    + (p_item.sodium_per_100g IS NOT NULL)::INTEGER
+    + (p_item.serving_size IS NOT NULL)::INTEGER
+    + (p_item.brand IS NOT NULL)::INTEGER;
+$$;
+
+-- Moves every reference to the duplicates onto the survivor, then deletes
+-- the duplicates. Returns how many were removed. Not callable by clients;
+-- merge_food_items checks permissions first.
+CREATE OR REPLACE FUNCTION public.repoint_food_items(p_survivor_id UUID, p_duplicate_ids UUID[])
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_ids UUID[] := array_remove(p_duplicate_ids, p_survivor_id);
+  v_deleted INTEGER;
+BEGIN
+  UPDATE meals SET food_item_id = p_survivor_id WHERE food_item_id = ANY(v_ids);
+  UPDATE recipe_ingredients SET food_item_id = p_survivor_id WHERE food_item_id = ANY(v_ids);
+  UPDATE shopping_list_items SET food_item_id = p_survivor_id WHERE food_item_id = ANY(v_ids);
+  UPDATE pantry_items SET food_item_id = p_survivor_id WHERE food_item_id = ANY(v_ids);
+
+  DELETE FROM food_items WHERE id = ANY(v_ids);
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+  RETURN v_deleted;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.repoint_food_items(UUID, UUID[]) FROM PUBLIC, anon, authenticated;
+
+-- Collapse the public copies created by earlier imports, and any private
+-- duplicates a user has of the same barcode
+DO $$
+DECLARE
+  v_group RECORD;
+BEGIN
+  FOR v_group IN
+    SELECT
+      (array_agg(f.id ORDER BY public.food_item_completeness(f) DESC, f.created_at, f.id))[1] AS survivor_id,
+      array_agg(f.id) AS ids
+    FROM public.food_items f
+    WHERE f.barcode IS NOT NULL
+    GROUP BY f.barcode, CASE WHEN f.is_public THEN NULL ELSE f.user_id END, COALESCE(f.is_public, false)
+    HAVING count(*) > 1
+  LOOP
+    PERFORM public.repoint_food_items(v_group.survivor_id, v_group.ids);
+  END LOOP;
+END;
+$$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_food_items_public_barcode
+ON public.food_items(barcode) WHERE is_public AND barcode IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_food_items_override_barcode
+ON public.food_items(user_id, barcode) WHERE NOT COALESCE(is_public, false) AND barcode IS NOT NULL;
+
+-- Adds a product to the public catalogue, or returns the canonical row when
+-- its barcode is already there. Values the canonical row is missing are
+-- filled in from the import; existing values are never overwritten.
+CREATE OR REPLACE FUNCTION public.import_food_item(p_item JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_barcode TEXT := NULLIF(trim(p_item->>'barcode'), '');
+  v_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to import food items';
+  END IF;
+
+  IF COALESCE(trim(p_item->>'name'), '') = '' THEN
+    RAISE EXCEPTION 'Food name is required';
+  END IF;
+
+  IF v_barcode IS NULL THEN
+    RAISE EXCEPTION 'Imported food items need a barcode';
+  END IF;
+
+  INSERT INTO food_items AS f (
+    user_id, name, brand, barcode, calories_per_100g, protein_per_100g, carbs_per_100g,
+    fat_per_100g, fiber_per_100g, sugar_per_100g, sodium_per_100g, serving_size, serving_unit, is_public
+  ) VALUES (
+    v_user_id,
+    trim(p_item->>'name'),
+    NULLIF(trim(p_item->>'brand'), ''),
+    v_barcode,
+    (p_item->>'calories_per_100g')::numeric,
+    (p_item->>'protein_per_100g')::numeric,
+    (p_item->>'carbs_per_100g')::numeric,
+    (p_item->>'fat_per_100g')::numeric,
+    (p_item->>'fiber_per_100g')::numeric,
+    (p_item->>'sugar_per_100g')::numeric,
+    (p_item->>'sodium_per_100g')::numeric,
+    (p_item->>'serving_size')::numeric,
+    NULLIF(p_item->>'serving_unit', ''),
+    true
+  )
+  ON CONFLICT (barcode) WHERE is_public AND barcode IS NOT NULL DO UPDATE SET
+    brand = COALESCE(f.brand, EXCLUDED.brand),
+    calories_per_100g = COALESCE(f.calories_per_100g, EXCLUDED.calories_per_100g),
+    protein_per_100g = COALESCE(f.protein_per_100g, EXCLUDED.protein_per_100g),
+    carbs_per_100g = COALESCE(f.carbs_per_100g, EXCLUDED.carbs_per_100g),
+    fat_per_100g = COALESCE(f.fat_per_100g, EXCLUDED.fat_per_100g),
+    fiber_per_100g = COALESCE(f.fiber_per_100g, EXCLUDED.fiber_per_100g),
+    sugar_per_100g = COALESCE(f.sugar_per_100g, EXCLUDED.sugar_per_100g),
+    sodium_per_100g = COALESCE(f.sodium_per_100g, EXCLUDED.sodium_per_100g),
+    serving_size = COALESCE(f.serving_size, EXCLUDED.serving_size),
+    serving_unit = COALESCE(f.serving_unit, EXCLUDED.serving_unit)
+  RETURNING f.id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+-- Admin tool: public items that look like the same product under different
+-- rows, i.e. the same name and brand. Barcoded duplicates can't happen any
+-- more, so these are mostly manual entries.
+CREATE OR REPLACE FUNCTION public.find_duplicate_food_items()
+RETURNS TABLE (
+  name TEXT,
+  brand TEXT,
+  items JSONB
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR NOT has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can merge food items';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    min(f.name),
+    min(f.brand),
+    jsonb_agg(
+      jsonb_build_object(
+        'id', f.id,
+        'name', f.name,
+        'brand', f.brand,
+        'barcode', f.barcode,
+        'calories_per_100g', f.calories_per_100g,
+        'completeness', food_item_completeness(f),
+        'created_at', f.created_at
+      )
+      ORDER BY food_item_completeness(f) DESC, f.created_at
+    )
+  FROM food_items f
+  WHERE f.is_public
+  GROUP BY lower(trim(f.name)), lower(trim(COALESCE(f.brand, '')))
+  HAVING count(*) > 1
+  ORDER BY min(f.name)
+  LIMIT 100;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.merge_food_items(p_survivor_id UUID, p_duplicate_ids UUID[])
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_survivor_public BOOLEAN;
+BEGIN
+  IF auth.uid() IS NULL OR NOT has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can merge food items';
+  END IF;
+
+  SELECT COALESCE(is_public, false) INTO v_survivor_public FROM food_items WHERE id = p_survivor_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Food item not found';
+  END IF;
+
+  -- Folding a public item into a private one would take it away from everyone else
+  IF NOT v_survivor_public AND EXISTS (
+    SELECT 1 FROM food_items WHERE id = ANY(p_duplicate_ids) AND is_public
+  ) THEN
+    RAISE EXCEPTION 'Public food items can only be merged into another public item';
+  END IF;
+
+  RETURN repoint_food_items(p_survivor_id, p_duplicate_ids);
+END;
+$$;
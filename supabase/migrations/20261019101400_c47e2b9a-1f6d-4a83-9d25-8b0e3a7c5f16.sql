@@ -0,0 +1,114 @@
+-- Extended nutrition: saturates and salt as on UK labels, a handful of
+-- vitamins and minerals, and Open Food Facts' Nutri-Score and NOVA group.
+-- All of these are optional; NULL means "not known", never zero.
+-- Units: vitamins A and D in micrograms, everything else in grams except
+-- vitamin C, calcium, iron and potassium, which are in milligrams.
+ALTER TABLE public.food_items
+ADD COLUMN saturated_fat_per_100g NUMERIC,
+ADD COLUMN salt_per_100g NUMERIC,
+ADD COLUMN vitamin_a_per_100g NUMERIC,
+ADD COLUMN vitamin_c_per_100g NUMERIC,
+ADD COLUMN vitamin_d_per_100g NUMERIC,
+ADD COLUMN calcium_per_100g NUMERIC,
+ADD COLUMN iron_per_100g NUMERIC,
+ADD COLUMN potassium_per_100g NUMERIC,
+ADD COLUMN nutriscore_grade TEXT CHECK (nutriscore_grade IN ('a', 'b', 'c', 'd', 'e')),
+ADD COLUMN nova_group SMALLINT CHECK (nova_group BETWEEN 1 AND 4);
+
+ALTER TABLE public.ready_meals
+ADD COLUMN saturated_fat_per_serving NUMERIC,
+ADD COLUMN sugar_per_serving NUMERIC,
+ADD COLUMN salt_per_serving NUMERIC;
+
+ALTER TABLE public.nutrition_logs
+ADD COLUMN saturated_fat NUMERIC,
+ADD COLUMN salt NUMERIC,
+ADD COLUMN vitamin_a NUMERIC,
+ADD COLUMN vitamin_c NUMERIC,
+ADD COLUMN vitamin_d NUMERIC,
+ADD COLUMN calcium NUMERIC,
+ADD COLUMN iron NUMERIC,
+ADD COLUMN potassium NUMERIC;
+
+-- Same as before, with the new columns. Nutri-Score and NOVA are filled in
+-- like the nutrients: only where the canonical row doesn't have them yet.
+CREATE OR REPLACE FUNCTION public.import_food_item(p_item JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_barcode TEXT := NULLIF(trim(p_item->>'barcode'), '');
+  v_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to import food items';
+  END IF;
+
+  IF COALESCE(trim(p_item->>'name'), '') = '' THEN
+    RAISE EXCEPTION 'Food name is required';
+  END IF;
+
+  IF v_barcode IS NULL THEN
+    RAISE EXCEPTION 'Imported food items need a barcode';
+  END IF;
+
+  INSERT INTO food_items AS f (
+    user_id, name, brand, barcode, calories_per_100g, protein_per_100g, carbs_per_100g,
+    fat_per_100g, fiber_per_100g, sugar_per_100g, sodium_per_100g, serving_size, serving_unit,
+    saturated_fat_per_100g, salt_per_100g, vitamin_a_per_100g, vitamin_c_per_100g, vitamin_d_per_100g,
+    calcium_per_100g, iron_per_100g, potassium_per_100g, nutriscore_grade, nova_group, is_public
+  ) VALUES (
+    v_user_id,
+    trim(p_item->>'name'),
+    NULLIF(trim(p_item->>'brand'), ''),
+    v_barcode,
+    (p_item->>'calories_per_100g')::numeric,
+    (p_item->>'protein_per_100g')::numeric,
+    (p_item->>'carbs_per_100g')::numeric,
+    (p_item->>'fat_per_100g')::numeric,
+    (p_item->>'fiber_per_100g')::numeric,
+    (p_item->>'sugar_per_100g')::numeric,
+    (p_item->>'sodium_per_100g')::numeric,
+    (p_item->>'serving_size')::numeric,
+    NULLIF(p_item->>'serving_unit', ''),
+    (p_item->>'saturated_fat_per_100g')::numeric,
+    (p_item->>'salt_per_100g')::numeric,
+    (p_item->>'vitamin_a_per_100g')::numeric,
+    (p_item->>'vitamin_c_per_100g')::numeric,
+    (p_item->>'vitamin_d_per_100g')::numeric,
+    (p_item->>'calcium_per_100g')::numeric,
+    (p_item->>'iron_per_100g')::numeric,
+    (p_item->>'potassium_per_100g')::numeric,
+    NULLIF(lower(p_item->>'nutriscore_grade'), ''),
+    (p_item->>'nova_group')::smallint,
+    true
+  )
+  ON CONFLICT (barcode) WHERE is_public AND barcode IS NOT NULL DO UPDATE SET
+    brand = COALESCE(f.brand, EXCLUDED.brand),
+    calories_per_100g = COALESCE(f.calories_per_100g, EXCLUDED.calories_per_100g),
+    protein_per_100g = COALESCE(f.protein_per_100g, EXCLUDED.protein_per_100g),
+    carbs_per_100g = COALESCE(f.carbs_per_100g, EXCLUDED.carbs_per_100g),
+    fat_per_100g = COALESCE(f.fat_per_100g, EXCLUDED.fat_per_100g),
+    fiber_per_100g = COALESCE(f.fiber_per_100g, EXCLUDED.fiber_per_100g),
+    sugar_per_100g = COALESCE(f.sugar_per_100g, EXCLUDED.sugar_per_100g),
+    sodium_per_100g = COALESCE(f.sodium_per_100g, EXCLUDED.sodium_per_100g),
+    serving_size = COALESCE(f.serving_size, EXCLUDED.serving_size),
+    serving_unit = COALESCE(f.serving_unit, EXCLUDED.serving_unit),
+    saturated_fat_per_100g = COALESCE(f.saturated_fat_per_100g, EXCLUDED.saturated_fat_per_100g),
+    salt_per_100g = COALESCE(f.salt_per_100g, EXCLUDED.salt_per_100g),
+    vitamin_a_per_100g = COALESCE(f.vitamin_a_per_100g, EXCLUDED.vitamin_a_per_100g),
+    vitamin_c_per_100g = COALESCE(f.vitamin_c_per_100g, EXCLUDED.vitamin_c_per_100g),
+    vitamin_d_per_100g = COALESCE(f.vitamin_d_per_100g, EXCLUDED.vitamin_d_per_100g),
+    calcium_per_100g = COALESCE(f.calcium_per_100g, EXCLUDED.calcium_per_100g),
+    iron_per_100g = COALESCE(f.iron_per_100g, EXCLUDED.iron_per_100g),
+    potassium_per_100g = COALESCE(f.potassium_per_100g, EXCLUDED.potassium_per_100g),
+    nutriscore_grade = COALESCE(f.nutriscore_grade, EXCLUDED.nutriscore_grade),
+    nova_group = COALESCE(f.nova_group, EXCLUDED.nova_group)
+  RETURNING f.id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
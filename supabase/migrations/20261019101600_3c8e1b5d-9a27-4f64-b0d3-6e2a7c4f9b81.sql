@@ -0,0 +1,124 @@
+-- Only moderators may hide or unhide a comment directly. Recipe owners can
+-- still hide comments on their own recipes, but only through
+-- set_recipe_comment_hidden, which checks ownership and marks the
+-- transaction before updating. Deleting is for the author or a moderator.
+-- Updates without a signed-in user (the service role, migrations) are trusted.
+CREATE OR REPLACE FUNCTION public.guard_recipe_comment_moderation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  IF v_user_id IS NULL OR is_moderator(v_user_id) THEN
+    RETURN NEW;
+  END IF;
+
+  IF (NEW.hidden_at IS DISTINCT FROM OLD.hidden_at OR NEW.hidden_by IS DISTINCT FROM OLD.hidden_by)
+    AND current_setting('app.comment_hide_checked', true) IS DISTINCT FROM 'on' THEN
+    RAISE EXCEPTION 'Only moderators can hide or unhide comments';
+  END IF;
+
+  IF NEW.deleted_at IS DISTINCT FROM OLD.deleted_at AND OLD.user_id IS DISTINCT FROM v_user_id THEN
+    RAISE EXCEPTION 'Only the author or a moderator can delete a comment';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_recipe_comment_moderation
+BEFORE UPDATE ON public.recipe_comments
+FOR EACH ROW EXECUTE FUNCTION public.guard_recipe_comment_moderation();
+
+-- Same as before, marking the transaction so the guard lets the hide through
+CREATE OR REPLACE FUNCTION public.set_recipe_comment_hidden(p_comment_id UUID, p_hidden BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_recipe_owner UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to moderate comments';
+  END IF;
+
+  SELECT sr.user_id INTO v_recipe_owner
+  FROM recipe_comments rc
+  JOIN shared_recipes sr ON sr.id = rc.shared_recipe_id
+  WHERE rc.id = p_comment_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Comment not found';
+  END IF;
+
+  IF v_recipe_owner IS DISTINCT FROM v_user_id AND NOT is_moderator(v_user_id) THEN
+    RAISE EXCEPTION 'Only the recipe owner or a moderator can hide comments';
+  END IF;
+
+  PERFORM set_config('app.comment_hide_checked', 'on', true);
+
+  UPDATE recipe_comments SET
+    hidden_at = CASE WHEN p_hidden THEN now() END,
+    hidden_by = CASE WHEN p_hidden THEN v_user_id END
+  WHERE id = p_comment_id;
+END;
+$$;
+
+-- Hidden and deleted comments can no longer be read straight from the table
+-- except by moderators. Restrictive, so it applies on top of the existing
+-- policies.
+CREATE POLICY "Only moderators can read hidden or deleted comments" ON public.recipe_comments
+AS RESTRICTIVE FOR SELECT
+USING ((hidden_at IS NULL AND deleted_at IS NULL) OR public.is_moderator(auth.uid()));
+
+-- A shared recipe's comment thread. Hidden and deleted comments keep their
+-- place so replies stay threaded, but their text is blanked. Moderators see
+-- everything, and the recipe's owner can still read what was hidden so they
+-- can decide whether to unhide it.
+CREATE OR REPLACE FUNCTION public.get_recipe_comments(p_shared_recipe_id UUID)
+RETURNS TABLE (
+  id UUID,
+  shared_recipe_id UUID,
+  user_id UUID,
+  parent_comment_id UUID,
+  comment TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  edited_at TIMESTAMP WITH TIME ZONE,
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  hidden_at TIMESTAMP WITH TIME ZONE,
+  hidden_by UUID
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    rc.id,
+    rc.shared_recipe_id,
+    rc.user_id,
+    rc.parent_comment_id,
+    CASE
+      WHEN is_moderator(auth.uid()) THEN rc.comment
+      WHEN rc.deleted_at IS NOT NULL THEN ''
+      WHEN rc.hidden_at IS NOT NULL AND sr.user_id IS DISTINCT FROM auth.uid() THEN ''
+      ELSE rc.comment
+    END,
+    rc.created_at,
+    rc.updated_at,
+    rc.edited_at,
+    rc.deleted_at,
+    rc.hidden_at,
+    rc.hidden_by
+  FROM recipe_comments rc
+  JOIN shared_recipes sr ON sr.id = rc.shared_recipe_id
+  WHERE rc.shared_recipe_id = p_shared_recipe_id
+    AND (sr.is_public OR sr.user_id = auth.uid() OR is_moderator(auth.uid()))
+  ORDER BY rc.created_at;
+$$;
@@ -0,0 +1,94 @@
+-- "May contain" allergens (Open Food Facts traces_tags). Kept apart from
+-- declared allergens but warned about all the same. NULL means unknown.
+ALTER TABLE public.food_items
+ADD COLUMN allergen_traces TEXT[] CHECK (allergen_traces IS NULL OR public.is_valid_allergen_list(allergen_traces));
+
+-- Same as before, now also taking allergen traces
+CREATE OR REPLACE FUNCTION public.import_food_item(p_item JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_barcode TEXT := NULLIF(trim(p_item->>'barcode'), '');
+  v_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to import food items';
+  END IF;
+
+  IF COALESCE(trim(p_item->>'name'), '') = '' THEN
+    RAISE EXCEPTION 'Food name is required';
+  END IF;
+
+  IF v_barcode IS NULL THEN
+    RAISE EXCEPTION 'Imported food items need a barcode';
+  END IF;
+
+  INSERT INTO food_items AS f (
+    user_id, name, brand, barcode, calories_per_100g, protein_per_100g, carbs_per_100g,
+    fat_per_100g, fiber_per_100g, sugar_per_100g, sodium_per_100g, serving_size, serving_unit,
+    saturated_fat_per_100g, salt_per_100g, vitamin_a_per_100g, vitamin_c_per_100g, vitamin_d_per_100g,
+    calcium_per_100g, iron_per_100g, potassium_per_100g, nutriscore_grade, nova_group, allergens, allergen_traces, is_public
+  ) VALUES (
+    v_user_id,
+    trim(p_item->>'name'),
+    NULLIF(trim(p_item->>'brand'), ''),
+    v_barcode,
+    (p_item->>'calories_per_100g')::numeric,
+    (p_item->>'protein_per_100g')::numeric,
+    (p_item->>'carbs_per_100g')::numeric,
+    (p_item->>'fat_per_100g')::numeric,
+    (p_item->>'fiber_per_100g')::numeric,
+    (p_item->>'sugar_per_100g')::numeric,
+    (p_item->>'sodium_per_100g')::numeric,
+    (p_item->>'serving_size')::numeric,
+    NULLIF(p_item->>'serving_unit', ''),
+    (p_item->>'saturated_fat_per_100g')::numeric,
+    (p_item->>'salt_per_100g')::numeric,
+    (p_item->>'vitamin_a_per_100g')::numeric,
+    (p_item->>'vitamin_c_per_100g')::numeric,
+    (p_item->>'vitamin_d_per_100g')::numeric,
+    (p_item->>'calcium_per_100g')::numeric,
+    (p_item->>'iron_per_100g')::numeric,
+    (p_item->>'potassium_per_100g')::numeric,
+    NULLIF(lower(p_item->>'nutriscore_grade'), ''),
+    (p_item->>'nova_group')::smallint,
+    CASE WHEN jsonb_typeof(p_item->'allergens') = 'array'
+      THEN ARRAY(SELECT jsonb_array_elements_text(p_item->'allergens'))
+    END,
+    CASE WHEN jsonb_typeof(p_item->'allergen_traces') = 'array'
+      THEN ARRAY(SELECT jsonb_array_elements_text(p_item->'allergen_traces'))
+    END,
+    true
+  )
+  ON CONFLICT (barcode) WHERE is_public AND barcode IS NOT NULL DO UPDATE SET
+    brand = COALESCE(f.brand, EXCLUDED.brand),
+    calories_per_100g = COALESCE(f.calories_per_100g, EXCLUDED.calories_per_100g),
+    protein_per_100g = COALESCE(f.protein_per_100g, EXCLUDED.protein_per_100g),
+    carbs_per_100g = COALESCE(f.carbs_per_100g, EXCLUDED.carbs_per_100g),
+    fat_per_100g = COALESCE(f.fat_per_100g, EXCLUDED.fat_per_100g),
+    fiber_per_100g = COALESCE(f.fiber_per_100g, EXCLUDED.fiber_per_100g),
+    sugar_per_100g = COALESCE(f.sugar_per_100g, EXCLUDED.sugar_per_100g),
+    sodium_per_100g = COALESCE(f.sodium_per_100g, EXCLUDED.sodium_per_100g),
+    serving_size = COALESCE(f.serving_size, EXCLUDED.serving_size),
+    serving_unit = COALESCE(f.serving_unit, EXCLUDED.serving_unit),
+    saturated_fat_per_100g = COALESCE(f.saturated_fat_per_100g, EXCLUDED.saturated_fat_per_100g),
+    salt_per_100g = COALESCE(f.salt_per_100g, EXCLUDED.salt_per_100g),
+    vitamin_a_per_100g = COALESCE(f.vitamin_a_per_100g, EXCLUDED.vitamin_a_per_100g),
+    vitamin_c_per_100g = COALESCE(f.vitamin_c_per_100g, EXCLUDED.vitamin_c_per_100g),
+    vitamin_d_per_100g = COALESCE(f.vitamin_d_per_100g, EXCLUDED.vitamin_d_per_100g),
+    calcium_per_100g = COALESCE(f.calcium_per_100g, EXCLUDED.calcium_per_100g),
+    iron_per_100g = COALESCE(f.iron_per_100g, EXCLUDED.iron_per_100g),
+    potassium_per_100g = COALESCE(f.potassium_per_100g, EXCLUDED.potassium_per_100g),
+    nutriscore_grade = COALESCE(f.nutriscore_grade, EXCLUDED.nutriscore_grade),
+    nova_group = COALESCE(f.nova_group, EXCLUDED.nova_group),
+    allergens = COALESCE(f.allergens, EXCLUDED.allergens),
+    allergen_traces = COALESCE(f.allergen_traces, EXCLUDED.allergen_traces)
+  RETURNING f.id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
@@ -0,0 +1,47 @@
+-- Events the auto-planner created. Only these are replaced when a week is
+-- planned again; meals added by hand and meals already cooked stay put.
+ALTER TABLE public.meal_plan_events
+ADD COLUMN auto_planned BOOLEAN NOT NULL DEFAULT false;
+
+UPDATE public.meal_plan_events SET auto_planned = true WHERE notes LIKE 'Auto-planned:%';
+
+-- Replaces a week's auto-planned events for the given meal types with a new
+-- plan in one transaction, so a failed insert can't leave the week empty.
+-- Locked and cooked events are never replaced.
+CREATE OR REPLACE FUNCTION public.apply_meal_plan(p_week_start DATE, p_meal_types TEXT[], p_events JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_count INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to plan meals';
+  END IF;
+
+  DELETE FROM meal_plan_events
+  WHERE user_id = v_user_id
+    AND auto_planned
+    AND NOT is_locked
+    AND cooked_at IS NULL
+    AND meal_type = ANY(p_meal_types)
+    AND date BETWEEN p_week_start AND p_week_start + 6;
+
+  INSERT INTO meal_plan_events (user_id, date, meal_type, title, recipe_id, start_time, notes, auto_planned)
+  SELECT
+    v_user_id,
+    (e->>'date')::date,
+    e->>'meal_type',
+    e->>'title',
+    (e->>'recipe_id')::uuid,
+    (e->>'start_time')::time,
+    NULLIF(e->>'notes', ''),
+    true
+  FROM jsonb_array_elements(COALESCE(p_events, '[]'::jsonb)) AS e;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
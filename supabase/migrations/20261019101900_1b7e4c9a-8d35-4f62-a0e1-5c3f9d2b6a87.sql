@@ -0,0 +1,78 @@
+-- Saves a meal and its nutrition log in one transaction, so a meal is never
+-- left without its log (or with a stale one) when a request fails halfway.
+-- With no p_meal_id a new meal is created from p_meal; otherwise only the
+-- fields present in p_meal are changed. The log is replaced when
+-- p_replace_log is set, and removed when p_nutrition is NULL (custom meals
+-- or amounts that can't be converted).
+CREATE OR REPLACE FUNCTION public.save_meal(
+  p_meal_id UUID,
+  p_meal JSONB,
+  p_nutrition JSONB,
+  p_replace_log BOOLEAN DEFAULT true
+)
+RETURNS public.meals
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_meal meals;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to log meals';
+  END IF;
+
+  IF p_meal_id IS NULL THEN
+    v_meal := jsonb_populate_record(NULL::meals, p_meal);
+
+    INSERT INTO meals (
+      user_id, date, meal_type, meal_name, meal_plan_id, food_item_id,
+      recipe_id, ready_meal_id, quantity, unit, rating, notes
+    ) VALUES (
+      v_user_id, v_meal.date, v_meal.meal_type, v_meal.meal_name, v_meal.meal_plan_id, v_meal.food_item_id,
+      v_meal.recipe_id, v_meal.ready_meal_id, v_meal.quantity, v_meal.unit, v_meal.rating, v_meal.notes
+    )
+    RETURNING * INTO v_meal;
+  ELSE
+    SELECT * INTO v_meal FROM meals WHERE id = p_meal_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Meal not found';
+    END IF;
+
+    v_meal := jsonb_populate_record(v_meal, p_meal - 'id' - 'user_id' - 'created_at');
+
+    UPDATE meals SET
+      date = v_meal.date,
+      meal_type = v_meal.meal_type,
+      meal_name = v_meal.meal_name,
+      meal_plan_id = v_meal.meal_plan_id,
+      food_item_id = v_meal.food_item_id,
+      recipe_id = v_meal.recipe_id,
+      ready_meal_id = v_meal.ready_meal_id,
+      quantity = v_meal.quantity,
+      unit = v_meal.unit,
+      rating = v_meal.rating,
+      notes = v_meal.notes
+    WHERE id = p_meal_id
+    RETURNING * INTO v_meal;
+  END IF;
+
+  IF p_replace_log THEN
+    DELETE FROM nutrition_logs WHERE meal_id = v_meal.id;
+
+    IF p_nutrition IS NOT NULL THEN
+      INSERT INTO nutrition_logs (
+        user_id, date, meal_id, calories, protein, carbs, fat, fiber, sugar, sodium,
+        saturated_fat, salt, vitamin_a, vitamin_c, vitamin_d, calcium, iron, potassium
+      )
+      SELECT
+        v_meal.user_id, v_meal.date, v_meal.id, n.calories, n.protein, n.carbs, n.fat, n.fiber, n.sugar, n.sodium,
+        n.saturated_fat, n.salt, n.vitamin_a, n.vitamin_c, n.vitamin_d, n.calcium, n.iron, n.potassium
+      FROM jsonb_populate_record(NULL::nutrition_logs, p_nutrition) AS n;
+    END IF;
+  END IF;
+
+  RETURN v_meal;
+END;
+$$;
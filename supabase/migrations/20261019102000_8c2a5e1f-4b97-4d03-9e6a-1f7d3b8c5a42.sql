@@ -0,0 +1,32 @@
+-- Adds to or takes from pantry stock with quantity = quantity + change, so
+-- changes made at the same time aren't lost. Stock never goes below zero.
+-- Each change is { id, change } in the pantry item's own unit.
+CREATE OR REPLACE FUNCTION public.adjust_pantry_items(p_changes JSONB)
+RETURNS VOID
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE pantry_items p SET quantity = GREATEST(0, p.quantity + c.change)
+  FROM jsonb_to_recordset(COALESCE(p_changes, '[]'::jsonb)) AS c(id UUID, change NUMERIC)
+  WHERE p.id = c.id AND p.user_id = auth.uid();
+$$;
+
+-- Marks a planned event cooked and takes its ingredients out of the pantry in
+-- one transaction. Returns false, changing nothing, if it was already cooked.
+CREATE OR REPLACE FUNCTION public.cook_meal_plan_event(p_event_id UUID, p_changes JSONB)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE meal_plan_events SET cooked_at = now()
+  WHERE id = p_event_id AND user_id = auth.uid() AND cooked_at IS NULL;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  PERFORM adjust_pantry_items(p_changes);
+  RETURN true;
+END;
+$$;
@@ -0,0 +1,102 @@
+-- Same as before, but an ingredient that can't be matched is never left out:
+-- `available` is false rather than NULL when the ingredient has no name, so
+-- it still counts as missing. Missing ingredients without a name of their own
+-- or a linked food item are listed as "Unnamed ingredient".
+CREATE OR REPLACE FUNCTION public.find_recipes_by_ingredients(
+  p_ingredients TEXT[] DEFAULT '{}',
+  p_food_item_ids UUID[] DEFAULT '{}',
+  p_include_community BOOLEAN DEFAULT true,
+  p_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  recipe_id UUID,
+  shared_recipe_id UUID,
+  is_own BOOLEAN,
+  name TEXT,
+  description TEXT,
+  prep_time INTEGER,
+  cook_time INTEGER,
+  servings INTEGER,
+  total_ingredients INTEGER,
+  matched_ingredients INTEGER,
+  coverage NUMERIC,
+  missing JSONB
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_terms TEXT[];
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to find recipes';
+  END IF;
+
+  SELECT COALESCE(array_agg(DISTINCT lower(trim(term))), '{}')
+  INTO v_terms
+  FROM unnest(p_ingredients) AS term
+  WHERE length(trim(term)) >= 2;
+
+  RETURN QUERY
+  WITH candidates AS (
+    -- A recipe the caller owns is listed as theirs even if they also shared it
+    SELECT DISTINCT ON (r.id)
+      r.id, sr.id AS shared_id, r.user_id = v_user_id AS own,
+      r.name, r.description, r.prep_time, r.cook_time, r.servings
+    FROM recipes r
+    LEFT JOIN shared_recipes sr ON sr.recipe_id = r.id AND sr.is_public = true
+    WHERE r.user_id = v_user_id
+       OR (p_include_community AND sr.id IS NOT NULL)
+    ORDER BY r.id, (r.user_id = v_user_id) DESC, sr.created_at
+  ),
+  ingredients AS (
+    SELECT
+      c.id AS recipe_id,
+      COALESCE(ri.ingredient_name, fi.name) AS ingredient,
+      ri.quantity,
+      ri.unit,
+      ri.food_item_id,
+      ri.position,
+      COALESCE(
+        ri.food_item_id = ANY(p_food_item_ids)
+        OR EXISTS (
+          SELECT 1 FROM unnest(v_terms) AS term
+          WHERE lower(COALESCE(ri.ingredient_name, fi.name)) LIKE '%' || term || '%'
+             OR term LIKE '%' || lower(COALESCE(ri.ingredient_name, fi.name)) || '%'
+        ),
+        false
+      ) AS available
+    FROM candidates c
+    JOIN recipe_ingredients ri ON ri.recipe_id = c.id
+    LEFT JOIN food_items fi ON fi.id = ri.food_item_id
+  ),
+  scored AS (
+    SELECT
+      i.recipe_id,
+      count(*)::INTEGER AS total,
+      count(*) FILTER (WHERE i.available)::INTEGER AS matched,
+      COALESCE(
+        jsonb_agg(
+          jsonb_build_object('name', COALESCE(i.ingredient, 'Unnamed ingredient'), 'quantity', i.quantity, 'unit', i.unit, 'food_item_id', i.food_item_id)
+          ORDER BY i.position
+        ) FILTER (WHERE NOT i.available),
+        '[]'::jsonb
+      ) AS missing_items
+    FROM ingredients i
+    GROUP BY i.recipe_id
+  )
+  SELECT
+    c.id, c.shared_id, c.own, c.name, c.description, c.prep_time, c.cook_time, c.servings,
+    s.total, s.matched,
+    round(s.matched::NUMERIC / s.total, 3),
+    s.missing_items
+  FROM scored s
+  JOIN candidates c ON c.id = s.recipe_id
+  WHERE s.matched > 0
+  ORDER BY s.matched::NUMERIC / s.total DESC, s.total - s.matched, c.own DESC, c.name
+  LIMIT LEAST(GREATEST(p_limit, 1), 100);
+END;
+$$;
@@ -0,0 +1,144 @@
+-- Sorting by the caller's ratings and cooking history, and the minimum rating
+-- filter, now happen in search_recipes so they cover every match rather than
+-- only the pages already loaded. The stats follow RecipeStatsService: the
+-- rating is the average of the caller's own meal ratings, falling back to the
+-- community rating of their shared copy; a recipe is cooked once per day it
+-- was logged as a meal or a planned event was marked cooked.
+DROP FUNCTION IF EXISTS public.search_recipes(TEXT, TEXT[], TEXT[], TEXT[], TEXT[], INTEGER, INTEGER, INTEGER, INTEGER);
+
+-- Searches the recipes the caller can see. Every word of p_query must match as
+-- a prefix somewhere in the search document; recipe names that are a close
+-- trigram match also count, so small typos still find the recipe. Ingredient
+-- terms match anywhere in an ingredient name ("chick" matches "chickpeas").
+-- p_sort is one of relevance (the default), name, top_rated, most_cooked,
+-- recently_cooked or not_cooked_lately; ties fall back to name order.
+-- Recipes cooked longest ago come first for not_cooked_lately, with
+-- never-cooked ones last. total_count is the number of matches before paging.
+CREATE OR REPLACE FUNCTION public.search_recipes(
+  p_query TEXT DEFAULT NULL,
+  p_include_ingredients TEXT[] DEFAULT '{}',
+  p_exclude_ingredients TEXT[] DEFAULT '{}',
+  p_meal_types TEXT[] DEFAULT '{}',
+  p_dietary TEXT[] DEFAULT '{}',
+  p_min_total_time INTEGER DEFAULT NULL,
+  p_max_total_time INTEGER DEFAULT NULL,
+  p_sort TEXT DEFAULT 'relevance',
+  p_min_rating NUMERIC DEFAULT NULL,
+  p_limit INTEGER DEFAULT 24,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  user_id UUID,
+  name TEXT,
+  description TEXT,
+  instructions TEXT,
+  prep_time INTEGER,
+  cook_time INTEGER,
+  servings INTEGER,
+  image_url TEXT,
+  tags TEXT[],
+  meal_times TEXT[],
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  rank REAL,
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_query TEXT := NULLIF(trim(p_query), '');
+  v_tsquery TSQUERY;
+BEGIN
+  IF v_query IS NOT NULL THEN
+    SELECT to_tsquery('english', string_agg(quote_literal(word) || ':*', ' & '))
+    INTO v_tsquery
+    FROM regexp_split_to_table(lower(v_query), '[^[:alnum:]]+') AS word
+    WHERE word <> '';
+  END IF;
+
+  RETURN QUERY
+  WITH matches AS (
+    SELECT
+      r.*,
+      (CASE WHEN v_tsquery IS NULL THEN 0 ELSE ts_rank_cd(r.search_vector, v_tsquery) END
+        + CASE WHEN v_query IS NULL THEN 0 ELSE similarity(r.name, v_query) END)::REAL AS match_rank
+    FROM recipes r
+    WHERE (
+      v_query IS NULL
+      OR (v_tsquery IS NOT NULL AND r.search_vector @@ v_tsquery)
+      OR r.name % v_query
+    )
+    AND NOT EXISTS (
+      SELECT 1
+      FROM unnest(p_include_ingredients) AS term
+      WHERE trim(term) <> ''
+        AND NOT EXISTS (
+          SELECT 1
+          FROM recipe_ingredients ri
+          LEFT JOIN food_items fi ON fi.id = ri.food_item_id
+          WHERE ri.recipe_id = r.id
+            AND COALESCE(ri.ingredient_name, fi.name) ILIKE '%' || trim(term) || '%'
+        )
+    )
+    AND NOT EXISTS (
+      SELECT 1
+      FROM unnest(p_exclude_ingredients) AS term
+      JOIN recipe_ingredients ri ON ri.recipe_id = r.id
+      LEFT JOIN food_items fi ON fi.id = ri.food_item_id
+      WHERE trim(term) <> ''
+        AND COALESCE(ri.ingredient_name, fi.name) ILIKE '%' || trim(term) || '%'
+    )
+    AND (
+      cardinality(p_meal_types) = 0
+      OR r.meal_times && p_meal_types
+      OR r.tags && p_meal_types
+    )
+    AND (cardinality(p_dietary) = 0 OR r.tags && p_dietary)
+    AND (p_min_total_time IS NULL OR COALESCE(r.prep_time, 0) + COALESCE(r.cook_time, 0) >= p_min_total_time)
+    AND (p_max_total_time IS NULL OR COALESCE(r.prep_time, 0) + COALESCE(r.cook_time, 0) <= p_max_total_time)
+  ),
+  ranked AS (
+    SELECT m.*, st.rating, st.times_cooked, st.last_cooked
+    FROM matches m
+    LEFT JOIN LATERAL (
+      SELECT
+        COALESCE(
+          (SELECT avg(ml.rating) FROM meals ml
+           WHERE ml.user_id = v_user_id AND ml.recipe_id = m.id AND ml.rating > 0),
+          (SELECT sr.average_rating FROM shared_recipes sr
+           WHERE sr.user_id = v_user_id AND sr.recipe_id = m.id AND sr.total_ratings > 0
+           ORDER BY sr.created_at DESC LIMIT 1)
+        ) AS rating,
+        count(DISTINCT cooked.date) AS times_cooked,
+        max(cooked.date) AS last_cooked
+      FROM (
+        SELECT ml.date FROM meals ml WHERE ml.user_id = v_user_id AND ml.recipe_id = m.id
+        UNION
+        SELECT e.date FROM meal_plan_events e
+        WHERE e.user_id = v_user_id AND e.recipe_id = m.id AND e.cooked_at IS NOT NULL
+      ) AS cooked
+    ) AS st ON true
+    WHERE p_min_rating IS NULL OR st.rating >= p_min_rating
+  )
+  SELECT
+    m.id, m.user_id, m.name, m.description, m.instructions, m.prep_time, m.cook_time,
+    m.servings, m.image_url, m.tags, m.meal_times, m.created_at, m.updated_at,
+    m.match_rank,
+    count(*) OVER ()
+  FROM ranked m
+  ORDER BY
+    CASE WHEN p_sort = 'relevance' THEN m.match_rank END DESC,
+    CASE WHEN p_sort = 'top_rated' THEN COALESCE(m.rating, -1) END DESC,
+    CASE WHEN p_sort = 'most_cooked' THEN m.times_cooked END DESC,
+    CASE WHEN p_sort = 'recently_cooked' THEN m.last_cooked END DESC NULLS LAST,
+    CASE WHEN p_sort = 'not_cooked_lately' THEN m.last_cooked END ASC NULLS LAST,
+    m.name
+  LIMIT LEAST(GREATEST(p_limit, 1), 100)
+  OFFSET GREATEST(p_offset, 0);
+END;
+$$;
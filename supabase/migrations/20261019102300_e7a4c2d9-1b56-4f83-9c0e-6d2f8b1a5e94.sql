@@ -0,0 +1,57 @@
+-- Public catalogue rows are still recorded against whoever first imported
+-- them, but they belong to everyone: only admins may change or remove them,
+-- or publish rows directly. Imports and merges go through definer functions.
+-- Restrictive, so these apply on top of the existing food_items policies.
+CREATE POLICY "Only admins can add public food items" ON public.food_items
+AS RESTRICTIVE FOR INSERT
+WITH CHECK (NOT COALESCE(is_public, false) OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Only admins can change public food items" ON public.food_items
+AS RESTRICTIVE FOR UPDATE
+USING (NOT COALESCE(is_public, false) OR public.has_role(auth.uid(), 'admin'))
+WITH CHECK (NOT COALESCE(is_public, false) OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Only admins can delete public food items" ON public.food_items
+AS RESTRICTIVE FOR DELETE
+USING (NOT COALESCE(is_public, false) OR public.has_role(auth.uid(), 'admin'));
+
+-- Same as before, and a private item can only absorb items of the same owner;
+-- otherwise another user's meals and recipes would end up pointing at a row
+-- they can't see
+CREATE OR REPLACE FUNCTION public.merge_food_items(p_survivor_id UUID, p_duplicate_ids UUID[])
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_survivor_public BOOLEAN;
+  v_survivor_owner UUID;
+BEGIN
+  IF auth.uid() IS NULL OR NOT has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can merge food items';
+  END IF;
+
+  SELECT COALESCE(is_public, false), user_id INTO v_survivor_public, v_survivor_owner
+  FROM food_items WHERE id = p_survivor_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Food item not found';
+  END IF;
+
+  -- Folding a public item into a private one would take it away from everyone else
+  IF NOT v_survivor_public AND EXISTS (
+    SELECT 1 FROM food_items WHERE id = ANY(p_duplicate_ids) AND is_public
+  ) THEN
+    RAISE EXCEPTION 'Public food items can only be merged into another public item';
+  END IF;
+
+  IF NOT v_survivor_public AND EXISTS (
+    SELECT 1 FROM food_items
+    WHERE id = ANY(p_duplicate_ids) AND id <> p_survivor_id AND user_id IS DISTINCT FROM v_survivor_owner
+  ) THEN
+    RAISE EXCEPTION 'A private food item can only be merged with items of the same owner';
+  END IF;
+
+  RETURN repoint_food_items(p_survivor_id, p_duplicate_ids);
+END;
+$$;
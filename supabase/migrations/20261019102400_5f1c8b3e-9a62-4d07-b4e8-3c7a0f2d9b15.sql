@@ -0,0 +1,78 @@
+-- Recipes copied from a shared meal plan remember the recipe they were copied
+-- from, so importing the same (or another) plan again reuses the copy instead
+-- of creating a duplicate each time
+ALTER TABLE public.recipes
+ADD COLUMN copied_from_recipe_id UUID;
+
+CREATE INDEX idx_recipes_copied_from ON public.recipes(user_id, copied_from_recipe_id)
+WHERE copied_from_recipe_id IS NOT NULL;
+
+-- Adds a shared plan to the caller's calendar starting on p_week_start, in one
+-- transaction. Each snapshot recipe maps to the caller's own recipe when they
+-- published it, or to their earlier copy of it; otherwise it's copied into
+-- their account first. Returns how many events were created.
+CREATE OR REPLACE FUNCTION public.import_shared_meal_plan(p_plan_id UUID, p_week_start DATE)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_events JSONB;
+  v_recipes JSONB;
+  v_recipe JSONB;
+  v_source_id UUID;
+  v_recipe_id UUID;
+  v_recipe_ids JSONB := '{}'::jsonb;
+  v_count INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to import meal plans';
+  END IF;
+
+  SELECT events, recipes INTO v_events, v_recipes FROM shared_meal_plans WHERE id = p_plan_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Meal plan not found';
+  END IF;
+
+  FOR v_recipe IN SELECT * FROM jsonb_array_elements(v_recipes)
+  LOOP
+    v_source_id := (v_recipe->>'id')::uuid;
+
+    SELECT id INTO v_recipe_id
+    FROM recipes
+    WHERE user_id = v_user_id AND (id = v_source_id OR copied_from_recipe_id = v_source_id)
+    ORDER BY id = v_source_id DESC, created_at DESC
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+      v_recipe_id := save_recipe_with_ingredients(
+        v_recipe - 'id' - 'user_id' - 'ingredients',
+        COALESCE(v_recipe->'ingredients', '[]'::jsonb)
+      );
+      UPDATE recipes SET copied_from_recipe_id = v_source_id WHERE id = v_recipe_id;
+    END IF;
+
+    v_recipe_ids := v_recipe_ids || jsonb_build_object(v_source_id::text, v_recipe_id);
+  END LOOP;
+
+  INSERT INTO meal_plan_events (
+    user_id, date, meal_type, title, start_time, end_time, notes, servings, recipe_id
+  )
+  SELECT
+    v_user_id,
+    p_week_start + (e->>'day')::integer,
+    e->>'meal_type',
+    e->>'title',
+    (e->>'start_time')::time,
+    (e->>'end_time')::time,
+    e->>'notes',
+    (e->>'servings')::numeric,
+    (v_recipe_ids->>(e->>'recipe_id'))::uuid
+  FROM jsonb_array_elements(v_events) AS e;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
@@ -0,0 +1,56 @@
+-- Same as before, marking the transaction so the guard below lets the new
+-- aggregates through
+CREATE OR REPLACE FUNCTION public.refresh_shared_recipe_rating(p_shared_recipe_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  c_prior_mean CONSTANT NUMERIC := 3.5;
+  c_prior_weight CONSTANT NUMERIC := 5;
+BEGIN
+  PERFORM set_config('app.refreshing_recipe_rating', 'on', true);
+
+  UPDATE shared_recipes sr SET
+    total_ratings = agg.total,
+    average_rating = CASE WHEN agg.total > 0 THEN round(agg.sum / agg.total, 2) ELSE 0 END,
+    bayesian_score = round((c_prior_mean * c_prior_weight + agg.sum) / (c_prior_weight + agg.total), 3)
+  FROM (
+    SELECT count(*) AS total, COALESCE(sum(rating), 0) AS sum
+    FROM recipe_ratings
+    WHERE shared_recipe_id = p_shared_recipe_id
+  ) agg
+  WHERE sr.id = p_shared_recipe_id;
+
+  PERFORM set_config('app.refreshing_recipe_rating', 'off', true);
+END;
+$$;
+
+-- The rating aggregates only ever come from refresh_shared_recipe_rating.
+-- Any other update, e.g. an owner editing their shared recipe, leaves them as
+-- they were.
+CREATE OR REPLACE FUNCTION public.guard_shared_recipe_rating()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_setting('app.refreshing_recipe_rating', true) IS DISTINCT FROM 'on' THEN
+    NEW.average_rating := OLD.average_rating;
+    NEW.total_ratings := OLD.total_ratings;
+    NEW.bayesian_score := OLD.bayesian_score;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_shared_recipe_rating
+BEFORE UPDATE ON public.shared_recipes
+FOR EACH ROW EXECUTE FUNCTION public.guard_shared_recipe_rating();
+
+-- Ratings owners gave their own recipes before self-rating was blocked. The
+-- ratings trigger refreshes each recipe's aggregates as they go.
+DELETE FROM public.recipe_ratings rr
+USING public.shared_recipes sr
+WHERE sr.id = rr.shared_recipe_id AND sr.user_id = rr.user_id;
@@ -0,0 +1,35 @@
+-- Soft-deleting a comment hides it from the read policy, and Postgres checks
+-- the updated row against that policy too, so authors couldn't delete their
+-- own comments with a plain update. Deleting goes through this instead.
+CREATE OR REPLACE FUNCTION public.delete_recipe_comment(p_comment_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_author UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to delete comments';
+  END IF;
+
+  SELECT user_id INTO v_author
+  FROM recipe_comments
+  WHERE id = p_comment_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Comment not found';
+  END IF;
+
+  IF v_author IS DISTINCT FROM v_user_id THEN
+    RAISE EXCEPTION 'Only the author can delete a comment';
+  END IF;
+
+  UPDATE recipe_comments SET
+    comment = '',
+    deleted_at = now()
+  WHERE id = p_comment_id;
+END;
+$$;
@@ -0,0 +1,8 @@
+-- A recipe with no ratings scores the prior mean, as refresh_shared_recipe_rating
+-- would give it, so new shares aren't ranked below every rated recipe
+ALTER TABLE public.shared_recipes ALTER COLUMN bayesian_score SET DEFAULT 3.5;
+
+-- Shares made before this still sit at 0
+SELECT public.refresh_shared_recipe_rating(id)
+FROM public.shared_recipes
+WHERE bayesian_score = 0;
@@ -0,0 +1,27 @@
+-- The guard now covers inserts too, so a share can't be created with rating
+-- aggregates of its own. A new share starts with no ratings, the same values
+-- refresh_shared_recipe_rating gives a recipe nobody has rated.
+CREATE OR REPLACE FUNCTION public.guard_shared_recipe_rating()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_setting('app.refreshing_recipe_rating', true) IS DISTINCT FROM 'on' THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.average_rating := 0;
+      NEW.total_ratings := 0;
+      NEW.bayesian_score := 3.5;
+    ELSE
+      NEW.average_rating := OLD.average_rating;
+      NEW.total_ratings := OLD.total_ratings;
+      NEW.bayesian_score := OLD.bayesian_score;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_shared_recipe_rating_insert
+BEFORE INSERT ON public.shared_recipes
+FOR EACH ROW EXECUTE FUNCTION public.guard_shared_recipe_rating();